@@ -0,0 +1,20 @@
+import PermissionChecker from '../../services/user/permissionChecker';
+import ApiResponseHandler from '../apiResponseHandler';
+import Permissions from '../../security/permissions';
+import AreaService from '../../services/areaService';
+
+export default async (req, res, next) => {
+  try {
+    new PermissionChecker(req).validateHas(
+      Permissions.values.areaDestroy,
+    );
+
+    await new AreaService(req).destroyAll(req.query.ids);
+
+    const payload = true;
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
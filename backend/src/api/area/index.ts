@@ -0,0 +1,26 @@
+export default (app) => {
+  app.post(
+    `/tenant/:tenantId/area`,
+    require('./areaCreate').default,
+  );
+  app.put(
+    `/tenant/:tenantId/area/:id`,
+    require('./areaUpdate').default,
+  );
+  app.delete(
+    `/tenant/:tenantId/area`,
+    require('./areaDestroy').default,
+  );
+  app.get(
+    `/tenant/:tenantId/area/autocomplete`,
+    require('./areaAutocomplete').default,
+  );
+  app.get(
+    `/tenant/:tenantId/area`,
+    require('./areaList').default,
+  );
+  app.get(
+    `/tenant/:tenantId/area/:id`,
+    require('./areaFind').default,
+  );
+};
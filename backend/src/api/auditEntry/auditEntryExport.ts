@@ -0,0 +1,25 @@
+import PermissionChecker from '../../services/user/permissionChecker';
+import ApiResponseHandler from '../apiResponseHandler';
+import Permissions from '../../security/permissions';
+import AuditTrailService from '../../services/auditTrailService';
+
+export default async (req, res, next) => {
+  try {
+    new PermissionChecker(req).validateHas(
+      Permissions.values.auditEntryExport,
+    );
+
+    const csv = await new AuditTrailService(req).exportCsv(
+      req.query.filter || {},
+    );
+
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader(
+      'Content-Disposition',
+      'attachment; filename="audit-trail.csv"',
+    );
+    res.status(200).send(csv);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
@@ -0,0 +1,10 @@
+export default (app) => {
+  app.get(
+    `/tenant/:tenantId/audit-entry`,
+    require('./auditEntryList').default,
+  );
+  app.get(
+    `/tenant/:tenantId/audit-entry/export`,
+    require('./auditEntryExport').default,
+  );
+};
@@ -0,0 +1,14 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import AuthSessionService from '../../services/auth/authSessionService';
+
+export default async (req, res, next) => {
+  try {
+    const payload = await new AuthSessionService(
+      req,
+    ).refresh(req.body.refreshToken);
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
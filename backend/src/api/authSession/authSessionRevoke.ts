@@ -0,0 +1,14 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import AuthSessionService from '../../services/auth/authSessionService';
+
+export default async (req, res, next) => {
+  try {
+    await new AuthSessionService(req).revoke(req.params.id);
+
+    const payload = true;
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
@@ -0,0 +1,14 @@
+export default (app) => {
+  app.post(
+    `/auth/refresh`,
+    require('./authSessionRefresh').default,
+  );
+  app.get(
+    `/auth/session`,
+    require('./authSessionList').default,
+  );
+  app.delete(
+    `/auth/session/:id`,
+    require('./authSessionRevoke').default,
+  );
+};
@@ -0,0 +1,10 @@
+export default (app) => {
+  app.get(
+    `/tenant/:tenantId/auth-settings`,
+    require('./authSettingsFind').default,
+  );
+  app.put(
+    `/tenant/:tenantId/auth-settings`,
+    require('./authSettingsSave').default,
+  );
+};
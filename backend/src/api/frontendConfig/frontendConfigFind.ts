@@ -0,0 +1,12 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import FrontendConfigService from '../../services/frontendConfigService';
+
+export default async (req, res, next) => {
+  try {
+    const payload = new FrontendConfigService(req).find();
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
@@ -0,0 +1,6 @@
+export default (app) => {
+  app.get(
+    `/config`,
+    require('./frontendConfigFind').default,
+  );
+};
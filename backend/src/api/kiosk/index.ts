@@ -0,0 +1,16 @@
+export default (app) => {
+  app.get(`/kiosk`, require('./kioskFind').default);
+  app.post(
+    `/kiosk/lookup`,
+    require('./kioskLookup').default,
+  );
+  app.post(`/kiosk/scan`, require('./kioskScan').default);
+  app.put(
+    `/kiosk/visitor/:id/photo`,
+    require('./kioskPhotoSave').default,
+  );
+  app.post(
+    `/kiosk/visitor/:id/check-in`,
+    require('./kioskCheckIn').default,
+  );
+};
@@ -0,0 +1,21 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import KioskDeviceService from '../../services/kioskDeviceService';
+import KioskService from '../../services/kioskService';
+
+export default async (req, res, next) => {
+  try {
+    const options = await new KioskDeviceService(
+      req,
+    ).authenticate(req.headers['x-kiosk-token']);
+
+    const payload = await new KioskService(options).checkIn(
+      req.params.id,
+      req.body.proof,
+      req.body.siteRulesAccepted,
+    );
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
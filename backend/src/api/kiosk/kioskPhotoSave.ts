@@ -0,0 +1,23 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import KioskDeviceService from '../../services/kioskDeviceService';
+import KioskService from '../../services/kioskService';
+
+export default async (req, res, next) => {
+  try {
+    const options = await new KioskDeviceService(
+      req,
+    ).authenticate(req.headers['x-kiosk-token']);
+
+    await new KioskService(options).savePhoto(
+      req.params.id,
+      req.body.proof,
+      req.body.photo,
+    );
+
+    const payload = true;
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
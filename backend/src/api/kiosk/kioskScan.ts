@@ -0,0 +1,19 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import KioskDeviceService from '../../services/kioskDeviceService';
+import KioskService from '../../services/kioskService';
+
+export default async (req, res, next) => {
+  try {
+    const options = await new KioskDeviceService(
+      req,
+    ).authenticate(req.headers['x-kiosk-token']);
+
+    const payload = await new KioskService(options).scan(
+      req.body.token,
+    );
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
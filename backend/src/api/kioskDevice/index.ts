@@ -0,0 +1,14 @@
+export default (app) => {
+  app.get(
+    `/tenant/:tenantId/kiosk-device`,
+    require('./kioskDeviceList').default,
+  );
+  app.post(
+    `/tenant/:tenantId/kiosk-device`,
+    require('./kioskDeviceCreate').default,
+  );
+  app.delete(
+    `/tenant/:tenantId/kiosk-device/:id`,
+    require('./kioskDeviceRevoke').default,
+  );
+};
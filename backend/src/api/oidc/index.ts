@@ -0,0 +1,11 @@
+export default (app) => {
+  app.get(`/auth/oidc`, require('./oidcProvider').default);
+  app.get(
+    `/auth/oidc/authorize`,
+    require('./oidcAuthorize').default,
+  );
+  app.post(
+    `/auth/oidc/callback`,
+    require('./oidcCallback').default,
+  );
+};
@@ -0,0 +1,15 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import OidcService from '../../services/auth/oidcService';
+
+export default async (req, res, next) => {
+  try {
+    const payload = await new OidcService(req).authorize(
+      req.query.tenantId,
+      req.query.rememberMe === 'true',
+    );
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
@@ -0,0 +1,16 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import OidcService from '../../services/auth/oidcService';
+
+export default async (req, res, next) => {
+  try {
+    const payload = await new OidcService(req).callback(
+      req.body.code,
+      req.body.state,
+      req.body.codeVerifier,
+    );
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
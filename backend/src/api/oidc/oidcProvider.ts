@@ -0,0 +1,14 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import OidcService from '../../services/auth/oidcService';
+
+export default async (req, res, next) => {
+  try {
+    const payload = await new OidcService(req).provider(
+      req.query.tenantId,
+    );
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
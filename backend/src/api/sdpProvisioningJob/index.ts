@@ -0,0 +1,10 @@
+export default (app) => {
+  app.get(
+    `/tenant/:tenantId/sdp-provisioning-job`,
+    require('./sdpProvisioningJobList').default,
+  );
+  app.post(
+    `/tenant/:tenantId/sdp-provisioning-job/:id/retry`,
+    require('./sdpProvisioningJobRetry').default,
+  );
+};
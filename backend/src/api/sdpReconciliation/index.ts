@@ -0,0 +1,14 @@
+export default (app) => {
+  app.post(
+    `/tenant/:tenantId/sdp-reconciliation`,
+    require('./sdpReconciliationRun').default,
+  );
+  app.get(
+    `/tenant/:tenantId/sdp-reconciliation`,
+    require('./sdpReconciliationList').default,
+  );
+  app.get(
+    `/tenant/:tenantId/sdp-reconciliation/:id`,
+    require('./sdpReconciliationFind').default,
+  );
+};
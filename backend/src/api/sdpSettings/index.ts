@@ -0,0 +1,10 @@
+export default (app) => {
+  app.get(
+    `/tenant/:tenantId/sdp-settings`,
+    require('./sdpSettingsFind').default,
+  );
+  app.put(
+    `/tenant/:tenantId/sdp-settings`,
+    require('./sdpSettingsSave').default,
+  );
+};
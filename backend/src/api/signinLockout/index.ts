@@ -0,0 +1,10 @@
+export default (app) => {
+  app.get(
+    `/tenant/:tenantId/signin-lockout`,
+    require('./signinLockoutList').default,
+  );
+  app.delete(
+    `/tenant/:tenantId/signin-lockout/:id`,
+    require('./signinLockoutUnlock').default,
+  );
+};
@@ -0,0 +1,26 @@
+export default (app) => {
+  app.post(
+    `/auth/sign-in/two-factor`,
+    require('./twoFactorSignin').default,
+  );
+  app.get(
+    `/auth/two-factor`,
+    require('./twoFactorStatus').default,
+  );
+  app.post(
+    `/auth/two-factor/enroll`,
+    require('./twoFactorEnroll').default,
+  );
+  app.post(
+    `/auth/two-factor/enable`,
+    require('./twoFactorEnable').default,
+  );
+  app.post(
+    `/auth/two-factor/disable`,
+    require('./twoFactorDisable').default,
+  );
+  app.post(
+    `/auth/two-factor/recovery-codes`,
+    require('./twoFactorRecoveryCodes').default,
+  );
+};
@@ -0,0 +1,14 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import TwoFactorService from '../../services/auth/twoFactorService';
+
+export default async (req, res, next) => {
+  try {
+    await new TwoFactorService(req).disable(req.body.code);
+
+    const payload = true;
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
@@ -0,0 +1,16 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import AuthService from '../../services/auth/authService';
+
+export default async (req, res, next) => {
+  try {
+    const payload = await AuthService.signinTwoFactor(
+      req.body.twoFactorToken,
+      req.body.code,
+      req,
+    );
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
@@ -0,0 +1,42 @@
+export default (app) => {
+  app.post(
+    `/tenant/:tenantId/visitor/:id/check-in`,
+    require('./visitorCheckIn').default,
+  );
+  app.post(
+    `/tenant/:tenantId/visitor/:id/check-out`,
+    require('./visitorCheckOut').default,
+  );
+  app.get(
+    `/tenant/:tenantId/visitor/:id/badge`,
+    require('./visitorBadge').default,
+  );
+  app.post(
+    `/tenant/:tenantId/visitor-badge/verify`,
+    require('./visitorBadgeVerify').default,
+  );
+  app.put(
+    `/tenant/:tenantId/visitor/:id/photo`,
+    require('./visitorPhotoSave').default,
+  );
+  app.post(
+    `/tenant/:tenantId/visitor/:id/screening/approve`,
+    require('./visitorScreeningApprove').default,
+  );
+  app.post(
+    `/tenant/:tenantId/visitor/:id/screening/reject`,
+    require('./visitorScreeningReject').default,
+  );
+  app.post(
+    `/tenant/:tenantId/visitor/:id/approval/approve`,
+    require('./visitorApprovalApprove').default,
+  );
+  app.post(
+    `/tenant/:tenantId/visitor/:id/approval/reject`,
+    require('./visitorApprovalReject').default,
+  );
+  app.get(
+    `/tenant/:tenantId/visitor/:id/access-events`,
+    require('./visitorAccessEventList').default,
+  );
+};
@@ -0,0 +1,23 @@
+import PermissionChecker from '../../services/user/permissionChecker';
+import ApiResponseHandler from '../apiResponseHandler';
+import Permissions from '../../security/permissions';
+import VisitorService from '../../services/visitorService';
+
+export default async (req, res, next) => {
+  try {
+    new PermissionChecker(req).validateHas(
+      Permissions.values.visitorApprove,
+    );
+
+    const payload = await new VisitorService(
+      req,
+    ).approveVisit(
+      req.params.id,
+      req.body.data && req.body.data.comment,
+    );
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
@@ -0,0 +1,28 @@
+import PermissionChecker from '../../services/user/permissionChecker';
+import ApiResponseHandler from '../apiResponseHandler';
+import Permissions from '../../security/permissions';
+import VisitorBadgeService from '../../services/visitorBadgeService';
+
+export default async (req, res, next) => {
+  try {
+    new PermissionChecker(req).validateHas(
+      Permissions.values.visitorRead,
+    );
+
+    const badge = await new VisitorBadgeService(req).render(
+      req.params.id,
+      req.query.format || 'pdf',
+    );
+
+    res.setHeader('Content-Type', badge.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `inline; filename="badge-${req.params.id}.${
+        req.query.format || 'pdf'
+      }"`,
+    );
+    res.status(200).send(badge.data);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
@@ -0,0 +1,10 @@
+export default (app) => {
+  app.post(
+    `/tenant/:tenantId/visitor-import/dry-run`,
+    require('./visitorImportDryRun').default,
+  );
+  app.post(
+    `/tenant/:tenantId/visitor-import`,
+    require('./visitorImportImport').default,
+  );
+};
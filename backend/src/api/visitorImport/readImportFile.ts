@@ -0,0 +1,47 @@
+import fs from 'fs';
+import ErrorReporter from '../../errors/ErrorReporter';
+
+const formidable = require('formidable-serverless');
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Reads the file field of a multipart request.
+ * Resolves null if there is none.
+ *
+ * @param {*} req
+ */
+export default function readImportFile(
+  req,
+): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const form = new formidable.IncomingForm();
+    form.maxFileSize = MAX_FILE_SIZE;
+
+    form.parse(req, (error, fields, files) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+
+      if (!files.file) {
+        resolve(null);
+        return;
+      }
+
+      const path = files.file.path;
+
+      fs.promises
+        .readFile(path)
+        .then((data) => {
+          resolve(data);
+          return fs.promises.unlink(path);
+        }, reject)
+        .catch((error) =>
+          ErrorReporter.report(error, 'readImportFile', {
+            path,
+          }),
+        );
+    });
+  });
+}
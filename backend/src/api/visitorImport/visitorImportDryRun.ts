@@ -0,0 +1,23 @@
+import PermissionChecker from '../../services/user/permissionChecker';
+import ApiResponseHandler from '../apiResponseHandler';
+import Permissions from '../../security/permissions';
+import VisitorImportService from '../../services/visitorImportService';
+import readImportFile from './readImportFile';
+
+export default async (req, res, next) => {
+  try {
+    new PermissionChecker(req).validateHas(
+      Permissions.values.visitorImport,
+    );
+
+    const file = await readImportFile(req);
+
+    const payload = await new VisitorImportService(
+      req,
+    ).dryRun(file);
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
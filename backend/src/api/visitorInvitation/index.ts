@@ -0,0 +1,14 @@
+export default (app) => {
+  app.post(
+    `/tenant/:tenantId/visitor-invitation`,
+    require('./visitorInvitationCreate').default,
+  );
+  app.get(
+    `/visitor-invitation/:token`,
+    require('./visitorInvitationFind').default,
+  );
+  app.post(
+    `/visitor-invitation/:token/register`,
+    require('./visitorInvitationRegister').default,
+  );
+};
@@ -0,0 +1,14 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import VisitorInvitationService from '../../services/visitorInvitationService';
+
+export default async (req, res, next) => {
+  try {
+    const payload = await new VisitorInvitationService(
+      req,
+    ).findByToken(req.params.token);
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
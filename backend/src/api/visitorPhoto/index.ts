@@ -0,0 +1,6 @@
+export default (app) => {
+  app.get(
+    `/visitor-photo`,
+    require('./visitorPhotoDownload').default,
+  );
+};
@@ -0,0 +1,38 @@
+import ApiResponseHandler from '../apiResponseHandler';
+import Error404 from '../../errors/Error404';
+import LocalhostPhotoStorage from '../../services/visitorPhoto/localhostPhotoStorage';
+
+/**
+ * Serves the signed photo URLs of the local storage.
+ * Needs no authentication, the token is the signature.
+ */
+export default async (req, res, next) => {
+  try {
+    const privateUrl = LocalhostPhotoStorage.verifyToken(
+      req.query.token,
+    );
+
+    if (!privateUrl) {
+      throw new Error404();
+    }
+
+    let data;
+
+    try {
+      data = await LocalhostPhotoStorage.download(
+        privateUrl,
+      );
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new Error404();
+      }
+
+      throw error;
+    }
+
+    res.setHeader('Content-Type', 'image/jpeg');
+    res.status(200).send(data);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
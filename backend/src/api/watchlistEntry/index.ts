@@ -0,0 +1,22 @@
+export default (app) => {
+  app.post(
+    `/tenant/:tenantId/watchlist-entry`,
+    require('./watchlistEntryCreate').default,
+  );
+  app.put(
+    `/tenant/:tenantId/watchlist-entry/:id`,
+    require('./watchlistEntryUpdate').default,
+  );
+  app.delete(
+    `/tenant/:tenantId/watchlist-entry`,
+    require('./watchlistEntryDestroy').default,
+  );
+  app.get(
+    `/tenant/:tenantId/watchlist-entry`,
+    require('./watchlistEntryList').default,
+  );
+  app.get(
+    `/tenant/:tenantId/watchlist-entry/:id`,
+    require('./watchlistEntryFind').default,
+  );
+};
@@ -0,0 +1,22 @@
+import PermissionChecker from '../../services/user/permissionChecker';
+import ApiResponseHandler from '../apiResponseHandler';
+import Permissions from '../../security/permissions';
+import WatchlistEntryService from '../../services/watchlistEntryService';
+
+export default async (req, res, next) => {
+  try {
+    new PermissionChecker(req).validateHas(
+      Permissions.values.watchlistEntryDestroy,
+    );
+
+    await new WatchlistEntryService(req).destroyAll(
+      req.query.ids,
+    );
+
+    const payload = true;
+
+    await ApiResponseHandler.success(req, res, payload);
+  } catch (error) {
+    await ApiResponseHandler.error(req, res, error);
+  }
+};
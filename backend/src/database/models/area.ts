@@ -0,0 +1,97 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Zone of the site a Visitor can be given access to.
+ * The code is the area code of the SDP controller, and
+ * visits must fall within the schedule of their areas.
+ */
+export default function (sequelize) {
+  const area = sequelize.define(
+    'area',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      code: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+        validate: {
+          notEmpty: true,
+          len: [0, 50],
+        },
+      },
+      name: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        validate: {
+          notEmpty: true,
+          len: [0, 255],
+        },
+      },
+      building: {
+        type: DataTypes.STRING(255),
+        validate: {
+          len: [0, 255],
+        },
+      },
+      floor: {
+        type: DataTypes.STRING(50),
+        validate: {
+          len: [0, 50],
+        },
+      },
+      // Visitors with access at the same time, unlimited if empty
+      capacity: {
+        type: DataTypes.INTEGER,
+        validate: {
+          min: 1,
+        },
+      },
+      // ISO weekdays, 1 is Monday. Every day if empty.
+      scheduleDays: {
+        type: DataTypes.JSON,
+      },
+      // HH:mm, all day if empty
+      scheduleStartTime: {
+        type: DataTypes.STRING(5),
+      },
+      scheduleEndTime: {
+        type: DataTypes.STRING(5),
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['tenantId', 'code'],
+          where: {
+            deletedAt: null,
+          },
+        },
+      ],
+      timestamps: true,
+      paranoid: true,
+    },
+  );
+
+  area.associate = (models) => {
+    models.area.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.area.belongsTo(models.user, {
+      as: 'createdBy',
+    });
+
+    models.area.belongsTo(models.user, {
+      as: 'updatedBy',
+    });
+  };
+
+  return area;
+}
@@ -0,0 +1,105 @@
+import { DataTypes } from 'sequelize';
+
+const APPEND_ONLY = 'Audit entries are append-only';
+
+/**
+ * Append-only record of the changes to Visitors, the
+ * authentication attempts and the commands sent to the
+ * SDP access controller. Entries are never updated
+ * or deleted.
+ */
+export default function (sequelize) {
+  const auditEntry = sequelize.define(
+    'auditEntry',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      // Auth attempts of unknown users have no tenant
+      tenantId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      category: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        values: ['visitor', 'auth', 'sdp'],
+      },
+      action: {
+        type: DataTypes.STRING(50),
+        allowNull: false,
+      },
+      outcome: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        values: ['success', 'failure'],
+      },
+      actorId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      actorEmail: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+      },
+      entityName: {
+        type: DataTypes.STRING(50),
+        allowNull: true,
+      },
+      entityId: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+      },
+      // Field diffs of the changes, or the command sent
+      values: {
+        type: DataTypes.JSON,
+        allowNull: true,
+      },
+      reply: {
+        type: DataTypes.JSON,
+        allowNull: true,
+      },
+      error: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      ip: {
+        type: DataTypes.STRING(45),
+        allowNull: true,
+      },
+    },
+    {
+      indexes: [
+        {
+          fields: ['tenantId', 'createdAt'],
+        },
+        {
+          fields: ['entityName', 'entityId'],
+        },
+        {
+          fields: ['actorId'],
+        },
+      ],
+      timestamps: true,
+      updatedAt: false,
+      hooks: {
+        beforeUpdate() {
+          throw new Error(APPEND_ONLY);
+        },
+        beforeBulkUpdate() {
+          throw new Error(APPEND_ONLY);
+        },
+        beforeDestroy() {
+          throw new Error(APPEND_ONLY);
+        },
+        beforeBulkDestroy() {
+          throw new Error(APPEND_ONLY);
+        },
+      },
+    },
+  );
+
+  return auditEntry;
+}
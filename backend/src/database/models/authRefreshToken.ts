@@ -0,0 +1,52 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * A refresh token issued to a session. The tokens of a
+ * session form its family: each one is replaced by the
+ * next on use, and a replaced one used again reveals a
+ * stolen token.
+ */
+export default function (sequelize) {
+  const authRefreshToken = sequelize.define(
+    'authRefreshToken',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      // Only the hash is stored
+      tokenHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      replacedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['tokenHash'],
+        },
+        {
+          fields: ['sessionId'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  authRefreshToken.associate = (models) => {
+    models.authRefreshToken.belongsTo(models.authSession, {
+      as: 'session',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+  };
+
+  return authRefreshToken;
+}
@@ -0,0 +1,82 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * A signed in device of an user. Holds the hash of its
+ * current refresh token, which is replaced on each use.
+ * The tokens it was issued are its authRefreshTokens.
+ */
+export default function (sequelize) {
+  const authSession = sequelize.define(
+    'authSession',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      refreshTokenHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      // Whether the user passed a second factor to open it
+      twoFactorVerified: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      rememberMe: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      lastUsedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      revokedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      userAgent: {
+        type: DataTypes.STRING(255),
+        allowNull: true,
+      },
+      ip: {
+        type: DataTypes.STRING(64),
+        allowNull: true,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['refreshTokenHash'],
+        },
+        {
+          fields: ['userId', 'revokedAt'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  authSession.associate = (models) => {
+    models.authSession.belongsTo(models.user, {
+      as: 'user',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.authSession.hasMany(models.authRefreshToken, {
+      as: 'refreshTokens',
+      foreignKey: 'sessionId',
+    });
+  };
+
+  return authSession;
+}
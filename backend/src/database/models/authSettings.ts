@@ -0,0 +1,120 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Authentication policy of a tenant.
+ */
+export default function (sequelize) {
+  const authSettings = sequelize.define(
+    'authSettings',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      // Roles whose users must use a second factor
+      twoFactorRequiredRoles: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        defaultValue: [],
+      },
+      // OpenID Connect single sign-on
+      oidcEnabled: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      oidcIssuer: {
+        type: DataTypes.STRING(255),
+        validate: {
+          len: [0, 255],
+        },
+      },
+      oidcClientId: {
+        type: DataTypes.STRING(255),
+        validate: {
+          len: [0, 255],
+        },
+      },
+      oidcClientSecretEncrypted: {
+        type: DataTypes.TEXT,
+      },
+      // Name of the provider on the sign-in button
+      oidcLabel: {
+        type: DataTypes.STRING(255),
+        validate: {
+          len: [0, 255],
+        },
+      },
+      // ID token claim holding the groups or roles
+      oidcRolesClaim: {
+        type: DataTypes.STRING(255),
+        validate: {
+          len: [0, 255],
+        },
+      },
+      // Claim value => role of the tenant
+      oidcRoleMapping: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        defaultValue: {},
+      },
+      // Users joining without an invitation
+      selfRegistrationEnabled: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+      },
+      selfRegistrationRoles: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        defaultValue: ['visitor'],
+      },
+      // [{ domain, roles }], for the emails of these domains
+      selfRegistrationDomains: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        defaultValue: [],
+      },
+      selfRegistrationAllowedDomainsOnly: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      // Joins without roles, until an admin assigns them
+      selfRegistrationApprovalRequired: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['tenantId'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  authSettings.associate = (models) => {
+    models.authSettings.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.authSettings.belongsTo(models.user, {
+      as: 'createdBy',
+    });
+
+    models.authSettings.belongsTo(models.user, {
+      as: 'updatedBy',
+    });
+  };
+
+  return authSettings;
+}
@@ -0,0 +1,72 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * A self-service kiosk of a tenant, e.g. the tablet at
+ * the door. Signs in with its own token, whose hash is
+ * stored, instead of a staff account.
+ */
+export default function (sequelize) {
+  const kioskDevice = sequelize.define(
+    'kioskDevice',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      name: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        validate: {
+          len: [1, 255],
+          notEmpty: true,
+        },
+      },
+      tokenHash: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      // Shown to the visitors before they check in
+      siteRules: {
+        type: DataTypes.TEXT,
+      },
+      lastSeenAt: {
+        type: DataTypes.DATE,
+      },
+      revokedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['tokenHash'],
+        },
+        {
+          fields: ['tenantId', 'revokedAt'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  kioskDevice.associate = (models) => {
+    models.kioskDevice.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.kioskDevice.belongsTo(models.user, {
+      as: 'createdBy',
+    });
+
+    models.kioskDevice.belongsTo(models.user, {
+      as: 'updatedBy',
+    });
+  };
+
+  return kioskDevice;
+}
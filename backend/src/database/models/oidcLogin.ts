@@ -0,0 +1,56 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * An OIDC sign-in started by a browser, waiting for the
+ * provider to redirect back. Its id is the state sent to
+ * the provider. It holds the PKCE challenge of the
+ * verifier only that browser has, and is used once.
+ */
+export default function (sequelize) {
+  const oidcLogin = sequelize.define(
+    'oidcLogin',
+    {
+      // Random, as the state must be unguessable
+      id: {
+        type: DataTypes.STRING(64),
+        primaryKey: true,
+      },
+      nonce: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      codeChallenge: {
+        type: DataTypes.STRING(64),
+        allowNull: false,
+      },
+      rememberMe: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+    },
+    {
+      indexes: [
+        {
+          fields: ['expiresAt'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  oidcLogin.associate = (models) => {
+    models.oidcLogin.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+  };
+
+  return oidcLogin;
+}
@@ -0,0 +1,97 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Commands waiting to be delivered to the SDP
+ * access controller. Written in the same transaction
+ * as the Visitor change they mirror.
+ */
+export default function (sequelize) {
+  const sdpOutbox = sequelize.define(
+    'sdpOutbox',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      action: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        values: ['add', 'update', 'delete'],
+      },
+      // Null for visitors only the controller knows,
+      // whose orId is in the payload
+      visitorId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      payload: {
+        type: DataTypes.JSON,
+        allowNull: true,
+      },
+      // Adds with the same batch are sent in one command
+      batchId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      status: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        defaultValue: 'pending',
+        // Blocked adds were skipped as the watchlist
+        // screening didn't clear the Visitor. Processing
+        // ones are claimed until their nextAttemptAt
+        values: [
+          'pending',
+          'processing',
+          'delivered',
+          'failed',
+          'blocked',
+        ],
+      },
+      attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      nextAttemptAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+        defaultValue: DataTypes.NOW,
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      deliveredAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      indexes: [
+        {
+          fields: ['status', 'nextAttemptAt'],
+        },
+        {
+          fields: ['visitorId', 'createdAt'],
+        },
+        {
+          fields: ['batchId'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  sdpOutbox.associate = (models) => {
+    models.sdpOutbox.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+  };
+
+  return sdpOutbox;
+}
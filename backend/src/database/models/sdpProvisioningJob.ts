@@ -0,0 +1,81 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Access to grant or revoke on the SDP access
+ * controller at a given time. Kept in the database
+ * so the schedule survives restarts.
+ */
+export default function (sequelize) {
+  const sdpProvisioningJob = sequelize.define(
+    'sdpProvisioningJob',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      action: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        values: ['provision', 'revoke'],
+      },
+      // Provisions with the same batch run together
+      batchId: {
+        type: DataTypes.UUID,
+        allowNull: true,
+      },
+      runAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      status: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        defaultValue: 'pending',
+        values: ['pending', 'done', 'cancelled', 'failed'],
+      },
+      attempts: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      lastError: {
+        type: DataTypes.TEXT,
+        allowNull: true,
+      },
+      executedAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      indexes: [
+        {
+          fields: ['status', 'runAt'],
+        },
+        {
+          fields: ['visitorId', 'status'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  sdpProvisioningJob.associate = (models) => {
+    models.sdpProvisioningJob.belongsTo(models.visitor, {
+      as: 'visitor',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.sdpProvisioningJob.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+  };
+
+  return sdpProvisioningJob;
+}
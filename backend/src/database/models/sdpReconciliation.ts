@@ -0,0 +1,79 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Report of a comparison between the Visitors of the
+ * tenant and the visitors on its SDP access controller.
+ */
+export default function (sequelize) {
+  const sdpReconciliation = sequelize.define(
+    'sdpReconciliation',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      status: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        values: ['completed', 'failed'],
+      },
+      fix: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      startedAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      finishedAt: {
+        type: DataTypes.DATE,
+      },
+      missingCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      orphanedCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      mismatchedCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      invalidCount: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      differences: {
+        type: DataTypes.JSON,
+      },
+      error: {
+        type: DataTypes.TEXT,
+      },
+    },
+    {
+      timestamps: true,
+    },
+  );
+
+  sdpReconciliation.associate = (models) => {
+    models.sdpReconciliation.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.sdpReconciliation.belongsTo(models.user, {
+      as: 'createdBy',
+    });
+  };
+
+  return sdpReconciliation;
+}
@@ -0,0 +1,71 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Connection to the SDP access controller of a tenant.
+ */
+export default function (sequelize) {
+  const sdpSettings = sequelize.define(
+    'sdpSettings',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      enabled: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+      url: {
+        type: DataTypes.STRING(255),
+        validate: {
+          len: [0, 255],
+        },
+      },
+      username: {
+        type: DataTypes.STRING(255),
+        validate: {
+          len: [0, 255],
+        },
+      },
+      passwordEncrypted: {
+        type: DataTypes.TEXT,
+      },
+      areaCode: {
+        type: DataTypes.STRING(255),
+        validate: {
+          len: [0, 255],
+        },
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['tenantId'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  sdpSettings.associate = (models) => {
+    models.sdpSettings.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.sdpSettings.belongsTo(models.user, {
+      as: 'createdBy',
+    });
+
+    models.sdpSettings.belongsTo(models.user, {
+      as: 'updatedBy',
+    });
+  };
+
+  return sdpSettings;
+}
@@ -0,0 +1,63 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Failed sign-in attempts of an account (by email)
+ * or of an IP address, and whether they are locked
+ * out because of them.
+ */
+export default function (sequelize) {
+  const signinThrottle = sequelize.define(
+    'signinThrottle',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      scope: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        values: ['account', 'ip'],
+      },
+      // The lowercased email or the IP address
+      key: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+      },
+      failures: {
+        type: DataTypes.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+      },
+      lastFailureAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      lockedUntil: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['scope', 'key'],
+        },
+        {
+          fields: ['lockedUntil'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  signinThrottle.associate = (models) => {
+    // Set when the email belongs to an user
+    models.signinThrottle.belongsTo(models.user, {
+      as: 'user',
+    });
+  };
+
+  return signinThrottle;
+}
@@ -0,0 +1,58 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Account of an user at an OIDC provider, by the issuer
+ * and the subject of its ID tokens. Signing in with OIDC
+ * finds the user by it, not by the email.
+ */
+export default function (sequelize) {
+  const userOidcIdentity = sequelize.define(
+    'userOidcIdentity',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      issuer: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+      },
+      // The sub claim
+      subject: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+      },
+      // Whether the first sign-in created the user, so
+      // the provider manages its roles
+      provisioned: {
+        type: DataTypes.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['issuer', 'subject'],
+        },
+        {
+          fields: ['userId'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  userOidcIdentity.associate = (models) => {
+    models.userOidcIdentity.belongsTo(models.user, {
+      as: 'user',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+  };
+
+  return userOidcIdentity;
+}
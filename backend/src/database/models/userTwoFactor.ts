@@ -0,0 +1,57 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * TOTP second factor of an user. Stays pending, with
+ * enabledAt empty, until the user confirms a first code.
+ */
+export default function (sequelize) {
+  const userTwoFactor = sequelize.define(
+    'userTwoFactor',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      secretEncrypted: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+      },
+      enabledAt: {
+        type: DataTypes.DATE,
+        allowNull: true,
+      },
+      // SHA-256 hashes of the unused recovery codes
+      recoveryCodeHashes: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        defaultValue: [],
+      },
+      // TOTP step of the last accepted code
+      lastUsedStep: {
+        type: DataTypes.BIGINT,
+        allowNull: true,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['userId'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  userTwoFactor.associate = (models) => {
+    models.userTwoFactor.belongsTo(models.user, {
+      as: 'user',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+  };
+
+  return userTwoFactor;
+}
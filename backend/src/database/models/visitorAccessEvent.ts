@@ -0,0 +1,70 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Door pass of a Visitor, as reported
+ * by the SDP access controller.
+ */
+export default function (sequelize) {
+  const visitorAccessEvent = sequelize.define(
+    'visitorAccessEvent',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      occurredAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      doorCode: {
+        type: DataTypes.STRING(255),
+      },
+      doorName: {
+        type: DataTypes.STRING(255),
+      },
+      areaCode: {
+        type: DataTypes.STRING(255),
+      },
+      direction: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        values: ['in', 'out', 'unknown'],
+      },
+      result: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        values: ['granted', 'denied'],
+      },
+      raw: {
+        type: DataTypes.JSON,
+      },
+    },
+    {
+      indexes: [
+        {
+          fields: ['visitorId', 'occurredAt'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  visitorAccessEvent.associate = (models) => {
+    models.visitorAccessEvent.belongsTo(models.visitor, {
+      as: 'visitor',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.visitorAccessEvent.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+  };
+
+  return visitorAccessEvent;
+}
@@ -0,0 +1,54 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Area a Visitor is given access to.
+ */
+export default function (sequelize) {
+  const visitorArea = sequelize.define(
+    'visitorArea',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['visitorId', 'areaId'],
+        },
+        {
+          fields: ['tenantId', 'areaId'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  visitorArea.associate = (models) => {
+    models.visitorArea.belongsTo(models.visitor, {
+      as: 'visitor',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.visitorArea.belongsTo(models.area, {
+      as: 'area',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.visitorArea.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+  };
+
+  return visitorArea;
+}
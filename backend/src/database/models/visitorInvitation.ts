@@ -0,0 +1,88 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Invitation a host sends to a visitor, who uses its
+ * token to pre-register without an account.
+ */
+export default function (sequelize) {
+  const visitorInvitation = sequelize.define(
+    'visitorInvitation',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      email: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+        validate: {
+          isEmail: true,
+          len: [0, 255],
+        },
+      },
+      startTime: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      endTime: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      reason: {
+        type: DataTypes.TEXT,
+      },
+      token: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+      },
+      tokenExpiresAt: {
+        type: DataTypes.DATE,
+        allowNull: false,
+      },
+      registeredAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['token'],
+        },
+      ],
+      timestamps: true,
+      paranoid: true,
+    },
+  );
+
+  visitorInvitation.associate = (models) => {
+    models.visitorInvitation.belongsTo(models.user, {
+      as: 'host',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.visitorInvitation.belongsTo(models.visitor, {
+      as: 'visitor',
+    });
+
+    models.visitorInvitation.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.visitorInvitation.belongsTo(models.user, {
+      as: 'createdBy',
+    });
+
+    models.visitorInvitation.belongsTo(models.user, {
+      as: 'updatedBy',
+    });
+  };
+
+  return visitorInvitation;
+}
@@ -0,0 +1,56 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Photo of a Visitor. The image itself is
+ * kept in the file storage.
+ */
+export default function (sequelize) {
+  const visitorPhoto = sequelize.define(
+    'visitorPhoto',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      contentType: {
+        type: DataTypes.STRING(255),
+        allowNull: false,
+      },
+      privateUrl: {
+        type: DataTypes.STRING(1024),
+        allowNull: false,
+      },
+      sizeInBytes: {
+        type: DataTypes.INTEGER,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['visitorId'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  visitorPhoto.associate = (models) => {
+    models.visitorPhoto.belongsTo(models.visitor, {
+      as: 'visitor',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.visitorPhoto.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+  };
+
+  return visitorPhoto;
+}
@@ -0,0 +1,71 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Latest watchlist screening of a Visitor.
+ * Flagged Visitors wait for security to
+ * approve or reject them.
+ */
+export default function (sequelize) {
+  const visitorScreening = sequelize.define(
+    'visitorScreening',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      status: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        values: [
+          'clear',
+          'flagged',
+          'approved',
+          'rejected',
+        ],
+      },
+      matches: {
+        type: DataTypes.JSON,
+        allowNull: false,
+        defaultValue: [],
+      },
+      reviewedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['visitorId'],
+        },
+        {
+          fields: ['tenantId', 'status'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  visitorScreening.associate = (models) => {
+    models.visitorScreening.belongsTo(models.visitor, {
+      as: 'visitor',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.visitorScreening.belongsTo(models.user, {
+      as: 'reviewedBy',
+    });
+
+    models.visitorScreening.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+  };
+
+  return visitorScreening;
+}
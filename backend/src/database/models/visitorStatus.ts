@@ -0,0 +1,108 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Where a Visitor is in its visit:
+ * pendingApproval, rejected, expired, expected,
+ * checkedIn, onSite, checkedOut or noShow,
+ * with the time of each transition.
+ */
+export default function (sequelize) {
+  const visitorStatus = sequelize.define(
+    'visitorStatus',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      status: {
+        type: DataTypes.ENUM,
+        allowNull: false,
+        defaultValue: 'expected',
+        values: [
+          'pendingApproval',
+          'rejected',
+          'expired',
+          'expected',
+          'checkedIn',
+          'onSite',
+          'checkedOut',
+          'noShow',
+        ],
+      },
+      approvalRequestedAt: {
+        type: DataTypes.DATE,
+      },
+      approvalExpiresAt: {
+        type: DataTypes.DATE,
+      },
+      approvedAt: {
+        type: DataTypes.DATE,
+      },
+      rejectedAt: {
+        type: DataTypes.DATE,
+      },
+      expiredAt: {
+        type: DataTypes.DATE,
+      },
+      approvalComment: {
+        type: DataTypes.TEXT,
+      },
+      checkedInAt: {
+        type: DataTypes.DATE,
+      },
+      onSiteAt: {
+        type: DataTypes.DATE,
+      },
+      checkedOutAt: {
+        type: DataTypes.DATE,
+      },
+      noShowAt: {
+        type: DataTypes.DATE,
+      },
+      // Accepted at the kiosk when checking in
+      siteRulesAcceptedAt: {
+        type: DataTypes.DATE,
+      },
+      // Granted the access ahead of the visit without
+      // checking in, e.g. imported. Null once revoked.
+      provisionedAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      indexes: [
+        {
+          unique: true,
+          fields: ['visitorId'],
+        },
+        {
+          fields: ['tenantId', 'status'],
+        },
+      ],
+      timestamps: true,
+    },
+  );
+
+  visitorStatus.associate = (models) => {
+    models.visitorStatus.belongsTo(models.visitor, {
+      as: 'visitor',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.visitorStatus.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.visitorStatus.belongsTo(models.user, {
+      as: 'updatedBy',
+    });
+  };
+
+  return visitorStatus;
+}
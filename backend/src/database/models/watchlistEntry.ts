@@ -0,0 +1,80 @@
+import { DataTypes } from 'sequelize';
+
+/**
+ * Person that must never get access. Visitors are
+ * screened against the entries of their tenant.
+ */
+export default function (sequelize) {
+  const watchlistEntry = sequelize.define(
+    'watchlistEntry',
+    {
+      id: {
+        type: DataTypes.UUID,
+        defaultValue: DataTypes.UUIDV4,
+        primaryKey: true,
+      },
+      idType: {
+        type: DataTypes.ENUM,
+        values: [
+          'idCard',
+          'passport',
+          'driverLicense',
+          'other',
+        ],
+      },
+      idNumber: {
+        type: DataTypes.STRING(255),
+        validate: {
+          len: [0, 255],
+        },
+      },
+      name: {
+        type: DataTypes.STRING(255),
+        validate: {
+          len: [0, 255],
+        },
+      },
+      phone: {
+        type: DataTypes.STRING(50),
+        validate: {
+          len: [0, 50],
+        },
+      },
+      reason: {
+        type: DataTypes.TEXT,
+        allowNull: false,
+      },
+      expiresAt: {
+        type: DataTypes.DATE,
+      },
+    },
+    {
+      indexes: [
+        {
+          fields: ['tenantId', 'idNumber'],
+        },
+      ],
+      timestamps: true,
+      paranoid: true,
+    },
+  );
+
+  watchlistEntry.associate = (models) => {
+    models.watchlistEntry.belongsTo(models.tenant, {
+      as: 'tenant',
+      foreignKey: {
+        allowNull: false,
+      },
+    });
+
+    models.watchlistEntry.belongsTo(models.user, {
+      as: 'createdBy',
+    });
+
+    models.watchlistEntry.belongsTo(models.user, {
+      as: 'updatedBy',
+    });
+  };
+
+  return watchlistEntry;
+}
@@ -0,0 +1,274 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import Error404 from '../../errors/Error404';
+import SequelizeFilterUtils from '../../database/utils/sequelizeFilterUtils';
+import lodash from 'lodash';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+const FIELDS = [
+  'code',
+  'name',
+  'building',
+  'floor',
+  'capacity',
+  'scheduleDays',
+  'scheduleStartTime',
+  'scheduleEndTime',
+];
+
+/**
+ * Handles the areas of the tenant.
+ */
+class AreaRepository {
+  static async create(data, options: IRepositoryOptions) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      options,
+    );
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const record = await options.database.area.create(
+      {
+        ...lodash.pick(data, FIELDS),
+        tenantId: tenant.id,
+        createdById: currentUser.id,
+        updatedById: currentUser.id,
+      },
+      {
+        transaction,
+      },
+    );
+
+    return this.findById(record.id, options);
+  }
+
+  static async update(
+    id,
+    data,
+    options: IRepositoryOptions,
+  ) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    let record = await this.findById(id, options);
+
+    record = await record.update(
+      {
+        ...lodash.pick(data, FIELDS),
+        updatedById: currentUser.id,
+      },
+      {
+        transaction,
+      },
+    );
+
+    return this.findById(record.id, options);
+  }
+
+  static async destroy(id, options: IRepositoryOptions) {
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const record = await this.findById(id, options);
+
+    await record.destroy({
+      transaction,
+    });
+  }
+
+  static async findById(id, options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const record = await options.database.area.findOne({
+      where: {
+        id,
+        tenantId: tenant.id,
+      },
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+
+    if (!record) {
+      throw new Error404();
+    }
+
+    return record;
+  }
+
+  /**
+   * Finds the areas with those ids. Ids of
+   * other tenants are left out.
+   *
+   * @param {*} ids
+   * @param {*} options
+   */
+  static async findByIds(ids, options: IRepositoryOptions) {
+    if (!ids.length) {
+      return [];
+    }
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.area.findAll({
+      where: {
+        id: {
+          [Op.in]: ids,
+        },
+        tenantId: tenant.id,
+      },
+      order: [['code', 'ASC']],
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+
+  /**
+   * Finds the areas with those codes.
+   *
+   * @param {*} codes
+   * @param {*} options
+   */
+  static async findByCodes(
+    codes,
+    options: IRepositoryOptions,
+  ) {
+    if (!codes.length) {
+      return [];
+    }
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.area.findAll({
+      where: {
+        code: {
+          [Op.in]: codes,
+        },
+        tenantId: tenant.id,
+      },
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+
+  /**
+   * Lists the areas by code. The search
+   * looks into the code, name and building.
+   *
+   * @param {*} args
+   * @param {*} options
+   */
+  static async findAndCountAll(
+    { search = '', limit = 0, offset = 0 },
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const where: any = {
+      tenantId: tenant.id,
+    };
+
+    if (search) {
+      where[Op.or] = [
+        SequelizeFilterUtils.ilikeIncludes(
+          'area',
+          'code',
+          search,
+        ),
+        SequelizeFilterUtils.ilikeIncludes(
+          'area',
+          'name',
+          search,
+        ),
+        SequelizeFilterUtils.ilikeIncludes(
+          'area',
+          'building',
+          search,
+        ),
+      ];
+    }
+
+    const {
+      rows,
+      count,
+    } = await options.database.area.findAndCountAll({
+      where,
+      order: [['code', 'ASC']],
+      limit: limit ? Number(limit) : undefined,
+      offset: offset ? Number(offset) : undefined,
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+
+    return { rows, count };
+  }
+
+  static async findAllAutocomplete(
+    query,
+    limit,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const where: any = {
+      tenantId: tenant.id,
+    };
+
+    if (query) {
+      where[Op.or] = [
+        { id: SequelizeFilterUtils.uuid(query) },
+        SequelizeFilterUtils.ilikeIncludes(
+          'area',
+          'code',
+          query,
+        ),
+        SequelizeFilterUtils.ilikeIncludes(
+          'area',
+          'name',
+          query,
+        ),
+      ];
+    }
+
+    const records = await options.database.area.findAll({
+      attributes: ['id', 'code', 'name'],
+      where,
+      limit: limit ? Number(limit) : undefined,
+      order: [['code', 'ASC']],
+    });
+
+    return records.map((record) => ({
+      id: record.id,
+      label: `${record.code} - ${record.name}`,
+    }));
+  }
+}
+
+export default AreaRepository;
@@ -0,0 +1,136 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import SequelizeFilterUtils from '../../database/utils/sequelizeFilterUtils';
+import lodash from 'lodash';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+const FIELDS = [
+  'tenantId',
+  'category',
+  'action',
+  'outcome',
+  'actorId',
+  'actorEmail',
+  'entityName',
+  'entityId',
+  'values',
+  'reply',
+  'error',
+  'ip',
+];
+
+/**
+ * Handles the audit trail. Entries
+ * can only be added and read.
+ */
+class AuditEntryRepository {
+  /**
+   * Appends an entry, in the transaction of the options
+   * if any. The tenant is taken from the data.
+   *
+   * @param {*} data
+   * @param {*} options
+   */
+  static async create(data, options: IRepositoryOptions) {
+    return options.database.auditEntry.create(
+      lodash.pick(data, FIELDS),
+      {
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+  }
+
+  /**
+   * Lists the entries of the tenant, newest first.
+   *
+   * @param {*} args
+   * @param {*} options
+   */
+  static async findAndCountAll(
+    { filter = {}, limit = 0, offset = 0 },
+    options: IRepositoryOptions,
+  ) {
+    const {
+      rows,
+      count,
+    } = await options.database.auditEntry.findAndCountAll({
+      where: this._where(filter, options),
+      order: [['createdAt', 'DESC']],
+      limit: limit ? Number(limit) : undefined,
+      offset: offset ? Number(offset) : undefined,
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+
+    return { rows, count };
+  }
+
+  /**
+   * Filters by actor (email or id), category, entity,
+   * action and creation date range.
+   *
+   * @param {*} filter
+   * @param {*} options
+   */
+  static _where(filter, options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const where: any = {
+      tenantId: tenant.id,
+    };
+
+    if (filter.actor) {
+      where[Op.or] = [
+        {
+          actorId: SequelizeFilterUtils.uuid(filter.actor),
+        },
+        SequelizeFilterUtils.ilikeIncludes(
+          'auditEntry',
+          'actorEmail',
+          filter.actor,
+        ),
+      ];
+    }
+
+    for (const field of [
+      'category',
+      'entityName',
+      'entityId',
+      'action',
+      'outcome',
+    ]) {
+      if (filter[field]) {
+        where[field] = filter[field];
+      }
+    }
+
+    if (filter.createdAtRange) {
+      const [start, end] = filter.createdAtRange;
+
+      if (start) {
+        where.createdAt = {
+          ...where.createdAt,
+          [Op.gte]: start,
+        };
+      }
+
+      if (end) {
+        where.createdAt = {
+          ...where.createdAt,
+          [Op.lte]: end,
+        };
+      }
+    }
+
+    return where;
+  }
+}
+
+export default AuditEntryRepository;
@@ -0,0 +1,281 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+/**
+ * Handles the sessions of the users. Like the users,
+ * they don't belong to a tenant.
+ */
+class AuthSessionRepository {
+  /**
+   * Creates a session, in the transaction of the options.
+   *
+   * @param {*} data userId, refreshTokenHash, rememberMe, twoFactorVerified, expiresAt, userAgent and ip
+   * @param {*} options
+   */
+  static async create(data, options: IRepositoryOptions) {
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const record = await options.database.authSession.create(
+      {
+        userId: data.userId,
+        refreshTokenHash: data.refreshTokenHash,
+        rememberMe: Boolean(data.rememberMe),
+        twoFactorVerified: Boolean(data.twoFactorVerified),
+        expiresAt: data.expiresAt,
+        lastUsedAt: new Date(),
+        userAgent: data.userAgent
+          ? String(data.userAgent).slice(0, 255)
+          : null,
+        ip: data.ip || null,
+      },
+      {
+        transaction,
+      },
+    );
+
+    await options.database.authRefreshToken.create(
+      {
+        sessionId: record.id,
+        tokenHash: data.refreshTokenHash,
+      },
+      {
+        transaction,
+      },
+    );
+
+    return record;
+  }
+
+  /**
+   * Finds the refresh token with this hash, current or
+   * replaced, with the session it was issued to.
+   *
+   * @param {*} hash
+   * @param {*} options
+   */
+  static async findRefreshToken(
+    hash,
+    options: IRepositoryOptions,
+  ) {
+    return options.database.authRefreshToken.findOne({
+      where: {
+        tokenHash: hash,
+      },
+      include: [
+        {
+          model: options.database.authSession,
+          as: 'session',
+        },
+      ],
+    });
+  }
+
+  /**
+   * Finds the session if it is neither
+   * revoked nor expired.
+   *
+   * @param {*} id
+   * @param {*} options
+   */
+  static async findActiveById(
+    id,
+    options: IRepositoryOptions,
+  ) {
+    return options.database.authSession.findOne({
+      where: {
+        id,
+        ...this._activeWhere(),
+      },
+    });
+  }
+
+  /**
+   * Lists the active sessions of the user,
+   * most recently used first.
+   *
+   * @param {*} userId
+   * @param {*} options
+   */
+  static async findActiveByUser(
+    userId,
+    options: IRepositoryOptions,
+  ) {
+    return options.database.authSession.findAll({
+      where: {
+        userId,
+        ...this._activeWhere(),
+      },
+      attributes: [
+        'id',
+        'rememberMe',
+        'expiresAt',
+        'lastUsedAt',
+        'userAgent',
+        'ip',
+        'createdAt',
+      ],
+      order: [['lastUsedAt', 'DESC']],
+    });
+  }
+
+  /**
+   * Replaces the refresh token of the session, in the
+   * transaction of the options, if it is still the
+   * current one. Returns whether it was, which a
+   * concurrent use of the same token makes false.
+   *
+   * @param {*} record
+   * @param {*} refreshTokenHash The current hash
+   * @param {*} newRefreshTokenHash
+   * @param {*} options
+   */
+  static async rotate(
+    record,
+    refreshTokenHash,
+    newRefreshTokenHash,
+    options: IRepositoryOptions,
+  ) {
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const [
+      count,
+    ] = await options.database.authSession.update(
+      {
+        refreshTokenHash: newRefreshTokenHash,
+        lastUsedAt: new Date(),
+      },
+      {
+        where: {
+          id: record.id,
+          refreshTokenHash,
+          revokedAt: null,
+        },
+        transaction,
+      },
+    );
+
+    if (!count) {
+      return false;
+    }
+
+    await options.database.authRefreshToken.update(
+      { replacedAt: new Date() },
+      {
+        where: {
+          sessionId: record.id,
+          tokenHash: refreshTokenHash,
+        },
+        transaction,
+      },
+    );
+
+    await options.database.authRefreshToken.create(
+      {
+        sessionId: record.id,
+        tokenHash: newRefreshTokenHash,
+      },
+      {
+        transaction,
+      },
+    );
+
+    return true;
+  }
+
+  /**
+   * Records that the user of the session
+   * passed a second factor.
+   *
+   * @param {*} id
+   * @param {*} options
+   */
+  static async markTwoFactorVerified(
+    id,
+    options: IRepositoryOptions,
+  ) {
+    await options.database.authSession.update(
+      { twoFactorVerified: true },
+      {
+        where: { id },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+  }
+
+  /**
+   * Revokes the session of the user.
+   * Returns whether it was active.
+   *
+   * @param {*} id
+   * @param {*} userId
+   * @param {*} options
+   */
+  static async revoke(
+    id,
+    userId,
+    options: IRepositoryOptions,
+  ) {
+    const [
+      count,
+    ] = await options.database.authSession.update(
+      { revokedAt: new Date() },
+      {
+        where: {
+          id,
+          userId,
+          revokedAt: null,
+        },
+      },
+    );
+
+    return count > 0;
+  }
+
+  /**
+   * Revokes all the sessions of the user,
+   * but the one to keep, if any.
+   *
+   * @param {*} userId
+   * @param {*} exceptId
+   * @param {*} options
+   */
+  static async revokeAllOfUser(
+    userId,
+    exceptId,
+    options: IRepositoryOptions,
+  ) {
+    const where: any = {
+      userId,
+      revokedAt: null,
+    };
+
+    if (exceptId) {
+      where.id = { [Op.ne]: exceptId };
+    }
+
+    await options.database.authSession.update(
+      { revokedAt: new Date() },
+      { where },
+    );
+  }
+
+  static _activeWhere() {
+    return {
+      revokedAt: null,
+      expiresAt: {
+        [Op.gt]: new Date(),
+      },
+    };
+  }
+}
+
+export default AuthSessionRepository;
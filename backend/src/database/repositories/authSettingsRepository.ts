@@ -0,0 +1,93 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import lodash from 'lodash';
+
+/**
+ * Handles the authentication policy of the tenants.
+ */
+class AuthSettingsRepository {
+  static async find(options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return this.findByTenant(tenant.id, options);
+  }
+
+  /**
+   * Finds the policy of a tenant other than the
+   * current one, e.g. while signing in.
+   *
+   * @param {*} tenantId
+   * @param {*} options
+   */
+  static async findByTenant(
+    tenantId,
+    options: IRepositoryOptions,
+  ) {
+    return options.database.authSettings.findOne({
+      where: { tenantId },
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+
+  static async save(data, options: IRepositoryOptions) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      options,
+    );
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const values = lodash.pick(data, [
+      'twoFactorRequiredRoles',
+      'oidcEnabled',
+      'oidcIssuer',
+      'oidcClientId',
+      'oidcClientSecretEncrypted',
+      'oidcLabel',
+      'oidcRolesClaim',
+      'oidcRoleMapping',
+      'selfRegistrationEnabled',
+      'selfRegistrationRoles',
+      'selfRegistrationDomains',
+      'selfRegistrationAllowedDomainsOnly',
+      'selfRegistrationApprovalRequired',
+    ]);
+
+    const record = await this.find(options);
+
+    if (record) {
+      return record.update(
+        {
+          ...values,
+          updatedById: currentUser.id,
+        },
+        {
+          transaction,
+        },
+      );
+    }
+
+    return options.database.authSettings.create(
+      {
+        ...values,
+        tenantId: tenant.id,
+        createdById: currentUser.id,
+        updatedById: currentUser.id,
+      },
+      {
+        transaction,
+      },
+    );
+  }
+}
+
+export default AuthSettingsRepository;
@@ -0,0 +1,133 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import Error404 from '../../errors/Error404';
+import { IRepositoryOptions } from './IRepositoryOptions';
+
+/**
+ * Handles the kiosk devices of the tenant.
+ */
+class KioskDeviceRepository {
+  static async create(data, options: IRepositoryOptions) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      options,
+    );
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.kioskDevice.create(
+      {
+        name: data.name,
+        siteRules: data.siteRules || null,
+        tokenHash: data.tokenHash,
+        tenantId: tenant.id,
+        createdById: currentUser.id,
+        updatedById: currentUser.id,
+      },
+      {
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+  }
+
+  /**
+   * Lists the devices of the tenant,
+   * the revoked ones last.
+   *
+   * @param {*} options
+   */
+  static async findAll(options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.kioskDevice.findAll({
+      where: {
+        tenantId: tenant.id,
+      },
+      attributes: [
+        'id',
+        'name',
+        'siteRules',
+        'lastSeenAt',
+        'revokedAt',
+        'createdAt',
+      ],
+      order: [
+        ['revokedAt', 'ASC'],
+        ['name', 'ASC'],
+      ],
+    });
+  }
+
+  /**
+   * Finds the device that isn't revoked with this
+   * token hash, in any tenant, with its tenant.
+   *
+   * @param {*} tokenHash
+   * @param {*} options
+   */
+  static async findActiveByTokenHash(
+    tokenHash,
+    options: IRepositoryOptions,
+  ) {
+    return options.database.kioskDevice.findOne({
+      where: {
+        tokenHash,
+        revokedAt: null,
+      },
+      include: [
+        {
+          model: options.database.tenant,
+          as: 'tenant',
+        },
+      ],
+    });
+  }
+
+  /**
+   * Records that the device was used.
+   *
+   * @param {*} record
+   * @param {*} options
+   */
+  static async touch(record, options: IRepositoryOptions) {
+    return record.update(
+      { lastSeenAt: new Date() },
+      { silent: true },
+    );
+  }
+
+  static async revoke(id, options: IRepositoryOptions) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      options,
+    );
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const record = await options.database.kioskDevice.findOne(
+      {
+        where: {
+          id,
+          tenantId: tenant.id,
+          revokedAt: null,
+        },
+      },
+    );
+
+    if (!record) {
+      throw new Error404();
+    }
+
+    return record.update({
+      revokedAt: new Date(),
+      updatedById: currentUser.id,
+    });
+  }
+}
+
+export default KioskDeviceRepository;
@@ -0,0 +1,69 @@
+import { IRepositoryOptions } from './IRepositoryOptions';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+/**
+ * Handles the OIDC sign-ins waiting for the provider
+ * to redirect back. They are started before there is
+ * an user, so they are never part of a transaction.
+ */
+class OidcLoginRepository {
+  /**
+   * Starts a sign-in, forgetting the expired ones.
+   *
+   * @param {*} data id, tenantId, nonce, codeChallenge, rememberMe and expiresAt
+   * @param {*} options
+   */
+  static async create(data, options: IRepositoryOptions) {
+    await options.database.oidcLogin.destroy({
+      where: {
+        expiresAt: {
+          [Op.lte]: new Date(),
+        },
+      },
+    });
+
+    return options.database.oidcLogin.create({
+      id: data.id,
+      tenantId: data.tenantId,
+      nonce: data.nonce,
+      codeChallenge: data.codeChallenge,
+      rememberMe: Boolean(data.rememberMe),
+      expiresAt: data.expiresAt,
+    });
+  }
+
+  /**
+   * Removes the unexpired sign-in and returns it, so it
+   * is used once. Null if there is none.
+   *
+   * @param {*} id
+   * @param {*} options
+   */
+  static async consume(id, options: IRepositoryOptions) {
+    const record = await options.database.oidcLogin.findOne(
+      {
+        where: {
+          id: String(id || ''),
+          expiresAt: {
+            [Op.gt]: new Date(),
+          },
+        },
+      },
+    );
+
+    if (!record) {
+      return null;
+    }
+
+    const count = await options.database.oidcLogin.destroy({
+      where: { id: record.id },
+    });
+
+    // Consumed by a concurrent callback
+    return count ? record : null;
+  }
+}
+
+export default OidcLoginRepository;
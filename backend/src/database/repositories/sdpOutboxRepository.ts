@@ -0,0 +1,472 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+/**
+ * Handles the SDP outbox, the commands waiting
+ * to be delivered to the access controller.
+ */
+class SdpOutboxRepository {
+  static PENDING = 'pending';
+  static PROCESSING = 'processing';
+  static DELIVERED = 'delivered';
+  static FAILED = 'failed';
+  static BLOCKED = 'blocked';
+
+  /**
+   * Adds a command to the outbox, in the transaction
+   * of the Visitor change. It waits for the older
+   * commands of the Visitor that are backing off.
+   *
+   * @param {*} action add, update or delete
+   * @param {*} visitorId
+   * @param {*} payload
+   * @param {*} options
+   * @param {*} [batchId] Delivers the adds of the batch together
+   */
+  static async enqueue(
+    action,
+    visitorId,
+    payload,
+    options: IRepositoryOptions,
+    batchId = null,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const backingOff = await options.database.sdpOutbox.max(
+      'nextAttemptAt',
+      {
+        where: {
+          tenantId: tenant.id,
+          visitorId,
+          status: this.PENDING,
+        },
+        transaction,
+      },
+    );
+
+    const now = new Date();
+
+    return options.database.sdpOutbox.create(
+      {
+        action,
+        visitorId,
+        payload,
+        batchId,
+        status: this.PENDING,
+        nextAttemptAt:
+          backingOff && new Date(backingOff) > now
+            ? backingOff
+            : now,
+        tenantId: tenant.id,
+      },
+      {
+        transaction,
+      },
+    );
+  }
+
+  /**
+   * Finds the pending commands of all tenants that are
+   * due, longest due first. Commands backing off are
+   * left out, so they can't crowd out other tenants.
+   * So are the claimed ones, until their lease expires.
+   *
+   * @param {*} limit
+   * @param {*} options
+   */
+  static async findDue(limit, options: IRepositoryOptions) {
+    return options.database.sdpOutbox.findAll({
+      where: {
+        status: {
+          [Op.in]: [this.PENDING, this.PROCESSING],
+        },
+        nextAttemptAt: {
+          [Op.lte]: new Date(),
+        },
+      },
+      order: [
+        ['nextAttemptAt', 'ASC'],
+        ['createdAt', 'ASC'],
+      ],
+      limit,
+    });
+  }
+
+  /**
+   * Finds the pending commands of the batch.
+   *
+   * @param {*} batchId
+   * @param {*} options
+   */
+  static async findPendingByBatch(
+    batchId,
+    options: IRepositoryOptions,
+  ) {
+    return options.database.sdpOutbox.findAll({
+      where: {
+        batchId,
+        status: {
+          [Op.in]: [this.PENDING, this.PROCESSING],
+        },
+      },
+      order: [['createdAt', 'ASC']],
+    });
+  }
+
+  /**
+   * Claims the due command for delivery until the lease
+   * expires, so other processes leave it alone. The
+   * commands of a process that died are claimed again
+   * once their lease is over. Resolves false if another
+   * process claimed it, or an older command of the
+   * Visitor must be delivered first.
+   *
+   * @param {*} entry
+   * @param {*} leaseUntil
+   * @param {*} options
+   */
+  static async claim(
+    entry,
+    leaseUntil,
+    options: IRepositoryOptions,
+  ) {
+    const [
+      claimed,
+    ] = await options.database.sdpOutbox.update(
+      {
+        status: this.PROCESSING,
+        nextAttemptAt: leaseUntil,
+      },
+      {
+        where: {
+          id: entry.id,
+          status: {
+            [Op.in]: [this.PENDING, this.PROCESSING],
+          },
+          nextAttemptAt: {
+            [Op.lte]: new Date(),
+          },
+        },
+      },
+    );
+
+    if (!claimed) {
+      return false;
+    }
+
+    // Deletes of orphans have no order to keep
+    if (!entry.visitorId) {
+      return true;
+    }
+
+    const older = await options.database.sdpOutbox.count({
+      where: {
+        tenantId: entry.tenantId,
+        visitorId: entry.visitorId,
+        status: {
+          [Op.in]: [this.PENDING, this.PROCESSING],
+        },
+        createdAt: {
+          [Op.lt]: entry.createdAt,
+        },
+      },
+    });
+
+    if (older) {
+      await options.database.sdpOutbox.update(
+        {
+          status: this.PENDING,
+          nextAttemptAt: new Date(),
+        },
+        {
+          where: { id: entry.id },
+        },
+      );
+
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Finds the add or update of the Visitor last
+   * delivered, what the controller should have.
+   *
+   * @param {*} visitorId
+   * @param {*} options
+   */
+  static async findLastDelivered(
+    visitorId,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.sdpOutbox.findOne({
+      where: {
+        tenantId: tenant.id,
+        visitorId,
+        status: this.DELIVERED,
+        action: {
+          [Op.in]: ['add', 'update'],
+        },
+      },
+      order: [['deliveredAt', 'DESC']],
+    });
+  }
+
+  /**
+   * Marks the command as delivered.
+   *
+   * @param {*} id
+   * @param {*} options
+   */
+  static async markDelivered(
+    id,
+    options: IRepositoryOptions,
+  ) {
+    await options.database.sdpOutbox.update(
+      {
+        status: this.DELIVERED,
+        lastError: null,
+        deliveredAt: new Date(),
+      },
+      {
+        where: { id },
+      },
+    );
+  }
+
+  /**
+   * Marks the command as done without adding the
+   * Visitor, whom the screening didn't clear.
+   *
+   * @param {*} id
+   * @param {*} options
+   */
+  static async markBlocked(
+    id,
+    options: IRepositoryOptions,
+  ) {
+    await options.database.sdpOutbox.update(
+      {
+        status: this.BLOCKED,
+        lastError: null,
+      },
+      {
+        where: { id },
+      },
+    );
+  }
+
+  /**
+   * Records a failed attempt. Without a next attempt date
+   * the command is dead-lettered. The newer commands of
+   * the Visitor wait for the retry, so they stay in order.
+   *
+   * @param {*} entry
+   * @param {*} attempts
+   * @param {*} lastError
+   * @param {*} nextAttemptAt
+   * @param {*} options
+   */
+  static async markAttemptFailed(
+    entry,
+    attempts,
+    lastError,
+    nextAttemptAt,
+    options: IRepositoryOptions,
+  ) {
+    await options.database.sdpOutbox.update(
+      {
+        status: nextAttemptAt ? this.PENDING : this.FAILED,
+        attempts,
+        lastError,
+        nextAttemptAt: nextAttemptAt || new Date(),
+      },
+      {
+        where: { id: entry.id },
+      },
+    );
+
+    if (nextAttemptAt) {
+      await this._postponeNewer(
+        entry,
+        nextAttemptAt,
+        options,
+      );
+    }
+  }
+
+  /**
+   * Postpones the command without counting an attempt,
+   * e.g. while the controller of the tenant is disabled.
+   * The newer commands of the Visitor wait as well.
+   *
+   * @param {*} entry
+   * @param {*} nextAttemptAt
+   * @param {*} options
+   */
+  static async postpone(
+    entry,
+    nextAttemptAt,
+    options: IRepositoryOptions,
+  ) {
+    await options.database.sdpOutbox.update(
+      {
+        status: this.PENDING,
+        nextAttemptAt,
+      },
+      {
+        where: { id: entry.id },
+      },
+    );
+
+    await this._postponeNewer(
+      entry,
+      nextAttemptAt,
+      options,
+    );
+  }
+
+  /**
+   * Makes the pending commands of the tenant due now,
+   * e.g. after its controller settings were changed.
+   *
+   * @param {*} options
+   */
+  static async retryPendingNow(
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    await options.database.sdpOutbox.update(
+      {
+        nextAttemptAt: new Date(),
+      },
+      {
+        where: {
+          tenantId: tenant.id,
+          status: this.PENDING,
+          nextAttemptAt: {
+            [Op.gt]: new Date(),
+          },
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+  }
+
+  static async _postponeNewer(
+    entry,
+    nextAttemptAt,
+    options: IRepositoryOptions,
+  ) {
+    // Deletes of orphans have no order to keep
+    if (!entry.visitorId) {
+      return;
+    }
+
+    await options.database.sdpOutbox.update(
+      {
+        nextAttemptAt,
+      },
+      {
+        where: {
+          tenantId: entry.tenantId,
+          visitorId: entry.visitorId,
+          status: this.PENDING,
+          createdAt: {
+            [Op.gt]: entry.createdAt,
+          },
+          nextAttemptAt: {
+            [Op.lt]: nextAttemptAt,
+          },
+        },
+      },
+    );
+  }
+
+  /**
+   * Returns the sync status of each Visitor, based on its
+   * latest command: pending, synced, failed or blocked.
+   * Visitors without commands are left out.
+   *
+   * @param {*} visitorIds
+   * @param {*} options
+   */
+  static async findSyncStatuses(
+    visitorIds,
+    options: IRepositoryOptions,
+  ) {
+    const statuses = {};
+
+    if (!visitorIds.length) {
+      return statuses;
+    }
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const records = await options.database.sdpOutbox.findAll(
+      {
+        attributes: [
+          'visitorId',
+          'status',
+          'attempts',
+          'lastError',
+          'deliveredAt',
+          'createdAt',
+        ],
+        where: {
+          tenantId: tenant.id,
+          visitorId: {
+            [Op.in]: visitorIds,
+          },
+        },
+        order: [['createdAt', 'DESC']],
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    for (const record of records) {
+      if (statuses[record.visitorId]) {
+        continue;
+      }
+
+      statuses[record.visitorId] = {
+        status:
+          record.status === this.DELIVERED
+            ? 'synced'
+            : record.status === this.PROCESSING
+            ? this.PENDING
+            : record.status,
+        attempts: record.attempts,
+        lastError: record.lastError,
+        syncedAt: record.deliveredAt,
+      };
+    }
+
+    return statuses;
+  }
+}
+
+export default SdpOutboxRepository;
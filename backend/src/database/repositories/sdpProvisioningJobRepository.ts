@@ -0,0 +1,395 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import Error404 from '../../errors/Error404';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+/**
+ * Pending jobs this long past their time are overdue.
+ */
+const OVERDUE_AFTER = 5 * 60 * 1000;
+
+/**
+ * Handles the jobs that grant and revoke
+ * access on the SDP access controller.
+ */
+class SdpProvisioningJobRepository {
+  static PENDING = 'pending';
+  static DONE = 'done';
+  static CANCELLED = 'cancelled';
+  static FAILED = 'failed';
+
+  /**
+   * Schedules a job, in the transaction of the options.
+   *
+   * @param {*} data action, visitorId, runAt and batchId
+   * @param {*} options
+   */
+  static async create(data, options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.sdpProvisioningJob.create(
+      {
+        action: data.action,
+        visitorId: data.visitorId,
+        runAt: data.runAt,
+        batchId: data.batchId || null,
+        status: this.PENDING,
+        tenantId: tenant.id,
+      },
+      {
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+  }
+
+  /**
+   * Finds the pending jobs of all tenants
+   * due at the date, earliest first.
+   *
+   * @param {*} date
+   * @param {*} limit
+   * @param {*} options
+   */
+  static async findDue(
+    date,
+    limit,
+    options: IRepositoryOptions,
+  ) {
+    return options.database.sdpProvisioningJob.findAll({
+      where: {
+        status: this.PENDING,
+        runAt: {
+          [Op.lte]: date,
+        },
+      },
+      order: [['runAt', 'ASC']],
+      limit,
+    });
+  }
+
+  /**
+   * Finds the pending jobs of the Visitor.
+   *
+   * @param {*} visitorId
+   * @param {*} options
+   */
+  static async findPendingByVisitor(
+    visitorId,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.sdpProvisioningJob.findAll({
+      where: {
+        tenantId: tenant.id,
+        visitorId,
+        status: this.PENDING,
+      },
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+
+  /**
+   * Finds the pending jobs of the batch.
+   *
+   * @param {*} batchId
+   * @param {*} options
+   */
+  static async findPendingByBatch(
+    batchId,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.sdpProvisioningJob.findAll({
+      where: {
+        tenantId: tenant.id,
+        batchId,
+        status: this.PENDING,
+      },
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+
+  /**
+   * Moves the job to another time.
+   *
+   * @param {*} id
+   * @param {*} runAt
+   * @param {*} options
+   */
+  static async reschedule(
+    id,
+    runAt,
+    options: IRepositoryOptions,
+  ) {
+    await this._update([id], { runAt }, options);
+  }
+
+  /**
+   * Marks the jobs as done.
+   *
+   * @param {*} ids
+   * @param {*} options
+   */
+  static async markDone(ids, options: IRepositoryOptions) {
+    await this._update(
+      ids,
+      {
+        status: this.DONE,
+        lastError: null,
+        executedAt: new Date(),
+      },
+      options,
+    );
+  }
+
+  /**
+   * Marks the jobs as cancelled.
+   *
+   * @param {*} ids
+   * @param {*} options
+   */
+  static async markCancelled(
+    ids,
+    options: IRepositoryOptions,
+  ) {
+    await this._update(
+      ids,
+      {
+        status: this.CANCELLED,
+        executedAt: new Date(),
+      },
+      options,
+    );
+  }
+
+  /**
+   * Records a failed attempt of the pending job. Without a
+   * next run date the job is marked as failed, to wait for
+   * an admin to retry it.
+   *
+   * @param {*} id
+   * @param {*} attempts
+   * @param {*} lastError
+   * @param {*} nextRunAt
+   * @param {*} options
+   */
+  static async markAttemptFailed(
+    id,
+    attempts,
+    lastError,
+    nextRunAt,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    await options.database.sdpProvisioningJob.update(
+      nextRunAt
+        ? {
+            status: this.PENDING,
+            attempts,
+            lastError,
+            runAt: nextRunAt,
+          }
+        : {
+            status: this.FAILED,
+            attempts,
+            lastError,
+            executedAt: new Date(),
+          },
+      {
+        where: {
+          id,
+          tenantId: tenant.id,
+          status: this.PENDING,
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+  }
+
+  /**
+   * Marks the jobs as failed. They wait for
+   * an admin to retry them.
+   *
+   * @param {*} ids
+   * @param {*} lastError
+   * @param {*} options
+   */
+  static async markFailed(
+    ids,
+    lastError,
+    options: IRepositoryOptions,
+  ) {
+    await this._update(
+      ids,
+      {
+        status: this.FAILED,
+        lastError,
+        executedAt: new Date(),
+      },
+      options,
+    );
+  }
+
+  /**
+   * Puts the failed job back in the schedule, due now.
+   *
+   * @param {*} id
+   * @param {*} options
+   */
+  static async retry(id, options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const record = await options.database.sdpProvisioningJob.findOne(
+      {
+        where: {
+          id,
+          tenantId: tenant.id,
+          status: this.FAILED,
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    if (!record) {
+      throw new Error404();
+    }
+
+    return record.update(
+      {
+        status: this.PENDING,
+        runAt: new Date(),
+        attempts: 0,
+        lastError: null,
+        executedAt: null,
+      },
+      {
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+  }
+
+  /**
+   * Lists the jobs of a view with their Visitor:
+   * upcoming, overdue or failed.
+   *
+   * @param {*} args
+   * @param {*} options
+   */
+  static async findAndCountAll(
+    { view = 'upcoming', limit = 0, offset = 0 },
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const now = Date.now();
+
+    const where: any = {
+      tenantId: tenant.id,
+    };
+
+    if (view === 'failed') {
+      where.status = this.FAILED;
+    } else if (view === 'overdue') {
+      where.status = this.PENDING;
+      where.runAt = {
+        [Op.lte]: new Date(now - OVERDUE_AFTER),
+      };
+    } else {
+      where.status = this.PENDING;
+      where.runAt = {
+        [Op.gt]: new Date(now - OVERDUE_AFTER),
+      };
+    }
+
+    const {
+      rows,
+      count,
+    } = await options.database.sdpProvisioningJob.findAndCountAll(
+      {
+        where,
+        include: [
+          {
+            model: options.database.visitor,
+            as: 'visitor',
+            attributes: [
+              'id',
+              'name',
+              'startTime',
+              'endTime',
+            ],
+          },
+        ],
+        order: [
+          ['runAt', view === 'upcoming' ? 'ASC' : 'DESC'],
+        ],
+        limit: limit ? Number(limit) : undefined,
+        offset: offset ? Number(offset) : undefined,
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    return { rows, count };
+  }
+
+  static async _update(
+    ids,
+    values,
+    options: IRepositoryOptions,
+  ) {
+    if (!ids.length) {
+      return;
+    }
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    await options.database.sdpProvisioningJob.update(
+      values,
+      {
+        where: {
+          id: {
+            [Op.in]: ids,
+          },
+          tenantId: tenant.id,
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+  }
+}
+
+export default SdpProvisioningJobRepository;
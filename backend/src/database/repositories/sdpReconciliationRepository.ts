@@ -0,0 +1,109 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import Error404 from '../../errors/Error404';
+import lodash from 'lodash';
+
+/**
+ * Handles the SDP reconciliation reports.
+ */
+class SdpReconciliationRepository {
+  static async create(data, options: IRepositoryOptions) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      options,
+    );
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    return options.database.sdpReconciliation.create(
+      {
+        ...lodash.pick(data, [
+          'status',
+          'fix',
+          'startedAt',
+          'finishedAt',
+          'missingCount',
+          'orphanedCount',
+          'mismatchedCount',
+          'invalidCount',
+          'differences',
+          'error',
+        ]),
+        tenantId: tenant.id,
+        createdById: currentUser.id,
+      },
+      {
+        transaction,
+      },
+    );
+  }
+
+  static async findById(id, options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const record = await options.database.sdpReconciliation.findOne(
+      {
+        where: {
+          id,
+          tenantId: tenant.id,
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    if (!record) {
+      throw new Error404();
+    }
+
+    return record;
+  }
+
+  /**
+   * Lists the reports, newest first,
+   * without their differences.
+   *
+   * @param {*} args
+   * @param {*} options
+   */
+  static async findAndCountAll(
+    { limit = 0, offset = 0 },
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const {
+      rows,
+      count,
+    } = await options.database.sdpReconciliation.findAndCountAll(
+      {
+        attributes: {
+          exclude: ['differences'],
+        },
+        where: {
+          tenantId: tenant.id,
+        },
+        order: [['startedAt', 'DESC']],
+        limit: limit ? Number(limit) : undefined,
+        offset: offset ? Number(offset) : undefined,
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    return { rows, count };
+  }
+}
+
+export default SdpReconciliationRepository;
@@ -0,0 +1,73 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import lodash from 'lodash';
+
+/**
+ * Handles the SDP access controller settings of the tenant.
+ */
+class SdpSettingsRepository {
+  static async find(options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    return options.database.sdpSettings.findOne({
+      where: { tenantId: tenant.id },
+      transaction,
+    });
+  }
+
+  static async save(data, options: IRepositoryOptions) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      options,
+    );
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const values = lodash.pick(data, [
+      'enabled',
+      'url',
+      'username',
+      'passwordEncrypted',
+      'areaCode',
+    ]);
+
+    const record = await this.find(options);
+
+    if (record) {
+      return record.update(
+        {
+          ...values,
+          updatedById: currentUser.id,
+        },
+        {
+          transaction,
+        },
+      );
+    }
+
+    return options.database.sdpSettings.create(
+      {
+        ...values,
+        tenantId: tenant.id,
+        createdById: currentUser.id,
+        updatedById: currentUser.id,
+      },
+      {
+        transaction,
+      },
+    );
+  }
+}
+
+export default SdpSettingsRepository;
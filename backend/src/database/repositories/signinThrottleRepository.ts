@@ -0,0 +1,213 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import Error404 from '../../errors/Error404';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+/**
+ * Handles the failed sign-in attempts of the accounts
+ * and IP addresses. They are not tenant data, so they
+ * are never written in a transaction that could be
+ * rolled back with the sign-in.
+ */
+class SigninThrottleRepository {
+  static ACCOUNT = 'account';
+  static IP = 'ip';
+
+  /**
+   * Finds the attempts of the account or IP address.
+   *
+   * @param {*} scope account or ip
+   * @param {*} key
+   * @param {*} options
+   */
+  static async find(
+    scope,
+    key,
+    options: IRepositoryOptions,
+  ) {
+    return options.database.signinThrottle.findOne({
+      where: {
+        scope,
+        key,
+      },
+    });
+  }
+
+  /**
+   * Updates the attempts of the account or IP address with
+   * the values computed from the current ones, in a
+   * transaction of its own that locks the row, so
+   * concurrent failures are all counted.
+   *
+   * @param {*} scope account or ip
+   * @param {*} key
+   * @param {*} compute Returns the new values of the record
+   * @param {*} options
+   */
+  static async updateLocked(
+    scope,
+    key,
+    compute: (record) => any,
+    options: IRepositoryOptions,
+  ) {
+    // Makes sure there is a row to lock
+    await options.database.signinThrottle.bulkCreate(
+      [{ scope, key }],
+      { ignoreDuplicates: true },
+    );
+
+    const transaction = await SequelizeRepository.createTransaction(
+      options.database,
+    );
+
+    try {
+      const record = await options.database.signinThrottle.findOne(
+        {
+          where: {
+            scope,
+            key,
+          },
+          lock: transaction.LOCK.UPDATE,
+          transaction,
+        },
+      );
+
+      await record.update(compute(record), {
+        transaction,
+      });
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return record;
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Forgets the failed attempts of the account
+   * or IP address and lifts its lockout.
+   *
+   * @param {*} scope account or ip
+   * @param {*} key
+   * @param {*} options
+   */
+  static async reset(
+    scope,
+    key,
+    options: IRepositoryOptions,
+  ) {
+    await options.database.signinThrottle.update(
+      {
+        failures: 0,
+        lastFailureAt: null,
+        lockedUntil: null,
+      },
+      {
+        where: {
+          scope,
+          key,
+        },
+      },
+    );
+  }
+
+  /**
+   * Lists the accounts of the users of the
+   * tenant that are locked out right now.
+   *
+   * @param {*} args
+   * @param {*} options
+   */
+  static async findLockedAccounts(
+    { limit = 0, offset = 0 },
+    options: IRepositoryOptions,
+  ) {
+    const {
+      rows,
+      count,
+    } = await options.database.signinThrottle.findAndCountAll(
+      {
+        where: this._lockedAccountWhere(),
+        include: [this._tenantUserInclude(options)],
+        order: [['lockedUntil', 'DESC']],
+        limit: limit ? Number(limit) : undefined,
+        offset: offset ? Number(offset) : undefined,
+      },
+    );
+
+    return { rows, count };
+  }
+
+  /**
+   * Lifts the lockout of an account of an
+   * user of the tenant.
+   *
+   * @param {*} id
+   * @param {*} options
+   */
+  static async unlock(id, options: IRepositoryOptions) {
+    const record = await options.database.signinThrottle.findOne(
+      {
+        where: {
+          ...this._lockedAccountWhere(),
+          id,
+        },
+        include: [this._tenantUserInclude(options)],
+      },
+    );
+
+    if (!record) {
+      throw new Error404();
+    }
+
+    await this.reset(record.scope, record.key, options);
+  }
+
+  static _lockedAccountWhere() {
+    return {
+      scope: this.ACCOUNT,
+      lockedUntil: {
+        [Op.gt]: new Date(),
+      },
+    };
+  }
+
+  /**
+   * Restricts to the accounts of users of the tenant,
+   * so admins only see and unlock their own users.
+   */
+  static _tenantUserInclude(options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return {
+      model: options.database.user,
+      as: 'user',
+      attributes: ['id', 'email', 'fullName'],
+      required: true,
+      include: [
+        {
+          model: options.database.tenantUser,
+          as: 'tenants',
+          attributes: [],
+          required: true,
+          where: {
+            tenantId: tenant.id,
+          },
+        },
+      ],
+    };
+  }
+}
+
+export default SigninThrottleRepository;
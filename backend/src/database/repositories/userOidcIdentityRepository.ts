@@ -0,0 +1,63 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+
+/**
+ * Handles the OIDC accounts of the users. Like
+ * the users, they don't belong to a tenant.
+ */
+class UserOidcIdentityRepository {
+  /**
+   * Finds the link of the account at the provider,
+   * if any.
+   *
+   * @param {*} issuer
+   * @param {*} subject
+   * @param {*} options
+   */
+  static async findByIssuerAndSubject(
+    issuer,
+    subject,
+    options: IRepositoryOptions,
+  ) {
+    return options.database.userOidcIdentity.findOne({
+      where: { issuer, subject },
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+
+  /**
+   * Links the account at the provider to the user,
+   * in the transaction of the options.
+   *
+   * @param {*} userId
+   * @param {*} issuer
+   * @param {*} subject
+   * @param {*} provisioned Whether the sign-in created the user
+   * @param {*} options
+   */
+  static async create(
+    userId,
+    issuer,
+    subject,
+    provisioned,
+    options: IRepositoryOptions,
+  ) {
+    return options.database.userOidcIdentity.create(
+      {
+        userId,
+        issuer,
+        subject,
+        provisioned,
+      },
+      {
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+  }
+}
+
+export default UserOidcIdentityRepository;
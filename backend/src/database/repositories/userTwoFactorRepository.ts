@@ -0,0 +1,65 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+
+/**
+ * Handles the second factors of the users. Like
+ * the users, they don't belong to a tenant.
+ */
+class UserTwoFactorRepository {
+  static async findByUser(
+    userId,
+    options: IRepositoryOptions,
+  ) {
+    return options.database.userTwoFactor.findOne({
+      where: { userId },
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+
+  /**
+   * Creates or updates the second factor of the user.
+   *
+   * @param {*} userId
+   * @param {*} values
+   * @param {*} options
+   */
+  static async save(
+    userId,
+    values,
+    options: IRepositoryOptions,
+  ) {
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const record = await this.findByUser(userId, options);
+
+    if (record) {
+      return record.update(values, { transaction });
+    }
+
+    return options.database.userTwoFactor.create(
+      {
+        ...values,
+        userId,
+      },
+      { transaction },
+    );
+  }
+
+  static async destroy(
+    userId,
+    options: IRepositoryOptions,
+  ) {
+    await options.database.userTwoFactor.destroy({
+      where: { userId },
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+}
+
+export default UserTwoFactorRepository;
@@ -0,0 +1,68 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import lodash from 'lodash';
+
+/**
+ * Handles the door passes of the Visitors.
+ */
+class VisitorAccessEventRepository {
+  static async create(data, options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    return options.database.visitorAccessEvent.create(
+      {
+        ...lodash.pick(data, [
+          'visitorId',
+          'occurredAt',
+          'doorCode',
+          'doorName',
+          'areaCode',
+          'direction',
+          'result',
+          'raw',
+        ]),
+        tenantId: tenant.id,
+      },
+      {
+        transaction,
+      },
+    );
+  }
+
+  /**
+   * Finds the door passes of the Visitor, newest first.
+   *
+   * @param {*} visitorId
+   * @param {*} options
+   */
+  static async findAllByVisitor(
+    visitorId,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.visitorAccessEvent.findAll({
+      attributes: {
+        exclude: ['raw'],
+      },
+      where: {
+        visitorId,
+        tenantId: tenant.id,
+      },
+      order: [['occurredAt', 'DESC']],
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+}
+
+export default VisitorAccessEventRepository;
@@ -0,0 +1,210 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+/**
+ * Handles the areas the Visitors are given access to.
+ */
+class VisitorAreaRepository {
+  /**
+   * Returns the areas of the Visitor, by code.
+   *
+   * @param {*} visitorId
+   * @param {*} options
+   */
+  static async findByVisitor(
+    visitorId,
+    options: IRepositoryOptions,
+  ) {
+    const areas = await this.findByVisitors(
+      [visitorId],
+      options,
+    );
+
+    return areas[visitorId];
+  }
+
+  /**
+   * Returns the areas of each Visitor by id,
+   * empty for Visitors without any.
+   *
+   * @param {*} visitorIds
+   * @param {*} options
+   */
+  static async findByVisitors(
+    visitorIds,
+    options: IRepositoryOptions,
+  ) {
+    const areas = {};
+
+    for (const visitorId of visitorIds) {
+      areas[visitorId] = [];
+    }
+
+    if (!visitorIds.length) {
+      return areas;
+    }
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const records = await options.database.visitorArea.findAll(
+      {
+        where: {
+          tenantId: tenant.id,
+          visitorId: {
+            [Op.in]: visitorIds,
+          },
+        },
+        include: [
+          {
+            model: options.database.area,
+            as: 'area',
+          },
+        ],
+        order: [['area', 'code', 'ASC']],
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    for (const record of records) {
+      areas[record.visitorId].push(
+        record.area.get({ plain: true }),
+      );
+    }
+
+    return areas;
+  }
+
+  /**
+   * Finds the ids of the Visitors with access to the area.
+   *
+   * @param {*} areaId
+   * @param {*} options
+   */
+  static async findVisitorIdsByArea(
+    areaId,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const records = await options.database.visitorArea.findAll(
+      {
+        attributes: ['visitorId'],
+        where: {
+          tenantId: tenant.id,
+          areaId,
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    return records.map((record) => record.visitorId);
+  }
+
+  /**
+   * Counts the Visitors among the ids with access to the
+   * area whose visit window overlaps the given one.
+   *
+   * @param {*} areaId
+   * @param {*} visitorIds
+   * @param {*} startTime
+   * @param {*} endTime
+   * @param {*} options
+   */
+  static async countOverlapping(
+    areaId,
+    visitorIds,
+    startTime,
+    endTime,
+    options: IRepositoryOptions,
+  ) {
+    if (!visitorIds.length) {
+      return 0;
+    }
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.visitorArea.count({
+      where: {
+        tenantId: tenant.id,
+        areaId,
+        visitorId: {
+          [Op.in]: visitorIds,
+        },
+      },
+      include: [
+        {
+          model: options.database.visitor,
+          as: 'visitor',
+          attributes: [],
+          required: true,
+          where: {
+            startTime: {
+              [Op.lt]: endTime,
+            },
+            endTime: {
+              [Op.gt]: startTime,
+            },
+          },
+        },
+      ],
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+
+  /**
+   * Replaces the areas of the Visitor.
+   *
+   * @param {*} visitorId
+   * @param {*} areaIds
+   * @param {*} options
+   */
+  static async save(
+    visitorId,
+    areaIds,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    await options.database.visitorArea.destroy({
+      where: {
+        tenantId: tenant.id,
+        visitorId,
+      },
+      transaction,
+    });
+
+    await options.database.visitorArea.bulkCreate(
+      areaIds.map((areaId) => ({
+        visitorId,
+        areaId,
+        tenantId: tenant.id,
+      })),
+      {
+        transaction,
+      },
+    );
+  }
+}
+
+export default VisitorAreaRepository;
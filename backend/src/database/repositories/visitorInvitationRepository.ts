@@ -0,0 +1,157 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import crypto from 'crypto';
+import lodash from 'lodash';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+/**
+ * Handles the invitations hosts send to visitors.
+ */
+class VisitorInvitationRepository {
+  static async create(data, options: IRepositoryOptions) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      options,
+    );
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    return options.database.visitorInvitation.create(
+      {
+        ...lodash.pick(data, [
+          'email',
+          'startTime',
+          'endTime',
+          'reason',
+          'tokenExpiresAt',
+        ]),
+        token: crypto.randomBytes(20).toString('hex'),
+        hostId: data.host || currentUser.id,
+        tenantId: tenant.id,
+        createdById: currentUser.id,
+        updatedById: currentUser.id,
+      },
+      {
+        transaction,
+      },
+    );
+  }
+
+  /**
+   * Finds the invitation by its token, in any tenant,
+   * as long as it is unused and not expired.
+   *
+   * @param {*} token
+   * @param {*} options
+   */
+  static async findByToken(
+    token,
+    options: IRepositoryOptions,
+  ) {
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    return options.database.visitorInvitation.findOne({
+      where: {
+        token,
+        registeredAt: null,
+        tokenExpiresAt: { [Op.gt]: new Date() },
+      },
+      include: [
+        {
+          model: options.database.user,
+          as: 'host',
+          attributes: ['id', 'fullName', 'email'],
+        },
+        {
+          model: options.database.tenant,
+          as: 'tenant',
+        },
+      ],
+      transaction,
+    });
+  }
+
+  /**
+   * Finds the invitation the Visitor registered with,
+   * by its token, in the current tenant.
+   *
+   * @param {*} visitorId
+   * @param {*} token
+   * @param {*} options
+   */
+  static async findByVisitorAndToken(
+    visitorId,
+    token,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.visitorInvitation.findOne({
+      where: {
+        visitorId,
+        token: String(token || ''),
+        tenantId: tenant.id,
+      },
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+
+  /**
+   * Marks the invitation as used by the Visitor.
+   * Resolves false if it was used meanwhile.
+   *
+   * @param {*} id
+   * @param {*} visitorId
+   * @param {*} options
+   */
+  static async markRegistered(
+    id,
+    visitorId,
+    options: IRepositoryOptions,
+  ) {
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const [
+      count,
+    ] = await options.database.visitorInvitation.update(
+      {
+        visitorId,
+        registeredAt: new Date(),
+      },
+      {
+        where: { id, registeredAt: null },
+        transaction,
+      },
+    );
+
+    return count > 0;
+  }
+
+  static async destroy(id, options: IRepositoryOptions) {
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    await options.database.visitorInvitation.destroy({
+      where: { id },
+      transaction,
+    });
+  }
+}
+
+export default VisitorInvitationRepository;
@@ -0,0 +1,71 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+
+/**
+ * Handles the photos of the Visitors.
+ */
+class VisitorPhotoRepository {
+  /**
+   * Saves the photo of the Visitor,
+   * replacing the current one.
+   *
+   * @param {*} visitorId
+   * @param {*} data
+   * @param {*} options
+   */
+  static async save(
+    visitorId,
+    data,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    await options.database.visitorPhoto.destroy({
+      where: {
+        visitorId,
+        tenantId: tenant.id,
+      },
+      transaction,
+    });
+
+    return options.database.visitorPhoto.create(
+      {
+        visitorId,
+        contentType: data.contentType,
+        privateUrl: data.privateUrl,
+        sizeInBytes: data.sizeInBytes,
+        tenantId: tenant.id,
+      },
+      {
+        transaction,
+      },
+    );
+  }
+
+  static async findByVisitor(
+    visitorId,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.visitorPhoto.findOne({
+      where: {
+        visitorId,
+        tenantId: tenant.id,
+      },
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+}
+
+export default VisitorPhotoRepository;
@@ -0,0 +1,145 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+/**
+ * Handles the watchlist screenings of the Visitors.
+ */
+class VisitorScreeningRepository {
+  /**
+   * Returns the screening of the Visitor, or
+   * null if it was never screened.
+   *
+   * @param {*} visitorId
+   * @param {*} options
+   */
+  static async findByVisitor(
+    visitorId,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const record = await options.database.visitorScreening.findOne(
+      {
+        where: {
+          visitorId,
+          tenantId: tenant.id,
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    return record ? this._toPlain(record) : null;
+  }
+
+  /**
+   * Returns the screening of each Visitor, by id.
+   * Visitors never screened are left out.
+   *
+   * @param {*} visitorIds
+   * @param {*} options
+   */
+  static async findByVisitors(
+    visitorIds,
+    options: IRepositoryOptions,
+  ) {
+    const screenings = {};
+
+    if (!visitorIds.length) {
+      return screenings;
+    }
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const records = await options.database.visitorScreening.findAll(
+      {
+        where: {
+          tenantId: tenant.id,
+          visitorId: {
+            [Op.in]: visitorIds,
+          },
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    for (const record of records) {
+      screenings[record.visitorId] = this._toPlain(record);
+    }
+
+    return screenings;
+  }
+
+  /**
+   * Creates or replaces the screening of the Visitor.
+   *
+   * @param {*} visitorId
+   * @param {*} data
+   * @param {*} options
+   */
+  static async save(
+    visitorId,
+    data,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const existing = await options.database.visitorScreening.findOne(
+      {
+        where: {
+          visitorId,
+          tenantId: tenant.id,
+        },
+        transaction,
+      },
+    );
+
+    const values = {
+      status: data.status,
+      matches: data.matches,
+      reviewedById: data.reviewedById || null,
+      reviewedAt: data.reviewedAt || null,
+    };
+
+    const record = existing
+      ? await existing.update(values, { transaction })
+      : await options.database.visitorScreening.create(
+          {
+            ...values,
+            visitorId,
+            tenantId: tenant.id,
+          },
+          { transaction },
+        );
+
+    return this._toPlain(record);
+  }
+
+  static _toPlain(record) {
+    return {
+      status: record.status,
+      matches: record.matches || [],
+      reviewedById: record.reviewedById,
+      reviewedAt: record.reviewedAt,
+      screenedAt: record.updatedAt,
+    };
+  }
+}
+
+export default VisitorScreeningRepository;
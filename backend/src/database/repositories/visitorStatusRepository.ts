@@ -0,0 +1,262 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import lodash from 'lodash';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+const DEFAULT_STATUS = 'expected';
+
+const FIELDS = [
+  'status',
+  'approvalRequestedAt',
+  'approvalExpiresAt',
+  'approvedAt',
+  'rejectedAt',
+  'expiredAt',
+  'approvalComment',
+  'checkedInAt',
+  'onSiteAt',
+  'checkedOutAt',
+  'noShowAt',
+  'siteRulesAcceptedAt',
+  'provisionedAt',
+];
+
+/**
+ * Handles the visit status of the Visitors.
+ */
+class VisitorStatusRepository {
+  /**
+   * Finds the status of the Visitor. Visitors
+   * without a status record are expected.
+   *
+   * @param {*} visitorId
+   * @param {*} options
+   */
+  static async findByVisitor(
+    visitorId,
+    options: IRepositoryOptions,
+  ) {
+    const statuses = await this.findByVisitors(
+      [visitorId],
+      options,
+    );
+
+    return statuses[visitorId];
+  }
+
+  /**
+   * Returns the status of each Visitor by id.
+   *
+   * @param {*} visitorIds
+   * @param {*} options
+   */
+  static async findByVisitors(
+    visitorIds,
+    options: IRepositoryOptions,
+  ) {
+    const statuses = {};
+
+    if (!visitorIds.length) {
+      return statuses;
+    }
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const records = await options.database.visitorStatus.findAll(
+      {
+        where: {
+          tenantId: tenant.id,
+          visitorId: {
+            [Op.in]: visitorIds,
+          },
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    for (const visitorId of visitorIds) {
+      statuses[visitorId] = { status: DEFAULT_STATUS };
+    }
+
+    for (const record of records) {
+      statuses[record.visitorId] = this._toPlain(record);
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Finds the ids of the Visitors in the status.
+   *
+   * @param {*} status One status or a list of them
+   * @param {*} options
+   */
+  static async findVisitorIdsByStatus(
+    status,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const records = await options.database.visitorStatus.findAll(
+      {
+        attributes: ['visitorId'],
+        where: {
+          tenantId: tenant.id,
+          status,
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    return records.map((record) => record.visitorId);
+  }
+
+  /**
+   * Finds the ids of the Visitors in one of the statuses,
+   * or whose access was provisioned ahead of the visit.
+   *
+   * @param {*} statuses
+   * @param {*} options
+   */
+  static async findVisitorIdsByStatusOrProvisioned(
+    statuses,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const records = await options.database.visitorStatus.findAll(
+      {
+        attributes: ['visitorId'],
+        where: {
+          tenantId: tenant.id,
+          [Op.or]: [
+            { status: statuses },
+            { provisionedAt: { [Op.ne]: null } },
+          ],
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    return records.map((record) => record.visitorId);
+  }
+
+  /**
+   * Finds the ids of the Visitors pending approval
+   * whose request expired before the date.
+   *
+   * @param {*} date
+   * @param {*} options
+   */
+  static async findExpiredApprovalVisitorIds(
+    date,
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const records = await options.database.visitorStatus.findAll(
+      {
+        attributes: ['visitorId'],
+        where: {
+          tenantId: tenant.id,
+          status: 'pendingApproval',
+          approvalExpiresAt: {
+            [Op.lte]: date,
+          },
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    return records.map((record) => record.visitorId);
+  }
+
+  /**
+   * Saves the status of the Visitor.
+   *
+   * @param {*} visitorId
+   * @param {*} data
+   * @param {*} options
+   */
+  static async save(
+    visitorId,
+    data,
+    options: IRepositoryOptions,
+  ) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      options,
+    );
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const values = lodash.pick(data, FIELDS);
+
+    const record = await options.database.visitorStatus.findOne(
+      {
+        where: {
+          visitorId,
+          tenantId: tenant.id,
+        },
+        transaction,
+      },
+    );
+
+    if (record) {
+      await record.update(
+        {
+          ...values,
+          updatedById: currentUser.id,
+        },
+        {
+          transaction,
+        },
+      );
+
+      return this._toPlain(record);
+    }
+
+    const created = await options.database.visitorStatus.create(
+      {
+        ...values,
+        visitorId,
+        tenantId: tenant.id,
+        updatedById: currentUser.id,
+      },
+      {
+        transaction,
+      },
+    );
+
+    return this._toPlain(created);
+  }
+
+  static _toPlain(record) {
+    return lodash.pick(record.get({ plain: true }), FIELDS);
+  }
+}
+
+export default VisitorStatusRepository;
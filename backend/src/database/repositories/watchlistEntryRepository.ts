@@ -0,0 +1,192 @@
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import { IRepositoryOptions } from './IRepositoryOptions';
+import Error404 from '../../errors/Error404';
+import SequelizeFilterUtils from '../../database/utils/sequelizeFilterUtils';
+import lodash from 'lodash';
+import Sequelize from 'sequelize';
+
+const Op = Sequelize.Op;
+
+const FIELDS = [
+  'idType',
+  'idNumber',
+  'name',
+  'phone',
+  'reason',
+  'expiresAt',
+];
+
+/**
+ * Handles the watchlist of the tenant.
+ */
+class WatchlistEntryRepository {
+  static async create(data, options: IRepositoryOptions) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      options,
+    );
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const record = await options.database.watchlistEntry.create(
+      {
+        ...lodash.pick(data, FIELDS),
+        tenantId: tenant.id,
+        createdById: currentUser.id,
+        updatedById: currentUser.id,
+      },
+      {
+        transaction,
+      },
+    );
+
+    return this.findById(record.id, options);
+  }
+
+  static async update(
+    id,
+    data,
+    options: IRepositoryOptions,
+  ) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      options,
+    );
+
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    let record = await this.findById(id, options);
+
+    record = await record.update(
+      {
+        ...lodash.pick(data, FIELDS),
+        updatedById: currentUser.id,
+      },
+      {
+        transaction,
+      },
+    );
+
+    return this.findById(record.id, options);
+  }
+
+  static async destroy(id, options: IRepositoryOptions) {
+    const transaction = SequelizeRepository.getTransaction(
+      options,
+    );
+
+    const record = await this.findById(id, options);
+
+    await record.destroy({
+      transaction,
+    });
+  }
+
+  static async findById(id, options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const record = await options.database.watchlistEntry.findOne(
+      {
+        where: {
+          id,
+          tenantId: tenant.id,
+        },
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    if (!record) {
+      throw new Error404();
+    }
+
+    return record;
+  }
+
+  /**
+   * Lists the entries, newest first. The search
+   * looks into the name and ID number.
+   *
+   * @param {*} args
+   * @param {*} options
+   */
+  static async findAndCountAll(
+    { search = '', limit = 0, offset = 0 },
+    options: IRepositoryOptions,
+  ) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    const where: any = {
+      tenantId: tenant.id,
+    };
+
+    if (search) {
+      where[Op.or] = [
+        SequelizeFilterUtils.ilikeIncludes(
+          'watchlistEntry',
+          'name',
+          search,
+        ),
+        SequelizeFilterUtils.ilikeIncludes(
+          'watchlistEntry',
+          'idNumber',
+          search,
+        ),
+      ];
+    }
+
+    const {
+      rows,
+      count,
+    } = await options.database.watchlistEntry.findAndCountAll(
+      {
+        where,
+        order: [['createdAt', 'DESC']],
+        limit: limit ? Number(limit) : undefined,
+        offset: offset ? Number(offset) : undefined,
+        transaction: SequelizeRepository.getTransaction(
+          options,
+        ),
+      },
+    );
+
+    return { rows, count };
+  }
+
+  /**
+   * Finds the entries that haven't expired.
+   *
+   * @param {*} options
+   */
+  static async findActive(options: IRepositoryOptions) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      options,
+    );
+
+    return options.database.watchlistEntry.findAll({
+      where: {
+        tenantId: tenant.id,
+        [Op.or]: [
+          { expiresAt: null },
+          { expiresAt: { [Op.gt]: new Date() } },
+        ],
+      },
+      transaction: SequelizeRepository.getTransaction(
+        options,
+      ),
+    });
+  }
+}
+
+export default WatchlistEntryRepository;
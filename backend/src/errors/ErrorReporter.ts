@@ -0,0 +1,29 @@
+/**
+ * Reports the errors no request is waiting for, like
+ * the failures of background jobs and best-effort
+ * notifications, as one JSON line on stderr.
+ */
+export default class ErrorReporter {
+  /**
+   * @param {*} error
+   * @param {*} source What failed, e.g. the job name
+   * @param {*} [details] Ids that help to find the cause
+   */
+  static report(error, source: string, details: any = {}) {
+    const entry = {
+      level: 'error',
+      time: new Date().toISOString(),
+      source,
+      ...details,
+      message:
+        error && error.message
+          ? error.message
+          : String(error),
+      code: error ? error.code : undefined,
+      cmd: error ? error.cmd : undefined,
+      stack: error ? error.stack : undefined,
+    };
+
+    process.stderr.write(`${JSON.stringify(entry)}\n`);
+  }
+}
@@ -0,0 +1,31 @@
+import api from './api';
+import { databaseInit } from './database/databaseConnection';
+import ErrorReporter from './errors/ErrorReporter';
+import SdpAccessEventListener from './services/sdp/sdpAccessEventListener';
+import SdpOutboxWorker from './services/sdp/sdpOutboxWorker';
+import SdpProvisioningScheduler from './services/sdp/sdpProvisioningScheduler';
+import SdpReconciliationJob from './services/sdp/sdpReconciliationJob';
+import VisitorApprovalExpiryJob from './services/visitorApprovalExpiryJob';
+import VisitorNoShowJob from './services/visitorNoShowJob';
+
+const PORT = 8080;
+
+api.listen(PORT, () => {
+  console.log(`Listening on port ${PORT}`);
+});
+
+/**
+ * The background jobs run once per process.
+ */
+databaseInit()
+  .then((database) => {
+    new SdpOutboxWorker(database).start();
+    new SdpProvisioningScheduler(database).start();
+    new SdpReconciliationJob(database).start();
+    new SdpAccessEventListener(database).start();
+    new VisitorNoShowJob(database).start();
+    new VisitorApprovalExpiryJob(database).start();
+  })
+  .catch((error) =>
+    ErrorReporter.report(error, 'BackgroundJobs'),
+  );
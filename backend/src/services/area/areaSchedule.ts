@@ -0,0 +1,104 @@
+import moment from 'moment';
+
+const TIME_PATTERN = /^([01][0-9]|2[0-3]):[0-5][0-9]$/;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+/**
+ * Time-of-day schedules of the areas, in the
+ * time zone of the server.
+ */
+export default class AreaSchedule {
+  /**
+   * Whether the schedule fields are well formed:
+   * ISO weekdays, HH:mm times, and opening before closing.
+   *
+   * @param {*} area
+   */
+  static isValid(area) {
+    const days = area.scheduleDays || [];
+
+    if (
+      !Array.isArray(days) ||
+      days.some(
+        (day) =>
+          !Number.isInteger(day) || day < 1 || day > 7,
+      )
+    ) {
+      return false;
+    }
+
+    for (const time of [
+      area.scheduleStartTime,
+      area.scheduleEndTime,
+    ]) {
+      if (time && !TIME_PATTERN.test(time)) {
+        return false;
+      }
+    }
+
+    return this._opens(area) < this._closes(area);
+  }
+
+  /**
+   * Whether the whole visit window falls within the
+   * schedule. A window spanning several days must fit
+   * the schedule on each of them.
+   *
+   * @param {*} area
+   * @param {*} startTime
+   * @param {*} endTime
+   */
+  static allows(area, startTime, endTime) {
+    const days =
+      area.scheduleDays && area.scheduleDays.length
+        ? area.scheduleDays
+        : null;
+    const opens = this._opens(area);
+    const closes = this._closes(area);
+
+    const start = moment(startTime);
+    const end = moment(endTime);
+    const day = start.clone().startOf('day');
+
+    while (day.isBefore(end)) {
+      const nextDay = day.clone().add(1, 'day');
+
+      if (days && !days.includes(day.isoWeekday())) {
+        return false;
+      }
+
+      const from = moment
+        .max(start, day)
+        .diff(day, 'minutes');
+      const to = moment
+        .min(end, nextDay)
+        .diff(day, 'minutes');
+
+      if (from < opens || to > closes) {
+        return false;
+      }
+
+      day.add(1, 'day');
+    }
+
+    return true;
+  }
+
+  static _opens(area) {
+    return area.scheduleStartTime
+      ? this._minutes(area.scheduleStartTime)
+      : 0;
+  }
+
+  static _closes(area) {
+    return area.scheduleEndTime
+      ? this._minutes(area.scheduleEndTime)
+      : MINUTES_PER_DAY;
+  }
+
+  static _minutes(time) {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
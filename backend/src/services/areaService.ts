@@ -0,0 +1,286 @@
+import Error400 from '../errors/Error400';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import AreaRepository from '../database/repositories/areaRepository';
+import VisitorAreaRepository from '../database/repositories/visitorAreaRepository';
+import VisitorStatusRepository from '../database/repositories/visitorStatusRepository';
+import AreaSchedule from './area/areaSchedule';
+
+/**
+ * Statuses in which a Visitor counts
+ * towards the capacity of its areas.
+ */
+const PRESENT_STATUSES = ['checkedIn', 'onSite'];
+
+/**
+ * Handles the areas of the tenant and
+ * the areas the Visitors are given access to.
+ */
+export default class AreaService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  async create(data) {
+    this._validate(data);
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const record = await AreaRepository.create(data, {
+        ...this.options,
+        transaction,
+      });
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return record;
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      SequelizeRepository.handleUniqueFieldError(
+        error,
+        this.options.language,
+        'area',
+      );
+
+      throw error;
+    }
+  }
+
+  async update(id, data) {
+    this._validate(data);
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const record = await AreaRepository.update(id, data, {
+        ...this.options,
+        transaction,
+      });
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return record;
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      SequelizeRepository.handleUniqueFieldError(
+        error,
+        this.options.language,
+        'area',
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Destroys the areas. Refuses areas
+   * Visitors were given access to.
+   *
+   * @param {*} ids
+   */
+  async destroyAll(ids) {
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const options = { ...this.options, transaction };
+
+      for (const id of ids) {
+        const record = await AreaRepository.findById(
+          id,
+          options,
+        );
+
+        const visitorIds = await VisitorAreaRepository.findVisitorIdsByArea(
+          id,
+          options,
+        );
+
+        if (visitorIds.length) {
+          throw new Error400(
+            this.options.language,
+            'area.errors.inUse',
+            record.name,
+          );
+        }
+
+        await AreaRepository.destroy(id, options);
+      }
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  async findById(id) {
+    return AreaRepository.findById(id, this.options);
+  }
+
+  async findAllAutocomplete(search, limit) {
+    return AreaRepository.findAllAutocomplete(
+      search,
+      limit,
+      this.options,
+    );
+  }
+
+  async findAndCountAll(args) {
+    return AreaRepository.findAndCountAll(
+      args,
+      this.options,
+    );
+  }
+
+  /**
+   * Gives the Visitor access to the areas, in the
+   * transaction of the options. Throws if an area
+   * doesn't exist or its schedule doesn't allow
+   * the visit window.
+   *
+   * @param {*} record
+   * @param {*} areaIds
+   */
+  async assignToVisitor(record, areaIds) {
+    const ids = Array.from(new Set(areaIds || []));
+
+    const areas = await AreaRepository.findByIds(
+      ids,
+      this.options,
+    );
+
+    if (areas.length !== ids.length) {
+      throw new Error400(
+        this.options.language,
+        'visitor.errors.areaNotFound',
+      );
+    }
+
+    this.validateVisitWindow(record, areas);
+
+    await VisitorAreaRepository.save(
+      record.id,
+      ids,
+      this.options,
+    );
+
+    return areas.map((area) => area.get({ plain: true }));
+  }
+
+  /**
+   * Throws if the visit window falls outside
+   * the schedule of one of the areas.
+   *
+   * @param {*} record
+   * @param {*} areas
+   */
+  validateVisitWindow(record, areas) {
+    for (const area of areas) {
+      if (
+        !AreaSchedule.allows(
+          area,
+          record.startTime,
+          record.endTime,
+        )
+      ) {
+        throw new Error400(
+          this.options.language,
+          'visitor.errors.outsideAreaSchedule',
+          area.name,
+        );
+      }
+    }
+  }
+
+  /**
+   * Throws if one of the areas of the Visitor is already
+   * at capacity, counting the Visitors present whose
+   * visit overlaps its own.
+   *
+   * @param {*} record The Visitor
+   */
+  async validateCapacity(record) {
+    const areas = await VisitorAreaRepository.findByVisitor(
+      record.id,
+      this.options,
+    );
+
+    if (!areas.some((area) => area.capacity)) {
+      return;
+    }
+
+    const presentIds = (
+      await VisitorStatusRepository.findVisitorIdsByStatus(
+        PRESENT_STATUSES,
+        this.options,
+      )
+    ).filter((id) => id !== record.id);
+
+    for (const area of areas) {
+      if (!area.capacity) {
+        continue;
+      }
+
+      const present = await VisitorAreaRepository.countOverlapping(
+        area.id,
+        presentIds,
+        record.startTime,
+        record.endTime,
+        this.options,
+      );
+
+      if (present >= area.capacity) {
+        throw new Error400(
+          this.options.language,
+          'visitor.errors.areaFull',
+          area.name,
+        );
+      }
+    }
+  }
+
+  /**
+   * An area needs a code and a name,
+   * and a well-formed schedule.
+   *
+   * @param {*} data
+   */
+  _validate(data) {
+    if (!data.code || !data.name) {
+      throw new Error400(
+        this.options.language,
+        'area.errors.codeAndNameRequired',
+      );
+    }
+
+    if (!AreaSchedule.isValid(data)) {
+      throw new Error400(
+        this.options.language,
+        'area.errors.invalidSchedule',
+      );
+    }
+  }
+}
@@ -0,0 +1,339 @@
+import moment from 'moment';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import AuditEntryRepository from '../database/repositories/auditEntryRepository';
+import ErrorReporter from '../errors/ErrorReporter';
+
+/**
+ * Fields left out of the Visitor diffs.
+ */
+const IGNORED_FIELDS = [
+  'id',
+  'tenantId',
+  'createdAt',
+  'updatedAt',
+  'deletedAt',
+  'createdById',
+  'updatedById',
+  'createdBy',
+  'updatedBy',
+  'importHash',
+  'sdpSync',
+  'visitStatus',
+  'screening',
+  'photoUrl',
+];
+
+/**
+ * Most entries an export returns.
+ */
+const EXPORT_LIMIT = 10000;
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'category',
+  'action',
+  'outcome',
+  'actorEmail',
+  'actorId',
+  'entityName',
+  'entityId',
+  'values',
+  'reply',
+  'error',
+  'ip',
+];
+
+/**
+ * Writes and reads the audit trail of the tenant.
+ *
+ * Visitor changes are logged in the transaction of the
+ * change. Auth attempts and controller commands are
+ * logged on their own, and a failure to log them never
+ * fails the operation.
+ */
+export default class AuditTrailService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Logs a change to a Visitor with the fields it changed.
+   *
+   * @param {*} action e.g. create, update, photo or checkIn
+   * @param {*} id
+   * @param {*} before Null on create
+   * @param {*} after Null on destroy
+   */
+  async logVisitor(action, id, before, after) {
+    const values = AuditTrailService.diff(before, after);
+
+    if (
+      action === 'update' &&
+      !Object.keys(values).length
+    ) {
+      return;
+    }
+
+    const currentUser = SequelizeRepository.getCurrentUser(
+      this.options,
+    );
+
+    await AuditEntryRepository.create(
+      {
+        tenantId: SequelizeRepository.getCurrentTenant(
+          this.options,
+        ).id,
+        category: 'visitor',
+        action,
+        outcome: 'success',
+        actorId: currentUser.id,
+        actorEmail: currentUser.email,
+        entityName: 'visitor',
+        entityId: id,
+        values,
+        ip: this.options.ip,
+      },
+      this.options,
+    );
+  }
+
+  /**
+   * Logs an authentication attempt, once in each tenant of
+   * the user. Unknown users are logged in the tenant they
+   * tried, if any.
+   *
+   * @param {*} action signin, signup, passwordReset or passwordChange
+   * @param {*} data email, user, tenantId and error
+   */
+  async logAuth(
+    action,
+    {
+      email,
+      user,
+      tenantId,
+      error,
+    }: {
+      email?: string;
+      user?: any;
+      tenantId?: string;
+      error?: any;
+    },
+  ) {
+    const tenantIds =
+      user && user.tenants && user.tenants.length
+        ? user.tenants.map((tenantUser) =>
+            tenantUser.tenant
+              ? tenantUser.tenant.id
+              : tenantUser.tenantId,
+          )
+        : [tenantId || null];
+
+    for (const id of tenantIds) {
+      await this._safely(() =>
+        AuditEntryRepository.create(
+          {
+            tenantId: id,
+            category: 'auth',
+            action,
+            outcome: error ? 'failure' : 'success',
+            actorId: user ? user.id : null,
+            actorEmail: user ? user.email : email,
+            entityName: 'user',
+            entityId: user ? user.id : null,
+            error: error ? error.message : null,
+            ip: this.options.ip,
+          },
+          this._withoutTransaction(),
+        ),
+      );
+    }
+  }
+
+  /**
+   * Logs a command sent to the controller of
+   * the tenant and its reply.
+   *
+   * @param {*} cmd
+   * @param {*} payload
+   * @param {*} reply
+   * @param {*} error
+   */
+  async logSdpCommand(cmd, payload, reply, error) {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      this.options,
+    );
+
+    await this._safely(() =>
+      AuditEntryRepository.create(
+        {
+          tenantId: SequelizeRepository.getCurrentTenant(
+            this.options,
+          ).id,
+          category: 'sdp',
+          action: cmd,
+          outcome: error ? 'failure' : 'success',
+          actorId: currentUser.id,
+          actorEmail: currentUser.email,
+          entityName: 'sdp',
+          values: payload,
+          reply,
+          error: error ? error.message : null,
+        },
+        this._withoutTransaction(),
+      ),
+    );
+  }
+
+  async findAndCountAll(args) {
+    return AuditEntryRepository.findAndCountAll(
+      args,
+      this.options,
+    );
+  }
+
+  /**
+   * Returns the entries matching the filter as CSV,
+   * newest first, up to EXPORT_LIMIT.
+   *
+   * @param {*} filter
+   */
+  async exportCsv(filter) {
+    const {
+      rows,
+    } = await AuditEntryRepository.findAndCountAll(
+      { filter, limit: EXPORT_LIMIT },
+      this.options,
+    );
+
+    const lines = [CSV_COLUMNS.join(',')];
+
+    for (const row of rows) {
+      lines.push(
+        CSV_COLUMNS.map((column) =>
+          this._csvValue(row[column]),
+        ).join(','),
+      );
+    }
+
+    return lines.join('\r\n');
+  }
+
+  /**
+   * Fields whose value differs, as { before, after }.
+   * Relations are compared by id.
+   *
+   * @param {*} before
+   * @param {*} after
+   */
+  static diff(before, after) {
+    const previous = this._normalize(before);
+    const next = this._normalize(after);
+
+    const values = {};
+
+    for (const field of Array.from(
+      new Set([
+        ...Object.keys(previous),
+        ...Object.keys(next),
+      ]),
+    )) {
+      const previousValue =
+        previous[field] === undefined
+          ? null
+          : previous[field];
+      const nextValue =
+        next[field] === undefined ? null : next[field];
+
+      if (
+        JSON.stringify(previousValue) !==
+        JSON.stringify(nextValue)
+      ) {
+        values[field] = {
+          before: previousValue,
+          after: nextValue,
+        };
+      }
+    }
+
+    return values;
+  }
+
+  static _normalize(record) {
+    const values = {};
+
+    if (!record) {
+      return values;
+    }
+
+    for (const [field, value] of Object.entries(record)) {
+      if (IGNORED_FIELDS.includes(field)) {
+        continue;
+      }
+
+      values[field] = this._normalizeValue(value);
+    }
+
+    return values;
+  }
+
+  static _normalizeValue(value) {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item) =>
+        this._normalizeValue(item),
+      );
+    }
+
+    if (value && typeof value === 'object') {
+      return value.id !== undefined ? value.id : value;
+    }
+
+    return value;
+  }
+
+  _csvValue(value) {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    let text =
+      value instanceof Date
+        ? moment(value).toISOString()
+        : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+
+    // Keeps spreadsheets from running values as formulas
+    if (/^[=+\-@]/.test(text)) {
+      text = `'${text}`;
+    }
+
+    return /[",\r\n]/.test(text)
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  }
+
+  /**
+   * Logged even if the transaction of the
+   * operation is rolled back.
+   */
+  _withoutTransaction() {
+    return { ...this.options, transaction: undefined };
+  }
+
+  /**
+   * A failing audit trail doesn't fail the operation.
+   */
+  async _safely(fn) {
+    try {
+      await fn();
+    } catch (error) {
+      ErrorReporter.report(error, 'AuditTrailService');
+    }
+  }
+}
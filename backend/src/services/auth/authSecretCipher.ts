@@ -0,0 +1,18 @@
+import { getConfig } from '../../config';
+import SdpCredentialsCipher from '../sdp/sdpCredentialsCipher';
+
+/**
+ * Encrypts the authentication secrets stored in the
+ * database, the TOTP secrets and the OIDC client
+ * secrets, like the controller credentials but with
+ * their own key: AUTH_SECRETS_KEY, or AUTH_JWT_SECRET
+ * when it is not set.
+ */
+export default class AuthSecretCipher extends SdpCredentialsCipher {
+  static _secret() {
+    return (
+      getConfig().AUTH_SECRETS_KEY ||
+      getConfig().AUTH_JWT_SECRET
+    );
+  }
+}
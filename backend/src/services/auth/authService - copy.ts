@@ -1,6 +1,7 @@
 import UserRepository from '../../database/repositories/userRepository';
 import Error400 from '../../errors/Error400';
 import bcrypt from 'bcrypt';
+import crypto from 'crypto';
 import EmailSender from '../../services/emailSender';
 import jwt from 'jsonwebtoken';
 import TenantUserRepository from '../../database/repositories/tenantUserRepository';
@@ -9,15 +10,30 @@ import { getConfig } from '../../config';
 import TenantService from '../tenantService';
 import TenantRepository from '../../database/repositories/tenantRepository';
 import { tenantSubdomain } from '../tenantSubdomain';
+import AuditTrailService from '../auditTrailService';
+import SigninThrottleService from './signinThrottleService';
+import AuthSessionService from './authSessionService';
+import TwoFactorService from './twoFactorService';
+import AuthSettingsService from '../authSettingsService';
+import UserOidcIdentityRepository from '../../database/repositories/userOidcIdentityRepository';
 
 const BCRYPT_SALT_ROUNDS = 12;
 
+/**
+ * Hash the passwords of unknown emails are compared
+ * with, created on the first sign-in.
+ */
+let dummyPasswordHash: Promise<string> | null = null;
+
 /**
  * Handles all the Auth operations of the user.
  */
 class AuthService {
   /**
-   * Signs up with the email and password and returns a JWT token.
+   * Signs up with the email and password and opens a session,
+   * returning its access and refresh tokens. Users who need
+   * a second factor get a twoFactorToken for signinTwoFactor
+   * instead.
    *
    * @param {*} email
    * @param {*} password
@@ -89,30 +105,29 @@ class AuthService {
           );
         }
 
-        // Handles onboarding process like
-        // invitation, creation of default tenant,
-        // or default joining the current tenant
-        await this.handleOnboard(
+        const session = await this._completeSignin(
           existingUser,
           invitationToken,
           tenantId,
-          {
-            ...options,
-            transaction,
-          },
-        );
-
-        const token = jwt.sign(
-          { id: existingUser.id },
-          getConfig().AUTH_JWT_SECRET,
-          { expiresIn: getConfig().AUTH_JWT_EXPIRES_IN },
+          false,
+          false,
+          { ...options, transaction },
         );
 
         await SequelizeRepository.commitTransaction(
           transaction,
         );
 
-        return token;
+        await new AuditTrailService(options).logAuth(
+          'signup',
+          {
+            email,
+            user: existingUser,
+            tenantId,
+          },
+        );
+
+        return session;
       }
 
       const newUser = await UserRepository.createFromAuth(
@@ -139,35 +154,35 @@ class AuthService {
         );
       }
 
-      // Handles onboarding process like
-      // invitation, creation of default tenant,
-      // or default joining the current tenant
-      await this.handleOnboard(
+      const session = await this._completeSignin(
         newUser,
         invitationToken,
         tenantId,
-        {
-          ...options,
-          transaction,
-        },
-      );
-
-      const token = jwt.sign(
-        { id: newUser.id },
-        getConfig().AUTH_JWT_SECRET,
-        { expiresIn: getConfig().AUTH_JWT_EXPIRES_IN },
+        false,
+        false,
+        { ...options, transaction },
       );
 
       await SequelizeRepository.commitTransaction(
         transaction,
       );
 
-      return token;
+      await new AuditTrailService(options).logAuth(
+        'signup',
+        { email, user: newUser, tenantId },
+      );
+
+      return session;
     } catch (error) {
       await SequelizeRepository.rollbackTransaction(
         transaction,
       );
 
+      await new AuditTrailService(options).logAuth(
+        'signup',
+        { email, tenantId, error },
+      );
+
       throw error;
     }
   }
@@ -183,9 +198,16 @@ class AuthService {
   }
 
   /**
-   * Signs in an user with the email and password and returns a JWT token.
+   * Signs in an user with the email and password and opens a session,
+   * returning its access and refresh tokens. The session lasts longer
+   * with rememberMe.
+   * Unknown emails and wrong passwords fail with the same error,
+   * and repeated failures are throttled.
+   * Users with a second factor, or required one, get a
+   * twoFactorToken for signinTwoFactor instead.
    * @param {*} email
    * @param {*} password
+   * @param {*} rememberMe
    * @param {*} [options]
    */
   static async signin(
@@ -193,83 +215,478 @@ class AuthService {
     password,
     invitationToken,
     tenantId,
+    rememberMe,
     options: any = {},
   ) {
+    const throttleService = new SigninThrottleService(
+      options,
+    );
+
     const transaction = await SequelizeRepository.createTransaction(
       options.database,
     );
 
+    let user;
+
     try {
-      const user = await UserRepository.findByEmail(
+      await throttleService.assertAllowed(email);
+
+      user = await UserRepository.findByEmail(
         email,
         options,
       );
 
-      if (!user) {
+      const currentPassword = user
+        ? await UserRepository.findPassword(
+            user.id,
+            options,
+          )
+        : null;
+
+      // Compared with a dummy hash when there is no
+      // password, so the time taken doesn't tell which
+      // accounts exist
+      const passwordsMatch =
+        (await bcrypt.compare(
+          password,
+          currentPassword ||
+            (await this._dummyPasswordHash()),
+        )) && Boolean(currentPassword);
+
+      if (!passwordsMatch) {
+        await throttleService.recordFailure(
+          email,
+          user,
+          tenantId,
+        );
+
         throw new Error400(
           options.language,
-          'auth.userNotFound',
+          'auth.invalidCredentials',
         );
       }
 
-      const currentPassword = await UserRepository.findPassword(
-        user.id,
+      // Finished by signinTwoFactor
+      const challenge = await this._twoFactorChallenge(
+        user,
+        { rememberMe, invitationToken, tenantId },
         options,
       );
 
-      if (!currentPassword) {
-        throw new Error400(
-          options.language,
-          'auth.wrongPassword',
+      if (challenge) {
+        await SequelizeRepository.commitTransaction(
+          transaction,
         );
+
+        return challenge;
       }
 
-      const passwordsMatch = await bcrypt.compare(
-        password,
-        currentPassword,
+      await throttleService.recordSuccess(email);
+
+      const session = await this._completeSignin(
+        user,
+        invitationToken,
+        tenantId,
+        rememberMe,
+        false,
+        { ...options, transaction },
       );
 
-      if (!passwordsMatch) {
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      // The onboarding gave the user a role
+      // that requires a second factor
+      if ('twoFactorToken' in session) {
+        return session;
+      }
+
+      await new AuditTrailService(options).logAuth(
+        'signin',
+        { email, user, tenantId },
+      );
+
+      return session;
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      await new AuditTrailService(options).logAuth(
+        'signin',
+        { email, user, tenantId, error },
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Second step of the sign-in of users with a second factor.
+   * Checks the code and opens the session. Users who enrolled
+   * during the sign-in also get their recovery codes.
+   *
+   * @param {*} twoFactorToken
+   * @param {*} code
+   * @param {*} [options]
+   */
+  static async signinTwoFactor(
+    twoFactorToken,
+    code,
+    options: any = {},
+  ) {
+    const challenge = new TwoFactorService(
+      options,
+    ).verifyChallenge(twoFactorToken);
+
+    const user = await UserRepository.findById(
+      challenge.id,
+      {
+        ...options,
+        bypassPermissionValidation: true,
+      },
+    );
+
+    const throttleService = new SigninThrottleService(
+      options,
+    );
+
+    const transaction = await SequelizeRepository.createTransaction(
+      options.database,
+    );
+
+    try {
+      await throttleService.assertAllowed(user.email);
+
+      const result = await new TwoFactorService({
+        ...options,
+        transaction,
+      }).verifySignin(user, code);
+
+      if (!result) {
+        await throttleService.recordFailure(
+          user.email,
+          user,
+          challenge.tenantId,
+        );
+
         throw new Error400(
           options.language,
-          'auth.wrongPassword',
+          'auth.twoFactor.invalidCode',
         );
       }
 
-      // Handles onboarding process like
-      // invitation, creation of default tenant,
-      // or default joining the current tenant
-      await this.handleOnboard(
+      await throttleService.recordSuccess(user.email);
+
+      const session = await this._completeSignin(
         user,
-        invitationToken,
-        tenantId,
+        challenge.invitationToken,
+        challenge.tenantId,
+        challenge.rememberMe,
+        true,
+        { ...options, transaction },
+      );
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      await new AuditTrailService(options).logAuth(
+        'signin',
+        {
+          email: user.email,
+          user,
+          tenantId: challenge.tenantId,
+        },
+      );
+
+      return {
+        ...session,
+        recoveryCodes: result.recoveryCodes,
+      };
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      await new AuditTrailService(options).logAuth(
+        'signin',
         {
+          email: user.email,
+          user,
+          tenantId: challenge.tenantId,
+          error,
+        },
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Signs in an user authenticated by the OIDC provider of the
+   * tenant and opens a session. The user is found only by
+   * the issuer and subject linked on the first sign-in,
+   * never by the email, so a provider can't take over an
+   * existing account. Unknown emails get an user, created
+   * just in time. When the ID token maps to roles, they
+   * replace the roles in the tenant of the users created
+   * that way only. Users who need a second factor, for any
+   * of their tenants, get a twoFactorToken for
+   * signinTwoFactor instead.
+   *
+   * @param {*} claims Verified email, firstName, lastName, issuer and subject
+   * @param {*} roles Roles mapped from the ID token
+   * @param {*} tenantId
+   * @param {*} rememberMe
+   * @param {*} [options]
+   */
+  static async signinWithOidc(
+    claims,
+    roles,
+    tenantId,
+    rememberMe,
+    options: any = {},
+  ) {
+    const email = claims.email;
+
+    const transaction = await SequelizeRepository.createTransaction(
+      options.database,
+    );
+
+    let user;
+
+    try {
+      let identity = await UserOidcIdentityRepository.findByIssuerAndSubject(
+        claims.issuer,
+        claims.subject,
+        { ...options, transaction },
+      );
+
+      if (identity) {
+        user = await UserRepository.findById(
+          identity.userId,
+          { ...options, transaction },
+        );
+      } else {
+        // Existing accounts are never linked by email
+        if (
+          await UserRepository.findByEmail(email, {
+            ...options,
+            transaction,
+          })
+        ) {
+          throw new Error400(
+            options.language,
+            'auth.oidc.accountNotLinked',
+          );
+        }
+
+        user = await UserRepository.createFromAuth(
+          {
+            firstName:
+              claims.firstName || email.split('@')[0],
+            lastName: claims.lastName,
+            email,
+          },
+          {
+            ...options,
+            transaction,
+          },
+        );
+
+        identity = await UserOidcIdentityRepository.create(
+          user.id,
+          claims.issuer,
+          claims.subject,
+          true,
+          { ...options, transaction },
+        );
+      }
+
+      if (!user.emailVerified) {
+        await UserRepository.markEmailVerified(user.id, {
           ...options,
           currentUser: user,
           transaction,
-        },
-      );
+        });
+      }
 
-      const token = jwt.sign(
-        { id: user.id },
-        getConfig().AUTH_JWT_SECRET,
-        { expiresIn: getConfig().AUTH_JWT_EXPIRES_IN },
+      await this.handleOnboard(user, null, tenantId, {
+        ...options,
+        currentUser: user,
+        transaction,
+      });
+
+      if (identity.provisioned && roles.length) {
+        await TenantUserRepository.updateRoles(
+          tenantId,
+          user.id,
+          roles,
+          {
+            ...options,
+            currentUser: user,
+            bypassPermissionValidation: true,
+            transaction,
+          },
+        );
+      }
+
+      const session = await this._openSession(
+        user,
+        tenantId,
+        rememberMe,
+        false,
+        { ...options, transaction },
       );
 
       await SequelizeRepository.commitTransaction(
         transaction,
       );
 
-      return token;
+      // Finished by signinTwoFactor
+      if ('twoFactorToken' in session) {
+        return session;
+      }
+
+      await new AuditTrailService(
+        options,
+      ).logAuth('oidcSignin', { email, user, tenantId });
+
+      return session;
     } catch (error) {
       await SequelizeRepository.rollbackTransaction(
         transaction,
       );
 
+      await new AuditTrailService(options).logAuth(
+        'oidcSignin',
+        {
+          email,
+          user,
+          tenantId,
+          error,
+        },
+      );
+
       throw error;
     }
   }
 
+  static _dummyPasswordHash() {
+    if (!dummyPasswordHash) {
+      dummyPasswordHash = bcrypt.hash(
+        crypto.randomBytes(32).toString('hex'),
+        BCRYPT_SALT_ROUNDS,
+      );
+    }
+
+    return dummyPasswordHash;
+  }
+
+  /**
+   * Onboards the signed in user and opens
+   * the session, in the transaction of the options.
+   */
+  static async _completeSignin(
+    user,
+    invitationToken,
+    tenantId,
+    rememberMe,
+    twoFactorVerified,
+    options,
+  ) {
+    // Handles onboarding process like
+    // invitation, creation of default tenant,
+    // or default joining the current tenant
+    await this.handleOnboard(
+      user,
+      invitationToken,
+      tenantId,
+      {
+        ...options,
+        currentUser: user,
+      },
+    );
+
+    return this._openSession(
+      user,
+      tenantId,
+      rememberMe,
+      twoFactorVerified,
+      options,
+    );
+  }
+
+  /**
+   * Opens the session of the onboarded user, in the
+   * transaction of the options. Every path that opens a
+   * session goes through here: users who didn't pass a
+   * second factor but need one get a challenge instead.
+   */
+  static async _openSession(
+    user,
+    tenantId,
+    rememberMe,
+    twoFactorVerified,
+    options,
+  ) {
+    if (!twoFactorVerified) {
+      // Reloaded, as the onboarding may have
+      // given the user a tenant or roles
+      const challenge = await this._twoFactorChallenge(
+        await UserRepository.findById(user.id, {
+          ...options,
+          bypassPermissionValidation: true,
+        }),
+        { rememberMe, tenantId },
+        options,
+      );
+
+      if (challenge) {
+        return challenge;
+      }
+    }
+
+    return new AuthSessionService(options).create(
+      user,
+      Boolean(rememberMe),
+      twoFactorVerified,
+    );
+  }
+
+  /**
+   * Returns a challenge for signinTwoFactor if the user
+   * has a second factor, or a tenant requires one.
+   *
+   * @param {*} user With its tenants
+   * @param {*} data rememberMe, invitationToken and tenantId
+   * @param {*} options
+   */
+  static async _twoFactorChallenge(user, data, options) {
+    const twoFactorService = new TwoFactorService(options);
+
+    const twoFactorEnabled = await twoFactorService.isEnabled(
+      user.id,
+    );
+
+    if (
+      !twoFactorEnabled &&
+      !(await twoFactorService.isRequired(user))
+    ) {
+      return null;
+    }
+
+    return {
+      twoFactorToken: twoFactorService.createChallenge(
+        user,
+        data,
+      ),
+      twoFactorEnrollmentRequired: !twoFactorEnabled,
+    };
+  }
+
   static async handleOnboard(
     currentUser,
     invitationToken,
@@ -305,9 +722,12 @@ class AuthService {
       }).joinWithDefaultRolesOrAskApproval(
         {
           tenantId,
-          // leave empty to require admin's approval
-          //skilaru - set default for visitors, so that they can self-register
-          roles: ["visitor"],
+          // empty when the admin's approval is required
+          roles: await this._selfRegistrationRoles(
+            currentUser,
+            tenantId,
+            options,
+          ),
         },
         options,
       );
@@ -325,22 +745,122 @@ class AuthService {
         currentUser,
       }).joinDefaultUsingInvitedEmail(options.transaction);
 
+      const defaultTenant = await TenantRepository.findDefault(
+        options,
+      );
+
       // Creates or join default Tenant
       await new TenantService({
         ...options,
         currentUser,
       }).createOrJoinDefault(
         {
-          // leave empty to require admin's approval
-          roles: ["visitor"],
+          // empty when the admin's approval is required
+          roles: defaultTenant
+            ? await this._selfRegistrationRoles(
+                currentUser,
+                defaultTenant.id,
+                options,
+              )
+            : [],
         },
         options.transaction,
       );
     }
   }
 
+  /**
+   * Roles the user joins the tenant with, following the
+   * self-registration policy of the tenant. Members, like
+   * users who just accepted an invitation, keep theirs.
+   * The roles of domain rules wait for the email to be
+   * verified, see verifyEmail.
+   */
+  static async _selfRegistrationRoles(
+    currentUser,
+    tenantId,
+    options,
+  ) {
+    const tenantUser = await TenantUserRepository.findByTenantAndUser(
+      tenantId,
+      currentUser.id,
+      options,
+    );
+
+    if (tenantUser) {
+      return tenantUser.roles;
+    }
+
+    // Reloaded, as the user may just have been verified,
+    // and only a verification saved counts
+    const user = await UserRepository.findById(
+      currentUser.id,
+      {
+        ...options,
+        bypassPermissionValidation: true,
+      },
+    );
+
+    return new AuthSettingsService(
+      options,
+    ).findSelfRegistrationRoles(
+      tenantId,
+      currentUser.email,
+      Boolean(user.emailVerified),
+    );
+  }
+
+  /**
+   * Gives the roles of the domain rules to the
+   * self-registered user, now that the email is verified.
+   * Only the tenants the user joined without roles are
+   * concerned.
+   */
+  static async _grantVerifiedDomainRoles(userId, options) {
+    const user = await UserRepository.findById(userId, {
+      ...options,
+      bypassPermissionValidation: true,
+    });
+
+    const authSettingsService = new AuthSettingsService(
+      options,
+    );
+
+    for (const tenantUser of user.tenants || []) {
+      if ((tenantUser.roles || []).length) {
+        continue;
+      }
+
+      const tenantId = tenantUser.tenant
+        ? tenantUser.tenant.id
+        : tenantUser.tenantId;
+
+      const roles = await authSettingsService.findVerifiedDomainRoles(
+        tenantId,
+        user.email,
+      );
+
+      if (roles.length) {
+        await TenantUserRepository.updateRoles(
+          tenantId,
+          user.id,
+          roles,
+          {
+            ...options,
+            currentUser: user,
+            bypassPermissionValidation: true,
+          },
+        );
+      }
+    }
+  }
+
   /**
    * Finds the user based on the JWT token.
+   * Tokens of revoked or expired sessions are refused, and
+   * so are those of sessions opened without a second factor
+   * by users who need one now, e.g. since an admin made it
+   * required for their role.
    *
    * @param {*} token
    */
@@ -356,10 +876,41 @@ class AuthService {
           }
 
           const id = decoded.id;
-          UserRepository.findById(id, {
-            ...options,
-            bypassPermissionValidation: true,
-          })
+          let session;
+
+          new AuthSessionService(options)
+            .findActive(decoded.sid)
+            .then((activeSession) => {
+              if (!activeSession) {
+                throw new Error400(
+                  options.language,
+                  'auth.sessionRevoked',
+                );
+              }
+
+              session = activeSession;
+
+              return UserRepository.findById(id, {
+                ...options,
+                bypassPermissionValidation: true,
+              });
+            })
+            .then(async (user) => {
+              if (
+                user &&
+                !session.twoFactorVerified &&
+                (await new TwoFactorService(
+                  options,
+                ).isNeeded(user))
+              ) {
+                throw new Error400(
+                  options.language,
+                  'auth.twoFactor.sessionNotVerified',
+                );
+              }
+
+              return user;
+            })
             .then((user) => {
               // If the email sender id not configured,
               // removes the need for email verification.
@@ -367,6 +918,10 @@ class AuthService {
                 user.emailVerified = true;
               }
 
+              if (user) {
+                user.currentSessionId = decoded.sid;
+              }
+
               resolve(user);
             })
             .catch((error) => reject(error));
@@ -467,7 +1022,8 @@ class AuthService {
   }
 
   /**
-   * Verifies the user email based on the token.
+   * Verifies the user email based on the token, and gives
+   * the roles of the domain rules it was waiting for.
    *
    * @param {*} token
    * @param {*} options
@@ -500,14 +1056,38 @@ class AuthService {
       );
     }
 
-    return UserRepository.markEmailVerified(
-      user.id,
-      options,
+    const transaction = await SequelizeRepository.createTransaction(
+      options.database,
     );
+
+    try {
+      const verified = await UserRepository.markEmailVerified(
+        user.id,
+        { ...options, transaction },
+      );
+
+      await this._grantVerifiedDomainRoles(user.id, {
+        ...options,
+        transaction,
+      });
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return verified;
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
   }
 
   /**
-   * Resets the password, validating the password reset token.
+   * Resets the password, validating the password reset token,
+   * and revokes all the sessions of the user.
    *
    * @param {*} token
    * @param {*} password
@@ -524,10 +1104,16 @@ class AuthService {
     );
 
     if (!user) {
-      throw new Error400(
+      const error = new Error400(
         options.language,
         'auth.passwordReset.invalidToken',
       );
+
+      await new AuditTrailService(
+        options,
+      ).logAuth('passwordReset', { error });
+
+      throw error;
     }
 
     const hashedPassword = await bcrypt.hash(
@@ -535,11 +1121,21 @@ class AuthService {
       BCRYPT_SALT_ROUNDS,
     );
 
-    return UserRepository.updatePassword(
+    const updatedUser = await UserRepository.updatePassword(
       user.id,
       hashedPassword,
       { ...options, bypassPermissionValidation: true },
     );
+
+    await new AuthSessionService(options).revokeAll(
+      user.id,
+    );
+
+    await new AuditTrailService(
+      options,
+    ).logAuth('passwordReset', { user });
+
+    return updatedUser;
   }
 
   static async changePassword(
@@ -559,10 +1155,20 @@ class AuthService {
     );
 
     if (!passwordsMatch) {
-      throw new Error400(
+      const error = new Error400(
         options.language,
         'auth.passwordChange.invalidPassword',
       );
+
+      await new AuditTrailService(options).logAuth(
+        'passwordChange',
+        {
+          user: currentUser,
+          error,
+        },
+      );
+
+      throw error;
     }
 
     const newHashedPassword = await bcrypt.hash(
@@ -570,11 +1176,23 @@ class AuthService {
       BCRYPT_SALT_ROUNDS,
     );
 
-    return UserRepository.updatePassword(
+    const updatedUser = await UserRepository.updatePassword(
       currentUser.id,
       newHashedPassword,
       options,
     );
+
+    // Keeps the session that changed the password
+    await new AuthSessionService(options).revokeAll(
+      currentUser.id,
+      currentUser.currentSessionId,
+    );
+
+    await new AuditTrailService(
+      options,
+    ).logAuth('passwordChange', { user: currentUser });
+
+    return updatedUser;
   }
 }
 
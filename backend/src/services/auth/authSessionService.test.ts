@@ -0,0 +1,127 @@
+import assert from 'assert';
+import crypto from 'crypto';
+import moment from 'moment';
+import { databaseInit } from '../../database/databaseConnection';
+import AuthSessionService from './authSessionService';
+
+describe('AuthSessionService', () => {
+  let database;
+  let options;
+  let user;
+
+  const hash = (token) =>
+    crypto.createHash('sha256').update(token).digest('hex');
+
+  /**
+   * Moves the replacement of the token past
+   * the grace period of the tab races.
+   */
+  const ageReplacement = (token) =>
+    database.authRefreshToken.update(
+      {
+        replacedAt: moment().subtract(1, 'minute').toDate(),
+      },
+      { where: { tokenHash: hash(token) } },
+    );
+
+  before(async () => {
+    process.env.AUTH_JWT_SECRET =
+      process.env.AUTH_JWT_SECRET || 'test';
+
+    database = await databaseInit();
+    await database.sequelize.sync({ force: true });
+
+    user = await database.user.create({
+      email: 'user@example.com',
+      emailVerified: true,
+    });
+
+    options = {
+      database,
+      language: 'en',
+    };
+  });
+
+  after(async () => {
+    await database.sequelize.close();
+  });
+
+  it('replaces the refresh token on each refresh', async () => {
+    const service = new AuthSessionService(options);
+
+    const first = await service.create(user, false);
+    const second = await service.refresh(
+      first.refreshToken,
+    );
+
+    assert.notStrictEqual(
+      second.refreshToken,
+      first.refreshToken,
+    );
+
+    const third = await service.refresh(
+      second.refreshToken,
+    );
+    assert.ok(third.token);
+  });
+
+  it('refuses a token just replaced, keeping the session', async () => {
+    const service = new AuthSessionService(options);
+
+    const first = await service.create(user, false);
+    const second = await service.refresh(
+      first.refreshToken,
+    );
+
+    await assert.rejects(
+      service.refresh(first.refreshToken),
+    );
+
+    await service.refresh(second.refreshToken);
+  });
+
+  it('revokes the session when a replaced token is reused', async () => {
+    const service = new AuthSessionService(options);
+
+    const first = await service.create(user, false);
+    const second = await service.refresh(
+      first.refreshToken,
+    );
+
+    await ageReplacement(first.refreshToken);
+
+    await assert.rejects(
+      service.refresh(first.refreshToken),
+    );
+
+    // The current token of the session is revoked too
+    await assert.rejects(
+      service.refresh(second.refreshToken),
+    );
+
+    const [session] = await database.authSession.findAll({
+      where: {
+        refreshTokenHash: hash(second.refreshToken),
+      },
+    });
+    assert.ok(session.revokedAt);
+  });
+
+  it('refuses the tokens of an expired session', async () => {
+    const service = new AuthSessionService(options);
+
+    const { refreshToken } = await service.create(
+      user,
+      false,
+    );
+
+    await database.authSession.update(
+      {
+        expiresAt: moment().subtract(1, 'minute').toDate(),
+      },
+      { where: { refreshTokenHash: hash(refreshToken) } },
+    );
+
+    await assert.rejects(service.refresh(refreshToken));
+  });
+});
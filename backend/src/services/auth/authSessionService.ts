@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import moment from 'moment';
+import Error400 from '../../errors/Error400';
+import Error403 from '../../errors/Error403';
+import Error404 from '../../errors/Error404';
+import { getConfig } from '../../config';
+import AuditTrailService from '../auditTrailService';
+import AuthSessionRepository from '../../database/repositories/authSessionRepository';
+import SequelizeRepository from '../../database/repositories/sequelizeRepository';
+import UserRepository from '../../database/repositories/userRepository';
+
+const DEFAULT_ACCESS_TOKEN_EXPIRES_IN = '15m';
+const DEFAULT_SESSION_HOURS = 12;
+const DEFAULT_REMEMBER_ME_SESSION_DAYS = 30;
+
+/**
+ * A refresh token used again this soon after it was
+ * replaced is taken for a race between two tabs of the
+ * same browser, not for a stolen token.
+ */
+const REUSE_GRACE = 30 * 1000;
+
+/**
+ * Handles the sessions of the users.
+ *
+ * Signing in opens a session and returns a short-lived
+ * access token and a refresh token. Each refresh replaces
+ * the refresh token; using any replaced token of the
+ * session again revokes the session, as it was likely
+ * stolen. Sessions last AUTH_SESSION_HOURS, or
+ * AUTH_REMEMBER_ME_SESSION_DAYS when "remember me"
+ * is checked.
+ */
+export default class AuthSessionService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Opens a session for the user.
+   *
+   * @param {*} user
+   * @param {*} rememberMe
+   * @param {*} [twoFactorVerified] Whether the user passed a second factor
+   */
+  async create(
+    user,
+    rememberMe,
+    twoFactorVerified = false,
+  ) {
+    const refreshToken = this._generateRefreshToken();
+
+    const expiresAt = rememberMe
+      ? moment().add(
+          Number(
+            getConfig().AUTH_REMEMBER_ME_SESSION_DAYS,
+          ) || DEFAULT_REMEMBER_ME_SESSION_DAYS,
+          'days',
+        )
+      : moment().add(
+          Number(getConfig().AUTH_SESSION_HOURS) ||
+            DEFAULT_SESSION_HOURS,
+          'hours',
+        );
+
+    const session = await AuthSessionRepository.create(
+      {
+        userId: user.id,
+        refreshTokenHash: this._hash(refreshToken),
+        rememberMe,
+        twoFactorVerified,
+        expiresAt: expiresAt.toDate(),
+        userAgent:
+          this.options.headers &&
+          this.options.headers['user-agent'],
+        ip: this.options.ip,
+      },
+      this.options,
+    );
+
+    return this._tokens(session, refreshToken);
+  }
+
+  /**
+   * Replaces the refresh token by a new one,
+   * with a new access token.
+   *
+   * @param {*} refreshToken
+   */
+  async refresh(refreshToken) {
+    const hash = this._hash(String(refreshToken || ''));
+
+    const token = await AuthSessionRepository.findRefreshToken(
+      hash,
+      this.options,
+    );
+
+    const session = token && token.session;
+
+    if (
+      !session ||
+      session.revokedAt ||
+      session.expiresAt <= new Date()
+    ) {
+      throw this._invalidRefreshToken();
+    }
+
+    if (token.replacedAt) {
+      if (
+        Date.now() - token.replacedAt.getTime() <
+        REUSE_GRACE
+      ) {
+        throw this._invalidRefreshToken();
+      }
+
+      await this._onReuse(session);
+      throw this._invalidRefreshToken();
+    }
+
+    const newRefreshToken = this._generateRefreshToken();
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    let rotated;
+
+    try {
+      rotated = await AuthSessionRepository.rotate(
+        session,
+        hash,
+        this._hash(newRefreshToken),
+        { ...this.options, transaction },
+      );
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+
+    // Lost a race with another use of the same token
+    if (!rotated) {
+      throw this._invalidRefreshToken();
+    }
+
+    return this._tokens(session, newRefreshToken);
+  }
+
+  /**
+   * Returns the session of an access token if it can
+   * still be used, null otherwise.
+   *
+   * @param {*} id
+   */
+  async findActive(id) {
+    if (!id) {
+      return null;
+    }
+
+    return AuthSessionRepository.findActiveById(
+      id,
+      this.options,
+    );
+  }
+
+  /**
+   * Lists the active sessions of the current user,
+   * flagging the one of the request.
+   */
+  async findMine() {
+    const currentUser = this._currentUser();
+
+    const sessions = await AuthSessionRepository.findActiveByUser(
+      currentUser.id,
+      this.options,
+    );
+
+    return sessions.map((session) => ({
+      ...session.get({ plain: true }),
+      current: session.id === currentUser.currentSessionId,
+    }));
+  }
+
+  /**
+   * Revokes a session of the current user.
+   *
+   * @param {*} id
+   */
+  async revoke(id) {
+    const currentUser = this._currentUser();
+
+    const revoked = await AuthSessionRepository.revoke(
+      id,
+      currentUser.id,
+      this.options,
+    );
+
+    if (!revoked) {
+      throw new Error404();
+    }
+  }
+
+  /**
+   * Revokes all the sessions of the user,
+   * but the one to keep, if any.
+   *
+   * @param {*} userId
+   * @param {*} [exceptId]
+   */
+  async revokeAll(userId, exceptId?) {
+    await AuthSessionRepository.revokeAllOfUser(
+      userId,
+      exceptId,
+      this.options,
+    );
+  }
+
+  _tokens(session, refreshToken) {
+    return {
+      token: jwt.sign(
+        { id: session.userId, sid: session.id },
+        getConfig().AUTH_JWT_SECRET,
+        {
+          expiresIn:
+            getConfig().AUTH_ACCESS_TOKEN_EXPIRES_IN ||
+            DEFAULT_ACCESS_TOKEN_EXPIRES_IN,
+        },
+      ),
+      refreshToken,
+      expiresAt: session.expiresAt,
+    };
+  }
+
+  /**
+   * Revokes the session whose replaced refresh
+   * token was used, and logs it.
+   */
+  async _onReuse(session) {
+    await AuthSessionRepository.revoke(
+      session.id,
+      session.userId,
+      this.options,
+    );
+
+    const user = await UserRepository.findById(
+      session.userId,
+      {
+        ...this.options,
+        bypassPermissionValidation: true,
+      },
+    );
+
+    await new AuditTrailService(this.options).logAuth(
+      'refreshTokenReuse',
+      {
+        user,
+        error: this._invalidRefreshToken(),
+      },
+    );
+  }
+
+  _currentUser() {
+    const currentUser = this.options.currentUser;
+
+    if (!currentUser || !currentUser.id) {
+      throw new Error403(this.options.language);
+    }
+
+    return currentUser;
+  }
+
+  _invalidRefreshToken() {
+    return new Error400(
+      this.options.language,
+      'auth.invalidRefreshToken',
+    );
+  }
+
+  _generateRefreshToken() {
+    return crypto.randomBytes(48).toString('hex');
+  }
+
+  /**
+   * Only hashes are stored, so a database leak
+   * gives no usable refresh token.
+   */
+  _hash(token) {
+    return crypto
+      .createHash('sha256')
+      .update(token)
+      .digest('hex');
+  }
+}
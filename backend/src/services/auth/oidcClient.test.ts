@@ -0,0 +1,177 @@
+import assert from 'assert';
+import http from 'http';
+import { URL } from 'url';
+import OidcClient from './oidcClient';
+import OidcSimulator from './oidcSimulator';
+
+const REDIRECT_URI =
+  'https://app.example.com/auth/oidc/callback';
+const CODE_VERIFIER = 'a'.repeat(43);
+
+describe('OidcClient', () => {
+  const simulator = new OidcSimulator();
+  let issuer;
+  let client: OidcClient;
+
+  /**
+   * Signs in at the provider as the email and returns
+   * the code of the redirect back.
+   */
+  const signin = async (email, nonce = 'nonce') => {
+    const url = new URL(
+      await client.authorizationUrl(
+        REDIRECT_URI,
+        'state',
+        nonce,
+        OidcClient.codeChallenge(CODE_VERIFIER),
+      ),
+    );
+    url.searchParams.set('email', email);
+
+    const location: string = await new Promise(
+      (resolve, reject) =>
+        http
+          .get(url, (response) => {
+            response.resume();
+            resolve(String(response.headers.location));
+          })
+          .on('error', reject),
+    );
+
+    return new URL(location).searchParams.get('code');
+  };
+
+  before(async () => {
+    issuer = await simulator.start();
+  });
+
+  after(async () => {
+    await simulator.stop();
+  });
+
+  beforeEach(() => {
+    simulator.reset();
+
+    client = new OidcClient(
+      {
+        issuer,
+        clientId: 'tamcust',
+        clientSecret: 'secret',
+      },
+      { allowInsecure: true },
+    );
+  });
+
+  it('returns the verified claims of the user', async () => {
+    const code = await signin('jane@example.com');
+
+    const claims = await client.exchangeCode(
+      code,
+      REDIRECT_URI,
+      'nonce',
+      CODE_VERIFIER,
+    );
+
+    assert.strictEqual(claims.email, 'jane@example.com');
+    assert.strictEqual(claims.email_verified, true);
+    assert.strictEqual(claims.sub, 'jane@example.com');
+    assert.strictEqual(claims.iss, issuer);
+  });
+
+  it('refuses another code verifier', async () => {
+    const code = await signin('jane@example.com');
+
+    await assert.rejects(
+      client.exchangeCode(
+        code,
+        REDIRECT_URI,
+        'nonce',
+        'b'.repeat(43),
+      ),
+    );
+  });
+
+  it('refuses an ID token of another nonce', async () => {
+    const code = await signin('jane@example.com', 'other');
+
+    await assert.rejects(
+      client.exchangeCode(
+        code,
+        REDIRECT_URI,
+        'nonce',
+        CODE_VERIFIER,
+      ),
+    );
+  });
+
+  it('refuses a code used already', async () => {
+    const code = await signin('jane@example.com');
+
+    await client.exchangeCode(
+      code,
+      REDIRECT_URI,
+      'nonce',
+      CODE_VERIFIER,
+    );
+
+    await assert.rejects(
+      client.exchangeCode(
+        code,
+        REDIRECT_URI,
+        'nonce',
+        CODE_VERIFIER,
+      ),
+    );
+  });
+
+  it('refuses providers over plain HTTP', async () => {
+    const strictClient = new OidcClient({
+      issuer,
+      clientId: 'tamcust',
+      clientSecret: 'secret',
+    });
+
+    await assert.rejects(strictClient.discover());
+  });
+
+  it('only allows HTTPS URLs of public addresses', () => {
+    for (const url of [
+      'https://login.example.com',
+      'https://93.184.216.34/oidc',
+      'https://[2606:4700::1111]',
+    ]) {
+      assert.ok(OidcClient.isAllowedUrl(url), url);
+    }
+
+    for (const url of [
+      'http://login.example.com',
+      'https://localhost',
+      'https://127.0.0.1',
+      'https://10.0.0.1',
+      'https://172.16.5.4',
+      'https://192.168.1.1',
+      'https://169.254.169.254/latest',
+      'https://100.64.0.1',
+      'https://0.0.0.0',
+      'https://[::1]',
+      'https://[fd00::1]',
+      'https://[fe80::1]',
+      'https://[::ffff:127.0.0.1]',
+      'not a url',
+    ]) {
+      assert.ok(!OidcClient.isAllowedUrl(url), url);
+    }
+  });
+
+  it('refuses names that resolve to private addresses', async () => {
+    const error = await new Promise((resolve) =>
+      new OidcClient({
+        issuer,
+        clientId: 'tamcust',
+        clientSecret: 'secret',
+      })._lookup('localhost', {}, resolve),
+    );
+
+    assert.ok(error instanceof Error);
+  });
+});
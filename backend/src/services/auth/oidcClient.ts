@@ -0,0 +1,508 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import jwt from 'jsonwebtoken';
+import net from 'net';
+import { URL, URLSearchParams } from 'url';
+
+/**
+ * The JWK input Node has since 15.12,
+ * missing from @types/node 14.
+ */
+declare module 'crypto' {
+  interface JsonWebKeyInput {
+    key: { [key: string]: any };
+    format: 'jwk';
+  }
+
+  function createPublicKey(key: JsonWebKeyInput): KeyObject;
+}
+
+const REQUEST_TIMEOUT = 10 * 1000;
+
+/**
+ * Providers rarely change their endpoints,
+ * so the discovery documents are cached.
+ */
+const DISCOVERY_TTL = 60 * 60 * 1000;
+
+const discoveries = new Map<
+  string,
+  { configuration: any; fetchedAt: number }
+>();
+
+const keySets = new Map<string, Array<any>>();
+
+/**
+ * IPv4 ranges that aren't reachable on the internet:
+ * this network, private, shared, loopback, link-local,
+ * protocol assignments, benchmarking, multicast
+ * and reserved.
+ */
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+];
+
+export interface OidcConnection {
+  issuer: string;
+  clientId: string;
+  clientSecret: string | null;
+}
+
+export interface OidcClientOptions {
+  /**
+   * Allows plain HTTP and private addresses, for
+   * the OidcSimulator. Never for real providers.
+   */
+  allowInsecure?: boolean;
+}
+
+/**
+ * Speaks the OpenID Connect authorization code flow
+ * with the identity provider of a tenant.
+ *
+ * The URLs of the provider are configured by tenant
+ * admins and fetched by the server, so they must be
+ * HTTPS and resolve to public addresses only.
+ */
+export default class OidcClient {
+  connection: OidcConnection;
+  options: OidcClientOptions;
+
+  constructor(
+    connection: OidcConnection,
+    options: OidcClientOptions = {},
+  ) {
+    this.connection = connection;
+    this.options = options;
+  }
+
+  /**
+   * Whether the URL can be one of a provider: HTTPS,
+   * and not a private address. Names are checked
+   * again once resolved, when fetched.
+   *
+   * @param {*} url
+   */
+  static isAllowedUrl(url) {
+    let target;
+
+    try {
+      target = new URL(String(url));
+    } catch (error) {
+      return false;
+    }
+
+    const hostname = target.hostname
+      .replace(/^\[|\]$/g, '')
+      .toLowerCase();
+
+    return (
+      target.protocol === 'https:' &&
+      hostname !== 'localhost' &&
+      !hostname.endsWith('.localhost') &&
+      (!net.isIP(hostname) ||
+        this.isPublicAddress(hostname))
+    );
+  }
+
+  /**
+   * Whether the IP address is reachable on the internet.
+   *
+   * @param {*} address
+   */
+  static isPublicAddress(address) {
+    if (net.isIPv4(address)) {
+      const value = this._ipv4ToNumber(address);
+
+      return !BLOCKED_IPV4_RANGES.some(
+        ([range, bits]) =>
+          value >>> (32 - bits) ===
+          this._ipv4ToNumber(range) >>> (32 - bits),
+      );
+    }
+
+    if (!net.isIPv6(address)) {
+      return false;
+    }
+
+    const normalized = address.toLowerCase();
+
+    const mapped = normalized.match(
+      /^::ffff:(\d+\.\d+\.\d+\.\d+)$/,
+    );
+    if (mapped) {
+      return this.isPublicAddress(mapped[1]);
+    }
+
+    // Unspecified, loopback, unique local,
+    // link-local and multicast
+    return !(
+      normalized === '::' ||
+      normalized === '::1' ||
+      /^f[cd]/.test(normalized) ||
+      /^fe[89ab]/.test(normalized) ||
+      /^ff/.test(normalized) ||
+      normalized.startsWith('::ffff:')
+    );
+  }
+
+  static _ipv4ToNumber(address) {
+    return (
+      address
+        .split('.')
+        .reduce(
+          (value, part) => value * 256 + Number(part),
+          0,
+        ) >>> 0
+    );
+  }
+
+  /**
+   * Returns the URL of the provider the user
+   * is redirected to, to sign in.
+   *
+   * @param {*} redirectUri
+   * @param {*} state
+   * @param {*} nonce
+   * @param {*} codeChallenge S256 PKCE challenge
+   */
+  async authorizationUrl(
+    redirectUri,
+    state,
+    nonce,
+    codeChallenge,
+  ) {
+    const configuration = await this.discover();
+
+    const url = new URL(
+      configuration.authorization_endpoint,
+    );
+    url.search = new URLSearchParams({
+      response_type: 'code',
+      client_id: this.connection.clientId,
+      redirect_uri: redirectUri,
+      scope: 'openid email profile',
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+    }).toString();
+
+    return url.toString();
+  }
+
+  /**
+   * Exchanges the code of the callback for the ID token
+   * and returns its verified claims.
+   *
+   * @param {*} code
+   * @param {*} redirectUri
+   * @param {*} nonce
+   * @param {*} codeVerifier PKCE verifier
+   */
+  async exchangeCode(
+    code,
+    redirectUri,
+    nonce,
+    codeVerifier,
+  ) {
+    const configuration = await this.discover();
+
+    const reply = await this._request(
+      configuration.token_endpoint,
+      new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+        client_id: this.connection.clientId,
+        client_secret: this.connection.clientSecret || '',
+        code_verifier: codeVerifier,
+      }).toString(),
+    );
+
+    if (!reply.id_token) {
+      throw new Error('The provider returned no ID token');
+    }
+
+    return this.verifyIdToken(reply.id_token, nonce);
+  }
+
+  /**
+   * Checks the signature, issuer, audience, expiry
+   * and nonce of the ID token.
+   *
+   * @param {*} idToken
+   * @param {*} nonce
+   */
+  async verifyIdToken(idToken, nonce) {
+    const configuration = await this.discover();
+
+    const decoded: any = jwt.decode(idToken, {
+      complete: true,
+    });
+
+    if (!decoded || decoded.header.alg !== 'RS256') {
+      throw new Error('Unsupported ID token');
+    }
+
+    const key = await this._signingKey(
+      configuration.jwks_uri,
+      decoded.header.kid,
+    );
+
+    const claims: any = jwt.verify(idToken, key, {
+      algorithms: ['RS256'],
+      issuer: configuration.issuer,
+      audience: this.connection.clientId,
+    });
+
+    if (!claims.nonce || claims.nonce !== nonce) {
+      throw new Error('The ID token nonce does not match');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Returns the S256 PKCE challenge of the verifier.
+   *
+   * @param {*} codeVerifier
+   */
+  static codeChallenge(codeVerifier) {
+    return crypto
+      .createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64')
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+  }
+
+  /**
+   * Fetches the discovery document of the issuer.
+   */
+  async discover() {
+    // Before the cache, which clients of another
+    // mode share
+    this._assertAllowedUrl(this.connection.issuer);
+
+    const cached = discoveries.get(this.connection.issuer);
+
+    if (
+      cached &&
+      Date.now() - cached.fetchedAt < DISCOVERY_TTL
+    ) {
+      return cached.configuration;
+    }
+
+    const configuration = await this._request(
+      `${this.connection.issuer}/.well-known/openid-configuration`,
+    );
+
+    if (configuration.issuer !== this.connection.issuer) {
+      throw new Error(
+        `The provider announces the issuer ${configuration.issuer}`,
+      );
+    }
+
+    for (const field of [
+      'authorization_endpoint',
+      'token_endpoint',
+      'jwks_uri',
+    ]) {
+      this._assertAllowedUrl(configuration[field]);
+    }
+
+    discoveries.set(this.connection.issuer, {
+      configuration,
+      fetchedAt: Date.now(),
+    });
+
+    return configuration;
+  }
+
+  /**
+   * Returns the public key that signed the ID token,
+   * fetching the key set again when the provider
+   * rotated its keys.
+   *
+   * @param {*} jwksUri
+   * @param {*} kid
+   */
+  async _signingKey(jwksUri, kid) {
+    const find = (keys) =>
+      (keys || []).find(
+        (jwk) =>
+          jwk.kty === 'RSA' &&
+          (!kid || jwk.kid === kid) &&
+          (!jwk.use || jwk.use === 'sig'),
+      );
+
+    let jwk = find(keySets.get(jwksUri));
+
+    if (!jwk) {
+      const keySet = await this._request(jwksUri);
+      keySets.set(jwksUri, keySet.keys);
+      jwk = find(keySet.keys);
+    }
+
+    if (!jwk) {
+      throw new Error(`Unknown signing key ${kid}`);
+    }
+
+    return crypto
+      .createPublicKey({ key: jwk, format: 'jwk' })
+      .export({ type: 'spki', format: 'pem' })
+      .toString();
+  }
+
+  /**
+   * Throws unless the URL can be one of a provider.
+   *
+   * @param {*} url
+   */
+  _assertAllowedUrl(url) {
+    if (
+      !this.options.allowInsecure &&
+      !OidcClient.isAllowedUrl(url)
+    ) {
+      throw new Error(
+        `${url} is not an HTTPS URL of a public address`,
+      );
+    }
+  }
+
+  /**
+   * Resolves the name like the default lookup, but fails
+   * on private addresses, so a name can't be pointed at
+   * the internal network once validated.
+   */
+  _lookup(hostname, options, callback) {
+    dns.lookup(
+      hostname,
+      { ...options, all: true },
+      (error, addresses: Array<dns.LookupAddress>) => {
+        if (error) {
+          callback(error);
+          return;
+        }
+
+        const blocked = addresses.find(
+          (item) =>
+            !OidcClient.isPublicAddress(item.address),
+        );
+
+        if (blocked) {
+          callback(
+            new Error(
+              `${hostname} resolves to the private address ${blocked.address}`,
+            ),
+          );
+          return;
+        }
+
+        if (options.all) {
+          callback(null, addresses);
+          return;
+        }
+
+        callback(
+          null,
+          addresses[0].address,
+          addresses[0].family,
+        );
+      },
+    );
+  }
+
+  /**
+   * GETs the URL, or POSTs the form, and
+   * resolves with the JSON reply.
+   *
+   * @param {*} url
+   * @param {*} [form]
+   */
+  _request(url, form?: string): Promise<any> {
+    return new Promise((resolve, reject) => {
+      this._assertAllowedUrl(url);
+
+      const target = new URL(url);
+      const transport =
+        target.protocol === 'https:' ? https : http;
+
+      // Passed on to the socket, but missing from the typings
+      const requestOptions: http.RequestOptions & {
+        lookup?: net.LookupFunction;
+      } = {
+        method: form ? 'POST' : 'GET',
+        headers: {
+          Accept: 'application/json',
+          ...(form
+            ? {
+                'Content-Type':
+                  'application/x-www-form-urlencoded',
+                'Content-Length': Buffer.byteLength(form),
+              }
+            : {}),
+        },
+        timeout: REQUEST_TIMEOUT,
+      };
+
+      if (!this.options.allowInsecure) {
+        requestOptions.lookup = this._lookup.bind(this);
+      }
+
+      const request = transport.request(
+        target,
+        requestOptions,
+        (response) => {
+          let body = '';
+          response.setEncoding('utf8');
+          response.on('data', (chunk) => (body += chunk));
+          response.on('end', () => {
+            const status = response.statusCode || 0;
+
+            if (status < 200 || status >= 300) {
+              reject(
+                new Error(
+                  `${url} replied ${status}: ${body}`,
+                ),
+              );
+              return;
+            }
+
+            try {
+              resolve(JSON.parse(body));
+            } catch (error) {
+              reject(
+                new Error(`${url} replied invalid JSON`),
+              );
+            }
+          });
+        },
+      );
+
+      request.on('timeout', () =>
+        request.destroy(new Error(`${url} timed out`)),
+      );
+      request.on('error', reject);
+
+      if (form) {
+        request.write(form);
+      }
+
+      request.end();
+    });
+  }
+}
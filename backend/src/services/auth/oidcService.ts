@@ -0,0 +1,271 @@
+import crypto from 'crypto';
+import Error400 from '../../errors/Error400';
+import ErrorReporter from '../../errors/ErrorReporter';
+import { getConfig } from '../../config';
+import TenantRepository from '../../database/repositories/tenantRepository';
+import OidcLoginRepository from '../../database/repositories/oidcLoginRepository';
+import { tenantSubdomain } from '../tenantSubdomain';
+import AuthSettingsService from '../authSettingsService';
+import AuthService from './authService';
+import OidcClient from './oidcClient';
+
+/**
+ * Time the provider has to redirect back, in minutes.
+ */
+const LOGIN_EXPIRES_IN = 10;
+
+/**
+ * Handles the OpenID Connect single sign-on of the tenants.
+ *
+ * The state sent to the provider is the id of a sign-in
+ * stored until the callback, used once. The PKCE code
+ * verifier only goes to the browser that started the
+ * sign-in, so a redirect replayed elsewhere fails.
+ */
+export default class OidcService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Returns whether the tenant signs in with OIDC,
+   * and the label of the button.
+   *
+   * @param {*} tenantId
+   */
+  async provider(tenantId) {
+    const tenant = await this._findTenant(tenantId);
+
+    const connection = tenant
+      ? await this._settingsService().findOidcConnection(
+          tenant.id,
+        )
+      : null;
+
+    return {
+      enabled: Boolean(connection),
+      label: connection ? connection.label : null,
+    };
+  }
+
+  /**
+   * Returns the URL of the provider to sign in, with the
+   * state and code verifier the callback must send back.
+   *
+   * @param {*} tenantId
+   * @param {*} rememberMe
+   */
+  async authorize(tenantId, rememberMe) {
+    const tenant = await this._findTenant(tenantId);
+    const connection = await this._findConnection(tenant);
+
+    const state = crypto.randomBytes(32).toString('hex');
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const codeVerifier = crypto
+      .randomBytes(32)
+      .toString('base64')
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=+$/, '');
+
+    await OidcLoginRepository.create(
+      {
+        id: state,
+        tenantId: tenant.id,
+        nonce,
+        codeChallenge: OidcClient.codeChallenge(
+          codeVerifier,
+        ),
+        rememberMe,
+        expiresAt: new Date(
+          Date.now() + LOGIN_EXPIRES_IN * 60 * 1000,
+        ),
+      },
+      this.options,
+    );
+
+    try {
+      const url = await this._client(
+        connection,
+      ).authorizationUrl(
+        this._redirectUri(tenant),
+        state,
+        nonce,
+        OidcClient.codeChallenge(codeVerifier),
+      );
+
+      return { url, state, codeVerifier };
+    } catch (error) {
+      ErrorReporter.report(error, 'OidcService', {
+        tenantId: tenant.id,
+      });
+      throw new Error400(
+        this.options.language,
+        'auth.oidc.providerUnavailable',
+      );
+    }
+  }
+
+  /**
+   * Finishes the sign-in with the code the provider
+   * sent back and opens the session.
+   *
+   * @param {*} code
+   * @param {*} state
+   * @param {*} codeVerifier
+   */
+  async callback(code, state, codeVerifier) {
+    const login = await OidcLoginRepository.consume(
+      state,
+      this.options,
+    );
+
+    if (
+      !login ||
+      !codeVerifier ||
+      OidcClient.codeChallenge(String(codeVerifier)) !==
+        login.codeChallenge
+    ) {
+      throw new Error400(
+        this.options.language,
+        'auth.oidc.invalidState',
+      );
+    }
+
+    const tenant = await TenantRepository.findById(
+      login.tenantId,
+      { ...this.options },
+    );
+    const connection = await this._findConnection(tenant);
+
+    let claims;
+
+    try {
+      claims = await this._client(connection).exchangeCode(
+        String(code || ''),
+        this._redirectUri(tenant),
+        login.nonce,
+        String(codeVerifier),
+      );
+    } catch (error) {
+      ErrorReporter.report(error, 'OidcService', {
+        tenantId: tenant.id,
+      });
+      throw new Error400(
+        this.options.language,
+        'auth.oidc.signinFailed',
+      );
+    }
+
+    // Unverified emails could take over local accounts
+    if (!claims.email || claims.email_verified !== true) {
+      throw new Error400(
+        this.options.language,
+        'auth.oidc.emailRequired',
+      );
+    }
+
+    return AuthService.signinWithOidc(
+      {
+        email: String(claims.email).toLowerCase(),
+        firstName: claims.given_name,
+        lastName: claims.family_name,
+        issuer: connection.issuer,
+        subject: String(claims.sub),
+      },
+      this._mapRoles(claims, connection),
+      tenant.id,
+      login.rememberMe,
+      this.options,
+    );
+  }
+
+  /**
+   * Maps the values of the roles claim of the ID token
+   * to roles of the tenant. Unmapped values are ignored.
+   *
+   * @param {*} claims
+   * @param {*} connection
+   */
+  _mapRoles(claims, connection) {
+    const value = claims[connection.rolesClaim];
+
+    const values = Array.isArray(value)
+      ? value
+      : value
+      ? String(value).split(/[\s,]+/)
+      : [];
+
+    return Array.from(
+      new Set(
+        values
+          .map((item) => connection.roleMapping[item])
+          .filter(Boolean),
+      ),
+    );
+  }
+
+  /**
+   * Client of the provider. Plain HTTP and private
+   * addresses, as the simulator of development uses,
+   * are allowed by AUTH_OIDC_ALLOW_INSECURE only.
+   *
+   * @param {*} connection
+   */
+  _client(connection) {
+    return new OidcClient(connection, {
+      allowInsecure:
+        getConfig().AUTH_OIDC_ALLOW_INSECURE === 'true',
+    });
+  }
+
+  /**
+   * In single tenant mode, the default tenant is used.
+   *
+   * @param {*} tenantId
+   */
+  async _findTenant(tenantId) {
+    if (getConfig().TENANT_MODE === 'single') {
+      return TenantRepository.findDefault({
+        ...this.options,
+      });
+    }
+
+    if (!tenantId) {
+      return null;
+    }
+
+    return TenantRepository.findById(tenantId, {
+      ...this.options,
+    });
+  }
+
+  async _findConnection(tenant) {
+    const connection = tenant
+      ? await this._settingsService().findOidcConnection(
+          tenant.id,
+        )
+      : null;
+
+    if (!connection) {
+      throw new Error400(
+        this.options.language,
+        'auth.oidc.disabled',
+      );
+    }
+
+    return connection;
+  }
+
+  _redirectUri(tenant) {
+    return `${tenantSubdomain.frontendUrl(
+      tenant,
+    )}/auth/oidc/callback`;
+  }
+
+  _settingsService() {
+    return new AuthSettingsService(this.options);
+  }
+}
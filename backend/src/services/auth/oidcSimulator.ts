@@ -0,0 +1,339 @@
+import crypto from 'crypto';
+import http from 'http';
+import jwt from 'jsonwebtoken';
+import { URL, URLSearchParams } from 'url';
+import OidcClient from './oidcClient';
+
+const KEY_ID = 'oidc-simulator';
+const CODE_EXPIRES_IN = 60 * 1000;
+
+export interface OidcSimulatorOptions {
+  port?: number;
+  clientId?: string;
+  clientSecret?: string;
+}
+
+interface OidcSimulatorClaims {
+  email: string;
+  given_name?: string;
+  family_name?: string;
+  email_verified?: boolean;
+  roles?: Array<string>;
+}
+
+/**
+ * In-memory stand-in for an OpenID Connect identity
+ * provider, for development and tests.
+ *
+ * Serves the discovery document, the keys and the token
+ * endpoint of the authorization code flow. Its sign-in
+ * page lets the user be anyone, with any roles.
+ */
+export default class OidcSimulator {
+  options: OidcSimulatorOptions;
+  issuer = '';
+
+  private server: http.Server | null = null;
+  private keys = crypto.generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+  });
+  private codes = new Map<string, any>();
+  private nextClaims: OidcSimulatorClaims | null = null;
+
+  constructor(options: OidcSimulatorOptions = {}) {
+    this.options = {
+      port: 0,
+      clientId: 'tamcust',
+      clientSecret: 'secret',
+      ...options,
+    };
+  }
+
+  /**
+   * Starts listening and resolves with the issuer URL.
+   * Port 0 picks a free port.
+   */
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer(
+        (request, response) =>
+          this._onRequest(request, response).catch(
+            (error) =>
+              this._reply(response, 500, {
+                error: 'server_error',
+                error_description: error.message,
+              }),
+          ),
+      );
+
+      server.on('listening', () => {
+        const address: any = server.address();
+        this.issuer = `http://localhost:${address.port}`;
+        resolve(this.issuer);
+      });
+
+      server.on('error', reject);
+
+      server.listen(this.options.port);
+
+      this.server = server;
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  /**
+   * Makes the next authorization sign in as this
+   * user right away, without the sign-in page.
+   *
+   * @param {*} claims
+   */
+  authorizeAs(claims: OidcSimulatorClaims) {
+    this.nextClaims = claims;
+  }
+
+  reset() {
+    this.codes.clear();
+    this.nextClaims = null;
+  }
+
+  async _onRequest(request, response) {
+    const url = new URL(request.url, this.issuer);
+
+    if (
+      url.pathname === '/.well-known/openid-configuration'
+    ) {
+      return this._reply(response, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+        response_types_supported: ['code'],
+        subject_types_supported: ['public'],
+        id_token_signing_alg_values_supported: ['RS256'],
+      });
+    }
+
+    if (url.pathname === '/jwks') {
+      return this._reply(response, 200, {
+        keys: [
+          {
+            ...(this.keys.publicKey as any).export({
+              format: 'jwk',
+            }),
+            kid: KEY_ID,
+            use: 'sig',
+            alg: 'RS256',
+          },
+        ],
+      });
+    }
+
+    if (url.pathname === '/authorize') {
+      return this._authorize(url.searchParams, response);
+    }
+
+    if (
+      url.pathname === '/token' &&
+      request.method === 'POST'
+    ) {
+      return this._token(
+        new URLSearchParams(await this._readBody(request)),
+        response,
+      );
+    }
+
+    return this._reply(response, 404, {
+      error: 'not_found',
+    });
+  }
+
+  /**
+   * Shows the sign-in page, then redirects back
+   * with the code once it is submitted.
+   */
+  _authorize(params: URLSearchParams, response) {
+    if (params.get('client_id') !== this.options.clientId) {
+      return this._reply(response, 400, {
+        error: 'unauthorized_client',
+      });
+    }
+
+    let claims: OidcSimulatorClaims | null = this
+      .nextClaims;
+    this.nextClaims = null;
+
+    if (!claims && params.get('email')) {
+      claims = {
+        email: String(params.get('email')),
+        given_name: params.get('given_name') || undefined,
+        family_name: params.get('family_name') || undefined,
+        roles: String(params.get('roles') || '')
+          .split(',')
+          .map((role) => role.trim())
+          .filter(Boolean),
+      };
+    }
+
+    if (!claims) {
+      return this._signinPage(params, response);
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+
+    this.codes.set(code, {
+      claims,
+      nonce: params.get('nonce'),
+      codeChallenge: params.get('code_challenge'),
+      redirectUri: params.get('redirect_uri'),
+      expiresAt: Date.now() + CODE_EXPIRES_IN,
+    });
+
+    const redirect = new URL(
+      String(params.get('redirect_uri')),
+    );
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set(
+      'state',
+      String(params.get('state') || ''),
+    );
+
+    response.writeHead(302, {
+      Location: redirect.toString(),
+    });
+    response.end();
+  }
+
+  _token(params: URLSearchParams, response) {
+    if (
+      params.get('client_id') !== this.options.clientId ||
+      params.get('client_secret') !==
+        this.options.clientSecret
+    ) {
+      return this._reply(response, 401, {
+        error: 'invalid_client',
+      });
+    }
+
+    const code = String(params.get('code'));
+    const grant = this.codes.get(code);
+
+    // Codes can be used only once
+    this.codes.delete(code);
+
+    if (
+      !grant ||
+      grant.expiresAt < Date.now() ||
+      grant.redirectUri !== params.get('redirect_uri') ||
+      (grant.codeChallenge &&
+        OidcClient.codeChallenge(
+          String(params.get('code_verifier') || ''),
+        ) !== grant.codeChallenge)
+    ) {
+      return this._reply(response, 400, {
+        error: 'invalid_grant',
+      });
+    }
+
+    const idToken = jwt.sign(
+      {
+        email_verified: true,
+        ...grant.claims,
+        sub: grant.claims.email,
+        nonce: grant.nonce,
+      },
+      this.keys.privateKey
+        .export({ type: 'pkcs8', format: 'pem' })
+        .toString(),
+      {
+        algorithm: 'RS256',
+        keyid: KEY_ID,
+        issuer: this.issuer,
+        audience: this.options.clientId,
+        expiresIn: '5m',
+      },
+    );
+
+    return this._reply(response, 200, {
+      access_token: crypto.randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: idToken,
+    });
+  }
+
+  _signinPage(params: URLSearchParams, response) {
+    const hidden = Array.from(params.entries())
+      .map(
+        ([name, value]) =>
+          `<input type="hidden" name="${this._escape(
+            name,
+          )}" value="${this._escape(value)}" />`,
+      )
+      .join('');
+
+    response.writeHead(200, {
+      'Content-Type': 'text/html; charset=utf-8',
+    });
+    response.end(`<!DOCTYPE html>
+<html>
+  <head><title>OIDC simulator</title></head>
+  <body>
+    <h1>OIDC simulator</h1>
+    <form method="get" action="/authorize">
+      ${hidden}
+      <p><label>Email <input name="email" type="email" required /></label></p>
+      <p><label>First name <input name="given_name" /></label></p>
+      <p><label>Last name <input name="family_name" /></label></p>
+      <p><label>Roles (comma separated) <input name="roles" /></label></p>
+      <p><button type="submit">Sign in</button></p>
+    </form>
+  </body>
+</html>`);
+  }
+
+  _readBody(request): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = '';
+      request.setEncoding('utf8');
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => resolve(body));
+      request.on('error', reject);
+    });
+  }
+
+  _reply(response, status, body) {
+    response.writeHead(status, {
+      'Content-Type': 'application/json',
+    });
+    response.end(JSON.stringify(body));
+  }
+
+  _escape(value) {
+    return String(value)
+      .replace(/&/g, '&amp;')
+      .replace(/"/g, '&quot;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+  }
+}
+
+if (require.main === module) {
+  new OidcSimulator({
+    port: Number(process.env.OIDC_SIMULATOR_PORT || 8687),
+  })
+    .start()
+    .then((url) =>
+      console.log(`OIDC simulator listening on ${url}`),
+    );
+}
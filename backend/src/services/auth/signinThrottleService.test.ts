@@ -0,0 +1,133 @@
+import assert from 'assert';
+import { databaseInit } from '../../database/databaseConnection';
+import SigninThrottleRepository from '../../database/repositories/signinThrottleRepository';
+import SigninThrottleService from './signinThrottleService';
+
+describe('SigninThrottleService', () => {
+  let database;
+  let options;
+
+  const email = () =>
+    `user${Date.now()}${Math.random()}@example.com`;
+
+  const fail = async (
+    service,
+    address,
+    times,
+    user: any = null,
+  ) => {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure(
+        address,
+        user,
+        user ? options.currentTenant.id : null,
+      );
+    }
+  };
+
+  before(async () => {
+    database = await databaseInit();
+    await database.sequelize.sync({ force: true });
+
+    const tenant = await database.tenant.create({
+      name: 'Test',
+      url: 'test',
+    });
+
+    options = {
+      database,
+      currentTenant: tenant,
+      language: 'en',
+    };
+  });
+
+  after(async () => {
+    await database.sequelize.close();
+  });
+
+  it('lets the first failures through', async () => {
+    const service = new SigninThrottleService(options);
+    const address = email();
+
+    await fail(service, address, 2);
+
+    await service.assertAllowed(address);
+  });
+
+  it('makes the next attempt wait after them', async () => {
+    const service = new SigninThrottleService(options);
+    const address = email();
+
+    await fail(service, address, 3);
+
+    await assert.rejects(service.assertAllowed(address));
+  });
+
+  it('locks the account out, whatever the case of the email', async () => {
+    const service = new SigninThrottleService(options);
+    const address = email();
+
+    await fail(service, address.toUpperCase(), 5);
+
+    const record = await SigninThrottleRepository.find(
+      SigninThrottleRepository.ACCOUNT,
+      address,
+      options,
+    );
+
+    assert.strictEqual(record.failures, 5);
+    assert.ok(record.lockedUntil > new Date());
+    await assert.rejects(service.assertAllowed(address));
+  });
+
+  it('lets an unlocked account sign in again', async () => {
+    const service = new SigninThrottleService(options);
+    const address = email();
+
+    const user = await database.user.create({
+      email: address,
+      emailVerified: true,
+    });
+
+    await database.tenantUser.create({
+      tenantId: options.currentTenant.id,
+      userId: user.id,
+      roles: ['admin'],
+      status: 'active',
+    });
+
+    await fail(service, address, 5, user);
+
+    const record = await SigninThrottleRepository.find(
+      SigninThrottleRepository.ACCOUNT,
+      address,
+      options,
+    );
+
+    await service.unlock(record.id);
+
+    await service.assertAllowed(address);
+  });
+
+  it('keeps the failures of the IP address on success', async () => {
+    const service = new SigninThrottleService({
+      ...options,
+      ip: '203.0.113.7',
+    });
+    const address = email();
+
+    await fail(service, address, 3);
+    await service.recordSuccess(address);
+
+    const record = await SigninThrottleRepository.find(
+      SigninThrottleRepository.ACCOUNT,
+      address,
+      options,
+    );
+
+    assert.ok(!record || !record.failures);
+
+    // Another account from the same address
+    await assert.rejects(service.assertAllowed(email()));
+  });
+});
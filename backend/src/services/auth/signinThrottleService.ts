@@ -0,0 +1,295 @@
+import moment from 'moment';
+import Error400 from '../../errors/Error400';
+import ErrorReporter from '../../errors/ErrorReporter';
+import { getConfig } from '../../config';
+import EmailSender from '../emailSender';
+import { tenantSubdomain } from '../tenantSubdomain';
+import AuditTrailService from '../auditTrailService';
+import SigninThrottleRepository from '../../database/repositories/signinThrottleRepository';
+import TenantRepository from '../../database/repositories/tenantRepository';
+
+const DEFAULT_MAX_FAILURES = 5;
+const DEFAULT_IP_MAX_FAILURES = 50;
+const DEFAULT_LOCKOUT_MINUTES = 15;
+
+/**
+ * Failures this many in a row are free, later
+ * ones make the next attempt wait.
+ */
+const FREE_FAILURES = 3;
+const MIN_DELAY = 1000;
+const MAX_DELAY = 30 * 1000;
+
+/**
+ * Failures older than this are forgotten.
+ */
+const FAILURE_WINDOW = 15 * 60 * 1000;
+
+/**
+ * Slows down and locks out repeated failed sign-ins,
+ * per account and per IP address.
+ *
+ * Accounts are keyed by email whether the user exists
+ * or not, so the throttling tells nothing about which
+ * accounts exist.
+ */
+export default class SigninThrottleService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Throws if the account or the IP address is locked
+   * out or must still wait before trying again.
+   *
+   * @param {*} email
+   */
+  async assertAllowed(email) {
+    for (const [scope, key] of this._keys(email)) {
+      const record = await SigninThrottleRepository.find(
+        scope,
+        key,
+        this.options,
+      );
+
+      if (record && !this._isAllowed(record)) {
+        throw new Error400(
+          this.options.language,
+          'auth.signinThrottled',
+        );
+      }
+    }
+  }
+
+  /**
+   * Counts a failed sign-in and locks the account or the
+   * IP address out when it reaches its limit. The owner
+   * of a locked out account gets an email.
+   *
+   * @param {*} email
+   * @param {*} user The user of the email, if any
+   * @param {*} tenantId The tenant signed in to, if any
+   */
+  async recordFailure(email, user, tenantId) {
+    for (const [scope, key] of this._keys(email)) {
+      let locked = false;
+      let wasLocked = false;
+
+      await SigninThrottleRepository.updateLocked(
+        scope,
+        key,
+        (record) => {
+          const counting = this._isCounting(record);
+          const failures = counting
+            ? record.failures + 1
+            : 1;
+
+          wasLocked = counting && !!record.lockedUntil;
+          locked =
+            wasLocked ||
+            failures >= this._maxFailures(scope);
+
+          return {
+            failures,
+            lastFailureAt: new Date(),
+            lockedUntil: wasLocked
+              ? record.lockedUntil
+              : locked
+              ? moment()
+                  .add(this._lockoutMinutes(), 'minutes')
+                  .toDate()
+              : null,
+            userId:
+              scope === SigninThrottleRepository.ACCOUNT &&
+              user
+                ? user.id
+                : null,
+          };
+        },
+        this.options,
+      );
+
+      // Notified once, by the failure that locked it
+      if (
+        locked &&
+        !wasLocked &&
+        scope === SigninThrottleRepository.ACCOUNT
+      ) {
+        await this._onAccountLocked(email, user, tenantId);
+      }
+    }
+  }
+
+  /**
+   * Forgets the failed attempts of the account. Those of
+   * the IP address stay, so signing in to an own account
+   * doesn't allow guessing the others.
+   *
+   * @param {*} email
+   */
+  async recordSuccess(email) {
+    await SigninThrottleRepository.reset(
+      SigninThrottleRepository.ACCOUNT,
+      this._accountKey(email),
+      this.options,
+    );
+  }
+
+  async findLockedAccounts(args) {
+    return SigninThrottleRepository.findLockedAccounts(
+      args,
+      this.options,
+    );
+  }
+
+  /**
+   * Lets the locked out account sign in again.
+   *
+   * @param {*} id
+   */
+  async unlock(id) {
+    await SigninThrottleRepository.unlock(id, this.options);
+  }
+
+  _keys(email) {
+    const keys = [
+      [
+        SigninThrottleRepository.ACCOUNT,
+        this._accountKey(email),
+      ],
+    ];
+
+    if (this.options.ip) {
+      keys.push([
+        SigninThrottleRepository.IP,
+        this.options.ip,
+      ]);
+    }
+
+    return keys;
+  }
+
+  _accountKey(email) {
+    return String(email || '')
+      .trim()
+      .toLowerCase();
+  }
+
+  _isAllowed(record) {
+    const now = Date.now();
+
+    if (record.lockedUntil) {
+      return record.lockedUntil.getTime() <= now;
+    }
+
+    if (
+      !this._isCounting(record) ||
+      record.failures < FREE_FAILURES
+    ) {
+      return true;
+    }
+
+    return (
+      record.lastFailureAt.getTime() +
+        this._delay(record.failures) <=
+      now
+    );
+  }
+
+  /**
+   * Whether a new failure adds to the previous ones,
+   * which expire with the window or the lockout.
+   *
+   * @param {*} record
+   */
+  _isCounting(record) {
+    const now = Date.now();
+
+    if (record.lockedUntil) {
+      return record.lockedUntil.getTime() > now;
+    }
+
+    return (
+      !!record.lastFailureAt &&
+      record.lastFailureAt.getTime() + FAILURE_WINDOW > now
+    );
+  }
+
+  /**
+   * Doubles with each failure past the free ones.
+   *
+   * @param {*} failures
+   */
+  _delay(failures) {
+    return Math.min(
+      MAX_DELAY,
+      MIN_DELAY * Math.pow(2, failures - FREE_FAILURES),
+    );
+  }
+
+  _maxFailures(scope) {
+    if (scope === SigninThrottleRepository.IP) {
+      return (
+        Number(getConfig().AUTH_SIGNIN_IP_MAX_FAILURES) ||
+        DEFAULT_IP_MAX_FAILURES
+      );
+    }
+
+    return (
+      Number(getConfig().AUTH_SIGNIN_MAX_FAILURES) ||
+      DEFAULT_MAX_FAILURES
+    );
+  }
+
+  _lockoutMinutes() {
+    return (
+      Number(getConfig().AUTH_SIGNIN_LOCKOUT_MINUTES) ||
+      DEFAULT_LOCKOUT_MINUTES
+    );
+  }
+
+  /**
+   * Logs the lockout and emails the owner of the
+   * account. Skipped for emails of no user.
+   */
+  async _onAccountLocked(email, user, tenantId) {
+    if (!user) {
+      return;
+    }
+
+    await new AuditTrailService(
+      this.options,
+    ).logAuth('signinLockout', { email, user, tenantId });
+
+    if (!EmailSender.isConfigured) {
+      return;
+    }
+
+    try {
+      const tenant = tenantId
+        ? await TenantRepository.findById(tenantId, {
+            ...this.options,
+          })
+        : null;
+
+      await new EmailSender(
+        EmailSender.TEMPLATES.SIGNIN_LOCKOUT,
+        {
+          link: `${tenantSubdomain.frontendUrl(
+            tenant,
+          )}/auth/forgot-password`,
+          lockedUntil: moment()
+            .add(this._lockoutMinutes(), 'minutes')
+            .format('YYYY-MM-DD HH:mm'),
+          ip: this.options.ip || '',
+        },
+      ).sendTo(user.email);
+    } catch (error) {
+      ErrorReporter.report(error, 'SigninThrottleService', {
+        userId: user.id,
+      });
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import assert from 'assert';
+import Totp from './totp';
+
+/**
+ * The SHA-1 secret of the RFC 6238 test vectors,
+ * "12345678901234567890" in base32.
+ */
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('Totp', () => {
+  const currentStep = () =>
+    Math.floor(Date.now() / 1000 / 30);
+
+  const code = (secret, step) =>
+    Totp._generate(Totp._base32Decode(secret), step);
+
+  it('generates the codes of the RFC 6238 vectors', () => {
+    // Last 6 of the 8 digits of the RFC
+    assert.strictEqual(code(RFC_SECRET, 1), '287082');
+    assert.strictEqual(
+      code(RFC_SECRET, 37037036),
+      '081804',
+    );
+    assert.strictEqual(
+      code(RFC_SECRET, 41152263),
+      '005924',
+    );
+  });
+
+  it('encodes secrets it can decode back', () => {
+    const secret = Totp.generateSecret();
+
+    assert.match(secret, /^[A-Z2-7]{32}$/);
+    assert.strictEqual(
+      Totp._base32Encode(Totp._base32Decode(secret)),
+      secret,
+    );
+  });
+
+  it('returns the step of a current code', () => {
+    const secret = Totp.generateSecret();
+    const step = currentStep();
+
+    assert.strictEqual(
+      Totp.verify(secret, code(secret, step)),
+      step,
+    );
+  });
+
+  it('accepts the codes of the steps next to it', () => {
+    const secret = Totp.generateSecret();
+    const step = currentStep();
+
+    assert.strictEqual(
+      Totp.verify(secret, code(secret, step - 1)),
+      step - 1,
+    );
+    assert.strictEqual(
+      Totp.verify(secret, code(secret, step + 1)),
+      step + 1,
+    );
+    assert.strictEqual(
+      Totp.verify(secret, code(secret, step + 2)),
+      null,
+    );
+  });
+
+  it('refuses a code of a step already used', () => {
+    const secret = Totp.generateSecret();
+    const step = currentStep();
+
+    assert.strictEqual(
+      Totp.verify(secret, code(secret, step), step),
+      null,
+    );
+    assert.strictEqual(
+      Totp.verify(secret, code(secret, step + 1), step),
+      step + 1,
+    );
+  });
+
+  it('refuses malformed codes', () => {
+    const secret = Totp.generateSecret();
+
+    for (const value of [
+      '',
+      null,
+      '12345',
+      '1234567',
+      'abcdef',
+    ]) {
+      assert.strictEqual(Totp.verify(secret, value), null);
+    }
+  });
+});
@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+/**
+ * Steps before and after the current one that are
+ * still accepted, for clocks that drift.
+ */
+const WINDOW = 1;
+
+/**
+ * Time-based one-time passwords (RFC 6238) with the
+ * defaults of the authenticator apps: SHA-1, 6 digits
+ * and 30 second steps.
+ */
+export default class Totp {
+  /**
+   * Generates a random base32 secret.
+   */
+  static generateSecret() {
+    return this._base32Encode(crypto.randomBytes(20));
+  }
+
+  /**
+   * The otpauth:// URI the authenticator
+   * apps read from the QR code.
+   *
+   * @param {*} secret
+   * @param {*} account
+   * @param {*} issuer
+   */
+  static keyUri(secret, account, issuer) {
+    const label = encodeURIComponent(
+      `${issuer}:${account}`,
+    );
+
+    return `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(
+      issuer,
+    )}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+  }
+
+  /**
+   * Returns the step the code matches, or null. Codes of
+   * a step not after lastUsedStep are refused, so a code
+   * can't be used twice.
+   *
+   * @param {*} secret
+   * @param {*} code
+   * @param {*} [lastUsedStep]
+   */
+  static verify(secret, code, lastUsedStep?) {
+    const normalized = String(code || '').replace(
+      /\s/g,
+      '',
+    );
+
+    if (!new RegExp(`^\\d{${DIGITS}}$`).test(normalized)) {
+      return null;
+    }
+
+    const key = this._base32Decode(secret);
+    const current = Math.floor(
+      Date.now() / 1000 / STEP_SECONDS,
+    );
+
+    for (
+      let step = current - WINDOW;
+      step <= current + WINDOW;
+      step++
+    ) {
+      if (
+        lastUsedStep !== undefined &&
+        lastUsedStep !== null &&
+        step <= lastUsedStep
+      ) {
+        continue;
+      }
+
+      if (
+        crypto.timingSafeEqual(
+          Buffer.from(this._generate(key, step)),
+          Buffer.from(normalized),
+        )
+      ) {
+        return step;
+      }
+    }
+
+    return null;
+  }
+
+  static _generate(key: Buffer, step) {
+    const counter = Buffer.alloc(8);
+    counter.writeUInt32BE(
+      Math.floor(step / 0x100000000),
+      0,
+    );
+    counter.writeUInt32BE(step % 0x100000000, 4);
+
+    const hmac = crypto
+      .createHmac('sha1', key)
+      .update(counter)
+      .digest();
+
+    const offset = hmac[hmac.length - 1] & 0xf;
+    const binary =
+      ((hmac[offset] & 0x7f) << 24) |
+      (hmac[offset + 1] << 16) |
+      (hmac[offset + 2] << 8) |
+      hmac[offset + 3];
+
+    return String(binary % Math.pow(10, DIGITS)).padStart(
+      DIGITS,
+      '0',
+    );
+  }
+
+  static _base32Encode(buffer: Buffer) {
+    let bits = 0;
+    let value = 0;
+    let output = '';
+
+    for (const byte of buffer) {
+      value = (value << 8) | byte;
+      bits += 8;
+
+      while (bits >= 5) {
+        output +=
+          BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+        bits -= 5;
+      }
+    }
+
+    if (bits > 0) {
+      output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    }
+
+    return output;
+  }
+
+  static _base32Decode(text: string) {
+    const bytes: Array<number> = [];
+    let bits = 0;
+    let value = 0;
+
+    for (const char of text
+      .toUpperCase()
+      .replace(/=+$/, '')) {
+      const index = BASE32_ALPHABET.indexOf(char);
+
+      if (index === -1) {
+        continue;
+      }
+
+      value = (value << 5) | index;
+      bits += 5;
+
+      if (bits >= 8) {
+        bytes.push((value >>> (bits - 8)) & 255);
+        bits -= 8;
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+}
@@ -0,0 +1,129 @@
+import assert from 'assert';
+import jwt from 'jsonwebtoken';
+import { databaseInit } from '../../database/databaseConnection';
+import Totp from './totp';
+import TwoFactorService from './twoFactorService';
+
+describe('TwoFactorService sign-in challenges', () => {
+  let database;
+  let options;
+
+  const code = (secret, offset = 0) =>
+    Totp._generate(
+      Totp._base32Decode(secret),
+      Math.floor(Date.now() / 1000 / 30) + offset,
+    );
+
+  const createUser = () =>
+    database.user.create({
+      email: `user${Date.now()}${Math.random()}@example.com`,
+      emailVerified: true,
+    });
+
+  before(async () => {
+    process.env.AUTH_JWT_SECRET =
+      process.env.AUTH_JWT_SECRET || 'test';
+
+    database = await databaseInit();
+    await database.sequelize.sync({ force: true });
+
+    options = {
+      database,
+      language: 'en',
+    };
+  });
+
+  after(async () => {
+    await database.sequelize.close();
+  });
+
+  it('signs what the second step needs', async () => {
+    const service = new TwoFactorService(options);
+    const user = await createUser();
+
+    const challenge = service.verifyChallenge(
+      service.createChallenge(user, {
+        rememberMe: true,
+        tenantId: 'tenant',
+      }),
+    );
+
+    assert.strictEqual(challenge.id, user.id);
+    assert.strictEqual(challenge.rememberMe, true);
+    assert.strictEqual(challenge.invitationToken, null);
+    assert.strictEqual(challenge.tenantId, 'tenant');
+  });
+
+  it('refuses other tokens as challenges', async () => {
+    const service = new TwoFactorService(options);
+    const user = await createUser();
+
+    // An access token of the same secret
+    const token = jwt.sign(
+      { id: user.id },
+      process.env.AUTH_JWT_SECRET as string,
+    );
+
+    assert.throws(() => service.verifyChallenge(token));
+    assert.throws(() => service.verifyChallenge(null));
+  });
+
+  it('confirms the enrollment with the first code', async () => {
+    const service = new TwoFactorService(options);
+    const user = await createUser();
+
+    const { secret } = await service.startEnrollment(user);
+
+    // Out of the window of the current step
+    assert.strictEqual(
+      await service.verifySignin(user, code(secret, 5)),
+      null,
+    );
+
+    const result = await service.verifySignin(
+      user,
+      code(secret),
+    );
+
+    assert.strictEqual(result!.recoveryCodes!.length, 10);
+    assert.ok(await service.isEnabled(user.id));
+  });
+
+  it('refuses a code used already', async () => {
+    const service = new TwoFactorService(options);
+    const user = await createUser();
+
+    const { secret } = await service.startEnrollment(user);
+    await service.confirmEnrollment(user, code(secret));
+
+    assert.strictEqual(
+      await service.verifySignin(user, code(secret)),
+      null,
+    );
+    assert.deepStrictEqual(
+      await service.verifySignin(user, code(secret, 1)),
+      {},
+    );
+  });
+
+  it('accepts each recovery code once', async () => {
+    const service = new TwoFactorService(options);
+    const user = await createUser();
+
+    const { secret } = await service.startEnrollment(user);
+    const {
+      recoveryCodes,
+    } = await service.confirmEnrollment(user, code(secret));
+
+    const recoveryCode = recoveryCodes!.pop();
+
+    assert.deepStrictEqual(
+      await service.verifySignin(user, recoveryCode),
+      {},
+    );
+    assert.strictEqual(
+      await service.verifySignin(user, recoveryCode),
+      null,
+    );
+  });
+});
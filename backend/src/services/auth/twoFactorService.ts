@@ -0,0 +1,493 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import QRCode from 'qrcode';
+import Error400 from '../../errors/Error400';
+import Error403 from '../../errors/Error403';
+import { i18n } from '../../i18n';
+import { getConfig } from '../../config';
+import AuditTrailService from '../auditTrailService';
+import AuthSettingsService from '../authSettingsService';
+import Totp from './totp';
+import AuthSecretCipher from './authSecretCipher';
+import UserTwoFactorRepository from '../../database/repositories/userTwoFactorRepository';
+import AuthSessionRepository from '../../database/repositories/authSessionRepository';
+import UserRepository from '../../database/repositories/userRepository';
+
+/**
+ * Audience of the sign-in challenge tokens, so they can't
+ * be confused with the authentication tokens.
+ */
+const CHALLENGE_AUDIENCE = 'two-factor';
+const CHALLENGE_EXPIRES_IN = '5m';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Handles the TOTP second factor of the users.
+ *
+ * Users enroll by scanning a secret and confirming a first
+ * code, which gives them single-use recovery codes. Signing
+ * in with a second factor, or with a role the tenant requires
+ * one for, returns a short-lived challenge token instead of
+ * a session, to be completed with a code.
+ */
+export default class TwoFactorService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Whether the current user has a second factor
+   * and whether one of their tenants requires it.
+   */
+  async status() {
+    const currentUser = this._currentUser();
+
+    const record = await UserTwoFactorRepository.findByUser(
+      currentUser.id,
+      this.options,
+    );
+
+    const enabled = Boolean(record && record.enabledAt);
+
+    return {
+      enabled,
+      required: await this.isRequired(currentUser),
+      recoveryCodesLeft: enabled
+        ? record.recoveryCodeHashes.length
+        : 0,
+    };
+  }
+
+  async isEnabled(userId) {
+    const record = await UserTwoFactorRepository.findByUser(
+      userId,
+      this.options,
+    );
+
+    return Boolean(record && record.enabledAt);
+  }
+
+  /**
+   * Whether the user must pass a second factor to use a
+   * session: they have one, or a tenant requires one.
+   *
+   * @param {*} user With its tenants
+   */
+  async isNeeded(user) {
+    return (
+      (await this.isEnabled(user.id)) ||
+      (await this.isRequired(user))
+    );
+  }
+
+  /**
+   * Whether a tenant the user is active in
+   * requires a second factor for one of their roles.
+   *
+   * @param {*} user With its tenants
+   */
+  async isRequired(user) {
+    const authSettingsService = new AuthSettingsService(
+      this.options,
+    );
+
+    for (const tenantUser of user.tenants || []) {
+      if (tenantUser.status !== 'active') {
+        continue;
+      }
+
+      const requiredRoles = await authSettingsService.findTwoFactorRequiredRoles(
+        tenantUser.tenant
+          ? tenantUser.tenant.id
+          : tenantUser.tenantId,
+      );
+
+      if (
+        (tenantUser.roles || []).some((role) =>
+          requiredRoles.includes(role),
+        )
+      ) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Starts the enrollment of the current user, or of the
+   * user of the challenge token when a tenant requires
+   * them a second factor to sign in.
+   *
+   * @param {*} [twoFactorToken]
+   */
+  async enroll(twoFactorToken?) {
+    if (!twoFactorToken) {
+      return this.startEnrollment(this._currentUser());
+    }
+
+    const challenge = this.verifyChallenge(twoFactorToken);
+
+    const user = await UserRepository.findById(
+      challenge.id,
+      {
+        ...this.options,
+        bypassPermissionValidation: true,
+      },
+    );
+
+    return this.startEnrollment(user);
+  }
+
+  /**
+   * Generates a new secret for the user, pending until
+   * confirmed. Returns it with its QR code.
+   *
+   * @param {*} user
+   */
+  async startEnrollment(user) {
+    if (await this.isEnabled(user.id)) {
+      throw new Error400(
+        this.options.language,
+        'auth.twoFactor.alreadyEnabled',
+      );
+    }
+
+    const secret = Totp.generateSecret();
+
+    await UserTwoFactorRepository.save(
+      user.id,
+      {
+        secretEncrypted: AuthSecretCipher.encrypt(secret),
+        enabledAt: null,
+        recoveryCodeHashes: [],
+        lastUsedStep: null,
+      },
+      this.options,
+    );
+
+    const otpauthUrl = Totp.keyUri(
+      secret,
+      user.email,
+      i18n(this.options.language, 'app.title'),
+    );
+
+    return {
+      secret,
+      otpauthUrl,
+      qrCode: await QRCode.toDataURL(otpauthUrl),
+    };
+  }
+
+  /**
+   * Enables the pending second factor with a first code.
+   * Returns the recovery codes, shown only this once.
+   *
+   * @param {*} user
+   * @param {*} code
+   */
+  async confirmEnrollment(user, code) {
+    const result = await this._confirmEnrollment(
+      user,
+      code,
+    );
+
+    if (!result) {
+      throw this._invalidCode();
+    }
+
+    return result;
+  }
+
+  /**
+   * Confirms the enrollment of the current user.
+   *
+   * @param {*} code
+   */
+  async enable(code) {
+    const currentUser = this._currentUser();
+
+    const result = await this.confirmEnrollment(
+      currentUser,
+      code,
+    );
+
+    // The code just given verifies the current session
+    if (currentUser.currentSessionId) {
+      await AuthSessionRepository.markTwoFactorVerified(
+        currentUser.currentSessionId,
+        this.options,
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks the code of the second sign-in step. Users
+   * enrolling because a tenant requires it confirm their
+   * enrollment with it, and get their recovery codes.
+   * Returns null if the code is wrong.
+   *
+   * @param {*} user
+   * @param {*} code
+   */
+  async verifySignin(
+    user,
+    code,
+  ): Promise<{ recoveryCodes?: Array<string> } | null> {
+    if (await this.isEnabled(user.id)) {
+      return (await this.verify(user, code)) ? {} : null;
+    }
+
+    return this._confirmEnrollment(user, code);
+  }
+
+  /**
+   * Checks a code of the authenticator app, or a recovery
+   * code, which can't be used again.
+   *
+   * @param {*} user
+   * @param {*} code
+   */
+  async verify(user, code) {
+    const record = await UserTwoFactorRepository.findByUser(
+      user.id,
+      this.options,
+    );
+
+    if (!record || !record.enabledAt) {
+      return false;
+    }
+
+    const step = Totp.verify(
+      AuthSecretCipher.decrypt(record.secretEncrypted),
+      code,
+      record.lastUsedStep === null
+        ? null
+        : Number(record.lastUsedStep),
+    );
+
+    if (step !== null) {
+      await UserTwoFactorRepository.save(
+        user.id,
+        { lastUsedStep: step },
+        this.options,
+      );
+      return true;
+    }
+
+    const hash = this._hash(
+      this._normalizeRecoveryCode(code),
+    );
+
+    if (!record.recoveryCodeHashes.includes(hash)) {
+      return false;
+    }
+
+    await UserTwoFactorRepository.save(
+      user.id,
+      {
+        recoveryCodeHashes: record.recoveryCodeHashes.filter(
+          (recoveryCodeHash) => recoveryCodeHash !== hash,
+        ),
+      },
+      this.options,
+    );
+
+    return true;
+  }
+
+  /**
+   * Removes the second factor of the current user,
+   * unless one of their tenants requires it.
+   *
+   * @param {*} code
+   */
+  async disable(code) {
+    const currentUser = this._currentUser();
+
+    if (await this.isRequired(currentUser)) {
+      throw new Error400(
+        this.options.language,
+        'auth.twoFactor.required',
+      );
+    }
+
+    if (!(await this.verify(currentUser, code))) {
+      throw this._invalidCode();
+    }
+
+    await UserTwoFactorRepository.destroy(
+      currentUser.id,
+      this.options,
+    );
+
+    await new AuditTrailService(
+      this.options,
+    ).logAuth('twoFactorDisable', { user: currentUser });
+  }
+
+  /**
+   * Replaces the recovery codes of the current user.
+   *
+   * @param {*} code
+   */
+  async regenerateRecoveryCodes(code) {
+    const currentUser = this._currentUser();
+
+    if (!(await this.verify(currentUser, code))) {
+      throw this._invalidCode();
+    }
+
+    const recoveryCodes = this._generateRecoveryCodes();
+
+    await UserTwoFactorRepository.save(
+      currentUser.id,
+      {
+        recoveryCodeHashes: recoveryCodes.map(
+          (recoveryCode) => this._hash(recoveryCode),
+        ),
+      },
+      this.options,
+    );
+
+    return { recoveryCodes };
+  }
+
+  /**
+   * Signs what the second sign-in step needs
+   * to finish the sign-in.
+   *
+   * @param {*} user
+   * @param {*} data rememberMe, invitationToken and tenantId
+   */
+  createChallenge(user, data) {
+    return jwt.sign(
+      {
+        id: user.id,
+        rememberMe: Boolean(data.rememberMe),
+        invitationToken: data.invitationToken || null,
+        tenantId: data.tenantId || null,
+      },
+      getConfig().AUTH_JWT_SECRET,
+      {
+        audience: CHALLENGE_AUDIENCE,
+        expiresIn: CHALLENGE_EXPIRES_IN,
+      },
+    );
+  }
+
+  /**
+   * Returns the content of the challenge token.
+   * Throws if it is invalid or expired.
+   *
+   * @param {*} token
+   */
+  verifyChallenge(token): any {
+    try {
+      return jwt.verify(
+        String(token || ''),
+        getConfig().AUTH_JWT_SECRET,
+        { audience: CHALLENGE_AUDIENCE },
+      );
+    } catch (error) {
+      throw new Error400(
+        this.options.language,
+        'auth.twoFactor.challengeExpired',
+      );
+    }
+  }
+
+  async _confirmEnrollment(user, code) {
+    const record = await UserTwoFactorRepository.findByUser(
+      user.id,
+      this.options,
+    );
+
+    if (!record || record.enabledAt) {
+      throw new Error400(
+        this.options.language,
+        'auth.twoFactor.notEnrolling',
+      );
+    }
+
+    const step = Totp.verify(
+      AuthSecretCipher.decrypt(record.secretEncrypted),
+      code,
+    );
+
+    if (step === null) {
+      return null;
+    }
+
+    const recoveryCodes = this._generateRecoveryCodes();
+
+    await UserTwoFactorRepository.save(
+      user.id,
+      {
+        enabledAt: new Date(),
+        lastUsedStep: step,
+        recoveryCodeHashes: recoveryCodes.map(
+          (recoveryCode) => this._hash(recoveryCode),
+        ),
+      },
+      this.options,
+    );
+
+    await new AuditTrailService(
+      this.options,
+    ).logAuth('twoFactorEnable', { user });
+
+    return { recoveryCodes };
+  }
+
+  _currentUser() {
+    const currentUser = this.options.currentUser;
+
+    if (!currentUser || !currentUser.id) {
+      throw new Error403(this.options.language);
+    }
+
+    return currentUser;
+  }
+
+  _invalidCode() {
+    return new Error400(
+      this.options.language,
+      'auth.twoFactor.invalidCode',
+    );
+  }
+
+  /**
+   * Codes like 4f9a1-c03b7.
+   */
+  _generateRecoveryCodes() {
+    const codes: Array<string> = [];
+
+    for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+      const hex = crypto.randomBytes(5).toString('hex');
+      codes.push(`${hex.slice(0, 5)}-${hex.slice(5)}`);
+    }
+
+    return codes;
+  }
+
+  _normalizeRecoveryCode(code) {
+    const hex = String(code || '')
+      .toLowerCase()
+      .replace(/[^0-9a-f]/g, '');
+
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  }
+
+  _hash(code) {
+    return crypto
+      .createHash('sha256')
+      .update(code)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,401 @@
+import Error400 from '../errors/Error400';
+import Roles from '../security/roles';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import AuthSettingsRepository from '../database/repositories/authSettingsRepository';
+import AuthSecretCipher from './auth/authSecretCipher';
+import OidcClient from './auth/oidcClient';
+import { getConfig } from '../config';
+import lodash from 'lodash';
+
+/**
+ * Roles that can never be required a second factor.
+ */
+const TWO_FACTOR_EXEMPT_ROLES = ['visitor'];
+
+const DEFAULT_OIDC_ROLES_CLAIM = 'roles';
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+const DEFAULT_SELF_REGISTRATION_ROLES = ['visitor'];
+
+/**
+ * Roles only an admin can give, never
+ * granted by self-registration.
+ */
+const SELF_REGISTRATION_FORBIDDEN_ROLES = ['admin'];
+
+/**
+ * Handles the authentication policy of the tenant:
+ * second factor requirement, single sign-on and
+ * self-registration.
+ */
+export default class AuthSettingsService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  async find() {
+    const record = await AuthSettingsRepository.find(
+      this.options,
+    );
+
+    return this._toPublic(record);
+  }
+
+  /**
+   * Saves the policy of the tenant. An empty
+   * OIDC client secret keeps the current one.
+   *
+   * @param {*} data
+   */
+  async save(data) {
+    const roles = data.twoFactorRequiredRoles || [];
+    const roleMapping = data.oidcRoleMapping || {};
+    const selfRegistrationRoles =
+      data.selfRegistrationRoles || [];
+    const selfRegistrationDomains = (
+      data.selfRegistrationDomains || []
+    ).map((rule) => ({
+      domain: String(rule.domain || '')
+        .trim()
+        .toLowerCase(),
+      roles: rule.roles || [],
+    }));
+
+    if (
+      !Array.isArray(roles) ||
+      roles.some(
+        (role) =>
+          !Object.keys(Roles.values).includes(role) ||
+          TWO_FACTOR_EXEMPT_ROLES.includes(role),
+      )
+    ) {
+      throw new Error400(
+        this.options.language,
+        'authSettings.errors.invalidTwoFactorRoles',
+      );
+    }
+
+    if (
+      data.oidcIssuer &&
+      getConfig().AUTH_OIDC_ALLOW_INSECURE !== 'true' &&
+      !OidcClient.isAllowedUrl(data.oidcIssuer)
+    ) {
+      throw new Error400(
+        this.options.language,
+        'authSettings.errors.invalidOidcIssuer',
+      );
+    }
+
+    if (
+      data.oidcEnabled &&
+      (!data.oidcIssuer || !data.oidcClientId)
+    ) {
+      throw new Error400(
+        this.options.language,
+        'authSettings.errors.oidcIssuerRequired',
+      );
+    }
+
+    if (
+      typeof roleMapping !== 'object' ||
+      Array.isArray(roleMapping) ||
+      Object.values(roleMapping).some(
+        (role: any) =>
+          !Object.keys(Roles.values).includes(role),
+      )
+    ) {
+      throw new Error400(
+        this.options.language,
+        'authSettings.errors.invalidOidcRoleMapping',
+      );
+    }
+
+    if (
+      !this._isSelfRegistrationRoleList(
+        selfRegistrationRoles,
+      ) ||
+      selfRegistrationDomains.some(
+        (rule) =>
+          !this._isSelfRegistrationRoleList(rule.roles),
+      )
+    ) {
+      throw new Error400(
+        this.options.language,
+        'authSettings.errors.invalidSelfRegistrationRoles',
+      );
+    }
+
+    if (
+      selfRegistrationDomains.some(
+        (rule) => !DOMAIN_PATTERN.test(rule.domain),
+      )
+    ) {
+      throw new Error400(
+        this.options.language,
+        'authSettings.errors.invalidSelfRegistrationDomain',
+      );
+    }
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const values: any = {
+        ...lodash.pick(data, [
+          'oidcIssuer',
+          'oidcClientId',
+          'oidcLabel',
+          'oidcRolesClaim',
+        ]),
+        oidcEnabled: Boolean(data.oidcEnabled),
+        oidcRoleMapping: roleMapping,
+        twoFactorRequiredRoles: Array.from(new Set(roles)),
+        selfRegistrationEnabled: Boolean(
+          data.selfRegistrationEnabled,
+        ),
+        selfRegistrationRoles: Array.from(
+          new Set(selfRegistrationRoles),
+        ),
+        selfRegistrationDomains,
+        selfRegistrationAllowedDomainsOnly: Boolean(
+          data.selfRegistrationAllowedDomainsOnly,
+        ),
+        selfRegistrationApprovalRequired: Boolean(
+          data.selfRegistrationApprovalRequired,
+        ),
+      };
+
+      if (data.oidcClientSecret) {
+        values.oidcClientSecretEncrypted = AuthSecretCipher.encrypt(
+          data.oidcClientSecret,
+        );
+      }
+
+      const record = await AuthSettingsRepository.save(
+        values,
+        {
+          ...this.options,
+          transaction,
+        },
+      );
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return this._toPublic(record);
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Roles the tenant requires a second factor for.
+   *
+   * @param {*} tenantId
+   */
+  async findTwoFactorRequiredRoles(tenantId) {
+    const record = await AuthSettingsRepository.findByTenant(
+      tenantId,
+      this.options,
+    );
+
+    return this._toPublic(record).twoFactorRequiredRoles;
+  }
+
+  /**
+   * Returns the OIDC provider of the tenant with its
+   * client secret, or null when single sign-on is off.
+   *
+   * @param {*} tenantId
+   */
+  async findOidcConnection(tenantId) {
+    const record = await AuthSettingsRepository.findByTenant(
+      tenantId,
+      this.options,
+    );
+
+    if (
+      !record ||
+      !record.oidcEnabled ||
+      !record.oidcIssuer ||
+      !record.oidcClientId
+    ) {
+      return null;
+    }
+
+    return {
+      issuer: record.oidcIssuer.replace(/\/+$/, ''),
+      clientId: record.oidcClientId,
+      clientSecret: record.oidcClientSecretEncrypted
+        ? AuthSecretCipher.decrypt(
+            record.oidcClientSecretEncrypted,
+          )
+        : null,
+      label: record.oidcLabel || record.oidcIssuer,
+      rolesClaim:
+        record.oidcRolesClaim || DEFAULT_OIDC_ROLES_CLAIM,
+      roleMapping: record.oidcRoleMapping || {},
+    };
+  }
+
+  /**
+   * Returns the roles an user with this email gets when
+   * joining the tenant without an invitation. Empty roles
+   * leave the user waiting for the approval of an admin,
+   * or, for the roles of a domain rule, for the email to be
+   * verified. Throws if the tenant doesn't let the user join.
+   *
+   * @param {*} tenantId
+   * @param {*} email
+   * @param {*} emailVerified
+   */
+  async findSelfRegistrationRoles(
+    tenantId,
+    email,
+    emailVerified,
+  ) {
+    const settings = await this._findSelfRegistration(
+      tenantId,
+    );
+
+    if (!settings.selfRegistrationEnabled) {
+      throw new Error400(
+        this.options.language,
+        'auth.selfRegistration.disabled',
+      );
+    }
+
+    const rule = this._findDomainRule(settings, email);
+
+    if (
+      !rule &&
+      settings.selfRegistrationAllowedDomainsOnly
+    ) {
+      throw new Error400(
+        this.options.language,
+        'auth.selfRegistration.domainNotAllowed',
+      );
+    }
+
+    if (settings.selfRegistrationApprovalRequired) {
+      return [];
+    }
+
+    // Anyone can type an email of the domain
+    if (rule && !emailVerified) {
+      return [];
+    }
+
+    return rule
+      ? rule.roles
+      : settings.selfRegistrationRoles;
+  }
+
+  /**
+   * Returns the roles the domain rule of the tenant gives
+   * to this email once verified, empty if none applies.
+   *
+   * @param {*} tenantId
+   * @param {*} email
+   */
+  async findVerifiedDomainRoles(tenantId, email) {
+    const settings = await this._findSelfRegistration(
+      tenantId,
+    );
+
+    if (
+      !settings.selfRegistrationEnabled ||
+      settings.selfRegistrationApprovalRequired
+    ) {
+      return [];
+    }
+
+    const rule = this._findDomainRule(settings, email);
+
+    return rule ? rule.roles : [];
+  }
+
+  async _findSelfRegistration(tenantId) {
+    return this._toPublic(
+      await AuthSettingsRepository.findByTenant(
+        tenantId,
+        this.options,
+      ),
+    );
+  }
+
+  _findDomainRule(settings, email) {
+    const domain = String(email || '')
+      .split('@')
+      .pop()
+      .toLowerCase();
+
+    return settings.selfRegistrationDomains.find(
+      (item) => item.domain === domain,
+    );
+  }
+
+  _isSelfRegistrationRoleList(roles) {
+    return (
+      Array.isArray(roles) &&
+      roles.every(
+        (role) =>
+          Object.keys(Roles.values).includes(role) &&
+          !SELF_REGISTRATION_FORBIDDEN_ROLES.includes(role),
+      )
+    );
+  }
+
+  _toPublic(record) {
+    if (!record) {
+      return {
+        twoFactorRequiredRoles: [],
+        oidcEnabled: false,
+        oidcIssuer: null,
+        oidcClientId: null,
+        oidcLabel: null,
+        oidcRolesClaim: null,
+        oidcRoleMapping: {},
+        hasOidcClientSecret: false,
+        selfRegistrationEnabled: true,
+        selfRegistrationRoles: DEFAULT_SELF_REGISTRATION_ROLES,
+        selfRegistrationDomains: [],
+        selfRegistrationAllowedDomainsOnly: false,
+        selfRegistrationApprovalRequired: false,
+      };
+    }
+
+    return {
+      twoFactorRequiredRoles:
+        record.twoFactorRequiredRoles || [],
+      oidcEnabled: record.oidcEnabled,
+      oidcIssuer: record.oidcIssuer,
+      oidcClientId: record.oidcClientId,
+      oidcLabel: record.oidcLabel,
+      oidcRolesClaim: record.oidcRolesClaim,
+      oidcRoleMapping: record.oidcRoleMapping || {},
+      hasOidcClientSecret: Boolean(
+        record.oidcClientSecretEncrypted,
+      ),
+      selfRegistrationEnabled:
+        record.selfRegistrationEnabled,
+      selfRegistrationRoles:
+        record.selfRegistrationRoles || [],
+      selfRegistrationDomains:
+        record.selfRegistrationDomains || [],
+      selfRegistrationAllowedDomainsOnly:
+        record.selfRegistrationAllowedDomainsOnly,
+      selfRegistrationApprovalRequired:
+        record.selfRegistrationApprovalRequired,
+    };
+  }
+}
@@ -0,0 +1,34 @@
+import { URL } from 'url';
+import { getConfig } from '../config';
+
+/**
+ * Serves the configuration the frontend loads at startup,
+ * so the same build can be deployed on every site.
+ * Only public values belong here.
+ */
+export default class FrontendConfigService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  find() {
+    return {
+      frontendUrl: this._frontendUrl(),
+      tenantMode: getConfig().TENANT_MODE,
+      isPlanEnabled: getConfig().PLAN_ENABLED === 'true',
+      stripePublishableKey:
+        getConfig().PLAN_STRIPE_PUBLISHABLE_KEY || '',
+    };
+  }
+
+  _frontendUrl() {
+    const url = new URL(getConfig().FRONTEND_URL);
+
+    return {
+      host: url.host,
+      protocol: url.protocol.replace(':', ''),
+    };
+  }
+}
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import Error400 from '../errors/Error400';
+import Error403 from '../errors/Error403';
+import KioskDeviceRepository from '../database/repositories/kioskDeviceRepository';
+
+/**
+ * Handles the kiosk devices of the tenant and their
+ * sign-in. A device token is shown once, when the device
+ * is created, and is valid until the device is revoked.
+ */
+export default class KioskDeviceService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  async findAll() {
+    const records = await KioskDeviceRepository.findAll(
+      this.options,
+    );
+
+    return records.map((record) => this._toPublic(record));
+  }
+
+  /**
+   * Creates a device and returns it with its token.
+   *
+   * @param {*} data
+   */
+  async create(data) {
+    if (!data.name || !String(data.name).trim()) {
+      throw new Error400(
+        this.options.language,
+        'kioskDevice.errors.nameRequired',
+      );
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+
+    const record = await KioskDeviceRepository.create(
+      {
+        name: String(data.name).trim(),
+        siteRules: data.siteRules,
+        tokenHash: this._hash(token),
+      },
+      this.options,
+    );
+
+    return { ...this._toPublic(record), token };
+  }
+
+  async revoke(id) {
+    await KioskDeviceRepository.revoke(id, this.options);
+  }
+
+  /**
+   * Returns the options the device acts with: its tenant,
+   * without an user. Throws if the token is unknown
+   * or its device revoked.
+   *
+   * @param {*} token
+   */
+  async authenticate(token) {
+    const record = token
+      ? await KioskDeviceRepository.findActiveByTokenHash(
+          this._hash(String(token)),
+          this.options,
+        )
+      : null;
+
+    if (!record) {
+      throw new Error403(this.options.language);
+    }
+
+    await KioskDeviceRepository.touch(record, this.options);
+
+    return {
+      ...this.options,
+      currentUser: null,
+      currentTenant: record.tenant,
+      currentKioskDevice: record,
+      bypassPermissionValidation: true,
+    };
+  }
+
+  _hash(token) {
+    return crypto
+      .createHash('sha256')
+      .update(token)
+      .digest('hex');
+  }
+
+  _toPublic(record) {
+    return {
+      id: record.id,
+      name: record.name,
+      siteRules: record.siteRules,
+      lastSeenAt: record.lastSeenAt,
+      revokedAt: record.revokedAt,
+      createdAt: record.createdAt,
+    };
+  }
+}
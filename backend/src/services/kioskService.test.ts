@@ -0,0 +1,168 @@
+import assert from 'assert';
+import moment from 'moment';
+import { databaseInit } from '../database/databaseConnection';
+import VisitorStatusRepository from '../database/repositories/visitorStatusRepository';
+import KioskService from './kioskService';
+import VisitorBadgeService from './visitorBadgeService';
+import VisitorService from './visitorService  - Copy';
+
+describe('KioskService proof of the visit', () => {
+  let database;
+  let options;
+  let kioskOptions;
+
+  const createVisitor = () =>
+    new VisitorService(options).create({
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      idType: 'passport',
+      idNumber: `X${Date.now()}${Math.random()}`.slice(
+        0,
+        20,
+      ),
+      startTime: moment().subtract(1, 'hour').toDate(),
+      endTime: moment().add(4, 'hours').toDate(),
+    });
+
+  const invite = (record, token) =>
+    database.visitorInvitation.create({
+      email: record.email,
+      startTime: record.startTime,
+      endTime: record.endTime,
+      token,
+      tokenExpiresAt: record.endTime,
+      registeredAt: new Date(),
+      visitorId: record.id,
+      hostId: options.currentUser.id,
+      tenantId: options.currentTenant.id,
+    });
+
+  const status = async (record) =>
+    (
+      await VisitorStatusRepository.findByVisitor(
+        record.id,
+        options,
+      )
+    ).status;
+
+  before(async () => {
+    process.env.AUTH_JWT_SECRET =
+      process.env.AUTH_JWT_SECRET || 'test';
+
+    database = await databaseInit();
+    await database.sequelize.sync({ force: true });
+
+    const tenant = await database.tenant.create({
+      name: 'Test',
+      url: 'test',
+    });
+
+    const user = await database.user.create({
+      email: 'host@example.com',
+      emailVerified: true,
+    });
+
+    options = {
+      database,
+      currentTenant: tenant,
+      currentUser: user,
+      language: 'en',
+    };
+
+    kioskOptions = {
+      ...options,
+      currentUser: null,
+      currentKioskDevice: {
+        id: 'kiosk',
+        name: 'Lobby',
+        siteRules: null,
+      },
+      bypassPermissionValidation: true,
+    };
+  });
+
+  after(async () => {
+    await database.sequelize.close();
+  });
+
+  it('refuses to check in without a proof', async () => {
+    const record = await createVisitor();
+
+    await assert.rejects(
+      new KioskService(kioskOptions).checkIn(
+        record.id,
+        {},
+        false,
+      ),
+    );
+
+    assert.strictEqual(await status(record), 'expected');
+  });
+
+  it('refuses the code of another invitation', async () => {
+    const record = await createVisitor();
+    const other = await createVisitor();
+
+    await invite(record, `own${record.id}`);
+    await invite(other, `other${other.id}`);
+
+    await assert.rejects(
+      new KioskService(kioskOptions).checkIn(
+        record.id,
+        { invitationCode: `other${other.id}` },
+        false,
+      ),
+    );
+
+    assert.strictEqual(await status(record), 'expected');
+  });
+
+  it('refuses the badge of another Visitor', async () => {
+    const record = await createVisitor();
+    const other = await createVisitor();
+
+    await assert.rejects(
+      new KioskService(kioskOptions).checkIn(
+        record.id,
+        {
+          badgeToken: new VisitorBadgeService(
+            options,
+          ).createToken(other),
+        },
+        false,
+      ),
+    );
+
+    assert.strictEqual(await status(record), 'expected');
+  });
+
+  it('checks in with the invitation code', async () => {
+    const record = await createVisitor();
+
+    await invite(record, `own${record.id}`);
+
+    await new KioskService(kioskOptions).checkIn(
+      record.id,
+      { invitationCode: ` own${record.id} ` },
+      false,
+    );
+
+    assert.strictEqual(await status(record), 'checkedIn');
+  });
+
+  it('checks in with the badge', async () => {
+    const record = await createVisitor();
+
+    await new KioskService(kioskOptions).checkIn(
+      record.id,
+      {
+        badgeToken: new VisitorBadgeService(
+          options,
+        ).createToken(record),
+      },
+      false,
+    );
+
+    assert.strictEqual(await status(record), 'checkedIn');
+  });
+});
@@ -0,0 +1,278 @@
+import moment from 'moment';
+import Error400 from '../errors/Error400';
+import ErrorReporter from '../errors/ErrorReporter';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import VisitorInvitationRepository from '../database/repositories/visitorInvitationRepository';
+import VisitorRepository from '../database/repositories/visitorRepository';
+import VisitorStatusRepository from '../database/repositories/visitorStatusRepository';
+import VisitorBadgeService from './visitorBadgeService';
+import VisitorLifecycleService from './visitorLifecycleService';
+import VisitorService from './visitorService';
+
+/**
+ * Handles the self-service check in of the Visitors at a
+ * kiosk, in the options of the kiosk device. Visitors
+ * find their visit by email or by scanning their badge,
+ * and can only act on visits expected today. As anyone
+ * can type an email, acting on the visit needs the proof
+ * it is theirs: the badge, or the code of the invitation.
+ */
+export default class KioskService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * What the kiosk shows before a visit is found.
+   */
+  find() {
+    const device = this.options.currentKioskDevice;
+    const tenant = SequelizeRepository.getCurrentTenant(
+      this.options,
+    );
+
+    return {
+      name: device.name,
+      tenantName: tenant.name,
+      siteRules: device.siteRules,
+    };
+  }
+
+  /**
+   * Finds the visits expected today for the email.
+   *
+   * @param {*} email
+   */
+  async lookup(email) {
+    const normalizedEmail = String(email || '')
+      .trim()
+      .toLowerCase();
+
+    if (!normalizedEmail) {
+      throw new Error400(
+        this.options.language,
+        'kiosk.errors.emailRequired',
+      );
+    }
+
+    const {
+      rows,
+    } = await VisitorRepository.findAndCountAll(
+      {
+        filter: {
+          email: normalizedEmail,
+          startTimeRange: [
+            null,
+            moment().endOf('day').toDate(),
+          ],
+          endTimeRange: [new Date(), null],
+        },
+      },
+      this.options,
+    );
+
+    // The filter matches parts of the email
+    const records = rows.filter(
+      (record) =>
+        String(record.email || '').toLowerCase() ===
+        normalizedEmail,
+    );
+
+    const statuses = await VisitorStatusRepository.findByVisitors(
+      records.map((record) => record.id),
+      this.options,
+    );
+
+    return records
+      .filter(
+        (record) =>
+          statuses[record.id].status === 'expected',
+      )
+      .map((record) => this._toVisit(record));
+  }
+
+  /**
+   * Finds the visit of the scanned badge.
+   *
+   * @param {*} token
+   */
+  async scan(token) {
+    const result = await new VisitorBadgeService(
+      this.options,
+    ).verify(token);
+
+    if (!result.valid) {
+      throw new Error400(
+        this.options.language,
+        `kiosk.errors.badge.${result.reason}`,
+      );
+    }
+
+    return this._toVisit(
+      await this._findExpectedToday(result.visitor.id),
+    );
+  }
+
+  /**
+   * Saves the photo taken at the kiosk.
+   *
+   * @param {*} id
+   * @param {*} proof badgeToken or invitationCode
+   * @param {*} photo Data URL
+   */
+  async savePhoto(id, proof, photo) {
+    await this._findExpectedToday(id);
+    await this._validateProof(id, proof);
+
+    await new VisitorService(this.options).savePhoto(
+      id,
+      photo,
+    );
+  }
+
+  /**
+   * Checks in the Visitor, which grants the access on the
+   * controller, and lets the host know. The site rules of
+   * the kiosk, if any, must be accepted.
+   *
+   * @param {*} id
+   * @param {*} proof badgeToken or invitationCode
+   * @param {*} siteRulesAccepted
+   */
+  async checkIn(id, proof, siteRulesAccepted) {
+    const device = this.options.currentKioskDevice;
+
+    if (device.siteRules && !siteRulesAccepted) {
+      throw new Error400(
+        this.options.language,
+        'kiosk.errors.siteRulesNotAccepted',
+      );
+    }
+
+    await this._findExpectedToday(id);
+    await this._validateProof(id, proof);
+
+    const lifecycleService = new VisitorLifecycleService(
+      this.options,
+    );
+
+    const record = await lifecycleService.checkIn(
+      id,
+      device.siteRules
+        ? { siteRulesAcceptedAt: new Date() }
+        : {},
+    );
+
+    // The Visitor is checked in even if the email fails
+    try {
+      await lifecycleService.notifyHostOfArrival(record);
+    } catch (error) {
+      ErrorReporter.report(error, 'KioskService', {
+        visitorId: record.id,
+        kioskDeviceId: device.id,
+      });
+    }
+
+    return this._toVisit(record);
+  }
+
+  /**
+   * Throws unless the proof is the badge of the Visitor,
+   * or the code of the invitation they registered with.
+   *
+   * @param {*} id
+   * @param {*} proof
+   */
+  async _validateProof(id, proof) {
+    const { badgeToken, invitationCode } = proof || {};
+
+    if (badgeToken) {
+      const result = await new VisitorBadgeService(
+        this.options,
+      ).verify(badgeToken);
+
+      if (!result.valid) {
+        throw new Error400(
+          this.options.language,
+          `kiosk.errors.badge.${result.reason}`,
+        );
+      }
+
+      if (result.visitor.id !== id) {
+        throw new Error400(
+          this.options.language,
+          'kiosk.errors.badge.invalid',
+        );
+      }
+
+      return;
+    }
+
+    if (!invitationCode) {
+      throw new Error400(
+        this.options.language,
+        'kiosk.errors.proofRequired',
+      );
+    }
+
+    const invitation = await VisitorInvitationRepository.findByVisitorAndToken(
+      id,
+      String(invitationCode).trim(),
+      this.options,
+    );
+
+    if (!invitation) {
+      throw new Error400(
+        this.options.language,
+        'kiosk.errors.invalidInvitationCode',
+      );
+    }
+  }
+
+  async _findExpectedToday(id) {
+    const record = await VisitorRepository.findById(
+      id,
+      this.options,
+    );
+
+    const visitStatus = await VisitorStatusRepository.findByVisitor(
+      record.id,
+      this.options,
+    );
+
+    if (
+      visitStatus.status !== 'expected' ||
+      moment(record.endTime).isBefore(moment()) ||
+      moment(record.startTime).isAfter(
+        moment().endOf('day'),
+      )
+    ) {
+      throw new Error400(
+        this.options.language,
+        'kiosk.errors.noVisitToday',
+      );
+    }
+
+    return record;
+  }
+
+  /**
+   * Only what the Visitor needs to recognize the visit,
+   * as anyone can use the kiosk.
+   *
+   * @param {*} record
+   */
+  _toVisit(record) {
+    return {
+      id: record.id,
+      name: record.name,
+      hostName: record.host
+        ? record.host.fullName || record.host.email
+        : null,
+      startTime: record.startTime,
+      endTime: record.endTime,
+    };
+  }
+}
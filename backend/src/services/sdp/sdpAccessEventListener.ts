@@ -0,0 +1,147 @@
+import SdpClient from './sdpClient';
+import SdpAccessEventMapper from './sdpAccessEventMapper';
+import SdpService from '../sdpService';
+import VisitorLifecycleService from '../visitorLifecycleService';
+import VisitorRepository from '../../database/repositories/visitorRepository';
+import VisitorAccessEventRepository from '../../database/repositories/visitorAccessEventRepository';
+import ErrorReporter from '../../errors/ErrorReporter';
+
+const REFRESH_INTERVAL = 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Keeps the controller of every enabled tenant connected
+ * and stores the door passes it pushes as Visitor
+ * access events, matching the Visitor by orId.
+ * The first pass in marks a checked in Visitor on site.
+ */
+export default class SdpAccessEventListener {
+  database;
+  timer: NodeJS.Timeout | null = null;
+  subscriptions = new Map<string, SdpClient>();
+
+  constructor(database) {
+    this.database = database;
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    const refresh = () => {
+      this.refresh().catch((error) =>
+        ErrorReporter.report(
+          error,
+          'SdpAccessEventListener',
+        ),
+      );
+    };
+
+    refresh();
+
+    // Picks up tenants enabled later and
+    // connections replaced by settings changes
+    this.timer = setInterval(refresh, REFRESH_INTERVAL);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async refresh() {
+    const tenants = await this.database.tenant.findAll();
+
+    for (const tenant of tenants) {
+      const options = this._options(tenant);
+      const sdpService = new SdpService(options);
+      const connection = await sdpService.getConnection();
+
+      if (!connection.enabled) {
+        continue;
+      }
+
+      const client = await sdpService.getClient(connection);
+
+      if (this.subscriptions.get(tenant.id) !== client) {
+        client.on('message', (message) => {
+          this.handleMessage(
+            tenant,
+            message,
+          ).catch((error) =>
+            ErrorReporter.report(
+              error,
+              'SdpAccessEventListener',
+              { tenantId: tenant.id },
+            ),
+          );
+        });
+        this.subscriptions.set(tenant.id, client);
+      }
+
+      client.connect().catch((error) =>
+        ErrorReporter.report(
+          error,
+          'SdpAccessEventListener',
+          {
+            tenantId: tenant.id,
+          },
+        ),
+      );
+    }
+  }
+
+  /**
+   * Stores the door passes of the message that
+   * belong to Visitors of the tenant.
+   *
+   * @param {*} tenant
+   * @param {*} message
+   */
+  async handleMessage(tenant, message) {
+    const options = this._options(tenant);
+
+    for (const event of SdpAccessEventMapper.fromSdp(
+      message,
+    )) {
+      if (!UUID_PATTERN.test(event.visitorId)) {
+        continue;
+      }
+
+      const count = await VisitorRepository.count(
+        { id: event.visitorId },
+        options,
+      );
+
+      if (!count) {
+        continue;
+      }
+
+      await VisitorAccessEventRepository.create(
+        event,
+        options,
+      );
+
+      if (
+        event.result === 'granted' &&
+        event.direction !== 'out'
+      ) {
+        await new VisitorLifecycleService(
+          options,
+        ).markOnSite(event.visitorId);
+      }
+    }
+  }
+
+  _options(tenant) {
+    return {
+      database: this.database,
+      currentTenant: tenant,
+      bypassPermissionValidation: true,
+    };
+  }
+}
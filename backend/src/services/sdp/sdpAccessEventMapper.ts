@@ -0,0 +1,64 @@
+import moment from 'moment';
+
+/**
+ * Command of the door pass events
+ * the controller pushes on its own.
+ */
+const ACCESS_EVENT_CMD = 'passRecord';
+
+const SDP_DATE_FORMAT = 'YYYY-MM-DD HH:mm:ss';
+
+/**
+ * Controller codes of the pass directions.
+ */
+const DIRECTIONS = {
+  1: 'in',
+  2: 'out',
+};
+
+/**
+ * Maps the door pass events of the SDP
+ * access controller to Visitor access events.
+ */
+export default class SdpAccessEventMapper {
+  /**
+   * Returns the access events of the message,
+   * or none if it isn't a door pass event.
+   *
+   * @param {*} message
+   */
+  static fromSdp(message) {
+    if (!message || message.cmd !== ACCESS_EVENT_CMD) {
+      return [];
+    }
+
+    const items = Array.isArray(message.data)
+      ? message.data
+      : [message.data];
+
+    return items
+      .filter((item) => item && item.orId)
+      .map((item) => {
+        const occurredAt = moment(
+          item.passTime,
+          SDP_DATE_FORMAT,
+        );
+
+        return {
+          visitorId: String(item.orId),
+          occurredAt: occurredAt.isValid()
+            ? occurredAt.toDate()
+            : new Date(),
+          doorCode: item.doorCode,
+          doorName: item.doorName,
+          areaCode: item.areaCode,
+          direction: DIRECTIONS[item.inOut] || 'unknown',
+          result:
+            Number(item.result) === 0
+              ? 'granted'
+              : 'denied',
+          raw: item,
+        };
+      });
+  }
+}
@@ -0,0 +1,163 @@
+import assert from 'assert';
+import SdpClient from './sdpClient';
+import SdpError from './sdpError';
+import SdpSimulator from './sdpSimulator';
+
+const visitor = (orId) => ({
+  orId,
+  userName: 'Jane Doe',
+  paperNo: 'X1234567',
+  paperType: '2',
+  startTime: '2030-01-01 09:00:00',
+  endTime: '2030-01-01 17:00:00',
+  areaCode: 'QY001',
+});
+
+describe('SdpClient', () => {
+  const simulator = new SdpSimulator();
+  let url;
+  let client: SdpClient;
+
+  before(async () => {
+    url = await simulator.start();
+  });
+
+  after(async () => {
+    await simulator.stop();
+  });
+
+  beforeEach(() => {
+    simulator.reset();
+
+    client = new SdpClient({
+      url,
+      username: 'admin',
+      password: 'admin',
+      requestTimeout: 200,
+      reconnectMinDelay: 10,
+      reconnectMaxDelay: 20,
+    });
+  });
+
+  afterEach(() => {
+    client.close();
+  });
+
+  it('logs in before the first command', async () => {
+    await client.addVisitors([visitor('1')]);
+
+    assert.deepStrictEqual(
+      simulator.commands.map((command) => command.cmd),
+      ['login', 'addVistors'],
+    );
+  });
+
+  it('adds, lists and deletes visitors', async () => {
+    await client.addVisitors([visitor('1'), visitor('2')]);
+    await client.deleteVisitors(['1']);
+
+    const visitors = await client.listVisitors();
+
+    assert.deepStrictEqual(
+      visitors.map((item) => item.orId),
+      ['2'],
+    );
+  });
+
+  it('rejects with the reply the controller refused', async () => {
+    await assert.rejects(
+      client.deleteVisitors(['unknown']),
+      (error: SdpError) =>
+        error instanceof SdpError &&
+        SdpClient.isNotFound(error.reply),
+    );
+  });
+
+  it('rejects injected failures', async () => {
+    simulator.failNext('addVistors', { code: 500 });
+
+    await assert.rejects(
+      client.addVisitors([visitor('1')]),
+      SdpError,
+    );
+
+    assert.strictEqual(simulator.visitors.size, 0);
+  });
+
+  it('times out unanswered commands', async () => {
+    simulator.failNext('addVistors', { noReply: true });
+
+    await assert.rejects(
+      client.addVisitors([visitor('1')]),
+      /timed out/,
+    );
+  });
+
+  it('fails to connect with wrong credentials', async () => {
+    const wrongClient = new SdpClient({
+      url,
+      username: 'admin',
+      password: 'wrong',
+    });
+
+    const loginError = new Promise((resolve) =>
+      wrongClient.once('loginError', resolve),
+    );
+
+    try {
+      await assert.rejects(wrongClient.connect(), SdpError);
+      assert.ok((await loginError) instanceof SdpError);
+    } finally {
+      wrongClient.close();
+    }
+  });
+
+  it('reconnects and logs in again after a disconnect', async () => {
+    await client.connect();
+
+    const reconnected = new Promise((resolve) =>
+      client.once('login', resolve),
+    );
+
+    simulator.disconnectAll();
+    await reconnected;
+
+    await client.addVisitors([visitor('1')]);
+
+    assert.deepStrictEqual(
+      simulator.commands.map((command) => command.cmd),
+      ['login', 'login', 'addVistors'],
+    );
+  });
+
+  it('emits the door passes the controller pushes', async () => {
+    await client.addVisitors([visitor('1')]);
+
+    const pushed = new Promise<any>((resolve) =>
+      client.once('message', resolve),
+    );
+
+    simulator.pushPass('1');
+
+    const message = await pushed;
+
+    assert.strictEqual(message.cmd, 'passRecord');
+    assert.strictEqual(message.data[0].orId, '1');
+    assert.strictEqual(message.data[0].result, 0);
+  });
+
+  it('answers the other controller commands', async () => {
+    await client.addVisitors([visitor('1')]);
+
+    const reply = await client.request('getVistor', {
+      orId: '1',
+    });
+
+    assert.strictEqual(reply.data.userName, 'Jane Doe');
+
+    const areas = await client.request('getAreas');
+    assert.strictEqual(areas.data[0].areaCode, 'QY001');
+
+    await client.request('heartbeat');
+  });
+});
@@ -0,0 +1,336 @@
+import WebSocket from 'ws';
+import { EventEmitter } from 'events';
+import SdpError from './sdpError';
+
+export interface SdpClientOptions {
+  url: string;
+  username: string;
+  password: string;
+  requestTimeout?: number;
+  reconnectMinDelay?: number;
+  reconnectMaxDelay?: number;
+}
+
+interface SdpPendingRequest {
+  cmd: string;
+  resolve: (reply: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Code of the reply to a command on visitors
+ * the controller doesn't know.
+ */
+const NOT_FOUND_CODE = 404;
+
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+const DEFAULT_RECONNECT_MIN_DELAY = 1000;
+const DEFAULT_RECONNECT_MAX_DELAY = 60000;
+
+/**
+ * Long-lived connection to an SDP access controller.
+ *
+ * Logs in once, waits for the login acknowledgement and
+ * matches every reply to its request by the `tag` field.
+ * When the connection drops, it reconnects with an
+ * exponential backoff and logs in again.
+ *
+ * Messages that don't answer a pending request are
+ * emitted as `message` events, socket errors as
+ * `connectionError` and unreadable messages as
+ * `invalidMessage` events. Each login emits a `login`
+ * or a `loginError` event.
+ */
+export default class SdpClient extends EventEmitter {
+  options: SdpClientOptions;
+
+  private socket: WebSocket | null = null;
+  private ready: Promise<void> | null = null;
+  private pending = new Map<string, SdpPendingRequest>();
+  private reconnectAttempts = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private tagSequence = 0;
+  private closed = false;
+
+  constructor(options: SdpClientOptions) {
+    super();
+    this.options = {
+      requestTimeout: DEFAULT_REQUEST_TIMEOUT,
+      reconnectMinDelay: DEFAULT_RECONNECT_MIN_DELAY,
+      reconnectMaxDelay: DEFAULT_RECONNECT_MAX_DELAY,
+      ...options,
+    };
+  }
+
+  /**
+   * The controller answers with `code` 0 on success.
+   *
+   * @param {*} reply
+   */
+  static isSuccess(reply) {
+    return Boolean(reply) && Number(reply.code) === 0;
+  }
+
+  /**
+   * Whether the controller refused the command because
+   * it doesn't know the visitor.
+   *
+   * @param {*} reply
+   */
+  static isNotFound(reply) {
+    return (
+      Boolean(reply) &&
+      Number(reply.code) === NOT_FOUND_CODE
+    );
+  }
+
+  /**
+   * Opens the connection and logs in, if not yet done.
+   * Resolves after the controller acknowledged the login.
+   */
+  async connect(): Promise<void> {
+    this.closed = false;
+
+    if (!this.ready) {
+      this.ready = this._open();
+    }
+
+    return this.ready;
+  }
+
+  /**
+   * Closes the connection and stops reconnecting.
+   */
+  close() {
+    this.closed = true;
+
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (this.socket) {
+      this.socket.terminate();
+      this.socket = null;
+    }
+
+    this.ready = null;
+    this._rejectAllPending('SDP connection closed');
+  }
+
+  /**
+   * Sends a command and resolves with the matching reply.
+   * Rejects with an SdpError if the controller refuses it.
+   *
+   * @param {*} cmd
+   * @param {*} [fields]
+   */
+  async request(cmd: string, fields: any = {}) {
+    await this.connect();
+    return this._send(cmd, fields);
+  }
+
+  /**
+   * Adds visitors to the controller.
+   *
+   * @param {*} visitors SDP visitor payloads
+   */
+  async addVisitors(visitors: Array<any>) {
+    return this.request('addVistors', { data: visitors });
+  }
+
+  /**
+   * Deletes visitors from the controller.
+   *
+   * @param {*} orIds Ids of the visitors on our side
+   */
+  async deleteVisitors(orIds: Array<string>) {
+    return this.request('dellVistors', {
+      data: orIds.map((orId) => ({ orId })),
+    });
+  }
+
+  /**
+   * Lists the visitors stored on the controller.
+   */
+  async listVisitors(): Promise<Array<any>> {
+    const reply = await this.request('getVistors');
+    return Array.isArray(reply.data) ? reply.data : [];
+  }
+
+  _open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.options.url);
+      this.socket = socket;
+
+      socket.on('open', () => {
+        this._send('login', {
+          username: this.options.username,
+          password: this.options.password,
+        })
+          .then(() => {
+            this.reconnectAttempts = 0;
+            this.emit('login');
+            resolve();
+          })
+          .catch((error) => {
+            this.emit('loginError', error);
+            reject(error);
+            socket.terminate();
+          });
+      });
+
+      socket.on('message', (data) => this._onMessage(data));
+
+      // The close that follows rejects the pending requests
+      socket.on('error', (error) => {
+        this.emit('connectionError', error);
+      });
+
+      socket.on('close', () => {
+        reject(new SdpError('SDP connection closed'));
+        this._onClose(socket);
+      });
+    });
+  }
+
+  _send(cmd: string, fields: any = {}): Promise<any> {
+    const socket = this.socket;
+
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      return Promise.reject(
+        new SdpError('SDP connection is not open', cmd),
+      );
+    }
+
+    const tag = this._nextTag();
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(tag);
+        reject(
+          new SdpError(`SDP command ${cmd} timed out`, cmd),
+        );
+      }, this.options.requestTimeout);
+
+      this.pending.set(tag, {
+        cmd,
+        resolve,
+        reject,
+        timer,
+      });
+
+      socket.send(
+        JSON.stringify({ cmd, tag, ...fields }),
+        (error) => {
+          if (error) {
+            this._settle(tag, error);
+          }
+        },
+      );
+    });
+  }
+
+  _onMessage(data) {
+    let message;
+
+    try {
+      message = JSON.parse(String(data));
+    } catch (error) {
+      this.emit('invalidMessage', String(data));
+      return;
+    }
+
+    const tag =
+      message && message.tag !== undefined
+        ? String(message.tag)
+        : null;
+
+    if (tag && this.pending.has(tag)) {
+      const { cmd } = this.pending.get(tag)!;
+
+      if (SdpClient.isSuccess(message)) {
+        this._settle(tag, null, message);
+      } else {
+        this._settle(
+          tag,
+          new SdpError(
+            message.msg ||
+              `SDP command ${cmd} was rejected`,
+            cmd,
+            message,
+          ),
+        );
+      }
+      return;
+    }
+
+    this.emit('message', message);
+  }
+
+  _onClose(socket: WebSocket) {
+    if (this.socket !== socket) {
+      return;
+    }
+
+    this.socket = null;
+    this.ready = null;
+    this._rejectAllPending('SDP connection closed');
+    this.emit('disconnect');
+
+    if (!this.closed) {
+      this._scheduleReconnect();
+    }
+  }
+
+  _scheduleReconnect() {
+    const delay = Math.min(
+      this.options.reconnectMaxDelay!,
+      this.options.reconnectMinDelay! *
+        Math.pow(2, this.reconnectAttempts),
+    );
+    this.reconnectAttempts++;
+
+    this.ready = new Promise<void>((resolve) => {
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        resolve();
+      }, delay);
+    }).then(() => this._open());
+
+    // Failures are reported to whoever awaits the connection,
+    // a new attempt is scheduled when the socket closes
+    this.ready.catch(() => undefined);
+  }
+
+  _settle(tag: string, error: Error | null, reply?) {
+    const request = this.pending.get(tag);
+
+    if (!request) {
+      return;
+    }
+
+    clearTimeout(request.timer);
+    this.pending.delete(tag);
+
+    if (error) {
+      request.reject(error);
+    } else {
+      request.resolve(reply);
+    }
+  }
+
+  _rejectAllPending(message: string) {
+    for (const [tag, request] of Array.from(
+      this.pending.entries(),
+    )) {
+      this._settle(tag, new SdpError(message, request.cmd));
+    }
+  }
+
+  _nextTag() {
+    this.tagSequence = (this.tagSequence + 1) % 1000000;
+    return `${Date.now()}${this.tagSequence}`;
+  }
+}
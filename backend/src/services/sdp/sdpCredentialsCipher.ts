@@ -0,0 +1,61 @@
+import crypto from 'crypto';
+import { getConfig } from '../../config';
+
+const ALGORITHM = 'aes-256-gcm';
+
+/**
+ * Encrypts the controller credentials stored in the database.
+ * The key comes from SDP_CREDENTIALS_SECRET, or
+ * AUTH_JWT_SECRET when it is not set.
+ */
+export default class SdpCredentialsCipher {
+  static encrypt(text: string) {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(
+      ALGORITHM,
+      this._key(),
+      iv,
+    );
+
+    const encrypted = Buffer.concat([
+      cipher.update(text, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((buffer) => buffer.toString('base64'))
+      .join(':');
+  }
+
+  static decrypt(value: string) {
+    const [iv, authTag, encrypted] = value
+      .split(':')
+      .map((part) => Buffer.from(part, 'base64'));
+
+    const decipher = crypto.createDecipheriv(
+      ALGORITHM,
+      this._key(),
+      iv,
+    );
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  static _key() {
+    return crypto
+      .createHash('sha256')
+      .update(String(this._secret()))
+      .digest();
+  }
+
+  static _secret() {
+    return (
+      getConfig().SDP_CREDENTIALS_SECRET ||
+      getConfig().AUTH_JWT_SECRET
+    );
+  }
+}
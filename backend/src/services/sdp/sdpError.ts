@@ -0,0 +1,20 @@
+/**
+ * Error raised when the SDP access controller
+ * rejects a command, does not answer in time
+ * or the connection is lost.
+ */
+export default class SdpError extends Error {
+  cmd: string;
+  code: any;
+  reply: any;
+
+  constructor(message, cmd?, reply?) {
+    super(message);
+    // Keeps instanceof working when compiled to ES5
+    Object.setPrototypeOf(this, SdpError.prototype);
+    this.name = 'SdpError';
+    this.cmd = cmd;
+    this.reply = reply;
+    this.code = reply ? reply.code : undefined;
+  }
+}
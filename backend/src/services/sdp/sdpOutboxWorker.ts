@@ -0,0 +1,269 @@
+import SdpOutboxRepository from '../../database/repositories/sdpOutboxRepository';
+import SdpService from '../sdpService';
+import ErrorReporter from '../../errors/ErrorReporter';
+
+const POLL_INTERVAL = 5000;
+const BATCH_SIZE = 50;
+const MAX_ATTEMPTS = 10;
+const RETRY_MIN_DELAY = 10 * 1000;
+const RETRY_MAX_DELAY = 60 * 60 * 1000;
+const DISABLED_RECHECK_DELAY = 5 * 60 * 1000;
+// Longer than any delivery, as another process takes
+// over the command once it expires
+const CLAIM_LEASE = 5 * 60 * 1000;
+
+/**
+ * Delivers the SDP outbox to the access controller.
+ * Started once per process at boot. Each command is
+ * claimed before delivery, so processes running side
+ * by side don't send it twice.
+ *
+ * Commands of the same Visitor are delivered in order,
+ * failed ones are retried with an exponential backoff
+ * and dead-lettered after MAX_ATTEMPTS. Adds queued as
+ * a batch are delivered in one command. Commands of
+ * tenants whose controller is disabled are kept, adds
+ * of Visitors the screening doesn't clear are blocked.
+ */
+export default class SdpOutboxWorker {
+  database;
+  timer: NodeJS.Timeout | null = null;
+  processing = false;
+
+  constructor(database) {
+    this.database = database;
+  }
+
+  /**
+   * Polls the outbox until stopped.
+   */
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.processBatch().catch((error) =>
+        ErrorReporter.report(error, 'SdpOutboxWorker'),
+      );
+    }, POLL_INTERVAL);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Delivers the pending commands that are due.
+   * Returns how many were delivered.
+   */
+  async processBatch() {
+    if (this.processing) {
+      return 0;
+    }
+
+    this.processing = true;
+
+    try {
+      const entries = await SdpOutboxRepository.findDue(
+        BATCH_SIZE,
+        { database: this.database },
+      );
+
+      // A Visitor whose older command failed in this run
+      // must wait, or a delete could overtake its add
+      const blockedVisitorIds = new Set();
+      const handledBatchIds = new Set();
+      let delivered = 0;
+
+      for (const entry of entries) {
+        if (blockedVisitorIds.has(entry.visitorId)) {
+          continue;
+        }
+
+        if (entry.batchId) {
+          if (handledBatchIds.has(entry.batchId)) {
+            continue;
+          }
+
+          handledBatchIds.add(entry.batchId);
+
+          const batch = await this._claimAll(
+            await SdpOutboxRepository.findPendingByBatch(
+              entry.batchId,
+              { database: this.database },
+            ),
+          );
+
+          if (!batch.length) {
+            continue;
+          }
+
+          if (await this._deliverBatch(batch)) {
+            delivered += batch.length;
+          } else {
+            batch.forEach((batchEntry) =>
+              blockedVisitorIds.add(batchEntry.visitorId),
+            );
+          }
+
+          continue;
+        }
+
+        if (!(await this._claim(entry))) {
+          if (entry.visitorId) {
+            blockedVisitorIds.add(entry.visitorId);
+          }
+
+          continue;
+        }
+
+        if (await this._deliver(entry)) {
+          delivered++;
+        } else if (entry.visitorId) {
+          blockedVisitorIds.add(entry.visitorId);
+        }
+      }
+
+      return delivered;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  async _claim(entry) {
+    return SdpOutboxRepository.claim(
+      entry,
+      new Date(Date.now() + CLAIM_LEASE),
+      { database: this.database },
+    );
+  }
+
+  async _claimAll(entries) {
+    const claimed: Array<any> = [];
+
+    for (const entry of entries) {
+      if (await this._claim(entry)) {
+        claimed.push(entry);
+      }
+    }
+
+    return claimed;
+  }
+
+  async _deliver(entry) {
+    const options = this._options(entry);
+
+    try {
+      return await this._settle(
+        entry,
+        await new SdpService(options).deliver(entry),
+        options,
+      );
+    } catch (error) {
+      await this._markAttemptFailed(entry, error, options);
+      return false;
+    }
+  }
+
+  /**
+   * The controller accepts or refuses the whole
+   * command, so the batch succeeds or fails together.
+   *
+   * @param {*} entries
+   */
+  async _deliverBatch(entries) {
+    const options = this._options(entries[0]);
+
+    try {
+      const statuses = await new SdpService(
+        options,
+      ).deliverBatch(entries);
+
+      let settled = true;
+      for (let i = 0; i < entries.length; i++) {
+        settled =
+          (await this._settle(
+            entries[i],
+            statuses[i],
+            options,
+          )) && settled;
+      }
+      return settled;
+    } catch (error) {
+      for (const entry of entries) {
+        await this._markAttemptFailed(
+          entry,
+          error,
+          options,
+        );
+      }
+      return false;
+    }
+  }
+
+  /**
+   * Saves the status the entry got. Resolves false
+   * if it is kept pending.
+   *
+   * @param {*} entry
+   * @param {*} status
+   * @param {*} options
+   */
+  async _settle(entry, status, options) {
+    if (status === SdpOutboxRepository.PENDING) {
+      await SdpOutboxRepository.postpone(
+        entry,
+        new Date(Date.now() + DISABLED_RECHECK_DELAY),
+        options,
+      );
+      return false;
+    }
+
+    if (status === SdpOutboxRepository.BLOCKED) {
+      await SdpOutboxRepository.markBlocked(
+        entry.id,
+        options,
+      );
+      return true;
+    }
+
+    await SdpOutboxRepository.markDelivered(
+      entry.id,
+      options,
+    );
+    return true;
+  }
+
+  async _markAttemptFailed(entry, error, options) {
+    const attempts = entry.attempts + 1;
+
+    await SdpOutboxRepository.markAttemptFailed(
+      entry,
+      attempts,
+      error.message,
+      attempts < MAX_ATTEMPTS
+        ? new Date(Date.now() + this._retryDelay(attempts))
+        : null,
+      options,
+    );
+  }
+
+  _options(entry) {
+    return {
+      database: this.database,
+      currentTenant: { id: entry.tenantId },
+      bypassPermissionValidation: true,
+    };
+  }
+
+  _retryDelay(attempts) {
+    return Math.min(
+      RETRY_MAX_DELAY,
+      RETRY_MIN_DELAY * Math.pow(2, attempts - 1),
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import lodash from 'lodash';
+import SdpProvisioningJobRepository from '../../database/repositories/sdpProvisioningJobRepository';
+import SdpProvisioningService from '../sdpProvisioningService';
+import ErrorReporter from '../../errors/ErrorReporter';
+
+const POLL_INTERVAL = 30 * 1000;
+const BATCH_SIZE = 100;
+
+/**
+ * Runs the provisioning jobs of every tenant when due.
+ *
+ * Jobs are stored in the database, so the ones that came
+ * due while the server was down run on start.
+ */
+export default class SdpProvisioningScheduler {
+  database;
+  timer: NodeJS.Timeout | null = null;
+  processing = false;
+
+  constructor(database) {
+    this.database = database;
+  }
+
+  /**
+   * Runs the overdue jobs, then polls until stopped.
+   */
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    const poll = () => {
+      this.processDue().catch((error) =>
+        ErrorReporter.report(
+          error,
+          'SdpProvisioningScheduler',
+        ),
+      );
+    };
+
+    this.timer = setInterval(poll, POLL_INTERVAL);
+    poll();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Runs the jobs that are due.
+   * Returns how many were due.
+   */
+  async processDue() {
+    if (this.processing) {
+      return 0;
+    }
+
+    this.processing = true;
+
+    try {
+      const jobs = await SdpProvisioningJobRepository.findDue(
+        new Date(),
+        BATCH_SIZE,
+        { database: this.database },
+      );
+
+      const jobsByTenant = lodash.groupBy(
+        jobs,
+        (job) => job.tenantId,
+      );
+
+      for (const [tenantId, tenantJobs] of Object.entries(
+        jobsByTenant,
+      )) {
+        await new SdpProvisioningService({
+          database: this.database,
+          currentTenant: { id: tenantId },
+          bypassPermissionValidation: true,
+        }).runDue(tenantJobs);
+      }
+
+      return jobs.length;
+    } finally {
+      this.processing = false;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import SdpService from '../sdpService';
+import SdpReconciliationService from '../sdpReconciliationService';
+import { getConfig } from '../../config';
+import ErrorReporter from '../../errors/ErrorReporter';
+
+const DEFAULT_INTERVAL_HOURS = 24;
+
+/**
+ * Reconciles every tenant with an enabled controller
+ * each SDP_RECONCILIATION_INTERVAL_HOURS. The differences
+ * are only fixed when SDP_RECONCILIATION_FIX is 'true'.
+ */
+export default class SdpReconciliationJob {
+  database;
+  timer: NodeJS.Timeout | null = null;
+  running = false;
+
+  constructor(database) {
+    this.database = database;
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    const hours =
+      Number(
+        getConfig().SDP_RECONCILIATION_INTERVAL_HOURS,
+      ) || DEFAULT_INTERVAL_HOURS;
+
+    this.timer = setInterval(() => {
+      this.run().catch((error) =>
+        ErrorReporter.report(error, 'SdpReconciliationJob'),
+      );
+    }, hours * 60 * 60 * 1000);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async run() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    try {
+      const fix =
+        String(getConfig().SDP_RECONCILIATION_FIX) ===
+        'true';
+
+      const tenants = await this.database.tenant.findAll();
+
+      for (const tenant of tenants) {
+        const options = {
+          database: this.database,
+          currentTenant: tenant,
+          bypassPermissionValidation: true,
+        };
+
+        const connection = await new SdpService(
+          options,
+        ).getConnection();
+
+        if (!connection.enabled) {
+          continue;
+        }
+
+        await new SdpReconciliationService(options).run(
+          fix,
+        );
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,379 @@
+import WebSocket from 'ws';
+import moment from 'moment';
+import { AddressInfo } from 'net';
+
+const REQUIRED_VISITOR_FIELDS = [
+  'orId',
+  'userName',
+  'paperNo',
+  'paperType',
+  'startTime',
+  'endTime',
+  'areaCode',
+];
+
+export interface SdpSimulatorOptions {
+  port?: number;
+  path?: string;
+  username?: string;
+  password?: string;
+  areas?: Array<{ areaCode: string; areaName: string }>;
+}
+
+interface SdpSimulatorFailure {
+  code?: number;
+  msg?: string;
+  noReply?: boolean;
+}
+
+/**
+ * In-memory stand-in for the SDP access controller,
+ * for development and tests.
+ *
+ * Speaks the controller protocol over WebSocket, keeps
+ * the visitors and door passes in memory and can inject
+ * delays, refusals and unanswered commands.
+ */
+export default class SdpSimulator {
+  options: SdpSimulatorOptions;
+  visitors = new Map<string, any>();
+  passRecords: Array<any> = [];
+  commands: Array<any> = [];
+  delay = 0;
+
+  private server: WebSocket.Server | null = null;
+  private loggedIn = new WeakSet<WebSocket>();
+  private failures: {
+    [cmd: string]: Array<SdpSimulatorFailure>;
+  } = {};
+
+  constructor(options: SdpSimulatorOptions = {}) {
+    this.options = {
+      port: 0,
+      path: '/swap',
+      username: 'admin',
+      password: 'admin',
+      areas: [{ areaCode: 'QY001', areaName: 'Main site' }],
+      ...options,
+    };
+  }
+
+  /**
+   * Starts listening and resolves with the URL to connect to.
+   * Port 0 picks a free port.
+   */
+  start(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = new WebSocket.Server({
+        port: this.options.port,
+        path: this.options.path,
+      });
+
+      server.on('listening', () => {
+        const address = server.address() as AddressInfo;
+        resolve(
+          `ws://localhost:${address.port}${this.options.path}`,
+        );
+      });
+
+      server.on('error', reject);
+
+      server.on('connection', (socket) =>
+        this._onConnection(socket),
+      );
+
+      this.server = server;
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+
+      for (const socket of Array.from(
+        this.server.clients,
+      )) {
+        socket.terminate();
+      }
+
+      this.server.close(() => resolve());
+      this.server = null;
+    });
+  }
+
+  /**
+   * Clears the visitors, the door passes, the recorded
+   * commands and the injected failures.
+   */
+  reset() {
+    this.visitors.clear();
+    this.passRecords = [];
+    this.commands = [];
+    this.failures = {};
+    this.delay = 0;
+  }
+
+  /**
+   * Makes the next command `cmd` fail. Without a code
+   * the command is refused, with `noReply` it is
+   * left unanswered.
+   *
+   * @param {*} cmd
+   * @param {*} [failure]
+   */
+  failNext(cmd: string, failure: SdpSimulatorFailure = {}) {
+    this.failures[cmd] = this.failures[cmd] || [];
+    this.failures[cmd].push(failure);
+  }
+
+  /**
+   * Drops every open connection, as a network outage would.
+   */
+  disconnectAll() {
+    if (!this.server) {
+      return;
+    }
+
+    for (const socket of Array.from(this.server.clients)) {
+      socket.terminate();
+    }
+  }
+
+  /**
+   * Pushes a message to every logged in connection,
+   * like the events the controller sends on its own.
+   *
+   * @param {*} message
+   */
+  push(message) {
+    if (!this.server) {
+      return;
+    }
+
+    for (const socket of Array.from(this.server.clients)) {
+      if (this.loggedIn.has(socket)) {
+        socket.send(JSON.stringify(message));
+      }
+    }
+  }
+
+  /**
+   * Pushes a door pass of the visitor.
+   *
+   * @param {*} orId
+   * @param {*} [fields] Overrides, e.g. inOut 2 for an exit
+   */
+  pushPass(orId: string, fields: any = {}) {
+    const visitor = this.visitors.get(String(orId));
+
+    const passRecord = {
+      orId,
+      passTime: moment().format('YYYY-MM-DD HH:mm:ss'),
+      doorCode: 'D001',
+      doorName: 'Main entrance',
+      areaCode: visitor ? visitor.areaCode : undefined,
+      inOut: 1,
+      result: visitor ? 0 : 1,
+      ...fields,
+    };
+
+    this.passRecords.push(passRecord);
+
+    this.push({
+      cmd: 'passRecord',
+      data: [passRecord],
+    });
+  }
+
+  _onConnection(socket: WebSocket) {
+    socket.on('message', (data) => {
+      let message;
+
+      try {
+        message = JSON.parse(String(data));
+      } catch (error) {
+        socket.send(
+          JSON.stringify({
+            code: 400,
+            msg: 'invalid json',
+          }),
+        );
+        return;
+      }
+
+      this.commands.push(message);
+
+      const failure = this._takeFailure(message.cmd);
+
+      if (failure && failure.noReply) {
+        return;
+      }
+
+      const reply = failure
+        ? {
+            code: failure.code || 500,
+            msg: failure.msg || 'simulated failure',
+          }
+        : this._handle(socket, message);
+
+      setTimeout(() => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(
+            JSON.stringify({
+              cmd: message.cmd,
+              tag: message.tag,
+              ...reply,
+            }),
+          );
+        }
+      }, this.delay);
+    });
+  }
+
+  _handle(socket: WebSocket, message) {
+    if (message.cmd === 'login') {
+      if (
+        message.username !== this.options.username ||
+        message.password !== this.options.password
+      ) {
+        return { code: 401, msg: 'login failed' };
+      }
+
+      this.loggedIn.add(socket);
+      return { code: 0, msg: 'success' };
+    }
+
+    if (!this.loggedIn.has(socket)) {
+      return { code: 401, msg: 'not logged in' };
+    }
+
+    const data = Array.isArray(message.data)
+      ? message.data
+      : [];
+
+    switch (message.cmd) {
+      case 'logout':
+        this.loggedIn.delete(socket);
+        return { code: 0, msg: 'success' };
+      case 'heartbeat':
+        return { code: 0, msg: 'success' };
+      case 'addVistors':
+        return this._addVisitors(data);
+      case 'dellVistors':
+        return this._deleteVisitors(data);
+      case 'getVistors':
+        return {
+          code: 0,
+          msg: 'success',
+          data: Array.from(this.visitors.values()),
+        };
+      case 'getVistor':
+        return this._getVisitor(message.orId);
+      case 'getPassRecords':
+        return {
+          code: 0,
+          msg: 'success',
+          data: this.passRecords.filter(
+            (passRecord) =>
+              !message.orId ||
+              String(passRecord.orId) ===
+                String(message.orId),
+          ),
+        };
+      case 'getAreas':
+        return {
+          code: 0,
+          msg: 'success',
+          data: this.options.areas,
+        };
+      default:
+        return {
+          code: 404,
+          msg: `unknown command ${message.cmd}`,
+        };
+    }
+  }
+
+  _addVisitors(data) {
+    for (const visitor of data) {
+      const missing = REQUIRED_VISITOR_FIELDS.filter(
+        (field) => !visitor[field] && visitor[field] !== 0,
+      );
+
+      if (missing.length) {
+        return {
+          code: 400,
+          msg: `missing ${missing.join(', ')}`,
+        };
+      }
+
+      if (this.visitors.has(String(visitor.orId))) {
+        return {
+          code: 409,
+          msg: `visitor ${visitor.orId} already exists`,
+        };
+      }
+    }
+
+    for (const visitor of data) {
+      this.visitors.set(String(visitor.orId), visitor);
+    }
+
+    return { code: 0, msg: 'success' };
+  }
+
+  _getVisitor(orId) {
+    const visitor = this.visitors.get(String(orId));
+
+    if (!visitor) {
+      return {
+        code: 404,
+        msg: `visitor ${orId} not found`,
+      };
+    }
+
+    return { code: 0, msg: 'success', data: visitor };
+  }
+
+  _deleteVisitors(data) {
+    const unknown = data.filter(
+      (visitor) => !this.visitors.has(String(visitor.orId)),
+    );
+
+    if (unknown.length) {
+      return {
+        code: 404,
+        msg: `visitor ${unknown[0].orId} not found`,
+      };
+    }
+
+    for (const visitor of data) {
+      this.visitors.delete(String(visitor.orId));
+    }
+
+    return { code: 0, msg: 'success' };
+  }
+
+  _takeFailure(cmd) {
+    const failures = this.failures[cmd];
+
+    if (!failures || !failures.length) {
+      return null;
+    }
+
+    return failures.shift();
+  }
+}
+
+if (require.main === module) {
+  new SdpSimulator({
+    port: Number(process.env.SDP_SIMULATOR_PORT || 8686),
+  })
+    .start()
+    .then((url) =>
+      console.log(`SDP simulator listening on ${url}`),
+    );
+}
@@ -0,0 +1,181 @@
+import moment from 'moment';
+import Error400 from '../../errors/Error400';
+
+const SDP_DATE_FORMAT = 'YYYY-MM-DD HH:mm:ss';
+
+/**
+ * Controller codes of the ID document types.
+ */
+const PAPER_TYPES = {
+  idCard: '1',
+  passport: '2',
+  driverLicense: '3',
+  other: '9',
+};
+
+/**
+ * Controller codes of the genders.
+ */
+const SEXES = {
+  male: 1,
+  female: 2,
+};
+
+const PHONE_PATTERN = /^[0-9+\-() ]{3,20}$/;
+
+/**
+ * Maps Visitor records to the visitor
+ * schema of the SDP access controller.
+ */
+export default class SdpVisitorMapper {
+  /**
+   * Returns the addVistors payload of the Visitor.
+   * Throws an Error400 listing the fields the controller
+   * would reject.
+   *
+   * @param {*} record
+   * @param {*} [language]
+   * @param {*} [defaultAreaCode] Used when the Visitor has no areas
+   * @param {*} [areas] Areas the Visitor is given access to
+   */
+  static toSdpVisitor(
+    record,
+    language?,
+    defaultAreaCode?,
+    areas?,
+  ) {
+    const invalidFields: Array<string> = [];
+
+    const requireText = (field) => {
+      const value = this._text(record[field]);
+
+      if (!value) {
+        invalidFields.push(field);
+      }
+
+      return value;
+    };
+
+    const name = requireText('name');
+    const idNumber = requireText('idNumber');
+
+    const paperType = PAPER_TYPES[record.idType];
+    if (!paperType) {
+      invalidFields.push('idType');
+    }
+
+    let sex;
+    if (record.gender) {
+      sex = SEXES[record.gender];
+      if (!sex) {
+        invalidFields.push('gender');
+      }
+    }
+
+    const startTime = moment(record.startTime);
+    if (!record.startTime || !startTime.isValid()) {
+      invalidFields.push('startTime');
+    }
+
+    const endTime = moment(record.endTime);
+    if (
+      !record.endTime ||
+      !endTime.isValid() ||
+      (startTime.isValid() && !endTime.isAfter(startTime))
+    ) {
+      invalidFields.push('endTime');
+    }
+
+    const phone = this._text(record.phone);
+    if (phone && !PHONE_PATTERN.test(phone)) {
+      invalidFields.push('phone');
+    }
+
+    const areaCodes = this._areaCodes(
+      areas,
+      defaultAreaCode,
+    );
+    if (!areaCodes.length) {
+      invalidFields.push('areas');
+    }
+
+    if (invalidFields.length) {
+      throw new Error400(
+        language,
+        'visitor.errors.sdpInvalidFields',
+        invalidFields.join(', '),
+      );
+    }
+
+    const visitor: any = {
+      orId: record.id,
+      userName: name,
+      paperNo: idNumber,
+      paperType,
+      company: this._text(record.company),
+      masterName: this._hostName(record.host),
+      reason: this._text(record.reason),
+      startTime: startTime.format(SDP_DATE_FORMAT),
+      endTime: endTime.format(SDP_DATE_FORMAT),
+      phone,
+      photoUrl: this._text(record.photoUrl),
+      areaCode: areaCodes[0],
+    };
+
+    if (sex) {
+      visitor.sex = sex;
+    }
+
+    return visitor;
+  }
+
+  static _text(value) {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    return String(value).trim();
+  }
+
+  /**
+   * Returns the codes of the areas, or the default code
+   * when the Visitor has none. The controller takes a
+   * single areaCode per visitor, the first one.
+   *
+   * @param {*} areas
+   * @param {*} defaultAreaCode
+   */
+  static _areaCodes(areas, defaultAreaCode) {
+    const codes = (areas || [])
+      .map((area) => this._text(area.code))
+      .filter(Boolean);
+
+    if (codes.length) {
+      return codes;
+    }
+
+    const defaultCode = this._text(defaultAreaCode);
+
+    return defaultCode ? [defaultCode] : [];
+  }
+
+  /**
+   * Empty when the host isn't loaded, as its id
+   * means nothing on the controller.
+   *
+   * @param {*} host
+   */
+  static _hostName(host) {
+    if (!host || typeof host !== 'object') {
+      return '';
+    }
+
+    return this._text(
+      host.fullName ||
+        [host.firstName, host.lastName]
+          .filter(Boolean)
+          .join(' ') ||
+        host.email,
+    );
+  }
+}
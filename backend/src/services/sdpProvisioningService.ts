@@ -0,0 +1,372 @@
+import lodash from 'lodash';
+import moment from 'moment';
+import { v4 as uuid } from 'uuid';
+import { getConfig } from '../config';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import SdpProvisioningJobRepository from '../database/repositories/sdpProvisioningJobRepository';
+import VisitorRepository from '../database/repositories/visitorRepository';
+import VisitorStatusRepository from '../database/repositories/visitorStatusRepository';
+import VisitorLifecycleService from './visitorLifecycleService';
+import VisitorScreeningService from './visitorScreeningService';
+
+/**
+ * Minutes before the visit starts its
+ * access is provisioned on the controller.
+ */
+const DEFAULT_LEAD_MINUTES = 15;
+
+const MAX_ATTEMPTS = 5;
+const RETRY_MIN_DELAY = 60 * 1000;
+const RETRY_MAX_DELAY = 60 * 60 * 1000;
+
+/**
+ * Schedules when the access of the Visitors is granted
+ * and revoked on the SDP access controller.
+ *
+ * Visitors who don't pass reception, e.g. imported ones,
+ * are provisioned shortly before their visit starts,
+ * without checking them in. Every Visitor with access is checked out
+ * and revoked when its visit window ends. Jobs run in the
+ * transaction of the options and are executed by the
+ * SdpProvisioningScheduler.
+ */
+export default class SdpProvisioningService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Schedules the provisioning of the Visitors, as one
+   * batch, and the revocation of their access.
+   *
+   * @param {*} records
+   */
+  async scheduleProvisioning(records) {
+    if (!records.length) {
+      return;
+    }
+
+    const batchId = uuid();
+
+    for (const record of records) {
+      await SdpProvisioningJobRepository.create(
+        {
+          action: 'provision',
+          visitorId: record.id,
+          runAt: this._provisionAt(record),
+          batchId,
+        },
+        this.options,
+      );
+
+      await this.scheduleRevocation(record);
+    }
+  }
+
+  /**
+   * Schedules the revocation of the access of
+   * the Visitor at the end of its visit window.
+   *
+   * @param {*} record
+   */
+  async scheduleRevocation(record) {
+    const jobs = await SdpProvisioningJobRepository.findPendingByVisitor(
+      record.id,
+      this.options,
+    );
+
+    await SdpProvisioningJobRepository.markCancelled(
+      jobs
+        .filter((job) => job.action === 'revoke')
+        .map((job) => job.id),
+      this.options,
+    );
+
+    await SdpProvisioningJobRepository.create(
+      {
+        action: 'revoke',
+        visitorId: record.id,
+        runAt: record.endTime,
+      },
+      this.options,
+    );
+  }
+
+  /**
+   * Moves the pending jobs of the Visitor
+   * to its new visit window.
+   *
+   * @param {*} record
+   */
+  async reschedule(record) {
+    const jobs = await SdpProvisioningJobRepository.findPendingByVisitor(
+      record.id,
+      this.options,
+    );
+
+    for (const job of jobs) {
+      await SdpProvisioningJobRepository.reschedule(
+        job.id,
+        job.action === 'provision'
+          ? this._provisionAt(record)
+          : record.endTime,
+        this.options,
+      );
+    }
+  }
+
+  /**
+   * Closes the pending jobs of the Visitors whose access
+   * was revoked: the revocation is done, and there is
+   * nothing left to provision.
+   *
+   * @param {*} visitorIds
+   */
+  async completeRevocation(visitorIds) {
+    for (const visitorId of visitorIds) {
+      const jobs = await SdpProvisioningJobRepository.findPendingByVisitor(
+        visitorId,
+        this.options,
+      );
+
+      const [revokes, provisions] = lodash.partition(
+        jobs,
+        (job) => job.action === 'revoke',
+      );
+
+      await SdpProvisioningJobRepository.markDone(
+        revokes.map((job) => job.id),
+        this.options,
+      );
+
+      await SdpProvisioningJobRepository.markCancelled(
+        provisions.map((job) => job.id),
+        this.options,
+      );
+    }
+  }
+
+  /**
+   * Runs the due jobs of the tenant. Provisions of the
+   * same batch run together. Failed jobs are retried with
+   * an exponential backoff, and wait for an admin to retry
+   * them after MAX_ATTEMPTS.
+   *
+   * @param {*} jobs
+   */
+  async runDue(jobs) {
+    const now = new Date();
+    const handledBatchIds = new Set();
+
+    for (const job of jobs) {
+      if (job.batchId) {
+        if (handledBatchIds.has(job.batchId)) {
+          continue;
+        }
+
+        handledBatchIds.add(job.batchId);
+
+        const batch = (
+          await SdpProvisioningJobRepository.findPendingByBatch(
+            job.batchId,
+            this.options,
+          )
+        ).filter((batchJob) => batchJob.runAt <= now);
+
+        await this._run(batch, () =>
+          this._provision(batch),
+        );
+
+        continue;
+      }
+
+      await this._run([job], () =>
+        job.action === 'provision'
+          ? this._provision([job])
+          : this._revoke(job),
+      );
+    }
+  }
+
+  async retry(id) {
+    return SdpProvisioningJobRepository.retry(
+      id,
+      this.options,
+    );
+  }
+
+  async findAndCountAll(args) {
+    return SdpProvisioningJobRepository.findAndCountAll(
+      args,
+      this.options,
+    );
+  }
+
+  async _run(jobs, fn) {
+    try {
+      await fn();
+    } catch (error) {
+      // Shown with the job until it is retried
+      for (const job of jobs) {
+        const attempts = job.attempts + 1;
+
+        await SdpProvisioningJobRepository.markAttemptFailed(
+          job.id,
+          attempts,
+          error.message,
+          attempts < MAX_ATTEMPTS
+            ? new Date(
+                Date.now() + this._retryDelay(attempts),
+              )
+            : null,
+          this.options,
+        );
+      }
+    }
+  }
+
+  _retryDelay(attempts) {
+    return Math.min(
+      RETRY_MAX_DELAY,
+      RETRY_MIN_DELAY * Math.pow(2, attempts - 1),
+    );
+  }
+
+  /**
+   * Provisions the Visitors still expected. Visits already over are left alone.
+   * The Visitors are screened again against the current
+   * watchlist, those it doesn't clear fail until security
+   * approves them and an admin retries the job.
+   *
+   * @param {*} jobs
+   */
+  async _provision(jobs) {
+    const statuses = await VisitorStatusRepository.findByVisitors(
+      jobs.map((job) => job.visitorId),
+      this.options,
+    );
+
+    const screeningService = new VisitorScreeningService(
+      this.options,
+    );
+
+    const records: Array<any> = [];
+    const skippedJobIds: Array<string> = [];
+    const unclearedJobIds: Array<string> = [];
+    const provisionedJobIds: Array<string> = [];
+
+    for (const job of jobs) {
+      const record = await this._findVisitor(job.visitorId);
+
+      if (
+        !record ||
+        statuses[job.visitorId].status !== 'expected' ||
+        moment().isAfter(record.endTime)
+      ) {
+        skippedJobIds.push(job.id);
+        continue;
+      }
+
+      if (
+        !VisitorScreeningService.isCleared(
+          await screeningService.rescreen(record),
+        )
+      ) {
+        unclearedJobIds.push(job.id);
+        continue;
+      }
+
+      records.push(record);
+      provisionedJobIds.push(job.id);
+    }
+
+    await SdpProvisioningJobRepository.markCancelled(
+      skippedJobIds,
+      this.options,
+    );
+
+    await SdpProvisioningJobRepository.markFailed(
+      unclearedJobIds,
+      'The screening does not clear the visitor',
+      this.options,
+    );
+
+    if (records.length) {
+      await new VisitorLifecycleService(
+        this.options,
+      ).provisionImported(records);
+    }
+
+    await SdpProvisioningJobRepository.markDone(
+      provisionedJobIds,
+      this.options,
+    );
+  }
+
+  /**
+   * Checks out the Visitor, which revokes its access.
+   * Visitors without access have nothing to revoke.
+   *
+   * @param {*} job
+   */
+  async _revoke(job) {
+    const record = await this._findVisitor(job.visitorId);
+
+    const visitStatus = await VisitorStatusRepository.findByVisitor(
+      job.visitorId,
+      this.options,
+    );
+
+    if (
+      !record ||
+      !VisitorLifecycleService.hasAccess(visitStatus)
+    ) {
+      await SdpProvisioningJobRepository.markDone(
+        [job.id],
+        this.options,
+      );
+      return;
+    }
+
+    // Closes the job as well
+    await new VisitorLifecycleService(
+      this.options,
+    ).checkOut(record.id);
+  }
+
+  /**
+   * Returns null if the Visitor was deleted.
+   *
+   * @param {*} id
+   */
+  async _findVisitor(id) {
+    const count = await VisitorRepository.count(
+      { id },
+      this.options,
+    );
+
+    if (!count) {
+      return null;
+    }
+
+    return VisitorRepository.findById(id, this.options);
+  }
+
+  _provisionAt(record) {
+    const leadMinutes =
+      Number(getConfig().SDP_PROVISIONING_LEAD_MINUTES) ||
+      DEFAULT_LEAD_MINUTES;
+
+    return moment
+      .max(
+        moment(),
+        moment(record.startTime).subtract(
+          leadMinutes,
+          'minutes',
+        ),
+      )
+      .toDate();
+  }
+}
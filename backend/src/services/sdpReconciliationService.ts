@@ -0,0 +1,328 @@
+import Error400 from '../errors/Error400';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import VisitorRepository from '../database/repositories/visitorRepository';
+import SdpOutboxRepository from '../database/repositories/sdpOutboxRepository';
+import SdpReconciliationRepository from '../database/repositories/sdpReconciliationRepository';
+import SdpVisitorMapper from './sdp/sdpVisitorMapper';
+import SdpService from './sdpService';
+import VisitorLifecycleService from './visitorLifecycleService';
+import VisitorStatusRepository from '../database/repositories/visitorStatusRepository';
+import VisitorAreaRepository from '../database/repositories/visitorAreaRepository';
+
+/**
+ * Fields compared between the database and the controller.
+ * The photo URL is left out, as signed URLs change.
+ */
+const COMPARED_FIELDS = [
+  'userName',
+  'paperNo',
+  'paperType',
+  'sex',
+  'company',
+  'masterName',
+  'reason',
+  'startTime',
+  'endTime',
+  'phone',
+  'areaCode',
+];
+
+/**
+ * Compares the checked in Visitors of the tenant
+ * with the visitors on its SDP access controller.
+ */
+export default class SdpReconciliationService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Stores a report of the Visitors missing on the
+   * controller, orphaned on the controller or whose
+   * fields don't match. With fix, queues the commands
+   * that bring the controller in line with the database.
+   *
+   * @param {*} fix
+   */
+  async run(fix = false) {
+    const sdpService = new SdpService(this.options);
+    const connection = await sdpService.getConnection();
+
+    if (!connection.enabled) {
+      throw new Error400(
+        this.options.language,
+        'sdpReconciliation.errors.disabled',
+      );
+    }
+
+    const startedAt = new Date();
+    let result;
+
+    try {
+      const client = await sdpService.getClient(connection);
+      const controllerVisitors = await sdpService.listControllerVisitors(
+        client,
+      );
+
+      const {
+        rows,
+      } = await VisitorRepository.findAndCountAll(
+        {},
+        this.options,
+      );
+
+      const differences = await this._compare(
+        rows,
+        controllerVisitors,
+        connection.areaCode,
+      );
+
+      if (fix) {
+        await this._fix(differences, rows);
+      }
+
+      const count = (type) =>
+        differences.filter(
+          (difference) => difference.type === type,
+        ).length;
+
+      result = {
+        status: 'completed',
+        missingCount: count('missing'),
+        orphanedCount: count('orphaned'),
+        mismatchedCount: count('mismatched'),
+        invalidCount: count('invalid'),
+        differences,
+      };
+    } catch (error) {
+      // Shown with the report
+      result = {
+        status: 'failed',
+        error: error.message,
+      };
+    }
+
+    return SdpReconciliationRepository.create(
+      {
+        ...result,
+        fix,
+        startedAt,
+        finishedAt: new Date(),
+      },
+      this.options,
+    );
+  }
+
+  async findById(id) {
+    return SdpReconciliationRepository.findById(
+      id,
+      this.options,
+    );
+  }
+
+  async findAndCountAll(args) {
+    return SdpReconciliationRepository.findAndCountAll(
+      args,
+      this.options,
+    );
+  }
+
+  async _compare(records, controllerVisitors, areaCode) {
+    const differences: Array<any> = [];
+
+    const controllerById = new Map<string, any>();
+    const withoutOrId: Array<any> = [];
+    for (const visitor of controllerVisitors) {
+      if (
+        visitor.orId === undefined ||
+        visitor.orId === null ||
+        visitor.orId === ''
+      ) {
+        withoutOrId.push(visitor);
+      } else {
+        controllerById.set(String(visitor.orId), visitor);
+      }
+    }
+
+    // Visitors with undelivered commands are expected
+    // to differ, the outbox will bring them in line
+    const syncStatuses = await SdpOutboxRepository.findSyncStatuses(
+      records.map((record) => record.id),
+      this.options,
+    );
+
+    const visitStatuses = await VisitorStatusRepository.findByVisitors(
+      records.map((record) => record.id),
+      this.options,
+    );
+
+    const areas = await VisitorAreaRepository.findByVisitors(
+      records.map((record) => record.id),
+      this.options,
+    );
+
+    for (const record of records) {
+      const controllerVisitor = controllerById.get(
+        String(record.id),
+      );
+      controllerById.delete(String(record.id));
+
+      const syncStatus = syncStatuses[record.id];
+      if (syncStatus && syncStatus.status === 'pending') {
+        continue;
+      }
+
+      // Only Visitors with access belong on the controller,
+      // unless their add was blocked by the screening
+      if (
+        !VisitorLifecycleService.hasAccess(
+          visitStatuses[record.id],
+        ) ||
+        (syncStatus && syncStatus.status === 'blocked')
+      ) {
+        if (controllerVisitor) {
+          differences.push({
+            type: 'orphaned',
+            orId: record.id,
+            name: record.name,
+          });
+        }
+        continue;
+      }
+
+      let expected;
+      try {
+        expected = SdpVisitorMapper.toSdpVisitor(
+          record,
+          this.options.language,
+          areaCode,
+          areas[record.id],
+        );
+      } catch (error) {
+        differences.push({
+          type: 'invalid',
+          orId: record.id,
+          name: record.name,
+          error: error.message,
+        });
+        continue;
+      }
+
+      if (!controllerVisitor) {
+        differences.push({
+          type: 'missing',
+          orId: record.id,
+          name: record.name,
+        });
+        continue;
+      }
+
+      const fields = COMPARED_FIELDS.filter(
+        (field) =>
+          this._normalize(expected[field]) !==
+          this._normalize(controllerVisitor[field]),
+      ).map((field) => ({
+        field,
+        database: expected[field],
+        controller: controllerVisitor[field],
+      }));
+
+      if (fields.length) {
+        differences.push({
+          type: 'mismatched',
+          orId: record.id,
+          name: record.name,
+          fields,
+        });
+      }
+    }
+
+    for (const [orId, visitor] of Array.from(
+      controllerById.entries(),
+    )) {
+      differences.push({
+        type: 'orphaned',
+        orId,
+        name: visitor.userName,
+      });
+    }
+
+    // Can't be deleted by a command, as it takes the orId
+    for (const visitor of withoutOrId) {
+      differences.push({
+        type: 'orphaned',
+        orId: null,
+        name: visitor.userName,
+      });
+    }
+
+    return differences;
+  }
+
+  async _fix(differences, records) {
+    const recordsById = new Map<string, any>();
+    for (const record of records) {
+      recordsById.set(String(record.id), record);
+    }
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const sdpService = new SdpService({
+        ...this.options,
+        transaction,
+      });
+
+      for (const difference of differences) {
+        if (difference.type === 'missing') {
+          await sdpService.addVisitor(
+            recordsById.get(difference.orId),
+          );
+        }
+
+        if (difference.type === 'mismatched') {
+          await sdpService.updateVisitor(
+            recordsById.get(difference.orId),
+          );
+        }
+
+        if (
+          difference.type === 'orphaned' &&
+          difference.orId
+        ) {
+          if (recordsById.has(difference.orId)) {
+            await sdpService.deleteVisitors([
+              difference.orId,
+            ]);
+          } else {
+            await sdpService.deleteOrphans([
+              difference.orId,
+            ]);
+          }
+        }
+      }
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  _normalize(value) {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    return String(value).trim();
+  }
+}
@@ -1,24 +1,569 @@
+import SdpClient from './sdp/sdpClient';
+import SdpError from './sdp/sdpError';
+import SdpVisitorMapper from './sdp/sdpVisitorMapper';
+import SdpOutboxRepository from '../database/repositories/sdpOutboxRepository';
+import VisitorAreaRepository from '../database/repositories/visitorAreaRepository';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import { v4 as uuid } from 'uuid';
+import lodash from 'lodash';
+import SdpSettingsService from './sdpSettingsService';
+import VisitorPhotoService from './visitorPhotoService';
+import VisitorScreeningService from './visitorScreeningService';
+import AuditTrailService from './auditTrailService';
+import ErrorReporter from '../errors/ErrorReporter';
+import { getConfig } from '../config';
 
-import WebSocket from 'ws';
+const clients = new Map<string, SdpClient>();
 
-export default function sdpService(record) {
-    function sleep(ms) {
-        return new Promise(resolve => setTimeout(resolve, ms));
+let overrideClient: SdpClient | null = null;
+
+/**
+ * Handles the synchronization of Visitors
+ * with the SDP access controller of the tenant.
+ *
+ * Changes are written to the SDP outbox in the
+ * transaction of the options, and delivered
+ * later by the SdpOutboxWorker. Tenants without
+ * an enabled controller are skipped.
+ */
+export default class SdpService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Uses this connection for every tenant, e.g. one to
+   * the SdpSimulator. Null goes back to the tenant settings.
+   *
+   * @param {*} sdpClient
+   */
+  static setClient(sdpClient: SdpClient | null) {
+    if (overrideClient && overrideClient !== sdpClient) {
+      overrideClient.close();
+    }
+
+    overrideClient = sdpClient;
+  }
+
+  /**
+   * Returns the connection settings of the tenant.
+   */
+  async getConnection() {
+    if (overrideClient) {
+      return {
+        enabled: true,
+        ...overrideClient.options,
+        areaCode: getConfig().SDP_AREA_CODE,
+      };
+    }
+
+    return new SdpSettingsService(
+      this.options,
+    ).findConnection();
+  }
+
+  /**
+   * Returns the controller connection of the tenant,
+   * reopening it when its settings changed.
+   *
+   * @param {*} [connection] Settings already loaded
+   */
+  async getClient(connection?) {
+    if (overrideClient) {
+      return overrideClient;
+    }
+
+    connection = connection || (await this.getConnection());
+    const tenant = SequelizeRepository.getCurrentTenant(
+      this.options,
+    );
+
+    let client = clients.get(tenant.id);
+
+    if (
+      client &&
+      (client.options.url !== connection.url ||
+        client.options.username !== connection.username ||
+        client.options.password !== connection.password)
+    ) {
+      client.close();
+      client = undefined;
+    }
+
+    if (!client) {
+      client = new SdpClient({
+        url: connection.url,
+        username: connection.username,
+        password: connection.password,
+      });
+      client.on('connectionError', (error) =>
+        ErrorReporter.report(error, 'SdpClient', {
+          tenantId: tenant.id,
+        }),
+      );
+      client.on('invalidMessage', (data) =>
+        ErrorReporter.report(
+          new Error(`Invalid message from SDP: ${data}`),
+          'SdpClient',
+          { tenantId: tenant.id },
+        ),
+      );
+      this._auditLogins(client, connection, tenant);
+      clients.set(tenant.id, client);
+    }
+
+    return client;
+  }
+
+  /**
+   * Throws if the Visitor is too incomplete
+   * to be added to the controller later.
+   *
+   * @param {*} record
+   */
+  async validateVisitor(record) {
+    const connection = await this.getConnection();
+
+    if (!connection.enabled) {
+      return;
+    }
+
+    await this._toSdpVisitor(record, connection);
+  }
+
+  /**
+   * Queues the Visitor to be added to the controller.
+   * Throws if the Visitor is incomplete.
+   *
+   * @param {*} record
+   */
+  async addVisitor(record) {
+    const connection = await this.getConnection();
+
+    if (!connection.enabled) {
+      return;
+    }
+
+    await this._enqueue(
+      'add',
+      record.id,
+      await this._toSdpVisitor(record, connection),
+    );
+  }
+
+  /**
+   * Queues the Visitors to be added to the controller
+   * in a single command. Throws if one is incomplete.
+   *
+   * @param {*} records
+   */
+  async addVisitors(records) {
+    const connection = await this.getConnection();
+
+    if (!connection.enabled || !records.length) {
+      return;
+    }
+
+    const batchId = uuid();
+
+    const areas = await VisitorAreaRepository.findByVisitors(
+      records.map((record) => record.id),
+      this.options,
+    );
+
+    for (const record of records) {
+      await this._enqueue(
+        'add',
+        record.id,
+        SdpVisitorMapper.toSdpVisitor(
+          record,
+          this.options.language,
+          connection.areaCode,
+          areas[record.id],
+        ),
+        batchId,
+      );
+    }
+  }
+
+  /**
+   * Queues the Visitor to be replaced on the controller.
+   * Throws if the Visitor is incomplete.
+   *
+   * @param {*} record
+   */
+  async updateVisitor(record) {
+    const connection = await this.getConnection();
+
+    if (!connection.enabled) {
+      return;
+    }
+
+    await this._enqueue(
+      'update',
+      record.id,
+      await this._toSdpVisitor(record, connection),
+    );
+  }
+
+  /**
+   * Queues the Visitors to be deleted from the controller.
+   * Also queued while the controller is disabled, to be
+   * delivered once it is enabled again.
+   *
+   * @param {*} ids
+   */
+  async deleteVisitors(ids) {
+    const connection = await this.getConnection();
+
+    if (!connection.url) {
+      return;
+    }
+
+    for (const id of ids) {
+      await this._enqueue('delete', id, null);
+    }
+  }
+
+  /**
+   * Queues the visitors the controller has but the
+   * database doesn't know to be deleted.
+   *
+   * @param {*} orIds Ids of the visitors on the controller
+   */
+  async deleteOrphans(orIds) {
+    for (const orId of orIds) {
+      await this._enqueue('delete', null, { orId });
+    }
+  }
+
+  /**
+   * Sends an outbox entry to the controller and resolves
+   * with the status the entry gets: delivered, pending
+   * while the controller is disabled, or blocked if the
+   * watchlist screening doesn't clear the Visitor to be
+   * added. Rejects if it must be retried.
+   *
+   * @param {*} entry
+   */
+  async deliver(entry) {
+    const connection = await this.getConnection();
+
+    if (!connection.enabled) {
+      return SdpOutboxRepository.PENDING;
+    }
+
+    const client = await this.getClient(connection);
+
+    // The Visitor may have been flagged since the entry
+    // was queued. Updates still delete it.
+    const cleared =
+      entry.action === 'delete' ||
+      (await new VisitorScreeningService(
+        this.options,
+      ).isVisitorCleared(entry.visitorId));
+
+    // Signed before anything is deleted, in case it fails
+    const visitor =
+      entry.action === 'delete' || !cleared
+        ? null
+        : await this._withPhotoUrl(entry);
+
+    if (entry.action === 'add') {
+      if (!cleared) {
+        return SdpOutboxRepository.BLOCKED;
+      }
+
+      await this._addToController(client, [visitor]);
+      return SdpOutboxRepository.DELIVERED;
+    }
+
+    // The controller has no command to modify a visitor,
+    // so updates delete and add it again
+    const deleted = await this._deleteFromController(
+      client,
+      [entry.visitorId || entry.payload.orId],
+    );
+
+    if (entry.action !== 'update') {
+      return SdpOutboxRepository.DELIVERED;
     }
-    console.log(record);
-    var wsSDP = new WebSocket("ws://50.19.75.1:8686/swap");
-    wsSDP.onopen = async function () {
-        // Web Socket is connected, send data using send()
-        wsSDP.send('{"cmd":"login","tag":"222333","username":"admin","password":"admin"}');
-        await sleep(1000);
-        
-        wsSDP.send('{ "cmd": "addVistors", "tag": "123423424", "data": [{ "userName": "223344", "paperNo": "11122", "paperType": "1", "sex": 1, "company": "1", "masterName": "112233", "reason": "11122", "startTime": "2020-10-07 17:00:00", "endTime": "2020-10-14 17:00:00", "phone": "11122", "photoUrl": "https://www.incimages.com/uploaded_files/image/1920x1080/getty_495142964_198701.jpg", "areaCode": "QY001" } ] }');
-        wsSDP.onmessage = function (evt) {
-            var received_msg = evt.data;
 
-        };
+    if (!cleared) {
+      return SdpOutboxRepository.BLOCKED;
+    }
+
+    try {
+      await this._addToController(client, [visitor]);
+      return SdpOutboxRepository.DELIVERED;
+    } catch (error) {
+      // Keeps the access the Visitor had until the
+      // update is retried
+      if (deleted) {
+        await this._restoreOnController(client, entry);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Sends the add entries of a batch to the controller
+   * in one command and resolves with the status each
+   * entry gets, as deliver does. Rejects if they
+   * must be retried.
+   *
+   * @param {*} entries
+   */
+  async deliverBatch(entries): Promise<Array<string>> {
+    const connection = await this.getConnection();
 
+    if (!connection.enabled) {
+      return entries.map(() => SdpOutboxRepository.PENDING);
+    }
+
+    const client = await this.getClient(connection);
+    const screeningService = new VisitorScreeningService(
+      this.options,
+    );
+
+    const statuses: Array<string> = [];
+    const visitors: Array<any> = [];
+    for (const entry of entries) {
+      if (
+        await screeningService.isVisitorCleared(
+          entry.visitorId,
+        )
+      ) {
+        visitors.push(await this._withPhotoUrl(entry));
+        statuses.push(SdpOutboxRepository.DELIVERED);
+      } else {
+        statuses.push(SdpOutboxRepository.BLOCKED);
+      }
+    }
+
+    if (visitors.length) {
+      await this._addToController(client, visitors);
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Lists the visitors stored on the controller.
+   *
+   * @param {*} client
+   */
+  async listControllerVisitors(client: SdpClient) {
+    return this._audit(
+      'getVistors',
+      null,
+      () => client.listVisitors(),
+      // The list itself would bloat the audit trail
+      (visitors) => ({ count: visitors.length }),
+    );
+  }
+
+  /**
+   * Queues the command for the SdpOutboxWorker.
+   *
+   * @param {*} action
+   * @param {*} visitorId
+   * @param {*} payload
+   * @param {*} [batchId]
+   */
+  async _enqueue(
+    action,
+    visitorId,
+    payload,
+    batchId = null,
+  ) {
+    await SdpOutboxRepository.enqueue(
+      action,
+      visitorId,
+      payload,
+      this.options,
+      batchId,
+    );
+  }
+
+  async _addToController(client: SdpClient, visitors) {
+    await this._audit(
+      'addVistors',
+      // Signed photo URLs grant access to the photos
+      visitors.map((visitor) =>
+        lodash.omit(visitor, 'photoUrl'),
+      ),
+      () => client.addVisitors(visitors),
+    );
+  }
+
+  /**
+   * Logs the logins of the connection, which reconnects
+   * on its own, in the audit trail of the tenant.
+   *
+   * @param {*} client
+   * @param {*} connection
+   * @param {*} tenant
+   */
+  _auditLogins(client: SdpClient, connection, tenant) {
+    const auditTrailService = new AuditTrailService({
+      database: this.options.database,
+      currentTenant: tenant,
+    });
+
+    const payload = { username: connection.username };
+
+    client.on('login', () =>
+      auditTrailService.logSdpCommand(
+        'login',
+        payload,
+        null,
+        null,
+      ),
+    );
+    client.on('loginError', (error) =>
+      auditTrailService.logSdpCommand(
+        'login',
+        payload,
+        error.reply || null,
+        error,
+      ),
+    );
+  }
+
+  /**
+   * Sends a command and logs it with its
+   * reply in the audit trail.
+   *
+   * @param {*} cmd
+   * @param {*} payload What is logged of the command
+   * @param {*} send
+   * @param {*} [summarize] What is logged of the reply
+   */
+  async _audit(
+    cmd,
+    payload,
+    send: () => Promise<any>,
+    summarize = (reply) => reply,
+  ) {
+    const auditTrailService = new AuditTrailService(
+      this.options,
+    );
+
+    let result;
+
+    try {
+      result = await send();
+    } catch (error) {
+      await auditTrailService.logSdpCommand(
+        cmd,
+        payload,
+        error.reply || null,
+        error,
+      );
+
+      throw error;
+    }
+
+    await auditTrailService.logSdpCommand(
+      cmd,
+      payload,
+      summarize(result),
+      null,
+    );
+
+    return result;
+  }
+
+  /**
+   * Maps the Visitor with its areas. Visitors without
+   * areas get the default area code of the tenant.
+   *
+   * @param {*} record
+   * @param {*} connection
+   */
+  async _toSdpVisitor(record, connection) {
+    return SdpVisitorMapper.toSdpVisitor(
+      record,
+      this.options.language,
+      connection.areaCode,
+      await VisitorAreaRepository.findByVisitor(
+        record.id,
+        this.options,
+      ),
+    );
+  }
+
+  /**
+   * Signs the photo URL when the entry is delivered rather
+   * than queued, so retries never send an expired one.
+   *
+   * @param {*} entry
+   */
+  async _withPhotoUrl(entry) {
+    return {
+      ...entry.payload,
+      photoUrl: await new VisitorPhotoService(
+        this.options,
+      ).signedUrl(entry.visitorId),
     };
+  }
 
+  /**
+   * Resolves false if the controller doesn't know the
+   * Visitors, which is what the delete wants anyway.
+   * Any other refusal rejects, so it is retried.
+   *
+   * @param {*} client
+   * @param {*} ids
+   */
+  async _deleteFromController(client: SdpClient, ids) {
+    try {
+      await this._audit('dellVistors', { orIds: ids }, () =>
+        client.deleteVisitors(ids),
+      );
 
+      return true;
+    } catch (error) {
+      if (
+        error instanceof SdpError &&
+        SdpClient.isNotFound(error.reply)
+      ) {
+        return false;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Adds back the version of the Visitor last delivered,
+   * after the new one was refused. The refusal is what
+   * the caller rejects with, so a failure here is only
+   * reported.
+   *
+   * @param {*} client
+   * @param {*} entry
+   */
+  async _restoreOnController(client: SdpClient, entry) {
+    try {
+      const previous = await SdpOutboxRepository.findLastDelivered(
+        entry.visitorId,
+        this.options,
+      );
+
+      if (previous) {
+        await this._addToController(client, [
+          await this._withPhotoUrl(previous),
+        ]);
+      }
+    } catch (error) {
+      ErrorReporter.report(error, 'SdpService', {
+        visitorId: entry.visitorId,
+      });
+    }
+  }
 }
@@ -0,0 +1,193 @@
+import Error400 from '../errors/Error400';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import SdpSettingsRepository from '../database/repositories/sdpSettingsRepository';
+import SdpOutboxRepository from '../database/repositories/sdpOutboxRepository';
+import SdpCredentialsCipher from './sdp/sdpCredentialsCipher';
+import { getConfig } from '../config';
+import lodash from 'lodash';
+
+const URL_PATTERN = /^wss?:\/\/.+/;
+
+/**
+ * Handles the SDP access controller settings of the tenant.
+ */
+export default class SdpSettingsService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Finds the settings the tenant uses, including the
+   * SDP_* config it falls back to, see findConnection.
+   * The password is never returned.
+   */
+  async find() {
+    const record = await SdpSettingsRepository.find(
+      this.options,
+    );
+
+    return this._toPublic(record);
+  }
+
+  /**
+   * Saves the settings of the tenant.
+   * An empty password keeps the current one.
+   * The pending commands are retried right away
+   * with the new settings.
+   *
+   * @param {*} data
+   */
+  async save(data) {
+    if (data.url && !URL_PATTERN.test(data.url)) {
+      throw new Error400(
+        this.options.language,
+        'sdpSettings.errors.invalidUrl',
+      );
+    }
+
+    if (data.enabled && !data.url && !getConfig().SDP_URL) {
+      throw new Error400(
+        this.options.language,
+        'sdpSettings.errors.urlRequired',
+      );
+    }
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const current = await SdpSettingsRepository.find({
+        ...this.options,
+        transaction,
+      });
+
+      // The SDP_* credentials never go to another controller
+      if (
+        data.enabled &&
+        !this._usesConfigUrl(data.url) &&
+        (!data.username ||
+          !(
+            data.password ||
+            (current && current.passwordEncrypted)
+          ))
+      ) {
+        throw new Error400(
+          this.options.language,
+          'sdpSettings.errors.credentialsRequired',
+        );
+      }
+
+      const values: any = lodash.pick(data, [
+        'enabled',
+        'url',
+        'username',
+        'areaCode',
+      ]);
+
+      if (data.password) {
+        values.passwordEncrypted = SdpCredentialsCipher.encrypt(
+          data.password,
+        );
+      }
+
+      const record = await SdpSettingsRepository.save(
+        values,
+        {
+          ...this.options,
+          transaction,
+        },
+      );
+
+      await SdpOutboxRepository.retryPendingNow({
+        ...this.options,
+        transaction,
+      });
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return this._toPublic(record);
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the connection the tenant uses. A blank URL
+   * falls back to SDP_URL, and only the controller of
+   * SDP_URL falls back to the SDP_* credentials. Tenants
+   * without settings have no controller, so they skip sync.
+   */
+  async findConnection() {
+    return this._toConnection(
+      await SdpSettingsRepository.find(this.options),
+    );
+  }
+
+  _toConnection(record) {
+    const config = getConfig();
+
+    if (!record) {
+      return {
+        enabled: false,
+        url: null,
+        username: null,
+        password: null,
+        areaCode: config.SDP_AREA_CODE,
+      };
+    }
+
+    const usesConfigUrl = this._usesConfigUrl(record.url);
+    const url = record.url || config.SDP_URL;
+
+    const username =
+      record.username ||
+      (usesConfigUrl ? config.SDP_USERNAME : null);
+
+    const password = record.passwordEncrypted
+      ? SdpCredentialsCipher.decrypt(
+          record.passwordEncrypted,
+        )
+      : usesConfigUrl
+      ? config.SDP_PASSWORD
+      : null;
+
+    return {
+      enabled: Boolean(
+        record.enabled && url && username && password,
+      ),
+      url,
+      username,
+      password,
+      areaCode: record.areaCode || config.SDP_AREA_CODE,
+    };
+  }
+
+  _usesConfigUrl(url) {
+    const configUrl = getConfig().SDP_URL;
+
+    return (
+      Boolean(configUrl) && (!url || url === configUrl)
+    );
+  }
+
+  _toPublic(record) {
+    const connection = this._toConnection(record);
+
+    return {
+      enabled: connection.enabled,
+      url: connection.url || null,
+      username: connection.username || null,
+      areaCode: connection.areaCode || null,
+      hasPassword: Boolean(connection.password),
+    };
+  }
+}
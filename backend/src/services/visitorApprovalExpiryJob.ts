@@ -0,0 +1,51 @@
+import VisitorLifecycleService from './visitorLifecycleService';
+import ErrorReporter from '../errors/ErrorReporter';
+
+const INTERVAL = 15 * 60 * 1000;
+
+/**
+ * Expires the visit requests of every tenant
+ * their host didn't answer in time.
+ */
+export default class VisitorApprovalExpiryJob {
+  database;
+  timer: NodeJS.Timeout | null = null;
+
+  constructor(database) {
+    this.database = database;
+  }
+
+  start() {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.run().catch((error) =>
+        ErrorReporter.report(
+          error,
+          'VisitorApprovalExpiryJob',
+        ),
+      );
+    }, INTERVAL);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async run() {
+    const tenants = await this.database.tenant.findAll();
+
+    for (const tenant of tenants) {
+      await new VisitorLifecycleService({
+        database: this.database,
+        currentTenant: tenant,
+        bypassPermissionValidation: true,
+      }).expireApprovals();
+    }
+  }
+}
@@ -0,0 +1,164 @@
+import PDFDocument from 'pdfkit';
+import QRCode from 'qrcode';
+import sharp from 'sharp';
+
+const PNG_WIDTH = 600;
+const PNG_HEIGHT = 960;
+const PNG_PHOTO_SIZE = 280;
+const PNG_QR_SIZE = 320;
+
+// 3.5 x 5.5 inches, in points
+const PDF_WIDTH = 252;
+const PDF_HEIGHT = 396;
+
+/**
+ * Renders printable Visitor badges.
+ *
+ * The badge is a plain object with the texts already
+ * translated: title, name, company, hostLabel, hostName,
+ * validityLabel, validity, the photo ({ contentType, data })
+ * and the token encoded in the QR code.
+ */
+export default class VisitorBadgeRenderer {
+  static async toPng(badge) {
+    const qrCode = await QRCode.toBuffer(badge.token, {
+      type: 'png',
+      margin: 1,
+      width: PNG_QR_SIZE,
+    });
+
+    const layers: Array<any> = [
+      {
+        input: qrCode,
+        top: PNG_HEIGHT - PNG_QR_SIZE - 40,
+        left: (PNG_WIDTH - PNG_QR_SIZE) / 2,
+      },
+    ];
+
+    if (badge.photo) {
+      layers.push({
+        input: await sharp(badge.photo.data)
+          .resize(PNG_PHOTO_SIZE, PNG_PHOTO_SIZE, {
+            fit: 'cover',
+          })
+          .toBuffer(),
+        top: 100,
+        left: (PNG_WIDTH - PNG_PHOTO_SIZE) / 2,
+      });
+    }
+
+    return sharp(Buffer.from(this._svg(badge)))
+      .composite(layers)
+      .png()
+      .toBuffer();
+  }
+
+  static async toPdf(badge) {
+    const qrCode = await QRCode.toBuffer(badge.token, {
+      type: 'png',
+      margin: 1,
+      width: 300,
+    });
+
+    return new Promise<Buffer>((resolve, reject) => {
+      const document = new PDFDocument({
+        size: [PDF_WIDTH, PDF_HEIGHT],
+        margin: 16,
+      });
+
+      const chunks: Array<Buffer> = [];
+      document.on('data', (chunk) => chunks.push(chunk));
+      document.on('end', () =>
+        resolve(Buffer.concat(chunks)),
+      );
+      document.on('error', reject);
+
+      const width = PDF_WIDTH - 32;
+
+      document
+        .rect(0, 0, PDF_WIDTH, 40)
+        .fill('#1e3a5f')
+        .fillColor('#ffffff')
+        .fontSize(18)
+        .text(badge.title, 16, 11, {
+          width,
+          align: 'center',
+        });
+
+      if (badge.photo) {
+        document.image(badge.photo.data, 86, 52, {
+          fit: [80, 80],
+          align: 'center',
+          valign: 'center',
+        });
+      }
+
+      document
+        .fillColor('#000000')
+        .fontSize(14)
+        .text(badge.name, 16, 140, {
+          width,
+          align: 'center',
+        })
+        .fontSize(10)
+        .text(badge.company || ' ', {
+          width,
+          align: 'center',
+        })
+        .moveDown(0.5)
+        .text(`${badge.hostLabel}: ${badge.hostName}`, {
+          width,
+          align: 'center',
+        })
+        .text(`${badge.validityLabel}: ${badge.validity}`, {
+          width,
+          align: 'center',
+        });
+
+      document.image(qrCode, 66, PDF_HEIGHT - 136, {
+        width: 120,
+      });
+
+      document.end();
+    });
+  }
+
+  static _svg(badge) {
+    const text = (y, size, value, weight = 'normal') =>
+      `<text x="${
+        PNG_WIDTH / 2
+      }" y="${y}" font-size="${size}" font-weight="${weight}" text-anchor="middle" font-family="sans-serif">${this._escape(
+        value,
+      )}</text>`;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${PNG_WIDTH}" height="${PNG_HEIGHT}">
+      <rect width="100%" height="100%" fill="#ffffff"/>
+      <rect width="100%" height="80" fill="#1e3a5f"/>
+      <text x="${
+        PNG_WIDTH / 2
+      }" y="54" font-size="36" font-weight="bold" text-anchor="middle" font-family="sans-serif" fill="#ffffff">${this._escape(
+      badge.title,
+    )}</text>
+      ${text(440, 34, badge.name, 'bold')}
+      ${text(480, 24, badge.company)}
+      ${text(
+        530,
+        22,
+        `${badge.hostLabel}: ${badge.hostName}`,
+      )}
+      ${text(
+        566,
+        22,
+        `${badge.validityLabel}: ${badge.validity}`,
+      )}
+    </svg>`;
+  }
+
+  static _escape(value) {
+    return String(value || '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
@@ -0,0 +1,236 @@
+import jwt from 'jsonwebtoken';
+import moment from 'moment';
+import Error400 from '../errors/Error400';
+import { i18n } from '../i18n';
+import { getConfig } from '../config';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import VisitorRepository from '../database/repositories/visitorRepository';
+import VisitorStatusRepository from '../database/repositories/visitorStatusRepository';
+import VisitorBadgeRenderer from './visitorBadge/visitorBadgeRenderer';
+import VisitorPhotoService from './visitorPhotoService';
+
+/**
+ * Audience of the badge tokens, so they can't
+ * be confused with the authentication tokens.
+ */
+const AUDIENCE = 'visitor-badge';
+
+const DATE_FORMAT = 'YYYY-MM-DD HH:mm';
+
+/**
+ * Statuses in which the badge is not valid.
+ */
+const CLOSED_STATUSES = [
+  'pendingApproval',
+  'rejected',
+  'expired',
+  'checkedOut',
+  'noShow',
+];
+
+/**
+ * Handles the badges of the Visitors. The QR code of the
+ * badge is a JWT signed with the auth secret, valid only
+ * during the visit window.
+ */
+export default class VisitorBadgeService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Signs the QR payload of the Visitor.
+   *
+   * @param {*} record
+   */
+  createToken(record) {
+    const tenant = SequelizeRepository.getCurrentTenant(
+      this.options,
+    );
+
+    return jwt.sign(
+      {
+        visitorId: record.id,
+        tenantId: tenant.id,
+        nbf: moment(record.startTime).unix(),
+        exp: moment(record.endTime).unix(),
+      },
+      getConfig().AUTH_JWT_SECRET,
+      { audience: AUDIENCE },
+    );
+  }
+
+  /**
+   * Renders the badge of the Visitor as PDF or PNG.
+   *
+   * @param {*} id
+   * @param {*} format
+   */
+  async render(id, format) {
+    if (!['pdf', 'png'].includes(format)) {
+      throw new Error400(
+        this.options.language,
+        'visitorBadge.errors.invalidFormat',
+      );
+    }
+
+    const record = await VisitorRepository.findById(
+      id,
+      this.options,
+    );
+
+    const visitStatus = await VisitorStatusRepository.findByVisitor(
+      record.id,
+      this.options,
+    );
+
+    if (CLOSED_STATUSES.includes(visitStatus.status)) {
+      throw new Error400(
+        this.options.language,
+        'visitorBadge.errors.visitClosed',
+      );
+    }
+
+    const photo = await new VisitorPhotoService(
+      this.options,
+    ).download(record.id);
+
+    const language = this.options.language;
+
+    const badge = {
+      title: i18n(language, 'visitorBadge.title'),
+      name: record.name,
+      company: record.company,
+      hostLabel: i18n(language, 'visitorBadge.host'),
+      hostName: this._hostName(record.host),
+      validityLabel: i18n(
+        language,
+        'visitorBadge.validity',
+      ),
+      validity: `${moment(record.startTime).format(
+        DATE_FORMAT,
+      )} - ${moment(record.endTime).format(DATE_FORMAT)}`,
+      photo,
+      token: this.createToken(record),
+    };
+
+    if (format === 'pdf') {
+      return {
+        contentType: 'application/pdf',
+        data: await VisitorBadgeRenderer.toPdf(badge),
+      };
+    }
+
+    return {
+      contentType: 'image/png',
+      data: await VisitorBadgeRenderer.toPng(badge),
+    };
+  }
+
+  /**
+   * Checks whether the scanned QR code is valid right now.
+   * Invalid codes are reported, not thrown, so reception
+   * can show why the badge was refused.
+   *
+   * @param {*} token
+   */
+  async verify(token) {
+    if (!token || typeof token !== 'string') {
+      throw new Error400(
+        this.options.language,
+        'visitorBadge.errors.tokenRequired',
+      );
+    }
+
+    let decoded;
+
+    try {
+      decoded = jwt.verify(
+        token,
+        getConfig().AUTH_JWT_SECRET,
+        { audience: AUDIENCE },
+      );
+    } catch (error) {
+      if (error.name === 'TokenExpiredError') {
+        return { valid: false, reason: 'expired' };
+      }
+
+      if (error.name === 'NotBeforeError') {
+        return { valid: false, reason: 'notYetValid' };
+      }
+
+      return { valid: false, reason: 'invalid' };
+    }
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      this.options,
+    );
+
+    if (decoded.tenantId !== tenant.id) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    const count = await VisitorRepository.count(
+      { id: decoded.visitorId },
+      this.options,
+    );
+
+    if (!count) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    const record = await VisitorRepository.findById(
+      decoded.visitorId,
+      this.options,
+    );
+
+    const visitStatus = await VisitorStatusRepository.findByVisitor(
+      record.id,
+      this.options,
+    );
+
+    const visitor = {
+      id: record.id,
+      name: record.name,
+      company: record.company,
+      hostName: this._hostName(record.host),
+      startTime: record.startTime,
+      endTime: record.endTime,
+      visitStatus: visitStatus.status,
+    };
+
+    // The visit window may have changed since the badge
+    // was printed
+    const now = moment();
+    if (
+      now.isBefore(record.startTime) ||
+      now.isAfter(record.endTime)
+    ) {
+      return {
+        valid: false,
+        reason: 'outsideVisitWindow',
+        visitor,
+      };
+    }
+
+    if (CLOSED_STATUSES.includes(visitStatus.status)) {
+      return {
+        valid: false,
+        reason: 'visitClosed',
+        visitor,
+      };
+    }
+
+    return { valid: true, visitor };
+  }
+
+  _hostName(host) {
+    if (!host) {
+      return '';
+    }
+
+    return host.fullName || host.email || '';
+  }
+}
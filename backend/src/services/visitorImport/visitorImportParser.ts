@@ -0,0 +1,95 @@
+import XLSX from 'xlsx';
+
+/**
+ * Fields of the columns, by their header
+ * lowercased and without spaces or symbols.
+ */
+const COLUMNS = {
+  name: 'name',
+  idtype: 'idType',
+  idnumber: 'idNumber',
+  gender: 'gender',
+  company: 'company',
+  phone: 'phone',
+  email: 'email',
+  starttime: 'startTime',
+  endtime: 'endTime',
+  reason: 'reason',
+  areas: 'areas',
+};
+
+const MAX_ROWS = 5000;
+
+/**
+ * Reads the Visitors of a CSV or XLSX file.
+ */
+export default class VisitorImportParser {
+  /**
+   * Returns the rows of the first sheet, numbered as
+   * in the spreadsheet, the header being row 1.
+   * Returns null if the file can't be read or has
+   * too many rows.
+   *
+   * @param {*} data
+   */
+  static parse(data: Buffer) {
+    let workbook;
+
+    try {
+      // raw keeps CSV values as text, so ID numbers
+      // keep their leading zeros
+      workbook = XLSX.read(data, {
+        type: 'buffer',
+        cellDates: true,
+        raw: true,
+      });
+    } catch (error) {
+      return null;
+    }
+
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+
+    if (!sheet) {
+      return null;
+    }
+
+    const values: Array<any> = XLSX.utils.sheet_to_json(
+      sheet,
+      {
+        defval: null,
+        raw: true,
+      },
+    );
+
+    if (values.length > MAX_ROWS) {
+      return null;
+    }
+
+    return values.map((value, index) => ({
+      row: index + 2,
+      data: this._toFields(value),
+    }));
+  }
+
+  static _toFields(value) {
+    const data = {};
+
+    for (const [header, cell] of Object.entries(value)) {
+      const field =
+        COLUMNS[
+          header.toLowerCase().replace(/[^a-z]/g, '')
+        ];
+
+      if (!field) {
+        continue;
+      }
+
+      data[field] =
+        cell instanceof Date || cell === null
+          ? cell
+          : String(cell).trim() || null;
+    }
+
+    return data;
+  }
+}
@@ -0,0 +1,430 @@
+import lodash from 'lodash';
+import moment from 'moment';
+import Sequelize from 'sequelize';
+import Error400 from '../errors/Error400';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import VisitorRepository from '../database/repositories/visitorRepository';
+import SdpVisitorMapper from './sdp/sdpVisitorMapper';
+import SdpService from './sdpService';
+import VisitorImportParser from './visitorImport/visitorImportParser';
+import SdpProvisioningService from './sdpProvisioningService';
+import WatchlistEntryRepository from '../database/repositories/watchlistEntryRepository';
+import WatchlistMatcher from './watchlist/watchlistMatcher';
+import AreaRepository from '../database/repositories/areaRepository';
+import AreaSchedule from './area/areaSchedule';
+import VisitorService from './visitorService';
+import ErrorReporter from '../errors/ErrorReporter';
+
+const Op = Sequelize.Op;
+
+const ID_TYPES = [
+  'idCard',
+  'passport',
+  'driverLicense',
+  'other',
+];
+
+const GENDERS = ['male', 'female'];
+
+const DATE_FORMATS = [
+  'YYYY-MM-DD HH:mm:ss',
+  'YYYY-MM-DD HH:mm',
+  moment.ISO_8601,
+];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Separates the area codes of the areas column.
+ */
+const AREA_SEPARATOR = /[,;]/;
+
+/**
+ * Rows created per transaction.
+ */
+const BATCH_SIZE = 100;
+
+/**
+ * Imports Visitors in bulk from CSV or XLSX files.
+ *
+ * Each row gets a list of errors ({ field, code, args }).
+ * Only rows without errors are imported.
+ */
+export default class VisitorImportService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Validates the rows of the file without importing them.
+   *
+   * @param {*} file
+   */
+  async dryRun(file: Buffer) {
+    const rows = await this._validate(this._parse(file));
+    return this._report(rows);
+  }
+
+  /**
+   * Validates the rows of the file again, and imports the
+   * valid ones in batches. The imported Visitors are
+   * added to the controller in one command shortly
+   * before their visit starts, without checking in.
+   *
+   * @param {*} file
+   */
+  async import(file: Buffer) {
+    const rows = await this._validate(this._parse(file));
+
+    const currentUser = SequelizeRepository.getCurrentUser(
+      this.options,
+    );
+
+    const records: Array<any> = [];
+
+    for (const batch of lodash.chunk(
+      rows.filter((row) => !row.errors.length),
+      BATCH_SIZE,
+    )) {
+      const transaction = await SequelizeRepository.createTransaction(
+        this.options.database,
+      );
+
+      try {
+        const created: Array<any> = [];
+
+        for (const row of batch) {
+          const record = await new VisitorService(
+            this.options,
+          ).createInTransaction(
+            {
+              ...row.data,
+              host: currentUser.id,
+              areas: row.areas.map((area) => area.id),
+            },
+            {
+              ...this.options,
+              transaction,
+            },
+          );
+
+          created.push(record);
+        }
+
+        await SequelizeRepository.commitTransaction(
+          transaction,
+        );
+
+        records.push(...created);
+      } catch (error) {
+        await SequelizeRepository.rollbackTransaction(
+          transaction,
+        );
+
+        // Reported with each row of the batch
+        for (const row of batch) {
+          row.errors.push({
+            field: null,
+            code: 'notImported',
+            args: [error.message],
+          });
+        }
+      }
+    }
+
+    return {
+      ...this._report(rows),
+      importedCount: records.length,
+      provisioningScheduled: await this._scheduleProvisioning(
+        records,
+      ),
+    };
+  }
+
+  /**
+   * Schedules the provisioning of the imported Visitors.
+   * They are already committed, so a failure is reported
+   * and returned rather than thrown.
+   *
+   * @param {*} records
+   */
+  async _scheduleProvisioning(records) {
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      await new SdpProvisioningService({
+        ...this.options,
+        transaction,
+      }).scheduleProvisioning(records);
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return true;
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      ErrorReporter.report(error, 'VisitorImportService', {
+        visitorIds: records.map((record) => record.id),
+      });
+
+      return false;
+    }
+  }
+
+  _parse(file) {
+    const rows = file
+      ? VisitorImportParser.parse(file)
+      : null;
+
+    if (!rows) {
+      throw new Error400(
+        this.options.language,
+        'visitorImport.errors.invalidFile',
+      );
+    }
+
+    if (!rows.length) {
+      throw new Error400(
+        this.options.language,
+        'visitorImport.errors.empty',
+      );
+    }
+
+    return rows;
+  }
+
+  async _validate(rows) {
+    const connection = await new SdpService(
+      this.options,
+    ).getConnection();
+
+    const watchlist = await WatchlistEntryRepository.findActive(
+      this.options,
+    );
+
+    const {
+      rows: areas,
+    } = await AreaRepository.findAndCountAll(
+      {},
+      this.options,
+    );
+
+    const areasByCode = new Map<string, any>();
+    for (const area of areas) {
+      areasByCode.set(
+        area.code.toLowerCase(),
+        area.get({ plain: true }),
+      );
+    }
+
+    // Row of the first occurrence of each ID document
+    const documents = new Map<string, number>();
+
+    for (const row of rows) {
+      const { data } = row;
+      const errors: Array<any> = [];
+
+      for (const field of ['name', 'idType', 'idNumber']) {
+        if (!data[field]) {
+          errors.push({ field, code: 'required' });
+        }
+      }
+
+      if (data.idType && !ID_TYPES.includes(data.idType)) {
+        errors.push({ field: 'idType', code: 'invalid' });
+      }
+
+      if (data.gender && !GENDERS.includes(data.gender)) {
+        errors.push({ field: 'gender', code: 'invalid' });
+      }
+
+      if (data.email && !EMAIL_PATTERN.test(data.email)) {
+        errors.push({ field: 'email', code: 'invalid' });
+      }
+
+      const startTime = this._date(data.startTime);
+      const endTime = this._date(data.endTime);
+
+      const dates = { startTime, endTime };
+
+      for (const field of Object.keys(dates)) {
+        if (!data[field]) {
+          errors.push({ field, code: 'required' });
+        } else if (!dates[field]) {
+          errors.push({ field, code: 'invalid' });
+        }
+      }
+
+      if (startTime && endTime) {
+        if (!endTime.isAfter(startTime)) {
+          errors.push({
+            field: 'endTime',
+            code: 'beforeStartTime',
+          });
+        } else if (!endTime.isAfter(moment())) {
+          errors.push({ field: 'endTime', code: 'past' });
+        }
+
+        data.startTime = startTime.toDate();
+        data.endTime = endTime.toDate();
+      }
+
+      row.areas = [];
+      for (const code of this._areaCodes(data.areas)) {
+        const area = areasByCode.get(code.toLowerCase());
+
+        if (!area) {
+          errors.push({
+            field: 'areas',
+            code: 'invalid',
+            args: [code],
+          });
+        } else if (
+          startTime &&
+          endTime &&
+          !AreaSchedule.allows(area, startTime, endTime)
+        ) {
+          errors.push({
+            field: 'areas',
+            code: 'outsideSchedule',
+            args: [area.name],
+          });
+        } else if (!row.areas.includes(area)) {
+          row.areas.push(area);
+        }
+      }
+
+      if (data.idType && data.idNumber) {
+        const key = `${
+          data.idType
+        }:${data.idNumber.toLowerCase()}`;
+
+        if (documents.has(key)) {
+          errors.push({
+            field: 'idNumber',
+            code: 'duplicateInFile',
+            args: [documents.get(key)],
+          });
+        } else {
+          documents.set(key, row.row);
+
+          if (
+            startTime &&
+            endTime &&
+            (await this._isAlreadyExpected(data))
+          ) {
+            errors.push({
+              field: 'idNumber',
+              code: 'duplicateExisting',
+            });
+          }
+        }
+      }
+
+      // Imported Visitors get access without passing
+      // reception, so even fuzzy matches must go
+      // through a reviewed single create
+      const matches = WatchlistMatcher.match(
+        data,
+        watchlist,
+      );
+      if (matches.length) {
+        errors.push({
+          field: null,
+          code: matches.some(
+            (match) => match.type === 'exact',
+          )
+            ? 'watchlisted'
+            : 'watchlistReview',
+        });
+      }
+
+      // What the controller would reject, so the
+      // batched add isn't refused as a whole
+      if (!errors.length && connection.enabled) {
+        try {
+          SdpVisitorMapper.toSdpVisitor(
+            data,
+            this.options.language,
+            connection.areaCode,
+            row.areas,
+          );
+        } catch (error) {
+          errors.push({
+            field: null,
+            code: 'sdp',
+            args: [error.message],
+          });
+        }
+      }
+
+      row.errors = errors;
+    }
+
+    return rows;
+  }
+
+  /**
+   * Whether the ID document already has a
+   * Visitor in an overlapping visit window.
+   *
+   * @param {*} data
+   */
+  async _isAlreadyExpected(data) {
+    const count = await VisitorRepository.count(
+      {
+        idType: data.idType,
+        idNumber: data.idNumber,
+        startTime: { [Op.lt]: data.endTime },
+        endTime: { [Op.gt]: data.startTime },
+      },
+      this.options,
+    );
+
+    return count > 0;
+  }
+
+  _areaCodes(value) {
+    if (!value) {
+      return [];
+    }
+
+    return String(value)
+      .split(AREA_SEPARATOR)
+      .map((code) => code.trim())
+      .filter(Boolean);
+  }
+
+  _date(value) {
+    if (!value) {
+      return null;
+    }
+
+    const date =
+      value instanceof Date
+        ? moment(value)
+        : moment(value, DATE_FORMATS, true);
+
+    return date.isValid() ? date : null;
+  }
+
+  _report(rows) {
+    const invalidCount = rows.filter(
+      (row) => row.errors.length,
+    ).length;
+
+    return {
+      rows,
+      validCount: rows.length - invalidCount,
+      invalidCount,
+    };
+  }
+}
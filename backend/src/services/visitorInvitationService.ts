@@ -0,0 +1,277 @@
+import moment from 'moment';
+import lodash from 'lodash';
+import Error400 from '../errors/Error400';
+import EmailSender from './emailSender';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import TenantRepository from '../database/repositories/tenantRepository';
+import VisitorInvitationRepository from '../database/repositories/visitorInvitationRepository';
+import VisitorPhotoService from './visitorPhotoService';
+import VisitorService from './visitorService';
+import { tenantSubdomain } from './tenantSubdomain';
+
+/**
+ * Handles the invitations hosts send to visitors,
+ * and the pre-registration of the invited visitors.
+ */
+export default class VisitorInvitationService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Invites a visitor by email, with the current
+   * user as host. The link is valid until the
+   * end of the visit window. The invitation is
+   * removed again if the email can't be sent.
+   *
+   * @param {*} data
+   */
+  async invite(data) {
+    if (!EmailSender.isConfigured) {
+      throw new Error400(
+        this.options.language,
+        'email.error',
+      );
+    }
+
+    const startTime = moment(data.startTime);
+    const endTime = moment(data.endTime);
+
+    if (
+      !startTime.isValid() ||
+      !endTime.isValid() ||
+      !endTime.isAfter(startTime) ||
+      !endTime.isAfter(moment())
+    ) {
+      throw new Error400(
+        this.options.language,
+        'visitorInvitation.errors.invalidWindow',
+      );
+    }
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    let invitation;
+    let link;
+
+    try {
+      invitation = await VisitorInvitationRepository.create(
+        {
+          ...data,
+          tokenExpiresAt: endTime.toDate(),
+        },
+        {
+          ...this.options,
+          transaction,
+        },
+      );
+
+      const tenant = await TenantRepository.findById(
+        invitation.tenantId,
+        {
+          ...this.options,
+          transaction,
+        },
+      );
+
+      link = `${tenantSubdomain.frontendUrl(
+        tenant,
+      )}/visitor-registration?token=${invitation.token}`;
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+
+    const currentUser = SequelizeRepository.getCurrentUser(
+      this.options,
+    );
+
+    try {
+      await new EmailSender(
+        EmailSender.TEMPLATES.VISITOR_INVITATION,
+        {
+          link,
+          hostName:
+            currentUser.fullName || currentUser.email,
+          startTime: startTime.format('YYYY-MM-DD HH:mm'),
+          endTime: endTime.format('YYYY-MM-DD HH:mm'),
+        },
+      ).sendTo(invitation.email);
+    } catch (error) {
+      await VisitorInvitationRepository.destroy(
+        invitation.id,
+        this.options,
+      );
+
+      throw error;
+    }
+
+    return lodash.pick(invitation, [
+      'id',
+      'email',
+      'startTime',
+      'endTime',
+      'reason',
+    ]);
+  }
+
+  /**
+   * Finds what the pre-registration form shows
+   * about the invitation of the token.
+   *
+   * @param {*} token
+   */
+  async findByToken(token) {
+    const invitation = await this._findByToken(
+      token,
+      this.options,
+    );
+
+    return {
+      email: invitation.email,
+      startTime: invitation.startTime,
+      endTime: invitation.endTime,
+      reason: invitation.reason,
+      hostName: invitation.host
+        ? invitation.host.fullName || invitation.host.email
+        : null,
+      tenantName: invitation.tenant
+        ? invitation.tenant.name
+        : null,
+    };
+  }
+
+  /**
+   * Creates the Visitor of the invitation, with the
+   * host already attached. No account is needed.
+   *
+   * @param {*} token
+   * @param {*} data
+   */
+  async register(token, data) {
+    const { tenant } = await this._findByToken(
+      token,
+      this.options,
+    );
+
+    const photoService = new VisitorPhotoService({
+      ...this.options,
+      currentTenant: tenant,
+    });
+
+    // Stored before the transaction, which only attaches it
+    const stored = data.photo
+      ? await photoService.store(data.photo)
+      : null;
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const invitation = await this._findByToken(token, {
+        ...this.options,
+        transaction,
+      });
+
+      const options = {
+        ...this.options,
+        currentTenant: invitation.tenant,
+        bypassPermissionValidation: true,
+        transaction,
+      };
+
+      const record = await new VisitorService(
+        options,
+      ).createInTransaction(
+        {
+          ...lodash.pick(data, [
+            'name',
+            'idType',
+            'idNumber',
+            'gender',
+            'company',
+            'phone',
+          ]),
+          email: invitation.email,
+          startTime: invitation.startTime,
+          endTime: invitation.endTime,
+          reason: invitation.reason,
+          host: invitation.hostId,
+        },
+        options,
+      );
+
+      // Another registration with the token may
+      // have been committed since it was found
+      if (
+        !(await VisitorInvitationRepository.markRegistered(
+          invitation.id,
+          record.id,
+          options,
+        ))
+      ) {
+        throw new Error400(
+          this.options.language,
+          'visitorInvitation.errors.invalidToken',
+        );
+      }
+
+      if (stored) {
+        await new VisitorPhotoService(options).attach(
+          record.id,
+          stored,
+        );
+      }
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return { id: record.id };
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      if (stored) {
+        await photoService.remove(stored.privateUrl);
+      }
+
+      SequelizeRepository.handleUniqueFieldError(
+        error,
+        this.options.language,
+        'visitor',
+      );
+
+      throw error;
+    }
+  }
+
+  async _findByToken(token, options) {
+    const invitation = await VisitorInvitationRepository.findByToken(
+      token,
+      options,
+    );
+
+    if (!invitation) {
+      throw new Error400(
+        this.options.language,
+        'visitorInvitation.errors.invalidToken',
+      );
+    }
+
+    return invitation;
+  }
+}
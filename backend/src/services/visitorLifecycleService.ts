@@ -0,0 +1,608 @@
+import moment from 'moment';
+import Error400 from '../errors/Error400';
+import Error403 from '../errors/Error403';
+import EmailSender from './emailSender';
+import { getConfig } from '../config';
+import { tenantSubdomain } from './tenantSubdomain';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import TenantRepository from '../database/repositories/tenantRepository';
+import VisitorRepository from '../database/repositories/visitorRepository';
+import VisitorStatusRepository from '../database/repositories/visitorStatusRepository';
+import SdpService from './sdpService';
+import VisitorScreeningService from './visitorScreeningService';
+import AreaService from './areaService';
+import SdpProvisioningService from './sdpProvisioningService';
+import AuditTrailService from './auditTrailService';
+
+/**
+ * Statuses each status can be reached from.
+ */
+const TRANSITIONS = {
+  pendingApproval: [
+    'pendingApproval',
+    'expected',
+    'expired',
+  ],
+  expected: ['pendingApproval'],
+  rejected: ['pendingApproval'],
+  expired: ['pendingApproval'],
+  checkedIn: ['expected'],
+  onSite: ['checkedIn'],
+  checkedOut: ['checkedIn', 'onSite'],
+  noShow: ['expected'],
+};
+
+const TIMESTAMPS = {
+  pendingApproval: 'approvalRequestedAt',
+  expected: 'approvedAt',
+  rejected: 'rejectedAt',
+  expired: 'expiredAt',
+  checkedIn: 'checkedInAt',
+  onSite: 'onSiteAt',
+  checkedOut: 'checkedOutAt',
+  noShow: 'noShowAt',
+};
+
+/**
+ * Statuses in which the Visitor has access on the controller.
+ */
+const ACCESS_STATUSES = ['checkedIn', 'onSite'];
+
+/**
+ * Hours the host has to answer a visit request,
+ * unless the visit starts earlier.
+ */
+const DEFAULT_APPROVAL_EXPIRES_IN_HOURS = 48;
+
+/**
+ * Days after the visit window the Visitor can still be
+ * marked as no-show, covering the job not running for
+ * a while. Older visits are left as they are.
+ */
+const NO_SHOW_WINDOW_DAYS = 7;
+
+/**
+ * Handles the visit of a Visitor: host approval, check
+ * in, on site, check out and no-show. The access
+ * controller only knows the Visitor while checked in
+ * or on site, or once an imported visit is provisioned
+ * ahead of it, which leaves the Visitor expected.
+ */
+export default class VisitorLifecycleService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Whether a Visitor with that visit status has access.
+   *
+   * @param {*} visitStatus
+   */
+  static hasAccess(visitStatus) {
+    return (
+      ACCESS_STATUSES.includes(visitStatus.status) ||
+      Boolean(visitStatus.provisionedAt)
+    );
+  }
+
+  /**
+   * Finds the ids of the Visitors who have access.
+   *
+   * @param {*} options
+   */
+  static async findVisitorIdsWithAccess(options) {
+    return VisitorStatusRepository.findVisitorIdsByStatusOrProvisioned(
+      ACCESS_STATUSES,
+      options,
+    );
+  }
+
+  /**
+   * Puts the visit on hold until its host approves it,
+   * in the transaction of the options. Unanswered
+   * requests expire when the visit starts or after
+   * VISITOR_APPROVAL_EXPIRES_IN_HOURS, if earlier.
+   * The host is notified once the transaction is
+   * committed, with notifyApprovalRequested.
+   *
+   * @param {*} record
+   * @param {*} options
+   */
+  async requestApproval(record, options) {
+    const hours =
+      Number(
+        getConfig().VISITOR_APPROVAL_EXPIRES_IN_HOURS,
+      ) || DEFAULT_APPROVAL_EXPIRES_IN_HOURS;
+
+    const approvalExpiresAt = moment.min(
+      moment().add(hours, 'hours'),
+      moment(record.startTime),
+    );
+
+    return this._transition(
+      record.id,
+      'pendingApproval',
+      options,
+      {
+        approvalExpiresAt: approvalExpiresAt.toDate(),
+        approvalComment: null,
+      },
+    );
+  }
+
+  /**
+   * Approves the visit. Only its host can.
+   *
+   * @param {*} id
+   * @param {*} comment
+   */
+  async approve(id, comment) {
+    return this._decide(id, 'expected', comment);
+  }
+
+  /**
+   * Rejects the visit. Only its host can.
+   *
+   * @param {*} id
+   * @param {*} comment
+   */
+  async reject(id, comment) {
+    return this._decide(id, 'rejected', comment);
+  }
+
+  /**
+   * Expires the visit requests nobody answered in time.
+   */
+  async expireApprovals() {
+    const ids = await VisitorStatusRepository.findExpiredApprovalVisitorIds(
+      new Date(),
+      this.options,
+    );
+
+    for (const id of ids) {
+      await this._transition(id, 'expired', this.options);
+    }
+
+    return ids.length;
+  }
+
+  /**
+   * Checks in the Visitor and grants the access.
+   * Only possible within the visit window, if the
+   * watchlist screening clears the Visitor and its
+   * areas aren't at capacity. The access is revoked
+   * when the visit window ends.
+   *
+   * @param {*} id
+   * @param {*} [values] Status fields saved with it, e.g. siteRulesAcceptedAt
+   */
+  async checkIn(id, values = {}) {
+    // Screened outside the transaction, so a new
+    // flag is kept when the check in is refused
+    const screeningService = new VisitorScreeningService(
+      this.options,
+    );
+
+    screeningService.assertCleared(
+      await screeningService.screen(
+        await VisitorRepository.findById(id, this.options),
+      ),
+    );
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const options = { ...this.options, transaction };
+
+      const record = await VisitorRepository.findById(
+        id,
+        options,
+      );
+
+      const now = moment();
+
+      if (
+        now.isBefore(record.startTime) ||
+        now.isAfter(record.endTime)
+      ) {
+        throw new Error400(
+          this.options.language,
+          'visitor.errors.outsideVisitWindow',
+        );
+      }
+
+      await new AreaService(options).validateCapacity(
+        record,
+      );
+
+      const current = await VisitorStatusRepository.findByVisitor(
+        record.id,
+        options,
+      );
+
+      const visitStatus = await this._transition(
+        record.id,
+        'checkedIn',
+        options,
+        { ...values, provisionedAt: null },
+      );
+
+      // Imported Visitors may already be on the controller
+      if (current.provisionedAt) {
+        await new SdpService(options).updateVisitor(record);
+      } else {
+        await new SdpService(options).addVisitor(record);
+      }
+
+      await new AuditTrailService(options).logVisitor(
+        'checkIn',
+        record.id,
+        { status: current.status },
+        { status: visitStatus.status },
+      );
+
+      await new SdpProvisioningService(
+        options,
+      ).scheduleRevocation(record);
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return { ...record, visitStatus };
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Emails the host that the Visitor arrived.
+   * Skipped when no email sender is configured.
+   *
+   * @param {*} record
+   */
+  async notifyHostOfArrival(record) {
+    const host = record.host;
+
+    if (
+      !EmailSender.isConfigured ||
+      !host ||
+      typeof host !== 'object' ||
+      !host.email
+    ) {
+      return;
+    }
+
+    const tenant = await TenantRepository.findById(
+      SequelizeRepository.getCurrentTenant(this.options).id,
+      this.options,
+    );
+
+    await new EmailSender(
+      EmailSender.TEMPLATES.VISITOR_ARRIVED,
+      {
+        link: `${tenantSubdomain.frontendUrl(
+          tenant,
+        )}/visitor/${record.id}`,
+        visitorName: record.name,
+        company: record.company || '',
+        checkedInAt: moment().format('YYYY-MM-DD HH:mm'),
+      },
+    ).sendTo(host.email);
+  }
+
+  /**
+   * Grants imported Visitors, which don't pass reception,
+   * the access in one controller command. Run by the
+   * provisioning schedule shortly before their visit
+   * starts. They stay expected, so they aren't counted
+   * as present and still become no-shows.
+   *
+   * @param {*} records
+   */
+  async provisionImported(records) {
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const options = { ...this.options, transaction };
+
+      for (const record of records) {
+        await VisitorStatusRepository.save(
+          record.id,
+          { provisionedAt: new Date() },
+          options,
+        );
+      }
+
+      await new SdpService(options).addVisitors(records);
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Checks out the Visitor and revokes the access.
+   *
+   * @param {*} id
+   */
+  async checkOut(id) {
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const options = { ...this.options, transaction };
+
+      const record = await VisitorRepository.findById(
+        id,
+        options,
+      );
+
+      const visitStatus = await this.revokeAccess(
+        record,
+        options,
+      );
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return { ...record, visitStatus };
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Checks out the Visitor in the transaction of
+   * the options, and revokes the access. Visitors
+   * provisioned without checking in keep their status.
+   *
+   * @param {*} record
+   * @param {*} options
+   */
+  async revokeAccess(record, options) {
+    const current = await VisitorStatusRepository.findByVisitor(
+      record.id,
+      options,
+    );
+
+    const visitStatus =
+      current.provisionedAt &&
+      !ACCESS_STATUSES.includes(current.status)
+        ? await VisitorStatusRepository.save(
+            record.id,
+            { provisionedAt: null },
+            options,
+          )
+        : await this._transition(
+            record.id,
+            'checkedOut',
+            options,
+            { provisionedAt: null },
+          );
+
+    await new AuditTrailService(options).logVisitor(
+      visitStatus.status === 'checkedOut'
+        ? 'checkOut'
+        : 'revokeAccess',
+      record.id,
+      { status: current.status },
+      { status: visitStatus.status },
+    );
+
+    await new SdpService(options).deleteVisitors([
+      record.id,
+    ]);
+
+    await new SdpProvisioningService(
+      options,
+    ).completeRevocation([record.id]);
+
+    return visitStatus;
+  }
+
+  /**
+   * Marks a checked in Visitor as on site, after its
+   * first door pass. Other statuses are left as they are.
+   *
+   * @param {*} id
+   */
+  async markOnSite(id) {
+    const current = await VisitorStatusRepository.findByVisitor(
+      id,
+      this.options,
+    );
+
+    if (current.status !== 'checkedIn') {
+      return;
+    }
+
+    await this._transition(id, 'onSite', this.options);
+  }
+
+  /**
+   * Marks the expected Visitors whose visit window
+   * ended in the last NO_SHOW_WINDOW_DAYS as no-shows.
+   */
+  async markNoShows() {
+    const {
+      rows,
+    } = await VisitorRepository.findAndCountAll(
+      {
+        filter: {
+          endTimeRange: [
+            moment()
+              .subtract(NO_SHOW_WINDOW_DAYS, 'days')
+              .toDate(),
+            new Date(),
+          ],
+        },
+      },
+      this.options,
+    );
+
+    const statuses = await VisitorStatusRepository.findByVisitors(
+      rows.map((record) => record.id),
+      this.options,
+    );
+
+    let count = 0;
+
+    for (const record of rows) {
+      if (
+        statuses[record.id].status === 'expected' &&
+        moment().isAfter(record.endTime)
+      ) {
+        await this._transition(
+          record.id,
+          'noShow',
+          this.options,
+        );
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  async _decide(id, status, comment) {
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const options = { ...this.options, transaction };
+
+      const record = await VisitorRepository.findById(
+        id,
+        options,
+      );
+
+      const currentUser = SequelizeRepository.getCurrentUser(
+        options,
+      );
+
+      const hostId =
+        record.host && typeof record.host === 'object'
+          ? record.host.id
+          : record.host || record.hostId;
+
+      if (hostId !== currentUser.id) {
+        throw new Error403(this.options.language);
+      }
+
+      const visitStatus = await this._transition(
+        record.id,
+        status,
+        options,
+        {
+          approvalComment: comment || null,
+        },
+      );
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return { ...record, visitStatus };
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  /**
+   * Emails the host a link to the visit request.
+   * Skipped when no email sender is configured.
+   *
+   * @param {*} record
+   */
+  async notifyApprovalRequested(record) {
+    const host = record.host;
+
+    if (
+      !EmailSender.isConfigured ||
+      !host ||
+      typeof host !== 'object' ||
+      !host.email
+    ) {
+      return;
+    }
+
+    const tenant = await TenantRepository.findById(
+      SequelizeRepository.getCurrentTenant(this.options).id,
+      this.options,
+    );
+
+    await new EmailSender(
+      EmailSender.TEMPLATES.VISITOR_APPROVAL_REQUEST,
+      {
+        link: `${tenantSubdomain.frontendUrl(
+          tenant,
+        )}/visitor/${record.id}`,
+        visitorName: record.name,
+        startTime: moment(record.startTime).format(
+          'YYYY-MM-DD HH:mm',
+        ),
+        endTime: moment(record.endTime).format(
+          'YYYY-MM-DD HH:mm',
+        ),
+      },
+    ).sendTo(host.email);
+  }
+
+  async _transition(
+    visitorId,
+    status,
+    options,
+    values = {},
+  ) {
+    const current = await VisitorStatusRepository.findByVisitor(
+      visitorId,
+      options,
+    );
+
+    if (!TRANSITIONS[status].includes(current.status)) {
+      throw new Error400(
+        this.options.language,
+        `visitor.errors.cannotBecome.${status}`,
+      );
+    }
+
+    return VisitorStatusRepository.save(
+      visitorId,
+      {
+        ...values,
+        status,
+        [TIMESTAMPS[status]]: new Date(),
+      },
+      options,
+    );
+  }
+}
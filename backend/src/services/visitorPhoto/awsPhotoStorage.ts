@@ -0,0 +1,55 @@
+import aws from 'aws-sdk';
+import { getConfig } from '../../config';
+
+/**
+ * Keeps the Visitor photos on an Amazon S3 bucket.
+ */
+export default class AwsPhotoStorage {
+  static async save(privateUrl, data, contentType) {
+    await this._s3()
+      .putObject({
+        Bucket: getConfig().FILE_STORAGE_BUCKET,
+        Key: privateUrl,
+        Body: data,
+        ContentType: contentType,
+      })
+      .promise();
+  }
+
+  static async download(privateUrl) {
+    const object = await this._s3()
+      .getObject({
+        Bucket: getConfig().FILE_STORAGE_BUCKET,
+        Key: privateUrl,
+      })
+      .promise();
+
+    return object.Body as Buffer;
+  }
+
+  static async remove(privateUrl) {
+    await this._s3()
+      .deleteObject({
+        Bucket: getConfig().FILE_STORAGE_BUCKET,
+        Key: privateUrl,
+      })
+      .promise();
+  }
+
+  static async signedUrl(privateUrl, expiresInSeconds) {
+    return this._s3().getSignedUrlPromise('getObject', {
+      Bucket: getConfig().FILE_STORAGE_BUCKET,
+      Key: privateUrl,
+      Expires: expiresInSeconds,
+    });
+  }
+
+  static _s3() {
+    return new aws.S3({
+      accessKeyId: getConfig().AWS_ACCESS_KEY_ID,
+      secretAccessKey: getConfig().AWS_SECRET_ACCESS_KEY,
+      region: getConfig().AWS_REGION,
+      signatureVersion: 'v4',
+    });
+  }
+}
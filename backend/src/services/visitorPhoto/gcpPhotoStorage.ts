@@ -0,0 +1,46 @@
+import { Storage } from '@google-cloud/storage';
+import { getConfig } from '../../config';
+
+/**
+ * Keeps the Visitor photos on a Google Cloud Storage bucket.
+ */
+export default class GcpPhotoStorage {
+  static async save(privateUrl, data, contentType) {
+    await this._file(privateUrl).save(data, {
+      contentType,
+      resumable: false,
+    });
+  }
+
+  static async download(privateUrl) {
+    const [data] = await this._file(privateUrl).download();
+    return data;
+  }
+
+  static async remove(privateUrl) {
+    await this._file(privateUrl).delete();
+  }
+
+  static async signedUrl(privateUrl, expiresInSeconds) {
+    const [url] = await this._file(privateUrl).getSignedUrl(
+      {
+        action: 'read',
+        expires: Date.now() + expiresInSeconds * 1000,
+      },
+    );
+
+    return url;
+  }
+
+  static _file(privateUrl) {
+    const storage = new Storage({
+      credentials: JSON.parse(
+        getConfig().GOOGLE_CLOUD_PLATFORM_CREDENTIALS,
+      ),
+    });
+
+    return storage
+      .bucket(getConfig().FILE_STORAGE_BUCKET)
+      .file(privateUrl);
+  }
+}
@@ -0,0 +1,80 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import jwt from 'jsonwebtoken';
+import { getConfig } from '../../config';
+
+/**
+ * Audience of the download tokens of the
+ * local storage, so they can't be confused
+ * with other tokens signed with the auth secret.
+ */
+const AUDIENCE = 'visitor-photo';
+
+/**
+ * Keeps the Visitor photos on the local disk, for development.
+ * Signed URLs point to the public visitor-photo endpoint.
+ */
+export default class LocalhostPhotoStorage {
+  static async save(privateUrl, data, contentType) {
+    const filePath = this._path(privateUrl);
+    await fs.promises.mkdir(path.dirname(filePath), {
+      recursive: true,
+    });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  static async download(privateUrl) {
+    return fs.promises.readFile(this._path(privateUrl));
+  }
+
+  static async remove(privateUrl) {
+    await fs.promises.unlink(this._path(privateUrl));
+  }
+
+  static async signedUrl(privateUrl, expiresInSeconds) {
+    const token = jwt.sign(
+      { privateUrl },
+      getConfig().AUTH_JWT_SECRET,
+      {
+        audience: AUDIENCE,
+        expiresIn: expiresInSeconds,
+      },
+    );
+
+    return `${
+      getConfig().BACKEND_URL
+    }/visitor-photo?token=${token}`;
+  }
+
+  /**
+   * Returns the private URL of a token of signedUrl,
+   * or null if the token is invalid or expired.
+   *
+   * @param {*} token
+   */
+  static verifyToken(token) {
+    try {
+      const decoded: any = jwt.verify(
+        token,
+        getConfig().AUTH_JWT_SECRET,
+        { audience: AUDIENCE },
+      );
+
+      return decoded.privateUrl;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  static _path(privateUrl) {
+    const root = path.join(os.tmpdir(), 'visitorPhotos');
+    const filePath = path.join(root, privateUrl);
+
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid private URL: ${privateUrl}`);
+    }
+
+    return filePath;
+  }
+}
@@ -0,0 +1,56 @@
+import sharp from 'sharp';
+
+const WIDTH = 480;
+const HEIGHT = 640;
+
+const MIN_WIDTH = 120;
+const MIN_HEIGHT = 160;
+
+/**
+ * Turns uploaded photos into the portrait JPEGs the
+ * face-recognition terminals expect.
+ */
+export default class VisitorPhotoNormalizer {
+  /**
+   * Rotates the photo as taken, crops it to 3:4 around the
+   * most salient region (usually the face) and resizes it
+   * to 480x640. The metadata is dropped.
+   *
+   * Returns null if the photo can't be read
+   * or is too small to recognize a face.
+   *
+   * @param {*} data
+   */
+  static async normalize(data: Buffer) {
+    let image;
+    let metadata;
+
+    try {
+      image = sharp(data).rotate();
+      metadata = await image.metadata();
+    } catch (error) {
+      return null;
+    }
+
+    // EXIF orientations 5 to 8 swap width and height
+    const rotated = (metadata.orientation || 1) >= 5;
+    const width = rotated
+      ? metadata.height
+      : metadata.width;
+    const height = rotated
+      ? metadata.width
+      : metadata.height;
+
+    if (width < MIN_WIDTH || height < MIN_HEIGHT) {
+      return null;
+    }
+
+    return image
+      .resize(WIDTH, HEIGHT, {
+        fit: 'cover',
+        position: sharp.strategy.attention,
+      })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+  }
+}
@@ -0,0 +1,22 @@
+import { getConfig } from '../../config';
+import LocalhostPhotoStorage from './localhostPhotoStorage';
+import GcpPhotoStorage from './gcpPhotoStorage';
+import AwsPhotoStorage from './awsPhotoStorage';
+
+/**
+ * Returns the storage of the Visitor photos, following
+ * the FILE_STORAGE_PROVIDER of the other files.
+ */
+export default function visitorPhotoStorage() {
+  const provider = getConfig().FILE_STORAGE_PROVIDER;
+
+  if (provider === 'gcp') {
+    return GcpPhotoStorage;
+  }
+
+  if (provider === 'aws') {
+    return AwsPhotoStorage;
+  }
+
+  return LocalhostPhotoStorage;
+}
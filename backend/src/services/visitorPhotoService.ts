@@ -0,0 +1,180 @@
+import Error400 from '../errors/Error400';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import VisitorPhotoRepository from '../database/repositories/visitorPhotoRepository';
+import VisitorPhotoNormalizer from './visitorPhoto/visitorPhotoNormalizer';
+import visitorPhotoStorage from './visitorPhoto/visitorPhotoStorage';
+import ErrorReporter from '../errors/ErrorReporter';
+import crypto from 'crypto';
+
+const DATA_URL_PATTERN = /^data:(image\/(?:jpeg|png));base64,(.+)$/;
+
+const MAX_SIZE_IN_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Long enough for the controller to fetch the photo
+ * after the visitor is added, retries included.
+ */
+const SIGNED_URL_EXPIRES_IN_SECONDS = 24 * 60 * 60;
+
+/**
+ * Handles the photos of the Visitors.
+ */
+export default class VisitorPhotoService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Stores a JPEG or PNG photo sent as a data URL,
+   * either uploaded or captured by a webcam, under a
+   * new key. Called before the transaction that
+   * attaches it, so the current photo is kept until
+   * that commits.
+   *
+   * @param {*} dataUrl
+   */
+  async store(dataUrl) {
+    const match = DATA_URL_PATTERN.exec(dataUrl || '');
+
+    if (!match) {
+      throw new Error400(
+        this.options.language,
+        'visitor.errors.photoInvalid',
+      );
+    }
+
+    const original = Buffer.from(match[2], 'base64');
+
+    if (original.length > MAX_SIZE_IN_BYTES) {
+      throw new Error400(
+        this.options.language,
+        'visitor.errors.photoTooLarge',
+      );
+    }
+
+    const data = await VisitorPhotoNormalizer.normalize(
+      original,
+    );
+
+    if (!data) {
+      throw new Error400(
+        this.options.language,
+        'visitor.errors.photoInvalid',
+      );
+    }
+
+    const tenant = SequelizeRepository.getCurrentTenant(
+      this.options,
+    );
+
+    const privateUrl = `tenant/${
+      tenant.id
+    }/visitorPhoto/${crypto
+      .randomBytes(16)
+      .toString('hex')}.jpg`;
+
+    await visitorPhotoStorage().save(
+      privateUrl,
+      data,
+      'image/jpeg',
+    );
+
+    return {
+      contentType: 'image/jpeg',
+      privateUrl,
+      sizeInBytes: data.length,
+    };
+  }
+
+  /**
+   * Makes a stored photo the one of the Visitor.
+   * Resolves with the private URL of the photo it
+   * replaces, to be removed after the commit.
+   *
+   * @param {*} visitorId
+   * @param {*} photo What store resolved with
+   */
+  async attach(visitorId, photo) {
+    const current = await VisitorPhotoRepository.findByVisitor(
+      visitorId,
+      this.options,
+    );
+
+    await VisitorPhotoRepository.save(
+      visitorId,
+      photo,
+      this.options,
+    );
+
+    return current ? current.privateUrl : null;
+  }
+
+  /**
+   * Removes a stored photo no Visitor uses. A file
+   * left behind does no harm, so failures are
+   * only reported.
+   *
+   * @param {*} privateUrl
+   */
+  async remove(privateUrl) {
+    if (!privateUrl) {
+      return;
+    }
+
+    try {
+      await visitorPhotoStorage().remove(privateUrl);
+    } catch (error) {
+      ErrorReporter.report(error, 'VisitorPhotoService', {
+        privateUrl,
+      });
+    }
+  }
+
+  /**
+   * Returns the photo of the Visitor, or null if it has none.
+   *
+   * @param {*} visitorId
+   */
+  async download(visitorId) {
+    const photo = await VisitorPhotoRepository.findByVisitor(
+      visitorId,
+      this.options,
+    );
+
+    if (!photo) {
+      return null;
+    }
+
+    return {
+      contentType: photo.contentType,
+      data: await visitorPhotoStorage().download(
+        photo.privateUrl,
+      ),
+    };
+  }
+
+  /**
+   * Returns a time-limited URL of the photo of the
+   * Visitor, that needs no authentication, or an
+   * empty string if it has none.
+   *
+   * @param {*} visitorId
+   */
+  async signedUrl(visitorId) {
+    const photo = await VisitorPhotoRepository.findByVisitor(
+      visitorId,
+      this.options,
+    );
+
+    if (!photo) {
+      return '';
+    }
+
+    return visitorPhotoStorage().signedUrl(
+      photo.privateUrl,
+      SIGNED_URL_EXPIRES_IN_SECONDS,
+    );
+  }
+}
@@ -0,0 +1,255 @@
+import Error400 from '../errors/Error400';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import VisitorRepository from '../database/repositories/visitorRepository';
+import VisitorScreeningRepository from '../database/repositories/visitorScreeningRepository';
+import WatchlistEntryRepository from '../database/repositories/watchlistEntryRepository';
+import WatchlistMatcher from './watchlist/watchlistMatcher';
+import VisitorLifecycleService from './visitorLifecycleService';
+import SdpService from './sdpService';
+
+/**
+ * Statuses in which the Visitor may get access.
+ */
+const CLEARED_STATUSES = ['clear', 'approved'];
+
+/**
+ * Screens the Visitors against the watchlist of the tenant.
+ *
+ * Exact matches are rejected. Fuzzy matches flag the
+ * Visitor, who can't get access until security approves.
+ */
+export default class VisitorScreeningService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  /**
+   * Whether a Visitor with that screening may get access.
+   * Visitors screened before the watchlist existed may.
+   *
+   * @param {*} screening
+   */
+  static isCleared(screening) {
+    return (
+      !screening ||
+      CLEARED_STATUSES.includes(screening.status)
+    );
+  }
+
+  /**
+   * Screens the Visitor and saves the result.
+   * Throws if it matches an ID document exactly.
+   *
+   * @param {*} record
+   */
+  async screen(record) {
+    const entries = await WatchlistEntryRepository.findActive(
+      this.options,
+    );
+
+    const matches = WatchlistMatcher.match(record, entries);
+
+    if (matches.some((match) => match.type === 'exact')) {
+      throw new Error400(
+        this.options.language,
+        'visitor.errors.watchlisted',
+      );
+    }
+
+    return this._save(record, matches);
+  }
+
+  /**
+   * Screens the Visitors who have access again, after
+   * the watchlist changed, and revokes the access of
+   * those it no longer clears. Exact matches are saved
+   * as rejected instead of thrown.
+   */
+  async rescreenVisitorsWithAccess() {
+    const entries = await WatchlistEntryRepository.findActive(
+      this.options,
+    );
+
+    const visitorIds = await VisitorLifecycleService.findVisitorIdsWithAccess(
+      this.options,
+    );
+
+    const revokedIds: Array<string> = [];
+
+    for (const visitorId of visitorIds) {
+      const record = await VisitorRepository.findById(
+        visitorId,
+        this.options,
+      );
+
+      const wasCleared = await this.isVisitorCleared(
+        visitorId,
+      );
+
+      const screening = await this.rescreen(
+        record,
+        entries,
+      );
+
+      if (
+        wasCleared &&
+        !VisitorScreeningService.isCleared(screening)
+      ) {
+        revokedIds.push(visitorId);
+      }
+    }
+
+    await new SdpService(this.options).deleteVisitors(
+      revokedIds,
+    );
+  }
+
+  /**
+   * Screens the Visitor again and saves the result.
+   * Exact matches are saved as rejected instead of thrown.
+   *
+   * @param {*} record
+   * @param {*} [entries] The active watchlist entries
+   */
+  async rescreen(record, entries?) {
+    const matches = WatchlistMatcher.match(
+      record,
+      entries ||
+        (await WatchlistEntryRepository.findActive(
+          this.options,
+        )),
+    );
+
+    if (matches.some((match) => match.type === 'exact')) {
+      return VisitorScreeningRepository.save(
+        record.id,
+        { status: 'rejected', matches },
+        this.options,
+      );
+    }
+
+    return this._save(record, matches);
+  }
+
+  async _save(record, matches) {
+    if (!matches.length) {
+      return VisitorScreeningRepository.save(
+        record.id,
+        { status: 'clear', matches },
+        this.options,
+      );
+    }
+
+    const current = await VisitorScreeningRepository.findByVisitor(
+      record.id,
+      this.options,
+    );
+
+    // A review stands as long as no other entry matches
+    if (
+      current &&
+      ['approved', 'rejected'].includes(current.status) &&
+      matches.every((match) =>
+        current.matches.some(
+          (reviewed) => reviewed.entryId === match.entryId,
+        ),
+      )
+    ) {
+      return current;
+    }
+
+    return VisitorScreeningRepository.save(
+      record.id,
+      { status: 'flagged', matches },
+      this.options,
+    );
+  }
+
+  /**
+   * Throws unless the Visitor may get access.
+   *
+   * @param {*} screening
+   */
+  assertCleared(screening) {
+    if (VisitorScreeningService.isCleared(screening)) {
+      return;
+    }
+
+    throw new Error400(
+      this.options.language,
+      screening.status === 'rejected'
+        ? 'visitor.errors.watchlisted'
+        : 'visitor.errors.screeningPending',
+    );
+  }
+
+  /**
+   * Whether the Visitor may get access,
+   * going by its latest screening.
+   *
+   * @param {*} visitorId
+   */
+  async isVisitorCleared(visitorId) {
+    return VisitorScreeningService.isCleared(
+      await VisitorScreeningRepository.findByVisitor(
+        visitorId,
+        this.options,
+      ),
+    );
+  }
+
+  /**
+   * Lets the flagged Visitor get access.
+   *
+   * @param {*} visitorId
+   */
+  async approve(visitorId) {
+    return this._review(visitorId, 'approved');
+  }
+
+  /**
+   * Keeps the flagged Visitor from getting access.
+   *
+   * @param {*} visitorId
+   */
+  async reject(visitorId) {
+    return this._review(visitorId, 'rejected');
+  }
+
+  async _review(visitorId, status) {
+    // Makes sure the Visitor belongs to the tenant
+    await VisitorRepository.findById(
+      visitorId,
+      this.options,
+    );
+
+    const current = await VisitorScreeningRepository.findByVisitor(
+      visitorId,
+      this.options,
+    );
+
+    if (!current || current.status !== 'flagged') {
+      throw new Error400(
+        this.options.language,
+        'visitor.errors.screeningNotFlagged',
+      );
+    }
+
+    const currentUser = SequelizeRepository.getCurrentUser(
+      this.options,
+    );
+
+    return VisitorScreeningRepository.save(
+      visitorId,
+      {
+        status,
+        matches: current.matches,
+        reviewedById: currentUser.id,
+        reviewedAt: new Date(),
+      },
+      this.options,
+    );
+  }
+}
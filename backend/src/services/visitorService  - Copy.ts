@@ -1,7 +1,32 @@
 import VisitorRepository from '../database/repositories/visitorRepository';
 import Error400 from '../errors/Error400';
 import SequelizeRepository from '../database/repositories/sequelizeRepository';
-import sdpService from './sdpService'
+import SdpService from './sdpService';
+import SdpOutboxRepository from '../database/repositories/sdpOutboxRepository';
+import VisitorAccessEventRepository from '../database/repositories/visitorAccessEventRepository';
+import VisitorStatusRepository from '../database/repositories/visitorStatusRepository';
+import VisitorLifecycleService from './visitorLifecycleService';
+import VisitorPhotoService from './visitorPhotoService';
+import VisitorScreeningService from './visitorScreeningService';
+import VisitorScreeningRepository from '../database/repositories/visitorScreeningRepository';
+import VisitorAreaRepository from '../database/repositories/visitorAreaRepository';
+import AreaService from './areaService';
+import SdpProvisioningService from './sdpProvisioningService';
+import AuditTrailService from './auditTrailService';
+import ErrorReporter from '../errors/ErrorReporter';
+import lodash from 'lodash';
+
+/**
+ * Statuses in which a self-registered Visitor
+ * changing the visit must ask the host again.
+ * Once checked in, it can't change the visit
+ * window or the areas anymore.
+ */
+const REAPPROVAL_STATUSES = [
+  'pendingApproval',
+  'expected',
+  'expired',
+];
 
 /**
  * Handles Visitor operations
@@ -24,7 +49,7 @@ export default class VisitorService {
     );
 
     try {
-      const record = await VisitorRepository.create(data, {
+      const record = await this.createInTransaction(data, {
         ...this.options,
         transaction,
       });
@@ -32,7 +57,11 @@ export default class VisitorService {
       await SequelizeRepository.commitTransaction(
         transaction,
       );
-      sdpService(record);
+
+      if (this._isSelfRegistered()) {
+        await this._notifyApprovalRequested(record);
+      }
+
       return record;
     } catch (error) {
       await SequelizeRepository.rollbackTransaction(
@@ -49,6 +78,48 @@ export default class VisitorService {
     }
   }
 
+  /**
+   * Creates a Visitor in the transaction of the options,
+   * for flows that save other records along with it.
+   * Emailing the host of a self-registered Visitor is
+   * left to the caller, once committed.
+   *
+   * @param {*} data
+   * @param {*} options
+   */
+  async createInTransaction(data, options) {
+    const record = await VisitorRepository.create(
+      data,
+      options,
+    );
+
+    const areas = await new AreaService(
+      options,
+    ).assignToVisitor(record, data.areas);
+
+    await new AuditTrailService(options).logVisitor(
+      'create',
+      record.id,
+      null,
+      this._auditSnapshot(record, areas),
+    );
+
+    await new VisitorScreeningService(options).screen(
+      record,
+    );
+
+    if (this._isSelfRegistered()) {
+      await new VisitorLifecycleService(
+        this.options,
+      ).requestApproval(record, options);
+    }
+
+    // Access is only granted on check in
+    await new SdpService(options).validateVisitor(record);
+
+    return record;
+  }
+
   /**
    * Updates a Visitor.
    *
@@ -61,6 +132,46 @@ export default class VisitorService {
     );
 
     try {
+      const current = await VisitorRepository.findById(id, {
+        ...this.options,
+        transaction,
+      });
+
+      const currentAreas = await VisitorAreaRepository.findByVisitor(
+        id,
+        {
+          ...this.options,
+          transaction,
+        },
+      );
+
+      const before = this._auditSnapshot(
+        current,
+        currentAreas,
+      );
+
+      const visitStatus = await VisitorStatusRepository.findByVisitor(
+        id,
+        {
+          ...this.options,
+          transaction,
+        },
+      );
+
+      const selfRegistered = this._isSelfRegistered();
+
+      // Would extend the access the Visitor already has
+      if (
+        selfRegistered &&
+        VisitorLifecycleService.hasAccess(visitStatus) &&
+        this._changesAccess(current, currentAreas, data)
+      ) {
+        throw new Error400(
+          this.options.language,
+          'visitor.errors.accessChangeWhileOnSite',
+        );
+      }
+
       const record = await VisitorRepository.update(
         id,
         data,
@@ -70,10 +181,89 @@ export default class VisitorService {
         },
       );
 
+      // The new visit window must still fit the areas
+      const areaIds =
+        data.areas !== undefined
+          ? data.areas
+          : (
+              await VisitorAreaRepository.findByVisitor(
+                record.id,
+                {
+                  ...this.options,
+                  transaction,
+                },
+              )
+            ).map((area) => area.id);
+
+      const areas = await new AreaService({
+        ...this.options,
+        transaction,
+      }).assignToVisitor(record, areaIds);
+
+      await new AuditTrailService({
+        ...this.options,
+        transaction,
+      }).logVisitor(
+        'update',
+        record.id,
+        before,
+        this._auditSnapshot(record, areas),
+      );
+
+      const sdpService = new SdpService({
+        ...this.options,
+        transaction,
+      });
+
+      const screening = await new VisitorScreeningService({
+        ...this.options,
+        transaction,
+      }).screen(record);
+
+      // The host approves the changed visit again
+      const approvalRequested =
+        selfRegistered &&
+        REAPPROVAL_STATUSES.includes(visitStatus.status);
+
+      if (approvalRequested) {
+        await new VisitorLifecycleService(
+          this.options,
+        ).requestApproval(record, {
+          ...this.options,
+          transaction,
+        });
+      }
+
+      if (!VisitorLifecycleService.hasAccess(visitStatus)) {
+        await sdpService.validateVisitor(record);
+      } else if (
+        VisitorScreeningService.isCleared(screening)
+      ) {
+        await sdpService.updateVisitor(record);
+      } else {
+        // The changes match the watchlist
+        await new VisitorLifecycleService(
+          this.options,
+        ).revokeAccess(record, {
+          ...this.options,
+          transaction,
+        });
+      }
+
+      // Follows the new visit window
+      await new SdpProvisioningService({
+        ...this.options,
+        transaction,
+      }).reschedule(record);
+
       await SequelizeRepository.commitTransaction(
         transaction,
       );
 
+      if (approvalRequested) {
+        await this._notifyApprovalRequested(record);
+      }
+
       return record;
     } catch (error) {
       await SequelizeRepository.rollbackTransaction(
@@ -101,13 +291,60 @@ export default class VisitorService {
     );
 
     try {
+      const visitStatuses = await VisitorStatusRepository.findByVisitors(
+        ids,
+        {
+          ...this.options,
+          transaction,
+        },
+      );
+
+      const auditTrailService = new AuditTrailService({
+        ...this.options,
+        transaction,
+      });
+
       for (const id of ids) {
+        const before = this._auditSnapshot(
+          await VisitorRepository.findById(id, {
+            ...this.options,
+            transaction,
+          }),
+          await VisitorAreaRepository.findByVisitor(id, {
+            ...this.options,
+            transaction,
+          }),
+        );
+
         await VisitorRepository.destroy(id, {
           ...this.options,
           transaction,
         });
+
+        await auditTrailService.logVisitor(
+          'destroy',
+          id,
+          before,
+          null,
+        );
       }
 
+      await new SdpService({
+        ...this.options,
+        transaction,
+      }).deleteVisitors(
+        ids.filter((id) =>
+          VisitorLifecycleService.hasAccess(
+            visitStatuses[id],
+          ),
+        ),
+      );
+
+      await new SdpProvisioningService({
+        ...this.options,
+        transaction,
+      }).completeRevocation(ids);
+
       await SequelizeRepository.commitTransaction(
         transaction,
       );
@@ -125,7 +362,217 @@ export default class VisitorService {
    * @param {*} id
    */
   async findById(id) {
-    return VisitorRepository.findById(id, this.options);
+    const record = await VisitorRepository.findById(
+      id,
+      this.options,
+    );
+
+    await this._fillWithSdpSync([record]);
+    await this._fillWithVisitStatus([record]);
+    await this._fillWithScreening([record]);
+    await this._fillWithAreas([record]);
+
+    record.photoUrl = await new VisitorPhotoService(
+      this.options,
+    ).signedUrl(record.id);
+
+    return record;
+  }
+
+  /**
+   * Saves the photo of the Visitor, sent as a data URL.
+   * Visitors with access are sent again to the
+   * controller, with the new photo.
+   *
+   * @param {*} id
+   * @param {*} photo
+   */
+  async savePhoto(id, photo) {
+    const photoService = new VisitorPhotoService(
+      this.options,
+    );
+
+    const stored = await photoService.store(photo);
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    let replaced;
+
+    try {
+      const options = { ...this.options, transaction };
+
+      const record = await VisitorRepository.findById(
+        id,
+        options,
+      );
+
+      replaced = await new VisitorPhotoService(
+        options,
+      ).attach(record.id, stored);
+
+      // The photo URL itself is left out of the trail
+      await new AuditTrailService(options).logVisitor(
+        'photo',
+        record.id,
+        null,
+        null,
+      );
+
+      const visitStatus = await VisitorStatusRepository.findByVisitor(
+        record.id,
+        options,
+      );
+
+      if (VisitorLifecycleService.hasAccess(visitStatus)) {
+        await new SdpService(options).updateVisitor(record);
+      }
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      await photoService.remove(stored.privateUrl);
+
+      throw error;
+    }
+
+    await photoService.remove(replaced);
+
+    return this.findById(id);
+  }
+
+  /**
+   * Checks in the Visitor and grants the access.
+   *
+   * @param {*} id
+   */
+  async checkIn(id) {
+    return new VisitorLifecycleService(
+      this.options,
+    ).checkIn(id);
+  }
+
+  /**
+   * Lets the Visitor flagged by the watchlist get access.
+   * Visitors checked in meanwhile are sent again to the
+   * controller, which dropped or never got them. As an
+   * update, it doesn't matter which.
+   *
+   * @param {*} id
+   */
+  async approveScreening(id) {
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const options = { ...this.options, transaction };
+
+      await new VisitorScreeningService(options).approve(
+        id,
+      );
+
+      const visitStatus = await VisitorStatusRepository.findByVisitor(
+        id,
+        options,
+      );
+
+      if (VisitorLifecycleService.hasAccess(visitStatus)) {
+        await new SdpService(options).updateVisitor(
+          await VisitorRepository.findById(id, options),
+        );
+      }
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+
+    return this.findById(id);
+  }
+
+  /**
+   * Keeps the Visitor flagged by the
+   * watchlist from getting access.
+   *
+   * @param {*} id
+   */
+  async rejectScreening(id) {
+    await new VisitorScreeningService(this.options).reject(
+      id,
+    );
+
+    return this.findById(id);
+  }
+
+  /**
+   * Approves the visit requested by a
+   * self-registered Visitor. Only its host can.
+   *
+   * @param {*} id
+   * @param {*} comment
+   */
+  async approveVisit(id, comment) {
+    await new VisitorLifecycleService(this.options).approve(
+      id,
+      comment,
+    );
+
+    return this.findById(id);
+  }
+
+  /**
+   * Rejects the visit requested by a
+   * self-registered Visitor. Only its host can.
+   *
+   * @param {*} id
+   * @param {*} comment
+   */
+  async rejectVisit(id, comment) {
+    await new VisitorLifecycleService(this.options).reject(
+      id,
+      comment,
+    );
+
+    return this.findById(id);
+  }
+
+  /**
+   * Checks out the Visitor and revokes the access.
+   *
+   * @param {*} id
+   */
+  async checkOut(id) {
+    return new VisitorLifecycleService(
+      this.options,
+    ).checkOut(id);
+  }
+
+  /**
+   * Finds the door passes of the Visitor, newest first.
+   *
+   * @param {*} id
+   */
+  async findAccessEvents(id) {
+    // Makes sure the Visitor belongs to the tenant
+    await VisitorRepository.findById(id, this.options);
+
+    return VisitorAccessEventRepository.findAllByVisitor(
+      id,
+      this.options,
+    );
   }
 
   /**
@@ -148,10 +595,17 @@ export default class VisitorService {
    * @param {*} args
    */
   async findAndCountAll(args) {
-    return VisitorRepository.findAndCountAll(
+    const result = await VisitorRepository.findAndCountAll(
       args,
       this.options,
     );
+
+    await this._fillWithSdpSync(result.rows);
+    await this._fillWithVisitStatus(result.rows);
+    await this._fillWithScreening(result.rows);
+    await this._fillWithAreas(result.rows);
+
+    return result;
   }
 
   /**
@@ -183,6 +637,97 @@ export default class VisitorService {
     return this.create(dataToCreate);
   }
 
+  /**
+   * Fields of the Visitor compared by the audit trail,
+   * with its areas by code.
+   *
+   * @param {*} record
+   * @param {*} areas
+   */
+  _auditSnapshot(record, areas) {
+    return {
+      ...record,
+      areas: areas.map((area) => area.code),
+    };
+  }
+
+  /**
+   * Emails the host about the visit request, after the
+   * commit. The request stands even if the email fails.
+   *
+   * @param {*} record
+   */
+  async _notifyApprovalRequested(record) {
+    try {
+      await new VisitorLifecycleService(
+        this.options,
+      ).notifyApprovalRequested(record);
+    } catch (error) {
+      ErrorReporter.report(error, 'VisitorService', {
+        visitorId: record.id,
+      });
+    }
+  }
+
+  /**
+   * Whether the change moves the visit window or
+   * the areas, which the access follows.
+   *
+   * @param {*} record
+   * @param {*} areas
+   * @param {*} data
+   */
+  _changesAccess(record, areas, data) {
+    const movesTime = (field) =>
+      data[field] !== undefined &&
+      new Date(data[field]).getTime() !==
+        new Date(record[field]).getTime();
+
+    const movesAreas =
+      data.areas !== undefined &&
+      lodash.xor(
+        data.areas || [],
+        areas.map((area) => area.id),
+      ).length > 0;
+
+    return (
+      movesTime('startTime') ||
+      movesTime('endTime') ||
+      movesAreas
+    );
+  }
+
+  /**
+   * Whether the current user only has the visitor role
+   * that self-registration grants.
+   */
+  _isSelfRegistered() {
+    const currentUser = SequelizeRepository.getCurrentUser(
+      this.options,
+    );
+
+    if (!currentUser || !currentUser.tenants) {
+      return false;
+    }
+
+    const currentTenant = SequelizeRepository.getCurrentTenant(
+      this.options,
+    );
+
+    const tenantUser = currentUser.tenants.find(
+      (tenantUser) =>
+        tenantUser.tenant &&
+        tenantUser.tenant.id === currentTenant.id,
+    );
+
+    const roles = tenantUser ? tenantUser.roles || [] : [];
+
+    return (
+      roles.length > 0 &&
+      roles.every((role) => role === 'visitor')
+    );
+  }
+
   /**
    * Checks if the import hash already exists.
    * Every item imported has a unique hash.
@@ -199,4 +744,71 @@ export default class VisitorService {
 
     return count > 0;
   }
+
+  /**
+   * Adds the access controller sync status
+   * (pending, synced or failed) to the Visitors.
+   *
+   * @param {*} records
+   */
+  async _fillWithSdpSync(records) {
+    const statuses = await SdpOutboxRepository.findSyncStatuses(
+      records.map((record) => record.id),
+      this.options,
+    );
+
+    for (const record of records) {
+      record.sdpSync = statuses[record.id] || null;
+    }
+  }
+
+  /**
+   * Adds the visit status (expected, checkedIn, onSite,
+   * checkedOut or noShow) to the Visitors.
+   *
+   * @param {*} records
+   */
+  async _fillWithVisitStatus(records) {
+    const statuses = await VisitorStatusRepository.findByVisitors(
+      records.map((record) => record.id),
+      this.options,
+    );
+
+    for (const record of records) {
+      record.visitStatus = statuses[record.id];
+    }
+  }
+
+  /**
+   * Adds the watchlist screening (clear, flagged,
+   * approved or rejected) to the Visitors.
+   *
+   * @param {*} records
+   */
+  async _fillWithScreening(records) {
+    const screenings = await VisitorScreeningRepository.findByVisitors(
+      records.map((record) => record.id),
+      this.options,
+    );
+
+    for (const record of records) {
+      record.screening = screenings[record.id] || null;
+    }
+  }
+
+  /**
+   * Adds the areas the Visitor is given access to.
+   *
+   * @param {*} records
+   */
+  async _fillWithAreas(records) {
+    const areas = await VisitorAreaRepository.findByVisitors(
+      records.map((record) => record.id),
+      this.options,
+    );
+
+    for (const record of records) {
+      record.areas = areas[record.id];
+    }
+  }
 }
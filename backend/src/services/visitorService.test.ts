@@ -0,0 +1,176 @@
+import assert from 'assert';
+import moment from 'moment';
+import { databaseInit } from '../database/databaseConnection';
+import SdpOutboxRepository from '../database/repositories/sdpOutboxRepository';
+import SdpClient from './sdp/sdpClient';
+import SdpOutboxWorker from './sdp/sdpOutboxWorker';
+import SdpSimulator from './sdp/sdpSimulator';
+import SdpService from './sdpService';
+import VisitorService from './visitorService  - Copy';
+
+describe('VisitorService with the SDP controller', () => {
+  const simulator = new SdpSimulator();
+  let database;
+  let worker: SdpOutboxWorker;
+  let options;
+
+  const visitorData = (fields: any = {}) => ({
+    name: 'Jane Doe',
+    idType: 'passport',
+    idNumber: `X${Date.now()}${Math.random()}`.slice(0, 20),
+    startTime: moment().subtract(1, 'hour').toDate(),
+    endTime: moment().add(4, 'hours').toDate(),
+    ...fields,
+  });
+
+  const outbox = (visitorId) =>
+    database.sdpOutbox.findAll({
+      where: { visitorId },
+      order: [['createdAt', 'ASC']],
+    });
+
+  before(async () => {
+    const url = await simulator.start();
+
+    SdpService.setClient(
+      new SdpClient({
+        url,
+        username: 'admin',
+        password: 'admin',
+        requestTimeout: 200,
+        reconnectMinDelay: 10,
+        reconnectMaxDelay: 20,
+      }),
+    );
+
+    database = await databaseInit();
+    await database.sequelize.sync({ force: true });
+
+    const tenant = await database.tenant.create({
+      name: 'Test',
+      url: 'test',
+    });
+
+    const user = await database.user.create({
+      email: 'reception@example.com',
+      emailVerified: true,
+    });
+
+    options = {
+      database,
+      currentTenant: tenant,
+      currentUser: user,
+      language: 'en',
+    };
+
+    worker = new SdpOutboxWorker(database);
+  });
+
+  after(async () => {
+    SdpService.setClient(null);
+    await simulator.stop();
+    await database.sequelize.close();
+  });
+
+  beforeEach(() => {
+    simulator.reset();
+  });
+
+  it('grants the access on check in only', async () => {
+    const service = new VisitorService(options);
+    const record = await service.create(visitorData());
+
+    await worker.processBatch();
+    assert.strictEqual(simulator.visitors.size, 0);
+
+    await service.checkIn(record.id);
+    await worker.processBatch();
+
+    const visitor = simulator.visitors.get(record.id);
+    assert.ok(visitor);
+    assert.strictEqual(visitor.userName, 'Jane Doe');
+    assert.strictEqual(visitor.paperType, '2');
+  });
+
+  it('deletes the visitor from the controller on destroy', async () => {
+    const service = new VisitorService(options);
+    const record = await service.create(visitorData());
+
+    await service.checkIn(record.id);
+    await worker.processBatch();
+
+    await service.destroyAll([record.id]);
+    await worker.processBatch();
+
+    assert.strictEqual(
+      simulator.visitors.has(record.id),
+      false,
+    );
+    assert.deepStrictEqual(
+      simulator.commands
+        .filter((command) => command.cmd === 'dellVistors')
+        .map((command) => command.data[0].orId),
+      [record.id],
+    );
+  });
+
+  it('keeps the command pending while the controller refuses it', async () => {
+    const service = new VisitorService(options);
+    const record = await service.create(visitorData());
+
+    simulator.failNext('addVistors', { code: 500 });
+
+    await service.checkIn(record.id);
+    await worker.processBatch();
+
+    const [entry] = await outbox(record.id);
+
+    assert.strictEqual(
+      entry.status,
+      SdpOutboxRepository.PENDING,
+    );
+    assert.strictEqual(entry.attempts, 1);
+    assert.ok(entry.lastError);
+    assert.strictEqual(simulator.visitors.size, 0);
+  });
+
+  it('keeps the command pending while the controller does not answer', async () => {
+    const service = new VisitorService(options);
+    const record = await service.create(visitorData());
+
+    simulator.failNext('addVistors', { noReply: true });
+
+    await service.checkIn(record.id);
+    await worker.processBatch();
+
+    const [entry] = await outbox(record.id);
+
+    assert.strictEqual(
+      entry.status,
+      SdpOutboxRepository.PENDING,
+    );
+    assert.ok(/timed out/.test(entry.lastError));
+  });
+
+  it('updates the visitor by deleting and adding it again', async () => {
+    const service = new VisitorService(options);
+    const record = await service.create(visitorData());
+
+    await service.checkIn(record.id);
+    await worker.processBatch();
+
+    await service.update(record.id, {
+      name: 'Jane Roe',
+      idType: record.idType,
+      idNumber: record.idNumber,
+      startTime: record.startTime,
+      endTime: record.endTime,
+    });
+    await worker.processBatch();
+
+    assert.strictEqual(
+      simulator.visitors.get(record.id).userName,
+      'Jane Roe',
+    );
+  });
+});
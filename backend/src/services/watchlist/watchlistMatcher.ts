@@ -0,0 +1,136 @@
+/**
+ * Minimum similarity, from 0 to 1, of
+ * two names to be a fuzzy match.
+ */
+const NAME_SIMILARITY = 0.85;
+
+/**
+ * Trailing digits compared, so the same phone
+ * matches with or without country code.
+ */
+const PHONE_DIGITS = 8;
+
+/**
+ * Matches Visitors with the watchlist entries.
+ *
+ * The same ID document is an exact match. A similar
+ * name, the same phone or the same ID number with
+ * another document type are fuzzy matches.
+ */
+export default class WatchlistMatcher {
+  /**
+   * Returns the matches ({ entryId, type, fields, reason })
+   * of the Visitor, exact or fuzzy.
+   *
+   * @param {*} record
+   * @param {*} entries
+   */
+  static match(record, entries) {
+    const matches: Array<any> = [];
+
+    for (const entry of entries) {
+      const fields: Array<string> = [];
+      let exact = false;
+
+      const idNumber = this._idNumber(record.idNumber);
+      if (
+        idNumber &&
+        idNumber === this._idNumber(entry.idNumber)
+      ) {
+        exact =
+          !entry.idType || entry.idType === record.idType;
+        fields.push('idNumber');
+      }
+
+      if (this._isSimilarName(record.name, entry.name)) {
+        fields.push('name');
+      }
+
+      const phone = this._phone(record.phone);
+      if (phone && phone === this._phone(entry.phone)) {
+        fields.push('phone');
+      }
+
+      if (fields.length) {
+        matches.push({
+          entryId: entry.id,
+          type: exact ? 'exact' : 'fuzzy',
+          fields,
+          reason: entry.reason,
+        });
+      }
+    }
+
+    return matches;
+  }
+
+  static _idNumber(value) {
+    return String(value || '')
+      .toUpperCase()
+      .replace(/[^0-9A-Z]/g, '');
+  }
+
+  static _phone(value) {
+    const digits = String(value || '').replace(/\D/g, '');
+
+    return digits.length >= PHONE_DIGITS
+      ? digits.slice(-PHONE_DIGITS)
+      : '';
+  }
+
+  /**
+   * Compares the names regardless of case,
+   * accents and order of the words.
+   */
+  static _isSimilarName(a, b) {
+    const first = this._name(a);
+    const second = this._name(b);
+
+    if (!first || !second) {
+      return false;
+    }
+
+    const distance = this._levenshtein(first, second);
+
+    return (
+      1 -
+        distance / Math.max(first.length, second.length) >=
+      NAME_SIMILARITY
+    );
+  }
+
+  static _name(value) {
+    return String(value || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9 ]/g, ' ')
+      .split(' ')
+      .filter(Boolean)
+      .sort()
+      .join(' ');
+  }
+
+  static _levenshtein(a, b) {
+    let previous = Array.from(
+      { length: b.length + 1 },
+      (_, index) => index,
+    );
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+        );
+      }
+
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+}
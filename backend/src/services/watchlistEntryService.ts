@@ -0,0 +1,141 @@
+import Error400 from '../errors/Error400';
+import SequelizeRepository from '../database/repositories/sequelizeRepository';
+import WatchlistEntryRepository from '../database/repositories/watchlistEntryRepository';
+import VisitorScreeningService from './visitorScreeningService';
+
+/**
+ * Handles the watchlist of the tenant. Visitors who
+ * have access are screened again on every new or
+ * changed entry.
+ */
+export default class WatchlistEntryService {
+  options;
+
+  constructor(options) {
+    this.options = options;
+  }
+
+  async create(data) {
+    this._validate(data);
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const record = await WatchlistEntryRepository.create(
+        data,
+        {
+          ...this.options,
+          transaction,
+        },
+      );
+
+      await new VisitorScreeningService({
+        ...this.options,
+        transaction,
+      }).rescreenVisitorsWithAccess();
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return record;
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  async update(id, data) {
+    this._validate(data);
+
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      const record = await WatchlistEntryRepository.update(
+        id,
+        data,
+        {
+          ...this.options,
+          transaction,
+        },
+      );
+
+      await new VisitorScreeningService({
+        ...this.options,
+        transaction,
+      }).rescreenVisitorsWithAccess();
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+
+      return record;
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  async destroyAll(ids) {
+    const transaction = await SequelizeRepository.createTransaction(
+      this.options.database,
+    );
+
+    try {
+      for (const id of ids) {
+        await WatchlistEntryRepository.destroy(id, {
+          ...this.options,
+          transaction,
+        });
+      }
+
+      await SequelizeRepository.commitTransaction(
+        transaction,
+      );
+    } catch (error) {
+      await SequelizeRepository.rollbackTransaction(
+        transaction,
+      );
+
+      throw error;
+    }
+  }
+
+  async findById(id) {
+    return WatchlistEntryRepository.findById(
+      id,
+      this.options,
+    );
+  }
+
+  async findAndCountAll(args) {
+    return WatchlistEntryRepository.findAndCountAll(
+      args,
+      this.options,
+    );
+  }
+
+  /**
+   * An entry needs something to match Visitors with.
+   *
+   * @param {*} data
+   */
+  _validate(data) {
+    if (!data.idNumber && !data.name && !data.phone) {
+      throw new Error400(
+        this.options.language,
+        'watchlistEntry.errors.nothingToMatch',
+      );
+    }
+  }
+}
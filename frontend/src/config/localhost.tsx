@@ -1,4 +1,9 @@
-const backendUrl = `http://54.145.96.186:8080/api`;
+/**
+ * Defaults for local development. Deployed builds load
+ * their configuration at startup, see runtimeConfig.
+ * The backend runs on the host serving the frontend.
+ */
+const backendUrl = `${window.location.protocol}//${window.location.hostname}:8080/api`;
 
 /**
  * Frontend Url.
@@ -0,0 +1,165 @@
+import axios from 'axios';
+import * as yup from 'yup';
+import config from 'src/config';
+import authAxios from 'src/modules/shared/axios/authAxios';
+
+export interface FrontendConfig {
+  backendUrl: string;
+  frontendUrl: {
+    host: string;
+    protocol: 'http' | 'https';
+  };
+  tenantMode: 'single' | 'multi' | 'multi-with-subdomain';
+  isPlanEnabled: boolean;
+  stripePublishableKey: string;
+}
+
+/**
+ * Why the configuration couldn't be loaded,
+ * shown on the failure screen.
+ */
+export type RuntimeConfigFailure =
+  | 'siteConfigMissing'
+  | 'siteConfigInvalid'
+  | 'backendUnreachable'
+  | 'configInvalid';
+
+export class RuntimeConfigError extends Error {
+  failure: RuntimeConfigFailure;
+  details: Array<string>;
+
+  constructor(
+    failure: RuntimeConfigFailure,
+    details: Array<string> = [],
+  ) {
+    super(failure);
+    this.failure = failure;
+    this.details = details;
+  }
+}
+
+/**
+ * Written next to the build on each site.
+ * Only the backend URL is required there.
+ */
+const SITE_CONFIG_URL = `${
+  process.env.PUBLIC_URL || ''
+}/config.json`;
+
+const siteSchema = yup.object().shape({
+  backendUrl: yup.string().url().required(),
+});
+
+const schema = yup.object().shape({
+  backendUrl: yup.string().url().required(),
+  frontendUrl: yup
+    .object()
+    .shape({
+      host: yup.string().required(),
+      protocol: yup
+        .string()
+        .oneOf(['http', 'https'])
+        .required(),
+    })
+    .required(),
+  tenantMode: yup
+    .string()
+    .oneOf(['single', 'multi', 'multi-with-subdomain'])
+    .required(),
+  isPlanEnabled: yup.boolean().required(),
+  stripePublishableKey: yup.string().ensure(),
+});
+
+/**
+ * Loads the configuration of the site at startup, so the
+ * same build can be deployed everywhere: the backend URL
+ * from /config.json, then the rest from the backend.
+ * Only development falls back to the built-in
+ * configuration without /config.json.
+ */
+export default class RuntimeConfig {
+  static async load(): Promise<FrontendConfig> {
+    const site = await RuntimeConfig._loadSiteConfig();
+
+    if (!site && process.env.NODE_ENV === 'production') {
+      throw new RuntimeConfigError('siteConfigMissing', [
+        SITE_CONFIG_URL,
+      ]);
+    }
+    const backendUrl = site
+      ? site.backendUrl
+      : config.backendUrl;
+
+    let backendConfig;
+
+    try {
+      backendConfig = (
+        await axios.get(`${backendUrl}/config`)
+      ).data;
+    } catch (error) {
+      throw new RuntimeConfigError('backendUnreachable', [
+        backendUrl,
+      ]);
+    }
+
+    const loaded = (await RuntimeConfig._validate(
+      schema,
+      { ...backendConfig, backendUrl },
+      'configInvalid',
+    )) as FrontendConfig;
+
+    // The modules read the configuration when they run,
+    // except the axios instance created on import
+    Object.assign(config, loaded);
+    authAxios.defaults.baseURL = loaded.backendUrl;
+
+    return loaded;
+  }
+
+  static async _loadSiteConfig() {
+    let response;
+
+    try {
+      response = await axios.get(SITE_CONFIG_URL, {
+        headers: { 'Cache-Control': 'no-cache' },
+      });
+    } catch (error) {
+      if (error.response && error.response.status === 404) {
+        return null;
+      }
+
+      throw new RuntimeConfigError('siteConfigInvalid', [
+        error.message,
+      ]);
+    }
+
+    // Development servers answer unknown paths with index.html
+    if (typeof response.data !== 'object') {
+      return null;
+    }
+
+    return RuntimeConfig._validate(
+      siteSchema,
+      response.data,
+      'siteConfigInvalid',
+    );
+  }
+
+  static async _validate(
+    validationSchema,
+    data,
+    failure: RuntimeConfigFailure,
+  ): Promise<any> {
+    try {
+      return await validationSchema.validate(data, {
+        abortEarly: false,
+        stripUnknown: true,
+      });
+    } catch (error) {
+      throw new RuntimeConfigError(
+        failure,
+        error.errors || [error.message],
+      );
+    }
+  }
+}
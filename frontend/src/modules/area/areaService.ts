@@ -0,0 +1,88 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class AreaService {
+  static async create(data) {
+    const body = {
+      data,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/area`,
+      body,
+    );
+
+    return response.data;
+  }
+
+  static async update(id, data) {
+    const body = {
+      data,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.put(
+      `/tenant/${tenantId}/area/${id}`,
+      body,
+    );
+
+    return response.data;
+  }
+
+  static async destroyAll(ids) {
+    const params = {
+      ids,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.delete(
+      `/tenant/${tenantId}/area`,
+      {
+        params,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async list(search, limit, offset) {
+    const params = {
+      search,
+      limit,
+      offset,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/area`,
+      {
+        params,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async listAutocomplete(query, limit) {
+    const params = {
+      query,
+      limit,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/area/autocomplete`,
+      {
+        params,
+      },
+    );
+
+    return response.data;
+  }
+}
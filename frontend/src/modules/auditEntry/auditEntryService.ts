@@ -0,0 +1,37 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class AuditEntryService {
+  static async list(filter, limit, offset) {
+    const params = {
+      filter,
+      limit,
+      offset,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/audit-entry`,
+      {
+        params,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async export(filter) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/audit-entry/export`,
+      {
+        params: { filter },
+        responseType: 'blob',
+      },
+    );
+
+    return response.data;
+  }
+}
@@ -0,0 +1,17 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+
+export default class AuthSessionService {
+  static async list() {
+    const response = await authAxios.get(`/auth/session`);
+
+    return response.data;
+  }
+
+  static async revoke(id) {
+    const response = await authAxios.delete(
+      `/auth/session/${id}`,
+    );
+
+    return response.data;
+  }
+}
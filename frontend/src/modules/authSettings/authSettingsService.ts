@@ -0,0 +1,29 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class AuthSettingsService {
+  static async find() {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/auth-settings`,
+    );
+
+    return response.data;
+  }
+
+  static async save(data) {
+    const body = {
+      data,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.put(
+      `/tenant/${tenantId}/auth-settings`,
+      body,
+    );
+
+    return response.data;
+  }
+}
@@ -0,0 +1,72 @@
+import axios from 'axios';
+import config from 'src/config';
+import KioskToken from 'src/modules/kiosk/kioskToken';
+
+/**
+ * Calls of the kiosk, signed in with the device
+ * token instead of an user session.
+ */
+export default class KioskService {
+  static async find() {
+    const response = await KioskService._axios().get(
+      '/kiosk',
+    );
+
+    return response.data;
+  }
+
+  static async lookup(email) {
+    const response = await KioskService._axios().post(
+      '/kiosk/lookup',
+      {
+        email,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async scan(token) {
+    const response = await KioskService._axios().post(
+      '/kiosk/scan',
+      {
+        token,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async savePhoto(id, proof, photo) {
+    const response = await KioskService._axios().put(
+      `/kiosk/visitor/${id}/photo`,
+      {
+        proof,
+        photo,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async checkIn(id, proof, siteRulesAccepted) {
+    const response = await KioskService._axios().post(
+      `/kiosk/visitor/${id}/check-in`,
+      {
+        proof,
+        siteRulesAccepted,
+      },
+    );
+
+    return response.data;
+  }
+
+  static _axios() {
+    return axios.create({
+      baseURL: config.backendUrl,
+      headers: {
+        'X-Kiosk-Token': KioskToken.get() || '',
+      },
+    });
+  }
+}
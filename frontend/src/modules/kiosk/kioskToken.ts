@@ -0,0 +1,19 @@
+/**
+ * Token of the kiosk device, entered once
+ * when the tablet is set up.
+ */
+const KEY = 'kioskToken';
+
+export default class KioskToken {
+  static get() {
+    return localStorage.getItem(KEY) || null;
+  }
+
+  static set(token) {
+    localStorage.setItem(KEY, token);
+  }
+
+  static clear() {
+    localStorage.removeItem(KEY);
+  }
+}
@@ -0,0 +1,37 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class KioskDeviceService {
+  static async list() {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/kiosk-device`,
+    );
+
+    return response.data;
+  }
+
+  static async create(data) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/kiosk-device`,
+      {
+        data,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async revoke(id) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.delete(
+      `/tenant/${tenantId}/kiosk-device/${id}`,
+    );
+
+    return response.data;
+  }
+}
@@ -0,0 +1,96 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+import { tenantSubdomain } from 'src/modules/tenant/tenantSubdomain';
+import { i18n } from 'src/i18n';
+
+/**
+ * The state sent to the provider, checked
+ * again when it redirects back.
+ */
+const STATE_KEY = 'oidcState';
+/**
+ * The PKCE code verifier, which proves to the
+ * backend that this browser started the sign-in.
+ */
+const CODE_VERIFIER_KEY = 'oidcCodeVerifier';
+const REMEMBER_ME_KEY = 'oidcRememberMe';
+
+export default class OidcService {
+  static async provider() {
+    const response = await authAxios.get('/auth/oidc', {
+      params: {
+        tenantId: OidcService._tenantId(),
+      },
+    });
+
+    return response.data;
+  }
+
+  /**
+   * Redirects to the provider of the tenant to sign in.
+   */
+  static async authorize(rememberMe) {
+    const response = await authAxios.get(
+      '/auth/oidc/authorize',
+      {
+        params: {
+          tenantId: OidcService._tenantId(),
+          rememberMe,
+        },
+      },
+    );
+
+    sessionStorage.setItem(STATE_KEY, response.data.state);
+    sessionStorage.setItem(
+      CODE_VERIFIER_KEY,
+      response.data.codeVerifier,
+    );
+    sessionStorage.setItem(
+      REMEMBER_ME_KEY,
+      String(Boolean(rememberMe)),
+    );
+
+    window.location.href = response.data.url;
+  }
+
+  /**
+   * Finishes the sign-in with the code the provider
+   * sent back. Returns the session and whether
+   * it must be remembered.
+   */
+  static async callback(code, state) {
+    const expectedState = sessionStorage.getItem(STATE_KEY);
+    const codeVerifier = sessionStorage.getItem(
+      CODE_VERIFIER_KEY,
+    );
+    const rememberMe =
+      sessionStorage.getItem(REMEMBER_ME_KEY) === 'true';
+
+    sessionStorage.removeItem(STATE_KEY);
+    sessionStorage.removeItem(CODE_VERIFIER_KEY);
+    sessionStorage.removeItem(REMEMBER_ME_KEY);
+
+    // The redirect must answer a sign-in
+    // started in this browser
+    if (!state || state !== expectedState) {
+      throw new Error(i18n('auth.oidc.invalidState'));
+    }
+
+    const response = await authAxios.post(
+      '/auth/oidc/callback',
+      {
+        code,
+        state,
+        codeVerifier,
+      },
+    );
+
+    return { ...response.data, rememberMe };
+  }
+
+  static _tenantId() {
+    return tenantSubdomain.isSubdomain
+      ? AuthCurrentTenant.get()
+      : undefined;
+  }
+}
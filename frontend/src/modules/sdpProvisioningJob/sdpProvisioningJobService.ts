@@ -0,0 +1,33 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class SdpProvisioningJobService {
+  static async list(view, limit, offset) {
+    const params = {
+      view,
+      limit,
+      offset,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/sdp-provisioning-job`,
+      {
+        params,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async retry(id) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/sdp-provisioning-job/${id}/retry`,
+    );
+
+    return response.data;
+  }
+}
@@ -0,0 +1,100 @@
+import SdpReconciliationService from 'src/modules/sdpReconciliation/sdpReconciliationService';
+import Errors from 'src/modules/shared/error/errors';
+import Message from 'src/view/shared/message';
+import { i18n } from 'src/i18n';
+
+const prefix = 'SDP_RECONCILIATION';
+
+const LIST_LIMIT = 50;
+
+const sdpReconciliationActions = {
+  FETCH_STARTED: `${prefix}_FETCH_STARTED`,
+  FETCH_SUCCESS: `${prefix}_FETCH_SUCCESS`,
+  FETCH_ERROR: `${prefix}_FETCH_ERROR`,
+
+  FIND_STARTED: `${prefix}_FIND_STARTED`,
+  FIND_SUCCESS: `${prefix}_FIND_SUCCESS`,
+  FIND_ERROR: `${prefix}_FIND_ERROR`,
+
+  RUN_STARTED: `${prefix}_RUN_STARTED`,
+  RUN_SUCCESS: `${prefix}_RUN_SUCCESS`,
+  RUN_ERROR: `${prefix}_RUN_ERROR`,
+
+  doFetch: () => async (dispatch) => {
+    try {
+      dispatch({
+        type: sdpReconciliationActions.FETCH_STARTED,
+      });
+
+      const response = await SdpReconciliationService.list(
+        LIST_LIMIT,
+        0,
+      );
+
+      dispatch({
+        type: sdpReconciliationActions.FETCH_SUCCESS,
+        payload: response,
+      });
+    } catch (error) {
+      Errors.handle(error);
+
+      dispatch({
+        type: sdpReconciliationActions.FETCH_ERROR,
+      });
+    }
+  },
+
+  doFind: (id) => async (dispatch) => {
+    try {
+      dispatch({
+        type: sdpReconciliationActions.FIND_STARTED,
+      });
+
+      const record = await SdpReconciliationService.find(
+        id,
+      );
+
+      dispatch({
+        type: sdpReconciliationActions.FIND_SUCCESS,
+        payload: record,
+      });
+    } catch (error) {
+      Errors.handle(error);
+
+      dispatch({
+        type: sdpReconciliationActions.FIND_ERROR,
+      });
+    }
+  },
+
+  doRun: (fix) => async (dispatch) => {
+    try {
+      dispatch({
+        type: sdpReconciliationActions.RUN_STARTED,
+      });
+
+      const record = await SdpReconciliationService.run(
+        fix,
+      );
+
+      dispatch({
+        type: sdpReconciliationActions.RUN_SUCCESS,
+        payload: record,
+      });
+
+      Message.success(
+        i18n('sdpReconciliation.run.success'),
+      );
+
+      dispatch(sdpReconciliationActions.doFetch());
+    } catch (error) {
+      Errors.handle(error);
+
+      dispatch({
+        type: sdpReconciliationActions.RUN_ERROR,
+      });
+    }
+  },
+};
+
+export default sdpReconciliationActions;
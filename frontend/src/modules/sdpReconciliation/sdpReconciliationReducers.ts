@@ -0,0 +1,84 @@
+import actions from 'src/modules/sdpReconciliation/sdpReconciliationActions';
+
+const initialData = {
+  rows: [] as Array<any>,
+  count: 0,
+  loading: false,
+  record: null,
+  findLoading: false,
+  runLoading: false,
+};
+
+export default (state = initialData, { type, payload }) => {
+  if (type === actions.FETCH_STARTED) {
+    return {
+      ...state,
+      loading: true,
+    };
+  }
+
+  if (type === actions.FETCH_SUCCESS) {
+    return {
+      ...state,
+      loading: false,
+      rows: payload.rows,
+      count: payload.count,
+    };
+  }
+
+  if (type === actions.FETCH_ERROR) {
+    return {
+      ...state,
+      loading: false,
+      rows: [],
+      count: 0,
+    };
+  }
+
+  if (type === actions.FIND_STARTED) {
+    return {
+      ...state,
+      record: null,
+      findLoading: true,
+    };
+  }
+
+  if (type === actions.FIND_SUCCESS) {
+    return {
+      ...state,
+      record: payload,
+      findLoading: false,
+    };
+  }
+
+  if (type === actions.FIND_ERROR) {
+    return {
+      ...state,
+      findLoading: false,
+    };
+  }
+
+  if (type === actions.RUN_STARTED) {
+    return {
+      ...state,
+      runLoading: true,
+    };
+  }
+
+  if (type === actions.RUN_SUCCESS) {
+    return {
+      ...state,
+      record: payload,
+      runLoading: false,
+    };
+  }
+
+  if (type === actions.RUN_ERROR) {
+    return {
+      ...state,
+      runLoading: false,
+    };
+  }
+
+  return state;
+};
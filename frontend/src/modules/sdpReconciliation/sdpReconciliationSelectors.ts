@@ -0,0 +1,38 @@
+import { createSelector } from 'reselect';
+
+const selectRaw = (state) => state.sdpReconciliation;
+
+const selectRows = createSelector(
+  [selectRaw],
+  (raw) => raw.rows,
+);
+
+const selectLoading = createSelector([selectRaw], (raw) =>
+  Boolean(raw.loading),
+);
+
+const selectRecord = createSelector(
+  [selectRaw],
+  (raw) => raw.record,
+);
+
+const selectFindLoading = createSelector(
+  [selectRaw],
+  (raw) => Boolean(raw.findLoading),
+);
+
+const selectRunLoading = createSelector(
+  [selectRaw],
+  (raw) => Boolean(raw.runLoading),
+);
+
+const sdpReconciliationSelectors = {
+  selectRaw,
+  selectRows,
+  selectLoading,
+  selectRecord,
+  selectFindLoading,
+  selectRunLoading,
+};
+
+export default sdpReconciliationSelectors;
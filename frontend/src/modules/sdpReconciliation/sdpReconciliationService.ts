@@ -0,0 +1,47 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class SdpReconciliationService {
+  static async run(fix) {
+    const body = {
+      data: { fix },
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/sdp-reconciliation`,
+      body,
+    );
+
+    return response.data;
+  }
+
+  static async find(id) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/sdp-reconciliation/${id}`,
+    );
+
+    return response.data;
+  }
+
+  static async list(limit, offset) {
+    const params = {
+      limit,
+      offset,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/sdp-reconciliation`,
+      {
+        params,
+      },
+    );
+
+    return response.data;
+  }
+}
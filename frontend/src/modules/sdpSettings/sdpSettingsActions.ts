@@ -0,0 +1,64 @@
+import SdpSettingsService from 'src/modules/sdpSettings/sdpSettingsService';
+import Errors from 'src/modules/shared/error/errors';
+import Message from 'src/view/shared/message';
+import { i18n } from 'src/i18n';
+
+const prefix = 'SDP_SETTINGS';
+
+const sdpSettingsActions = {
+  INIT_STARTED: `${prefix}_INIT_STARTED`,
+  INIT_SUCCESS: `${prefix}_INIT_SUCCESS`,
+  INIT_ERROR: `${prefix}_INIT_ERROR`,
+
+  SAVE_STARTED: `${prefix}_SAVE_STARTED`,
+  SAVE_SUCCESS: `${prefix}_SAVE_SUCCESS`,
+  SAVE_ERROR: `${prefix}_SAVE_ERROR`,
+
+  doInit: () => async (dispatch) => {
+    try {
+      dispatch({
+        type: sdpSettingsActions.INIT_STARTED,
+      });
+
+      const settings = await SdpSettingsService.find();
+
+      dispatch({
+        type: sdpSettingsActions.INIT_SUCCESS,
+        payload: settings,
+      });
+    } catch (error) {
+      Errors.handle(error);
+
+      dispatch({
+        type: sdpSettingsActions.INIT_ERROR,
+      });
+    }
+  },
+
+  doSave: (values) => async (dispatch) => {
+    try {
+      dispatch({
+        type: sdpSettingsActions.SAVE_STARTED,
+      });
+
+      const settings = await SdpSettingsService.save(
+        values,
+      );
+
+      dispatch({
+        type: sdpSettingsActions.SAVE_SUCCESS,
+        payload: settings,
+      });
+
+      Message.success(i18n('sdpSettings.save.success'));
+    } catch (error) {
+      Errors.handle(error);
+
+      dispatch({
+        type: sdpSettingsActions.SAVE_ERROR,
+      });
+    }
+  },
+};
+
+export default sdpSettingsActions;
@@ -0,0 +1,56 @@
+import actions from 'src/modules/sdpSettings/sdpSettingsActions';
+
+const initialData = {
+  initLoading: false,
+  saveLoading: false,
+  settings: null,
+};
+
+export default (state = initialData, { type, payload }) => {
+  if (type === actions.INIT_STARTED) {
+    return {
+      ...state,
+      settings: null,
+      initLoading: true,
+    };
+  }
+
+  if (type === actions.INIT_SUCCESS) {
+    return {
+      ...state,
+      settings: payload,
+      initLoading: false,
+    };
+  }
+
+  if (type === actions.INIT_ERROR) {
+    return {
+      ...state,
+      initLoading: false,
+    };
+  }
+
+  if (type === actions.SAVE_STARTED) {
+    return {
+      ...state,
+      saveLoading: true,
+    };
+  }
+
+  if (type === actions.SAVE_SUCCESS) {
+    return {
+      ...state,
+      settings: payload,
+      saveLoading: false,
+    };
+  }
+
+  if (type === actions.SAVE_ERROR) {
+    return {
+      ...state,
+      saveLoading: false,
+    };
+  }
+
+  return state;
+};
@@ -0,0 +1,27 @@
+import { createSelector } from 'reselect';
+
+const selectRaw = (state) => state.sdpSettings;
+
+const selectSettings = createSelector(
+  [selectRaw],
+  (raw) => raw.settings,
+);
+
+const selectInitLoading = createSelector(
+  [selectRaw],
+  (raw) => Boolean(raw.initLoading),
+);
+
+const selectSaveLoading = createSelector(
+  [selectRaw],
+  (raw) => Boolean(raw.saveLoading),
+);
+
+const sdpSettingsSelectors = {
+  selectInitLoading,
+  selectSaveLoading,
+  selectSettings,
+  selectRaw,
+};
+
+export default sdpSettingsSelectors;
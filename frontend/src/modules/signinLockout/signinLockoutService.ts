@@ -0,0 +1,32 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class SigninLockoutService {
+  static async list(limit, offset) {
+    const params = {
+      limit,
+      offset,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/signin-lockout`,
+      {
+        params,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async unlock(id) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.delete(
+      `/tenant/${tenantId}/signin-lockout/${id}`,
+    );
+
+    return response.data;
+  }
+}
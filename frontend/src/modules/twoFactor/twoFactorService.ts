@@ -0,0 +1,92 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+import AuthInvitationToken from 'src/modules/auth/authInvitationToken';
+import { tenantSubdomain } from 'src/modules/tenant/tenantSubdomain';
+
+export default class TwoFactorService {
+  /**
+   * First sign-in step. Returns the session, or a
+   * twoFactorToken when a code is needed.
+   */
+  static async signin(email, password, rememberMe) {
+    const invitationToken = AuthInvitationToken.get();
+
+    const response = await authAxios.post('/auth/sign-in', {
+      email,
+      password,
+      rememberMe,
+      invitationToken,
+      tenantId: tenantSubdomain.isSubdomain
+        ? AuthCurrentTenant.get()
+        : undefined,
+    });
+
+    AuthInvitationToken.clear();
+
+    return response.data;
+  }
+
+  static async signinWithCode(twoFactorToken, code) {
+    const response = await authAxios.post(
+      '/auth/sign-in/two-factor',
+      {
+        twoFactorToken,
+        code,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async status() {
+    const response = await authAxios.get(
+      '/auth/two-factor',
+    );
+
+    return response.data;
+  }
+
+  static async enroll(twoFactorToken?) {
+    const response = await authAxios.post(
+      '/auth/two-factor/enroll',
+      {
+        twoFactorToken,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async enable(code) {
+    const response = await authAxios.post(
+      '/auth/two-factor/enable',
+      {
+        code,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async disable(code) {
+    const response = await authAxios.post(
+      '/auth/two-factor/disable',
+      {
+        code,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async regenerateRecoveryCodes(code) {
+    const response = await authAxios.post(
+      '/auth/two-factor/recovery-codes',
+      {
+        code,
+      },
+    );
+
+    return response.data;
+  }
+}
@@ -0,0 +1,14 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class VisitorAccessEventService {
+  static async list(visitorId) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/visitor/${visitorId}/access-events`,
+    );
+
+    return response.data;
+  }
+}
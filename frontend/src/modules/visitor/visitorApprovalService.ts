@@ -0,0 +1,30 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class VisitorApprovalService {
+  static async approve(id, comment) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/visitor/${id}/approval/approve`,
+      {
+        data: { comment },
+      },
+    );
+
+    return response.data;
+  }
+
+  static async reject(id, comment) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/visitor/${id}/approval/reject`,
+      {
+        data: { comment },
+      },
+    );
+
+    return response.data;
+  }
+}
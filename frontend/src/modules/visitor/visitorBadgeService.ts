@@ -0,0 +1,35 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class VisitorBadgeService {
+  static async download(id, format) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/visitor/${id}/badge`,
+      {
+        params: { format },
+        responseType: 'blob',
+      },
+    );
+
+    return response.data;
+  }
+
+  static async verify(token) {
+    const body = {
+      data: {
+        token,
+      },
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/visitor-badge/verify`,
+      body,
+    );
+
+    return response.data;
+  }
+}
@@ -0,0 +1,24 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class VisitorLifecycleService {
+  static async checkIn(id) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/visitor/${id}/check-in`,
+    );
+
+    return response.data;
+  }
+
+  static async checkOut(id) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/visitor/${id}/check-out`,
+    );
+
+    return response.data;
+  }
+}
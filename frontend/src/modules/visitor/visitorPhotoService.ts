@@ -0,0 +1,21 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class VisitorPhotoService {
+  static async save(id, photo) {
+    const body = {
+      data: {
+        photo,
+      },
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.put(
+      `/tenant/${tenantId}/visitor/${id}/photo`,
+      body,
+    );
+
+    return response.data;
+  }
+}
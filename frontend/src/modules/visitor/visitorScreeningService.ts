@@ -0,0 +1,24 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class VisitorScreeningService {
+  static async approve(id) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/visitor/${id}/screening/approve`,
+    );
+
+    return response.data;
+  }
+
+  static async reject(id) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/visitor/${id}/screening/reject`,
+    );
+
+    return response.data;
+  }
+}
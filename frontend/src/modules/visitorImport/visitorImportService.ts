@@ -0,0 +1,32 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class VisitorImportService {
+  static async dryRun(file) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/visitor-import/dry-run`,
+      this._formData(file),
+    );
+
+    return response.data;
+  }
+
+  static async import(file) {
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/visitor-import`,
+      this._formData(file),
+    );
+
+    return response.data;
+  }
+
+  static _formData(file) {
+    const formData = new FormData();
+    formData.append('file', file);
+    return formData;
+  }
+}
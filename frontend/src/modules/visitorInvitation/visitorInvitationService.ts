@@ -0,0 +1,40 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class VisitorInvitationService {
+  static async invite(data) {
+    const body = {
+      data,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/visitor-invitation`,
+      body,
+    );
+
+    return response.data;
+  }
+
+  static async findByToken(token) {
+    const response = await authAxios.get(
+      `/visitor-invitation/${token}`,
+    );
+
+    return response.data;
+  }
+
+  static async register(token, data) {
+    const body = {
+      data,
+    };
+
+    const response = await authAxios.post(
+      `/visitor-invitation/${token}/register`,
+      body,
+    );
+
+    return response.data;
+  }
+}
@@ -0,0 +1,70 @@
+import authAxios from 'src/modules/shared/axios/authAxios';
+import AuthCurrentTenant from 'src/modules/auth/authCurrentTenant';
+
+export default class WatchlistEntryService {
+  static async create(data) {
+    const body = {
+      data,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.post(
+      `/tenant/${tenantId}/watchlist-entry`,
+      body,
+    );
+
+    return response.data;
+  }
+
+  static async update(id, data) {
+    const body = {
+      data,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.put(
+      `/tenant/${tenantId}/watchlist-entry/${id}`,
+      body,
+    );
+
+    return response.data;
+  }
+
+  static async destroyAll(ids) {
+    const params = {
+      ids,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.delete(
+      `/tenant/${tenantId}/watchlist-entry`,
+      {
+        params,
+      },
+    );
+
+    return response.data;
+  }
+
+  static async list(search, limit, offset) {
+    const params = {
+      search,
+      limit,
+      offset,
+    };
+
+    const tenantId = AuthCurrentTenant.get();
+
+    const response = await authAxios.get(
+      `/tenant/${tenantId}/watchlist-entry`,
+      {
+        params,
+      },
+    );
+
+    return response.data;
+  }
+}
@@ -0,0 +1,207 @@
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+} from '@material-ui/core';
+import SaveIcon from '@material-ui/icons/Save';
+import { yupResolver } from '@hookform/resolvers';
+import React, { useState } from 'react';
+import { useForm, FormProvider } from 'react-hook-form';
+import { i18n } from 'src/i18n';
+import yupFormSchemas from 'src/modules/shared/yup/yupFormSchemas';
+import InputFormItem from 'src/view/shared/form/items/InputFormItem';
+import SelectFormItem from 'src/view/shared/form/items/SelectFormItem';
+import * as yup from 'yup';
+
+/**
+ * ISO weekdays, 1 is Monday.
+ */
+const DAYS = [1, 2, 3, 4, 5, 6, 7];
+
+const TIME_PATTERN = /^([01][0-9]|2[0-3]):[0-5][0-9]$/;
+
+const schema = yup.object().shape({
+  code: yupFormSchemas.string(
+    i18n('entities.area.fields.code'),
+    {
+      required: true,
+      max: 50,
+    },
+  ),
+  name: yupFormSchemas.string(
+    i18n('entities.area.fields.name'),
+    {
+      required: true,
+      max: 255,
+    },
+  ),
+  building: yupFormSchemas.string(
+    i18n('entities.area.fields.building'),
+    {
+      max: 255,
+    },
+  ),
+  floor: yupFormSchemas.string(
+    i18n('entities.area.fields.floor'),
+    {
+      max: 50,
+    },
+  ),
+  capacity: yupFormSchemas.integer(
+    i18n('entities.area.fields.capacity'),
+    {
+      min: 1,
+    },
+  ),
+  scheduleDays: yupFormSchemas.stringArray(
+    i18n('entities.area.fields.scheduleDays'),
+  ),
+  scheduleStartTime: yupFormSchemas.string(
+    i18n('entities.area.fields.scheduleStartTime'),
+    {
+      matches: TIME_PATTERN,
+    },
+  ),
+  scheduleEndTime: yupFormSchemas.string(
+    i18n('entities.area.fields.scheduleEndTime'),
+    {
+      matches: TIME_PATTERN,
+    },
+  ),
+});
+
+function AreaFormDialog(props) {
+  const { record, saveLoading, onSave, onClose } = props;
+
+  const [initialValues] = useState(() => {
+    const values = record || {};
+
+    return {
+      code: values.code || '',
+      name: values.name || '',
+      building: values.building || '',
+      floor: values.floor || '',
+      capacity: values.capacity || null,
+      scheduleDays: (values.scheduleDays || []).map(String),
+      scheduleStartTime: values.scheduleStartTime || '',
+      scheduleEndTime: values.scheduleEndTime || '',
+    };
+  });
+
+  const form = useForm({
+    resolver: yupResolver(schema),
+    mode: 'all',
+    defaultValues: initialValues as any,
+  });
+
+  const onSubmit = (values) => {
+    onSave({
+      ...values,
+      scheduleDays: (values.scheduleDays || []).map(Number),
+      scheduleStartTime: values.scheduleStartTime || null,
+      scheduleEndTime: values.scheduleEndTime || null,
+    });
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {record
+          ? i18n('entities.area.edit.title')
+          : i18n('entities.area.new.title')}
+      </DialogTitle>
+
+      <FormProvider {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <DialogContent>
+            <InputFormItem
+              name="code"
+              label={i18n('entities.area.fields.code')}
+              hint={i18n('entities.area.hints.code')}
+              required={true}
+              autoFocus
+            />
+
+            <InputFormItem
+              name="name"
+              label={i18n('entities.area.fields.name')}
+              required={true}
+            />
+
+            <InputFormItem
+              name="building"
+              label={i18n('entities.area.fields.building')}
+            />
+
+            <InputFormItem
+              name="floor"
+              label={i18n('entities.area.fields.floor')}
+            />
+
+            <InputFormItem
+              name="capacity"
+              label={i18n('entities.area.fields.capacity')}
+              hint={i18n('entities.area.hints.capacity')}
+            />
+
+            <SelectFormItem
+              name="scheduleDays"
+              label={i18n(
+                'entities.area.fields.scheduleDays',
+              )}
+              hint={i18n(
+                'entities.area.hints.scheduleDays',
+              )}
+              options={DAYS.map((value) => ({
+                value: String(value),
+                label: i18n(
+                  `entities.area.enumerators.day.${value}`,
+                ),
+              }))}
+              mode="multiple"
+            />
+
+            <InputFormItem
+              name="scheduleStartTime"
+              label={i18n(
+                'entities.area.fields.scheduleStartTime',
+              )}
+              placeholder="08:00"
+            />
+
+            <InputFormItem
+              name="scheduleEndTime"
+              label={i18n(
+                'entities.area.fields.scheduleEndTime',
+              )}
+              hint={i18n(
+                'entities.area.hints.scheduleTime',
+              )}
+              placeholder="18:00"
+            />
+          </DialogContent>
+
+          <DialogActions>
+            <Button onClick={onClose}>
+              {i18n('common.cancel')}
+            </Button>
+
+            <Button
+              variant="contained"
+              color="primary"
+              type="submit"
+              disabled={saveLoading}
+              startIcon={<SaveIcon />}
+            >
+              {i18n('common.save')}
+            </Button>
+          </DialogActions>
+        </form>
+      </FormProvider>
+    </Dialog>
+  );
+}
+
+export default AreaFormDialog;
@@ -0,0 +1,275 @@
+import {
+  Box,
+  Button,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+} from '@material-ui/core';
+import AddIcon from '@material-ui/icons/Add';
+import DeleteIcon from '@material-ui/icons/Delete';
+import EditIcon from '@material-ui/icons/Edit';
+import React, {
+  useCallback,
+  useEffect,
+  useState,
+} from 'react';
+import { i18n } from 'src/i18n';
+import Errors from 'src/modules/shared/error/errors';
+import AreaService from 'src/modules/area/areaService';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import ConfirmModal from 'src/view/shared/modals/ConfirmModal';
+import Spinner from 'src/view/shared/Spinner';
+import Message from 'src/view/shared/message';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+import AreaFormDialog from 'src/view/area/AreaFormDialog';
+
+const PAGE_SIZE = 10;
+
+function AreaPage() {
+  const [rows, setRows] = useState<Array<any>>([]);
+  const [count, setCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saveLoading, setSaveLoading] = useState(false);
+  const [editing, setEditing] = useState<any>(undefined);
+  const [destroyId, setDestroyId] = useState<any>(null);
+
+  const doFetch = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const result = await AreaService.list(
+        search,
+        PAGE_SIZE,
+        page * PAGE_SIZE,
+      );
+
+      setRows(result.rows);
+      setCount(result.count);
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  }, [search, page]);
+
+  useEffect(() => {
+    doFetch();
+  }, [doFetch]);
+
+  const doSave = async (values) => {
+    setSaveLoading(true);
+
+    try {
+      if (editing) {
+        await AreaService.update(editing.id, values);
+      } else {
+        await AreaService.create(values);
+      }
+
+      Message.success(i18n('entities.area.save.success'));
+
+      setEditing(undefined);
+      doFetch();
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setSaveLoading(false);
+  };
+
+  const doDestroy = async () => {
+    const id = destroyId;
+    setDestroyId(null);
+
+    try {
+      await AreaService.destroyAll([id]);
+
+      Message.success(
+        i18n('entities.area.destroy.success'),
+      );
+
+      doFetch();
+    } catch (error) {
+      Errors.handle(error);
+    }
+  };
+
+  const formatSchedule = (row) => {
+    const days =
+      row.scheduleDays && row.scheduleDays.length
+        ? row.scheduleDays
+            .map((day) =>
+              i18n(`entities.area.enumerators.day.${day}`),
+            )
+            .join(', ')
+        : i18n('entities.area.everyDay');
+
+    const hours =
+      row.scheduleStartTime || row.scheduleEndTime
+        ? `${row.scheduleStartTime || '00:00'} - ${
+            row.scheduleEndTime || '24:00'
+          }`
+        : i18n('entities.area.allDay');
+
+    return `${days} · ${hours}`;
+  };
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('entities.area.menu')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>
+          {i18n('entities.area.list.title')}
+        </PageTitle>
+
+        <Box display="flex" alignItems="center" mb={2}>
+          <TextField
+            value={search}
+            onChange={(event) => {
+              setSearch(event.target.value);
+              setPage(0);
+            }}
+            label={i18n('entities.area.search')}
+            variant="outlined"
+            size="small"
+          />
+
+          <Box ml={1}>
+            <Button
+              variant="contained"
+              color="primary"
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => setEditing(null)}
+            >
+              {i18n('common.new')}
+            </Button>
+          </Box>
+        </Box>
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  {i18n('entities.area.fields.code')}
+                </TableCell>
+                <TableCell>
+                  {i18n('entities.area.fields.name')}
+                </TableCell>
+                <TableCell>
+                  {i18n('entities.area.fields.location')}
+                </TableCell>
+                <TableCell>
+                  {i18n('entities.area.fields.capacity')}
+                </TableCell>
+                <TableCell>
+                  {i18n('entities.area.fields.schedule')}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <Spinner />
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading && !rows.length && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <div
+                      style={{
+                        display: 'flex',
+                        justifyContent: 'center',
+                      }}
+                    >
+                      {i18n('table.noData')}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading &&
+                rows.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell>{row.code}</TableCell>
+                    <TableCell>{row.name}</TableCell>
+                    <TableCell>
+                      {[row.building, row.floor]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </TableCell>
+                    <TableCell>{row.capacity}</TableCell>
+                    <TableCell>
+                      {formatSchedule(row)}
+                    </TableCell>
+                    <TableCell align="right">
+                      <IconButton
+                        size="small"
+                        onClick={() => setEditing(row)}
+                      >
+                        <EditIcon />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        onClick={() => setDestroyId(row.id)}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <TablePagination
+          component="div"
+          count={count}
+          page={page}
+          rowsPerPage={PAGE_SIZE}
+          rowsPerPageOptions={[PAGE_SIZE]}
+          onChangePage={(event, value) => setPage(value)}
+        />
+      </ContentWrapper>
+
+      {editing !== undefined && (
+        <AreaFormDialog
+          record={editing}
+          saveLoading={saveLoading}
+          onSave={doSave}
+          onClose={() => setEditing(undefined)}
+        />
+      )}
+
+      {destroyId && (
+        <ConfirmModal
+          title={i18n('common.areYouSure')}
+          onConfirm={doDestroy}
+          onClose={() => setDestroyId(null)}
+          okText={i18n('common.yes')}
+          cancelText={i18n('common.no')}
+        />
+      )}
+    </>
+  );
+}
+
+export default AreaPage;
@@ -0,0 +1,55 @@
+import React from 'react';
+import AreaService from 'src/modules/area/areaService';
+import AutocompleteFormItem from 'src/view/shared/form/items/AutocompleteFormItem';
+
+/**
+ * Picks the areas a Visitor is given access to,
+ * e.g. name="areas" mode="multiple" on the visitor form.
+ */
+function AreaAutocompleteFormItem(props) {
+  const fetchFn = (value, limit) => {
+    return AreaService.listAutocomplete(value, limit);
+  };
+
+  const mapper = {
+    toAutocomplete(originalValue) {
+      if (!originalValue) {
+        return null;
+      }
+
+      const value = originalValue.id;
+      let label = originalValue.label;
+
+      if (originalValue.code) {
+        label = `${originalValue.code} - ${originalValue.name}`;
+      }
+
+      return {
+        key: value,
+        value,
+        label,
+      };
+    },
+
+    toValue(originalValue) {
+      if (!originalValue) {
+        return null;
+      }
+
+      return {
+        id: originalValue.value,
+        label: originalValue.label,
+      };
+    },
+  };
+
+  return (
+    <AutocompleteFormItem
+      {...props}
+      fetchFn={fetchFn}
+      mapper={mapper}
+    />
+  );
+}
+
+export default AreaAutocompleteFormItem;
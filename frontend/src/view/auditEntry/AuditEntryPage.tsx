@@ -0,0 +1,322 @@
+import {
+  Box,
+  Button,
+  MenuItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+} from '@material-ui/core';
+import GetAppIcon from '@material-ui/icons/GetApp';
+import moment from 'moment';
+import React, {
+  useCallback,
+  useEffect,
+  useState,
+} from 'react';
+import { i18n } from 'src/i18n';
+import AuditEntryService from 'src/modules/auditEntry/auditEntryService';
+import Errors from 'src/modules/shared/error/errors';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import Spinner from 'src/view/shared/Spinner';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+
+const PAGE_SIZE = 20;
+
+const CATEGORIES = ['visitor', 'auth', 'sdp'];
+
+/**
+ * Who did what to which Visitor, sign-in attempts
+ * and the commands sent to the controller.
+ */
+function AuditEntryPage() {
+  const [actor, setActor] = useState('');
+  const [category, setCategory] = useState('');
+  const [entityId, setEntityId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [rows, setRows] = useState<Array<any>>([]);
+  const [count, setCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const filter = useCallback(
+    () => ({
+      actor: actor || undefined,
+      category: category || undefined,
+      entityId: entityId || undefined,
+      createdAtRange:
+        from || to
+          ? [
+              from ? moment(from).startOf('day') : null,
+              to ? moment(to).endOf('day') : null,
+            ]
+          : undefined,
+    }),
+    [actor, category, entityId, from, to],
+  );
+
+  const doFetch = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const result = await AuditEntryService.list(
+        filter(),
+        PAGE_SIZE,
+        page * PAGE_SIZE,
+      );
+
+      setRows(result.rows);
+      setCount(result.count);
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  }, [filter, page]);
+
+  useEffect(() => {
+    doFetch();
+  }, [doFetch]);
+
+  const doExport = async () => {
+    setExporting(true);
+
+    try {
+      const blob = await AuditEntryService.export(filter());
+
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'audit-trail.csv';
+      link.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setExporting(false);
+  };
+
+  const formatDate = (value) =>
+    value
+      ? moment(value).format('YYYY-MM-DD HH:mm:ss')
+      : null;
+
+  const details = (row) => {
+    if (row.error) {
+      return row.error;
+    }
+
+    if (row.category === 'visitor' && row.values) {
+      return Object.keys(row.values).join(', ');
+    }
+
+    return null;
+  };
+
+  const onFilterChange = (setter) => (event) => {
+    setter(event.target.value);
+    setPage(0);
+  };
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('auditEntry.menu')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>{i18n('auditEntry.title')}</PageTitle>
+
+        <Box
+          display="flex"
+          flexWrap="wrap"
+          alignItems="center"
+          mb={2}
+        >
+          <Box mr={1} mb={1}>
+            <TextField
+              value={actor}
+              onChange={onFilterChange(setActor)}
+              label={i18n('auditEntry.fields.actor')}
+              variant="outlined"
+              size="small"
+            />
+          </Box>
+
+          <Box mr={1} mb={1} minWidth={160}>
+            <TextField
+              select
+              fullWidth
+              value={category}
+              onChange={onFilterChange(setCategory)}
+              label={i18n('auditEntry.fields.category')}
+              variant="outlined"
+              size="small"
+            >
+              <MenuItem value="">
+                {i18n('auditEntry.allCategories')}
+              </MenuItem>
+              {CATEGORIES.map((value) => (
+                <MenuItem key={value} value={value}>
+                  {i18n(
+                    `auditEntry.enumerators.category.${value}`,
+                  )}
+                </MenuItem>
+              ))}
+            </TextField>
+          </Box>
+
+          <Box mr={1} mb={1}>
+            <TextField
+              value={entityId}
+              onChange={onFilterChange(setEntityId)}
+              label={i18n('auditEntry.fields.entityId')}
+              variant="outlined"
+              size="small"
+            />
+          </Box>
+
+          <Box mr={1} mb={1}>
+            <TextField
+              type="date"
+              value={from}
+              onChange={onFilterChange(setFrom)}
+              label={i18n('auditEntry.fields.from')}
+              variant="outlined"
+              size="small"
+              InputLabelProps={{ shrink: true }}
+            />
+          </Box>
+
+          <Box mr={1} mb={1}>
+            <TextField
+              type="date"
+              value={to}
+              onChange={onFilterChange(setTo)}
+              label={i18n('auditEntry.fields.to')}
+              variant="outlined"
+              size="small"
+              InputLabelProps={{ shrink: true }}
+            />
+          </Box>
+
+          <Box mb={1}>
+            <Button
+              variant="contained"
+              color="primary"
+              size="small"
+              disabled={exporting}
+              startIcon={<GetAppIcon />}
+              onClick={doExport}
+            >
+              {i18n('auditEntry.export')}
+            </Button>
+          </Box>
+        </Box>
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  {i18n('auditEntry.fields.createdAt')}
+                </TableCell>
+                <TableCell>
+                  {i18n('auditEntry.fields.category')}
+                </TableCell>
+                <TableCell>
+                  {i18n('auditEntry.fields.action')}
+                </TableCell>
+                <TableCell>
+                  {i18n('auditEntry.fields.outcome')}
+                </TableCell>
+                <TableCell>
+                  {i18n('auditEntry.fields.actor')}
+                </TableCell>
+                <TableCell>
+                  {i18n('auditEntry.fields.entity')}
+                </TableCell>
+                <TableCell>
+                  {i18n('auditEntry.fields.details')}
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <Spinner />
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading && !rows.length && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <div
+                      style={{
+                        display: 'flex',
+                        justifyContent: 'center',
+                      }}
+                    >
+                      {i18n('table.noData')}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading &&
+                rows.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      {formatDate(row.createdAt)}
+                    </TableCell>
+                    <TableCell>
+                      {i18n(
+                        `auditEntry.enumerators.category.${row.category}`,
+                      )}
+                    </TableCell>
+                    <TableCell>{row.action}</TableCell>
+                    <TableCell>
+                      {i18n(
+                        `auditEntry.enumerators.outcome.${row.outcome}`,
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {row.actorEmail || row.actorId}
+                    </TableCell>
+                    <TableCell>
+                      {row.entityId
+                        ? `${row.entityName} ${row.entityId}`
+                        : row.entityName}
+                    </TableCell>
+                    <TableCell>{details(row)}</TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <TablePagination
+          component="div"
+          count={count}
+          page={page}
+          rowsPerPage={PAGE_SIZE}
+          rowsPerPageOptions={[PAGE_SIZE]}
+          onChangePage={(event, value) => setPage(value)}
+        />
+      </ContentWrapper>
+    </>
+  );
+}
+
+export default AuditEntryPage;
@@ -0,0 +1,112 @@
+import queryString from 'query-string';
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import {
+  Link,
+  useHistory,
+  useLocation,
+} from 'react-router-dom';
+import MaterialLink from '@material-ui/core/Link';
+import actions from 'src/modules/auth/authActions';
+import selectors from 'src/modules/auth/authSelectors';
+import AuthToken from 'src/modules/auth/authToken';
+import OidcService from 'src/modules/oidc/oidcService';
+import Errors from 'src/modules/shared/error/errors';
+import { i18n } from 'src/i18n';
+import Content from 'src/view/auth/styles/Content';
+import Logo from 'src/view/auth/styles/Logo';
+import OtherActions from 'src/view/auth/styles/OtherActions';
+import Wrapper from 'src/view/auth/styles/Wrapper';
+import Spinner from 'src/view/shared/Spinner';
+
+/**
+ * Where the single sign-on provider redirects
+ * back to, with the code and the state.
+ */
+function OidcCallbackPage() {
+  const dispatch = useDispatch();
+  const history = useHistory();
+  const location = useLocation();
+
+  const backgroundImageUrl = useSelector(
+    selectors.selectBackgroundImageUrl,
+  );
+  const logoUrl = useSelector(selectors.selectLogoUrl);
+
+  const [errorMessage, setErrorMessage] = useState<
+    string | null
+  >(null);
+
+  useEffect(() => {
+    const query = queryString.parse(location.search);
+
+    if (query.error) {
+      setErrorMessage(
+        String(query.error_description || query.error),
+      );
+      return;
+    }
+
+    OidcService.callback(query.code, query.state)
+      .then((result) => {
+        // The second factor is asked on the sign-in page
+        if (result.twoFactorToken) {
+          history.replace('/auth/signin', {
+            twoFactorChallenge: result,
+          });
+          return;
+        }
+
+        AuthToken.set(result.token, result.rememberMe);
+        dispatch(actions.doInit());
+      })
+      .catch((error) =>
+        setErrorMessage(Errors.selectMessage(error)),
+      );
+  }, [dispatch, history, location.search]);
+
+  return (
+    <Wrapper
+      style={{
+        backgroundImage: `url(${
+          backgroundImageUrl || '/images/signin.jpg'
+        })`,
+      }}
+    >
+      <Content>
+        <Logo>
+          {logoUrl ? (
+            <img
+              src={logoUrl}
+              width="240px"
+              alt={i18n('app.title')}
+            />
+          ) : (
+            <h1>{i18n('app.title')}</h1>
+          )}
+        </Logo>
+
+        {!errorMessage && <Spinner />}
+
+        {errorMessage && (
+          <>
+            <h3 style={{ textAlign: 'center' }}>
+              {errorMessage}
+            </h3>
+
+            <OtherActions>
+              <MaterialLink
+                component={Link}
+                to="/auth/signin"
+              >
+                {i18n('auth.signin')}
+              </MaterialLink>
+            </OtherActions>
+          </>
+        )}
+      </Content>
+    </Wrapper>
+  );
+}
+
+export default OidcCallbackPage;
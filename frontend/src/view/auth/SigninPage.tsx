@@ -4,7 +4,7 @@ import selectors from 'src/modules/auth/authSelectors';
 import { i18n } from 'src/i18n';
 import React, { useEffect, useState } from 'react';
 import { useSelector, useDispatch } from 'react-redux';
-import { Link } from 'react-router-dom';
+import { Link, useLocation } from 'react-router-dom';
 import MaterialLink from '@material-ui/core/Link';
 import Content from 'src/view/auth/styles/Content';
 import Logo from 'src/view/auth/styles/Logo';
@@ -16,10 +16,17 @@ import {
   FormControlLabel,
   Box,
   Button,
+  TextField,
 } from '@material-ui/core';
 import yupFormSchemas from 'src/modules/shared/yup/yupFormSchemas';
 import * as yup from 'yup';
 import { yupResolver } from '@hookform/resolvers';
+import AuthToken from 'src/modules/auth/authToken';
+import Errors from 'src/modules/shared/error/errors';
+import TwoFactorService from 'src/modules/twoFactor/twoFactorService';
+import OidcService from 'src/modules/oidc/oidcService';
+import TwoFactorEnrollment from 'src/view/twoFactor/TwoFactorEnrollment';
+import TwoFactorRecoveryCodes from 'src/view/twoFactor/TwoFactorRecoveryCodes';
 
 const schema = yup.object().shape({
   email: yupFormSchemas.string(i18n('user.fields.email'), {
@@ -38,22 +45,66 @@ const schema = yup.object().shape({
 
 function SigninPage() {
   const dispatch = useDispatch();
+  const location = useLocation<any>();
 
   const backgroundImageUrl = useSelector(
     selectors.selectBackgroundImageUrl,
   );
   const logoUrl = useSelector(selectors.selectLogoUrl);
 
-  const loading = useSelector(selectors.selectLoading);
+  const [loading, setLoading] = useState(false);
+  const [
+    externalErrorMessage,
+    setExternalErrorMessage,
+  ] = useState<string | null>(null);
 
-  const externalErrorMessage = useSelector(
-    selectors.selectErrorMessage,
+  // Second step, when the account has a second factor
+  const [challenge, setChallenge] = useState<any>(null);
+  const [enrollment, setEnrollment] = useState<any>(null);
+  const [code, setCode] = useState('');
+  const [session, setSession] = useState<any>(null);
+
+  // Single sign-on provider of the tenant, if any
+  const [oidcProvider, setOidcProvider] = useState<any>(
+    null,
   );
 
   useEffect(() => {
     dispatch(actions.doClearErrorMessage());
   }, [dispatch]);
 
+  // Challenge of a single sign-on that
+  // needs the second factor too
+  useEffect(() => {
+    const twoFactorChallenge =
+      location.state && location.state.twoFactorChallenge;
+
+    if (!twoFactorChallenge) {
+      return;
+    }
+
+    setChallenge(twoFactorChallenge);
+
+    if (twoFactorChallenge.twoFactorEnrollmentRequired) {
+      TwoFactorService.enroll(
+        twoFactorChallenge.twoFactorToken,
+      )
+        .then(setEnrollment)
+        .catch((error) =>
+          setExternalErrorMessage(
+            Errors.selectMessage(error),
+          ),
+        );
+    }
+  }, [location.state]);
+
+  useEffect(() => {
+    OidcService.provider()
+      .then(setOidcProvider)
+      // Without the provider, only the password sign-in shows
+      .catch(() => setOidcProvider(null));
+  }, []);
+
   const [initialValues] = useState({
     email: '',
     password: '',
@@ -66,13 +117,166 @@ function SigninPage() {
     defaultValues: initialValues,
   });
 
-  const onSubmit = (values) => {
-    dispatch(
-      actions.doSigninWithEmailAndPassword(
+  const doFinish = (result, rememberMe) => {
+    AuthToken.set(result.token, rememberMe);
+    dispatch(actions.doInit());
+  };
+
+  const onSubmit = async (values) => {
+    setLoading(true);
+    setExternalErrorMessage(null);
+
+    try {
+      const result = await TwoFactorService.signin(
         values.email,
         values.password,
         values.rememberMe,
-      ),
+      );
+
+      if (!result.twoFactorToken) {
+        doFinish(result, values.rememberMe);
+        return;
+      }
+
+      setChallenge({
+        ...result,
+        rememberMe: values.rememberMe,
+      });
+
+      if (result.twoFactorEnrollmentRequired) {
+        setEnrollment(
+          await TwoFactorService.enroll(
+            result.twoFactorToken,
+          ),
+        );
+      }
+    } catch (error) {
+      setExternalErrorMessage(Errors.selectMessage(error));
+    }
+
+    setLoading(false);
+  };
+
+  const onSubmitCode = async (event) => {
+    event.preventDefault();
+
+    setLoading(true);
+    setExternalErrorMessage(null);
+
+    try {
+      const result = await TwoFactorService.signinWithCode(
+        challenge.twoFactorToken,
+        code,
+      );
+
+      // Shows the recovery codes of a new
+      // enrollment before signing in
+      if (result.recoveryCodes) {
+        setSession(result);
+        setLoading(false);
+        return;
+      }
+
+      doFinish(result, challenge.rememberMe);
+      return;
+    } catch (error) {
+      setExternalErrorMessage(Errors.selectMessage(error));
+    }
+
+    setLoading(false);
+  };
+
+  const onOidcSignin = async () => {
+    setLoading(true);
+    setExternalErrorMessage(null);
+
+    try {
+      await OidcService.authorize(
+        form.getValues('rememberMe'),
+      );
+      return;
+    } catch (error) {
+      setExternalErrorMessage(Errors.selectMessage(error));
+    }
+
+    setLoading(false);
+  };
+
+  const onCancelCode = () => {
+    setChallenge(null);
+    setEnrollment(null);
+    setCode('');
+    setExternalErrorMessage(null);
+  };
+
+  const renderTwoFactor = () => {
+    if (session) {
+      return (
+        <>
+          <TwoFactorRecoveryCodes
+            recoveryCodes={session.recoveryCodes}
+          />
+
+          <Button
+            variant="contained"
+            color="primary"
+            fullWidth
+            onClick={() =>
+              doFinish(session, challenge.rememberMe)
+            }
+          >
+            {i18n('common.continue')}
+          </Button>
+        </>
+      );
+    }
+
+    return (
+      <form onSubmit={onSubmitCode}>
+        {enrollment && (
+          <TwoFactorEnrollment enrollment={enrollment} />
+        )}
+
+        <TextField
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          label={i18n('twoFactor.code')}
+          helperText={
+            externalErrorMessage ||
+            (enrollment
+              ? i18n('twoFactor.enrollment.confirm')
+              : i18n('twoFactor.codeHint'))
+          }
+          error={Boolean(externalErrorMessage)}
+          autoComplete="one-time-code"
+          variant="outlined"
+          size="small"
+          margin="normal"
+          autoFocus
+          fullWidth
+        />
+
+        <Button
+          style={{ marginTop: '8px' }}
+          variant="contained"
+          color="primary"
+          type="submit"
+          fullWidth
+          disabled={loading || !code}
+        >
+          {i18n('twoFactor.verify')}
+        </Button>
+
+        <OtherActions>
+          <MaterialLink
+            component="button"
+            type="button"
+            onClick={onCancelCode}
+          >
+            {i18n('common.cancel')}
+          </MaterialLink>
+        </OtherActions>
+      </form>
     );
   };
 
@@ -97,72 +301,93 @@ function SigninPage() {
           )}
         </Logo>
 
-        <FormProvider {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)}>
-            <InputFormItem
-              name="email"
-              label={i18n('user.fields.email')}
-              autoComplete="email"
-              autoFocus
-              externalErrorMessage={externalErrorMessage}
-            />
+        {challenge && renderTwoFactor()}
 
-            <InputFormItem
-              name="password"
-              label={i18n('user.fields.password')}
-              autoComplete="password"
-              type="password"
-            />
+        {!challenge && (
+          <FormProvider {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)}>
+              <InputFormItem
+                name="email"
+                label={i18n('user.fields.email')}
+                autoComplete="email"
+                autoFocus
+                externalErrorMessage={externalErrorMessage}
+              />
 
-            <Box
-              display="flex"
-              justifyContent="space-between"
-              alignItems="center"
-            >
-              <FormControlLabel
-                control={
-                  <Checkbox
-                    id={'rememberMe'}
-                    name={'rememberMe'}
-                    defaultChecked={true}
-                    inputRef={form.register}
-                    color="primary"
-                    size="small"
-                  />
-                }
-                label={i18n('user.fields.rememberMe')}
+              <InputFormItem
+                name="password"
+                label={i18n('user.fields.password')}
+                autoComplete="password"
+                type="password"
               />
 
-              <MaterialLink
-                style={{ marginBottom: '8px' }}
-                component={Link}
-                to="/auth/forgot-password"
+              <Box
+                display="flex"
+                justifyContent="space-between"
+                alignItems="center"
               >
-                {i18n('auth.forgotPassword')}
-              </MaterialLink>
-            </Box>
-
-            <Button
-              style={{ marginTop: '8px' }}
-              variant="contained"
-              color="primary"
-              type="submit"
-              fullWidth
-              disabled={loading}
-            >
-              {i18n('auth.signin')}
-            </Button>
-
-            <OtherActions>
-              <MaterialLink
-                component={Link}
-                to="/auth/signup"
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      id={'rememberMe'}
+                      name={'rememberMe'}
+                      defaultChecked={true}
+                      inputRef={form.register}
+                      color="primary"
+                      size="small"
+                    />
+                  }
+                  label={i18n('user.fields.rememberMe')}
+                />
+
+                <MaterialLink
+                  style={{ marginBottom: '8px' }}
+                  component={Link}
+                  to="/auth/forgot-password"
+                >
+                  {i18n('auth.forgotPassword')}
+                </MaterialLink>
+              </Box>
+
+              <Button
+                style={{ marginTop: '8px' }}
+                variant="contained"
+                color="primary"
+                type="submit"
+                fullWidth
+                disabled={loading}
               >
-                {i18n('auth.createAnAccount')}
-              </MaterialLink>
-            </OtherActions>
-          </form>
-        </FormProvider>
+                {i18n('auth.signin')}
+              </Button>
+
+              {oidcProvider && oidcProvider.enabled && (
+                <Button
+                  style={{ marginTop: '8px' }}
+                  variant="outlined"
+                  color="primary"
+                  type="button"
+                  fullWidth
+                  disabled={loading}
+                  onClick={onOidcSignin}
+                >
+                  {i18n(
+                    'auth.oidc.signinWith',
+                    oidcProvider.label,
+                  )}
+                </Button>
+              )}
+
+              <OtherActions>
+                <MaterialLink
+                  component={Link}
+                  to="/auth/signup"
+                >
+                  {i18n('auth.createAnAccount')}
+                </MaterialLink>
+              </OtherActions>
+            </form>
+          </FormProvider>
+        )}
       </Content>
     </Wrapper>
   );
@@ -0,0 +1,170 @@
+import {
+  Button,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@material-ui/core';
+import ExitToAppIcon from '@material-ui/icons/ExitToApp';
+import moment from 'moment';
+import React, {
+  useCallback,
+  useEffect,
+  useState,
+} from 'react';
+import { useDispatch } from 'react-redux';
+import { i18n } from 'src/i18n';
+import authActions from 'src/modules/auth/authActions';
+import AuthSessionService from 'src/modules/authSession/authSessionService';
+import Errors from 'src/modules/shared/error/errors';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import Spinner from 'src/view/shared/Spinner';
+import Message from 'src/view/shared/message';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+
+/**
+ * Devices the current user is signed in on,
+ * which can be signed out remotely.
+ */
+function AuthSessionPage() {
+  const dispatch = useDispatch();
+
+  const [rows, setRows] = useState<Array<any>>([]);
+  const [loading, setLoading] = useState(false);
+  const [revokingId, setRevokingId] = useState(null);
+
+  const doFetch = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      setRows(await AuthSessionService.list());
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    doFetch();
+  }, [doFetch]);
+
+  const doRevoke = async (row) => {
+    setRevokingId(row.id);
+
+    try {
+      await AuthSessionService.revoke(row.id);
+
+      if (row.current) {
+        dispatch(authActions.doSignout());
+        return;
+      }
+
+      Message.success(i18n('authSession.revoke.success'));
+
+      doFetch();
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setRevokingId(null);
+  };
+
+  const formatDate = (value) =>
+    value ? moment(value).format('YYYY-MM-DD HH:mm') : null;
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('authSession.menu')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>{i18n('authSession.title')}</PageTitle>
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  {i18n('authSession.fields.userAgent')}
+                </TableCell>
+                <TableCell>
+                  {i18n('authSession.fields.ip')}
+                </TableCell>
+                <TableCell>
+                  {i18n('authSession.fields.createdAt')}
+                </TableCell>
+                <TableCell>
+                  {i18n('authSession.fields.lastUsedAt')}
+                </TableCell>
+                <TableCell>
+                  {i18n('authSession.fields.expiresAt')}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <Spinner />
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading &&
+                rows.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      {row.userAgent ||
+                        i18n(
+                          'authSession.unknownDevice',
+                        )}{' '}
+                      {row.current && (
+                        <Chip
+                          size="small"
+                          color="primary"
+                          label={i18n(
+                            'authSession.current',
+                          )}
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>{row.ip}</TableCell>
+                    <TableCell>
+                      {formatDate(row.createdAt)}
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(row.lastUsedAt)}
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(row.expiresAt)}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button
+                        size="small"
+                        disabled={revokingId === row.id}
+                        startIcon={<ExitToAppIcon />}
+                        onClick={() => doRevoke(row)}
+                      >
+                        {i18n('authSession.revoke.label')}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </ContentWrapper>
+    </>
+  );
+}
+
+export default AuthSessionPage;
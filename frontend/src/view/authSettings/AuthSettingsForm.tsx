@@ -0,0 +1,268 @@
+import { Button } from '@material-ui/core';
+import SaveIcon from '@material-ui/icons/Save';
+import React from 'react';
+import { useForm, FormProvider } from 'react-hook-form';
+import { i18n } from 'src/i18n';
+import Roles from 'src/security/roles';
+import InputFormItem from 'src/view/shared/form/items/InputFormItem';
+import SelectFormItem from 'src/view/shared/form/items/SelectFormItem';
+import SwitchFormItem from 'src/view/shared/form/items/SwitchFormItem';
+import TextAreaFormItem from 'src/view/shared/form/items/TextAreaFormItem';
+import FormWrapper, {
+  FormButtons,
+} from 'src/view/shared/styles/FormWrapper';
+
+/**
+ * Roles that can't be required a second factor.
+ */
+const TWO_FACTOR_EXEMPT_ROLES = ['visitor'];
+
+/**
+ * Roles self-registered users can never get.
+ */
+const SELF_REGISTRATION_FORBIDDEN_ROLES = ['admin'];
+
+/**
+ * The role mapping is edited as "value=role" lines.
+ */
+function roleMappingToText(roleMapping) {
+  return Object.keys(roleMapping || {})
+    .map((value) => `${value}=${roleMapping[value]}`)
+    .join('\n');
+}
+
+function roleMappingFromText(text) {
+  return String(text || '')
+    .split('\n')
+    .map((line) => line.split('='))
+    .filter(([value, role]) => value && role)
+    .reduce(
+      (roleMapping, [value, role]) => ({
+        ...roleMapping,
+        [value.trim()]: role.trim(),
+      }),
+      {},
+    );
+}
+
+/**
+ * The domain rules are edited as "domain=role,role" lines.
+ */
+function domainsToText(domains) {
+  return (domains || [])
+    .map((rule) => `${rule.domain}=${rule.roles.join(',')}`)
+    .join('\n');
+}
+
+function domainsFromText(text) {
+  return String(text || '')
+    .split('\n')
+    .map((line) => line.split('='))
+    .filter(([domain]) => domain && domain.trim())
+    .map(([domain, roles]) => ({
+      domain: domain.trim(),
+      roles: String(roles || '')
+        .split(',')
+        .map((role) => role.trim())
+        .filter(Boolean),
+    }));
+}
+
+function AuthSettingsForm(props) {
+  const form = useForm({
+    mode: 'all',
+    defaultValues: {
+      twoFactorRequiredRoles:
+        props.settings.twoFactorRequiredRoles,
+      oidcEnabled: Boolean(props.settings.oidcEnabled),
+      oidcLabel: props.settings.oidcLabel,
+      oidcIssuer: props.settings.oidcIssuer,
+      oidcClientId: props.settings.oidcClientId,
+      oidcClientSecret: '',
+      oidcRolesClaim: props.settings.oidcRolesClaim,
+      oidcRoleMapping: roleMappingToText(
+        props.settings.oidcRoleMapping,
+      ),
+      selfRegistrationEnabled: Boolean(
+        props.settings.selfRegistrationEnabled,
+      ),
+      selfRegistrationRoles:
+        props.settings.selfRegistrationRoles,
+      selfRegistrationDomains: domainsToText(
+        props.settings.selfRegistrationDomains,
+      ),
+      selfRegistrationAllowedDomainsOnly: Boolean(
+        props.settings.selfRegistrationAllowedDomainsOnly,
+      ),
+      selfRegistrationApprovalRequired: Boolean(
+        props.settings.selfRegistrationApprovalRequired,
+      ),
+    } as any,
+  });
+
+  const onSubmit = (values) => {
+    props.onSubmit({
+      ...values,
+      oidcRoleMapping: roleMappingFromText(
+        values.oidcRoleMapping,
+      ),
+      selfRegistrationRoles:
+        values.selfRegistrationRoles || [],
+      selfRegistrationDomains: domainsFromText(
+        values.selfRegistrationDomains,
+      ),
+    });
+  };
+
+  return (
+    <FormWrapper>
+      <FormProvider {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <SelectFormItem
+            name="twoFactorRequiredRoles"
+            label={i18n(
+              'authSettings.fields.twoFactorRequiredRoles',
+            )}
+            hint={i18n(
+              'authSettings.hints.twoFactorRequiredRoles',
+            )}
+            options={Object.keys(Roles.values)
+              .filter(
+                (role) =>
+                  !TWO_FACTOR_EXEMPT_ROLES.includes(role),
+              )
+              .map((role) => ({
+                value: role,
+                label: Roles.labelOf(role),
+              }))}
+            mode="multiple"
+          />
+
+          <SwitchFormItem
+            name="selfRegistrationEnabled"
+            label={i18n(
+              'authSettings.fields.selfRegistrationEnabled',
+            )}
+          />
+
+          <SelectFormItem
+            name="selfRegistrationRoles"
+            label={i18n(
+              'authSettings.fields.selfRegistrationRoles',
+            )}
+            options={Object.keys(Roles.values)
+              .filter(
+                (role) =>
+                  !SELF_REGISTRATION_FORBIDDEN_ROLES.includes(
+                    role,
+                  ),
+              )
+              .map((role) => ({
+                value: role,
+                label: Roles.labelOf(role),
+              }))}
+            mode="multiple"
+          />
+
+          <TextAreaFormItem
+            name="selfRegistrationDomains"
+            label={i18n(
+              'authSettings.fields.selfRegistrationDomains',
+            )}
+            hint={i18n(
+              'authSettings.hints.selfRegistrationDomains',
+            )}
+          />
+
+          <SwitchFormItem
+            name="selfRegistrationAllowedDomainsOnly"
+            label={i18n(
+              'authSettings.fields.selfRegistrationAllowedDomainsOnly',
+            )}
+          />
+
+          <SwitchFormItem
+            name="selfRegistrationApprovalRequired"
+            label={i18n(
+              'authSettings.fields.selfRegistrationApprovalRequired',
+            )}
+            hint={i18n(
+              'authSettings.hints.selfRegistrationApprovalRequired',
+            )}
+          />
+
+          <SwitchFormItem
+            name="oidcEnabled"
+            label={i18n('authSettings.fields.oidcEnabled')}
+          />
+
+          <InputFormItem
+            name="oidcLabel"
+            label={i18n('authSettings.fields.oidcLabel')}
+            hint={i18n('authSettings.hints.oidcLabel')}
+          />
+
+          <InputFormItem
+            name="oidcIssuer"
+            label={i18n('authSettings.fields.oidcIssuer')}
+            placeholder="https://login.example.com"
+          />
+
+          <InputFormItem
+            name="oidcClientId"
+            label={i18n('authSettings.fields.oidcClientId')}
+          />
+
+          <InputFormItem
+            name="oidcClientSecret"
+            label={i18n(
+              'authSettings.fields.oidcClientSecret',
+            )}
+            type="password"
+            autoComplete="new-password"
+            hint={
+              props.settings.hasOidcClientSecret
+                ? i18n(
+                    'authSettings.hints.oidcClientSecretKept',
+                  )
+                : undefined
+            }
+          />
+
+          <InputFormItem
+            name="oidcRolesClaim"
+            label={i18n(
+              'authSettings.fields.oidcRolesClaim',
+            )}
+            placeholder="roles"
+          />
+
+          <TextAreaFormItem
+            name="oidcRoleMapping"
+            label={i18n(
+              'authSettings.fields.oidcRoleMapping',
+            )}
+            hint={i18n(
+              'authSettings.hints.oidcRoleMapping',
+            )}
+          />
+
+          <FormButtons>
+            <Button
+              variant="contained"
+              color="primary"
+              disabled={props.saveLoading}
+              type="submit"
+              startIcon={<SaveIcon />}
+              size="small"
+            >
+              {i18n('common.save')}
+            </Button>
+          </FormButtons>
+        </form>
+      </FormProvider>
+    </FormWrapper>
+  );
+}
+
+export default AuthSettingsForm;
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { i18n } from 'src/i18n';
+import AuthSettingsService from 'src/modules/authSettings/authSettingsService';
+import Errors from 'src/modules/shared/error/errors';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import Spinner from 'src/view/shared/Spinner';
+import Message from 'src/view/shared/message';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+import AuthSettingsForm from 'src/view/authSettings/AuthSettingsForm';
+
+/**
+ * Authentication policy of the tenant.
+ */
+function AuthSettingsPage() {
+  const [settings, setSettings] = useState<any>(null);
+  const [saveLoading, setSaveLoading] = useState(false);
+
+  useEffect(() => {
+    AuthSettingsService.find()
+      .then(setSettings)
+      .catch((error) => Errors.handle(error));
+  }, []);
+
+  const doSubmit = async (values) => {
+    setSaveLoading(true);
+
+    try {
+      setSettings(
+        await AuthSettingsService.save({
+          ...values,
+          twoFactorRequiredRoles:
+            values.twoFactorRequiredRoles || [],
+        }),
+      );
+
+      Message.success(i18n('authSettings.save.success'));
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setSaveLoading(false);
+  };
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('authSettings.menu')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>{i18n('authSettings.title')}</PageTitle>
+
+        {!settings && <Spinner />}
+
+        {settings && (
+          <AuthSettingsForm
+            settings={settings}
+            saveLoading={saveLoading}
+            onSubmit={doSubmit}
+          />
+        )}
+      </ContentWrapper>
+    </>
+  );
+}
+
+export default AuthSettingsPage;
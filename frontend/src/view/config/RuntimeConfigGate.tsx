@@ -0,0 +1,109 @@
+import { Box, Button, Typography } from '@material-ui/core';
+import RefreshIcon from '@material-ui/icons/Refresh';
+import React, {
+  useCallback,
+  useEffect,
+  useState,
+} from 'react';
+import RuntimeConfig, {
+  RuntimeConfigError,
+} from 'src/config/runtimeConfig';
+import { i18n } from 'src/i18n';
+import Spinner from 'src/view/shared/Spinner';
+
+/**
+ * Renders the app once the configuration of the
+ * site is loaded, or why it couldn't be. It is mounted
+ * at the root, so nothing talks to the backend before.
+ *
+ * The optional onLoad runs once the configuration is
+ * loaded, before the children are rendered. Children can
+ * be a function, for apps only required after it. The
+ * entry renders it in place of the App, moving the steps
+ * that call the backend (tenant, social onboarding and
+ * theme) into onLoad:
+ *
+ *   ReactDOM.render(
+ *     <RuntimeConfigGate onLoad={bootstrap}>
+ *       {() => <App />}
+ *     </RuntimeConfigGate>,
+ *     document.getElementById('root'),
+ *   );
+ */
+function RuntimeConfigGate(props) {
+  const [loaded, setLoaded] = useState(false);
+  const [error, setError] = useState<any>(null);
+
+  const doLoad = useCallback(() => {
+    setError(null);
+
+    RuntimeConfig.load()
+      .then(() => props.onLoad && props.onLoad())
+      .then(() => setLoaded(true))
+      // The failure screen shows the cause
+      .catch(setError);
+  }, [props.onLoad]);
+
+  useEffect(() => {
+    doLoad();
+  }, [doLoad]);
+
+  if (loaded) {
+    return typeof props.children === 'function'
+      ? props.children()
+      : props.children;
+  }
+
+  if (!error) {
+    return <Spinner />;
+  }
+
+  const failure =
+    error instanceof RuntimeConfigError
+      ? error.failure
+      : 'configInvalid';
+
+  return (
+    <Box
+      display="flex"
+      flexDirection="column"
+      alignItems="center"
+      justifyContent="center"
+      minHeight="100vh"
+      padding={4}
+      textAlign="center"
+    >
+      <Typography variant="h5" gutterBottom>
+        {i18n('runtimeConfig.title')}
+      </Typography>
+
+      <Typography variant="body1" gutterBottom>
+        {i18n(`runtimeConfig.errors.${failure}`)}
+      </Typography>
+
+      {error.details &&
+        error.details.map((detail) => (
+          <Typography
+            key={detail}
+            variant="body2"
+            color="textSecondary"
+          >
+            {detail}
+          </Typography>
+        ))}
+
+      <Box marginTop={3}>
+        <Button
+          variant="contained"
+          color="primary"
+          startIcon={<RefreshIcon />}
+          onClick={doLoad}
+        >
+          {i18n('runtimeConfig.retry')}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+export default RuntimeConfigGate;
@@ -0,0 +1,650 @@
+import {
+  Box,
+  Button,
+  Checkbox,
+  FormControlLabel,
+  TextField,
+  Typography,
+} from '@material-ui/core';
+import CameraAltIcon from '@material-ui/icons/CameraAlt';
+import CheckCircleIcon from '@material-ui/icons/CheckCircle';
+import CropFreeIcon from '@material-ui/icons/CropFree';
+import SearchIcon from '@material-ui/icons/Search';
+import moment from 'moment';
+import React, {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+} from 'react';
+import { i18n } from 'src/i18n';
+import KioskService from 'src/modules/kiosk/kioskService';
+import KioskToken from 'src/modules/kiosk/kioskToken';
+import Errors from 'src/modules/shared/error/errors';
+import Spinner from 'src/view/shared/Spinner';
+
+const INACTIVITY_TIMEOUT = 60 * 1000;
+const DONE_TIMEOUT = 10 * 1000;
+
+/**
+ * The code can be typed, or scanned from the
+ * QR code of the invitation link.
+ */
+function invitationCodeOf(value) {
+  const trimmed = String(value || '').trim();
+  const match = trimmed.match(/[?&]token=([^&#]+)/);
+
+  return match ? decodeURIComponent(match[1]) : trimmed;
+}
+
+/**
+ * Self-service check in, full screen on a tablet at the
+ * reception. It's signed in with the device token, not an
+ * user, and goes back to the start when left idle so the
+ * next Visitor doesn't see the previous visit.
+ */
+function KioskPage() {
+  const [kiosk, setKiosk] = useState<any>(null);
+  const [hasToken, setHasToken] = useState(
+    Boolean(KioskToken.get()),
+  );
+
+  const [step, setStep] = useState('welcome');
+  const [visits, setVisits] = useState<Array<any>>([]);
+  const [visit, setVisit] = useState<any>(null);
+  const [email, setEmail] = useState('');
+  const [badge, setBadge] = useState('');
+  const [invitationCode, setInvitationCode] = useState('');
+  // The badge or invitation code proving the visit
+  const [proof, setProof] = useState<any>(null);
+  const [
+    siteRulesAccepted,
+    setSiteRulesAccepted,
+  ] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<
+    string | null
+  >(null);
+
+  const doReset = useCallback(() => {
+    setStep('welcome');
+    setVisits([]);
+    setVisit(null);
+    setEmail('');
+    setBadge('');
+    setInvitationCode('');
+    setProof(null);
+    setSiteRulesAccepted(false);
+    setErrorMessage(null);
+  }, []);
+
+  useEffect(() => {
+    if (!hasToken) {
+      return;
+    }
+
+    KioskService.find()
+      .then(setKiosk)
+      .catch((error) => {
+        // A revoked device must be set up again
+        if (
+          error.response &&
+          error.response.status === 403
+        ) {
+          KioskToken.clear();
+          setHasToken(false);
+          return;
+        }
+
+        setErrorMessage(Errors.selectMessage(error));
+      });
+  }, [hasToken]);
+
+  useEffect(() => {
+    if (step === 'welcome' && !errorMessage) {
+      return;
+    }
+
+    const timeout =
+      step === 'done' ? DONE_TIMEOUT : INACTIVITY_TIMEOUT;
+
+    let timer = setTimeout(doReset, timeout);
+
+    const onActivity = () => {
+      clearTimeout(timer);
+      timer = setTimeout(doReset, timeout);
+    };
+
+    window.addEventListener('pointerdown', onActivity);
+    window.addEventListener('keydown', onActivity);
+
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('pointerdown', onActivity);
+      window.removeEventListener('keydown', onActivity);
+    };
+  }, [step, errorMessage, doReset]);
+
+  const doCall = async (call) => {
+    setLoading(true);
+    setErrorMessage(null);
+
+    try {
+      await call();
+    } catch (error) {
+      setErrorMessage(Errors.selectMessage(error));
+    }
+
+    setLoading(false);
+  };
+
+  const doSelect = (selected, selectedProof) => {
+    setVisit(selected);
+    setProof(selectedProof);
+    setStep(selectedProof ? 'photo' : 'code');
+  };
+
+  const doLookup = (event) => {
+    event.preventDefault();
+
+    if (!email) {
+      return;
+    }
+
+    doCall(async () => {
+      const found = await KioskService.lookup(email);
+
+      if (!found.length) {
+        setErrorMessage(i18n('kiosk.lookup.notFound'));
+        return;
+      }
+
+      if (found.length === 1) {
+        doSelect(found[0], null);
+        return;
+      }
+
+      setVisits(found);
+      setStep('visits');
+    });
+  };
+
+  // QR scanners type the code followed by Enter
+  const doScan = (event) => {
+    event.preventDefault();
+
+    if (!badge) {
+      return;
+    }
+
+    const token = badge;
+    setBadge('');
+
+    doCall(async () => {
+      doSelect(await KioskService.scan(token), {
+        badgeToken: token,
+      });
+    });
+  };
+
+  // Checked with the photo or the check in
+  const doEnterCode = (event) => {
+    event.preventDefault();
+
+    if (!invitationCode) {
+      return;
+    }
+
+    setProof({
+      invitationCode: invitationCodeOf(invitationCode),
+    });
+    setInvitationCode('');
+    setStep('photo');
+  };
+
+  const doSavePhoto = (photo) => {
+    doCall(async () => {
+      await KioskService.savePhoto(visit.id, proof, photo);
+      setStep(kiosk.siteRules ? 'rules' : 'checkIn');
+    });
+  };
+
+  const doCheckIn = () => {
+    doCall(async () => {
+      setVisit(
+        await KioskService.checkIn(
+          visit.id,
+          proof,
+          siteRulesAccepted,
+        ),
+      );
+      setStep('done');
+    });
+  };
+
+  if (!hasToken) {
+    return (
+      <KioskSetup
+        onDone={() => {
+          setHasToken(true);
+          doReset();
+        }}
+      />
+    );
+  }
+
+  if (!kiosk) {
+    return errorMessage ? (
+      <KioskScreen>
+        <KioskError message={errorMessage} />
+      </KioskScreen>
+    ) : (
+      <Spinner />
+    );
+  }
+
+  const formatTime = (value) =>
+    moment(value).format('HH:mm');
+
+  return (
+    <KioskScreen>
+      <Typography variant="h3" gutterBottom>
+        {kiosk.tenantName}
+      </Typography>
+
+      {step === 'welcome' && (
+        <>
+          <Typography variant="h5" gutterBottom>
+            {i18n('kiosk.welcome.title')}
+          </Typography>
+
+          <form onSubmit={doScan} style={{ width: '100%' }}>
+            <TextField
+              value={badge}
+              onChange={(event) =>
+                setBadge(event.target.value)
+              }
+              label={i18n('kiosk.welcome.scan')}
+              variant="outlined"
+              margin="normal"
+              InputProps={{
+                startAdornment: <CropFreeIcon />,
+              }}
+              autoFocus
+              fullWidth
+            />
+          </form>
+
+          <Typography variant="h6">
+            {i18n('kiosk.welcome.or')}
+          </Typography>
+
+          <form
+            onSubmit={doLookup}
+            style={{ width: '100%' }}
+          >
+            <TextField
+              value={email}
+              onChange={(event) =>
+                setEmail(event.target.value)
+              }
+              label={i18n('kiosk.welcome.email')}
+              type="email"
+              variant="outlined"
+              margin="normal"
+              fullWidth
+            />
+
+            <KioskButton
+              type="submit"
+              disabled={loading || !email}
+              startIcon={<SearchIcon />}
+            >
+              {i18n('kiosk.welcome.find')}
+            </KioskButton>
+          </form>
+        </>
+      )}
+
+      {step === 'visits' && (
+        <>
+          <Typography variant="h5" gutterBottom>
+            {i18n('kiosk.visits.title')}
+          </Typography>
+
+          {visits.map((item) => (
+            <KioskButton
+              key={item.id}
+              variant="outlined"
+              onClick={() => doSelect(item, null)}
+            >
+              {formatTime(item.startTime)} -{' '}
+              {formatTime(item.endTime)}
+              {item.hostName ? `, ${item.hostName}` : ''}
+            </KioskButton>
+          ))}
+        </>
+      )}
+
+      {visit && step !== 'visits' && step !== 'done' && (
+        <Box mb={2} textAlign="center">
+          <Typography variant="h5">{visit.name}</Typography>
+          {visit.hostName && (
+            <Typography variant="body1">
+              {i18n('kiosk.visit.host', visit.hostName)}
+            </Typography>
+          )}
+          <Typography variant="body1">
+            {formatTime(visit.startTime)} -{' '}
+            {formatTime(visit.endTime)}
+          </Typography>
+        </Box>
+      )}
+
+      {step === 'code' && (
+        <form
+          onSubmit={doEnterCode}
+          style={{ width: '100%' }}
+        >
+          <Typography variant="h6" gutterBottom>
+            {i18n('kiosk.code.title')}
+          </Typography>
+
+          <TextField
+            value={invitationCode}
+            onChange={(event) =>
+              setInvitationCode(event.target.value)
+            }
+            label={i18n('kiosk.code.label')}
+            variant="outlined"
+            margin="normal"
+            autoFocus
+            fullWidth
+          />
+
+          <KioskButton
+            type="submit"
+            disabled={loading || !invitationCode}
+          >
+            {i18n('kiosk.code.button')}
+          </KioskButton>
+        </form>
+      )}
+
+      {step === 'photo' && (
+        <KioskCamera
+          disabled={loading}
+          onCapture={doSavePhoto}
+          onSkip={() =>
+            setStep(kiosk.siteRules ? 'rules' : 'checkIn')
+          }
+        />
+      )}
+
+      {step === 'rules' && (
+        <>
+          <Typography variant="h5" gutterBottom>
+            {i18n('kiosk.rules.title')}
+          </Typography>
+
+          <Box
+            width="100%"
+            maxHeight="40vh"
+            overflow="auto"
+            padding={2}
+            border="1px solid #e0e0e0"
+            style={{ whiteSpace: 'pre-wrap' }}
+          >
+            {kiosk.siteRules}
+          </Box>
+
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={siteRulesAccepted}
+                onChange={(event) =>
+                  setSiteRulesAccepted(event.target.checked)
+                }
+                color="primary"
+              />
+            }
+            label={i18n('kiosk.rules.accept')}
+          />
+
+          <KioskButton
+            disabled={loading || !siteRulesAccepted}
+            onClick={doCheckIn}
+          >
+            {i18n('kiosk.checkIn.button')}
+          </KioskButton>
+        </>
+      )}
+
+      {step === 'checkIn' && (
+        <KioskButton disabled={loading} onClick={doCheckIn}>
+          {i18n('kiosk.checkIn.button')}
+        </KioskButton>
+      )}
+
+      {step === 'done' && (
+        <>
+          <CheckCircleIcon
+            style={{ fontSize: 120, color: '#4caf50' }}
+          />
+          <Typography variant="h4" gutterBottom>
+            {i18n('kiosk.done.title', visit.name)}
+          </Typography>
+          <Typography variant="h6">
+            {i18n('kiosk.done.host')}
+          </Typography>
+        </>
+      )}
+
+      {loading && <Spinner />}
+
+      {errorMessage && (
+        <KioskError message={errorMessage} />
+      )}
+
+      {step !== 'welcome' && step !== 'done' && (
+        <KioskButton
+          variant="text"
+          color="default"
+          onClick={doReset}
+        >
+          {i18n('kiosk.restart')}
+        </KioskButton>
+      )}
+    </KioskScreen>
+  );
+}
+
+function KioskScreen(props) {
+  return (
+    <Box
+      display="flex"
+      flexDirection="column"
+      alignItems="center"
+      justifyContent="center"
+      minHeight="100vh"
+      maxWidth={720}
+      margin="0 auto"
+      padding={4}
+      textAlign="center"
+    >
+      {props.children}
+    </Box>
+  );
+}
+
+function KioskButton(props) {
+  return (
+    <Box mt={2} width="100%">
+      <Button
+        variant="contained"
+        color="primary"
+        size="large"
+        fullWidth
+        style={{ minHeight: 72, fontSize: 22 }}
+        {...props}
+      />
+    </Box>
+  );
+}
+
+function KioskError(props) {
+  return (
+    <Box mt={2}>
+      <Typography variant="h6" color="error">
+        {props.message}
+      </Typography>
+    </Box>
+  );
+}
+
+/**
+ * Entered once by an administrator, from
+ * the kiosk devices of the tenant.
+ */
+function KioskSetup(props) {
+  const [token, setToken] = useState('');
+
+  const doSave = (event) => {
+    event.preventDefault();
+
+    if (!token.trim()) {
+      return;
+    }
+
+    KioskToken.set(token.trim());
+    props.onDone();
+  };
+
+  return (
+    <KioskScreen>
+      <Typography variant="h4" gutterBottom>
+        {i18n('kiosk.setup.title')}
+      </Typography>
+
+      <form onSubmit={doSave} style={{ width: '100%' }}>
+        <TextField
+          value={token}
+          onChange={(event) => setToken(event.target.value)}
+          label={i18n('kiosk.setup.token')}
+          variant="outlined"
+          margin="normal"
+          autoFocus
+          fullWidth
+        />
+
+        <KioskButton type="submit" disabled={!token}>
+          {i18n('kiosk.setup.button')}
+        </KioskButton>
+      </form>
+    </KioskScreen>
+  );
+}
+
+/**
+ * Camera inline, as the kiosk has no other way to
+ * take the photo.
+ */
+function KioskCamera(props) {
+  const { disabled, onCapture, onSkip } = props;
+
+  const video = useRef<HTMLVideoElement>(null);
+  const [ready, setReady] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'user' } })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream
+            .getTracks()
+            .forEach((track) => track.stop());
+          return;
+        }
+
+        stream = mediaStream;
+
+        if (video.current) {
+          video.current.srcObject = mediaStream;
+          video.current.play();
+          setReady(true);
+        }
+      })
+      .catch(() => setFailed(true));
+
+    return () => {
+      cancelled = true;
+
+      if (stream) {
+        stream.getTracks().forEach((track) => track.stop());
+      }
+    };
+  }, []);
+
+  const doCapture = () => {
+    const element = video.current;
+
+    if (!element) {
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = element.videoWidth;
+    canvas.height = element.videoHeight;
+
+    const context = canvas.getContext('2d');
+
+    if (!context) {
+      return;
+    }
+
+    context.drawImage(element, 0, 0);
+    onCapture(canvas.toDataURL('image/jpeg', 0.9));
+  };
+
+  // The reception can take the photo later
+  if (failed) {
+    return (
+      <>
+        <KioskError
+          message={i18n(
+            'entities.visitor.photo.errors.camera',
+          )}
+        />
+
+        <KioskButton onClick={onSkip}>
+          {i18n('kiosk.photo.skip')}
+        </KioskButton>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <video
+        ref={video}
+        style={{ width: '100%', maxHeight: '50vh' }}
+        muted
+        playsInline
+      />
+
+      <KioskButton
+        disabled={disabled || !ready}
+        startIcon={<CameraAltIcon />}
+        onClick={doCapture}
+      >
+        {i18n('kiosk.photo.take')}
+      </KioskButton>
+    </>
+  );
+}
+
+export default KioskPage;
@@ -0,0 +1,273 @@
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+} from '@material-ui/core';
+import AddIcon from '@material-ui/icons/Add';
+import BlockIcon from '@material-ui/icons/Block';
+import moment from 'moment';
+import React, {
+  useCallback,
+  useEffect,
+  useState,
+} from 'react';
+import { i18n } from 'src/i18n';
+import KioskDeviceService from 'src/modules/kioskDevice/kioskDeviceService';
+import Errors from 'src/modules/shared/error/errors';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import Spinner from 'src/view/shared/Spinner';
+import Message from 'src/view/shared/message';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+
+/**
+ * Kiosk devices of the tenant. The token of a new device
+ * is shown once, to be entered on the kiosk.
+ */
+function KioskDevicePage() {
+  const [rows, setRows] = useState<Array<any>>([]);
+  const [loading, setLoading] = useState(false);
+  const [saveLoading, setSaveLoading] = useState(false);
+  const [revokingId, setRevokingId] = useState(null);
+
+  const [name, setName] = useState('');
+  const [siteRules, setSiteRules] = useState('');
+  const [created, setCreated] = useState<any>(null);
+
+  const doFetch = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      setRows(await KioskDeviceService.list());
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    doFetch();
+  }, [doFetch]);
+
+  const doCreate = async (event) => {
+    event.preventDefault();
+
+    setSaveLoading(true);
+
+    try {
+      setCreated(
+        await KioskDeviceService.create({
+          name,
+          siteRules,
+        }),
+      );
+
+      setName('');
+      setSiteRules('');
+
+      doFetch();
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setSaveLoading(false);
+  };
+
+  const doRevoke = async (id) => {
+    setRevokingId(id);
+
+    try {
+      await KioskDeviceService.revoke(id);
+
+      Message.success(i18n('kioskDevice.revoke.success'));
+
+      doFetch();
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setRevokingId(null);
+  };
+
+  const formatDate = (value) =>
+    value ? moment(value).format('YYYY-MM-DD HH:mm') : null;
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('kioskDevice.menu')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>{i18n('kioskDevice.title')}</PageTitle>
+
+        <form onSubmit={doCreate}>
+          <TextField
+            value={name}
+            onChange={(event) =>
+              setName(event.target.value)
+            }
+            label={i18n('kioskDevice.fields.name')}
+            variant="outlined"
+            size="small"
+            margin="dense"
+            fullWidth
+          />
+
+          <TextField
+            value={siteRules}
+            onChange={(event) =>
+              setSiteRules(event.target.value)
+            }
+            label={i18n('kioskDevice.fields.siteRules')}
+            helperText={i18n('kioskDevice.hints.siteRules')}
+            variant="outlined"
+            size="small"
+            margin="dense"
+            multiline
+            rows={4}
+            fullWidth
+          />
+
+          <Box mt={1} mb={3}>
+            <Button
+              variant="contained"
+              color="primary"
+              type="submit"
+              size="small"
+              disabled={saveLoading || !name}
+              startIcon={<AddIcon />}
+            >
+              {i18n('kioskDevice.create.label')}
+            </Button>
+          </Box>
+        </form>
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  {i18n('kioskDevice.fields.name')}
+                </TableCell>
+                <TableCell>
+                  {i18n('kioskDevice.fields.lastSeenAt')}
+                </TableCell>
+                <TableCell>
+                  {i18n('kioskDevice.fields.createdAt')}
+                </TableCell>
+                <TableCell>
+                  {i18n('kioskDevice.fields.revokedAt')}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <Spinner />
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading && !rows.length && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <div
+                      style={{
+                        display: 'flex',
+                        justifyContent: 'center',
+                      }}
+                    >
+                      {i18n('table.noData')}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading &&
+                rows.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell>{row.name}</TableCell>
+                    <TableCell>
+                      {formatDate(row.lastSeenAt)}
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(row.createdAt)}
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(row.revokedAt)}
+                    </TableCell>
+                    <TableCell align="right">
+                      {!row.revokedAt && (
+                        <Button
+                          size="small"
+                          disabled={revokingId === row.id}
+                          startIcon={<BlockIcon />}
+                          onClick={() => doRevoke(row.id)}
+                        >
+                          {i18n('kioskDevice.revoke.label')}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      </ContentWrapper>
+
+      {created && (
+        <Dialog
+          open
+          onClose={() => setCreated(null)}
+          maxWidth="sm"
+          fullWidth
+        >
+          <DialogTitle>{created.name}</DialogTitle>
+          <DialogContent>
+            <p>{i18n('kioskDevice.create.tokenHint')}</p>
+            <TextField
+              value={created.token}
+              label={i18n('kioskDevice.fields.token')}
+              variant="outlined"
+              size="small"
+              InputProps={{ readOnly: true }}
+              onFocus={(event) => event.target.select()}
+              fullWidth
+            />
+            <p>
+              {i18n(
+                'kioskDevice.create.url',
+                `${window.location.origin}/kiosk`,
+              )}
+            </p>
+          </DialogContent>
+          <DialogActions>
+            <Button
+              color="primary"
+              onClick={() => setCreated(null)}
+            >
+              {i18n('common.close')}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      )}
+    </>
+  );
+}
+
+export default KioskDevicePage;
@@ -0,0 +1,240 @@
+import {
+  Button,
+  Tab,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  Tabs,
+} from '@material-ui/core';
+import ReplayIcon from '@material-ui/icons/Replay';
+import moment from 'moment';
+import React, {
+  useCallback,
+  useEffect,
+  useState,
+} from 'react';
+import { i18n } from 'src/i18n';
+import Errors from 'src/modules/shared/error/errors';
+import SdpProvisioningJobService from 'src/modules/sdpProvisioningJob/sdpProvisioningJobService';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import Spinner from 'src/view/shared/Spinner';
+import Message from 'src/view/shared/message';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+
+const PAGE_SIZE = 20;
+
+const VIEWS = ['upcoming', 'overdue', 'failed'];
+
+/**
+ * Upcoming, overdue and failed grants and
+ * revocations of access on the controller.
+ */
+function SdpProvisioningJobPage() {
+  const [view, setView] = useState('upcoming');
+  const [rows, setRows] = useState<Array<any>>([]);
+  const [count, setCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [retryingId, setRetryingId] = useState(null);
+
+  const doFetch = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const result = await SdpProvisioningJobService.list(
+        view,
+        PAGE_SIZE,
+        page * PAGE_SIZE,
+      );
+
+      setRows(result.rows);
+      setCount(result.count);
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  }, [view, page]);
+
+  useEffect(() => {
+    doFetch();
+  }, [doFetch]);
+
+  const doRetry = async (id) => {
+    setRetryingId(id);
+
+    try {
+      await SdpProvisioningJobService.retry(id);
+
+      Message.success(
+        i18n('sdpProvisioningJob.retry.success'),
+      );
+
+      doFetch();
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setRetryingId(null);
+  };
+
+  const formatDate = (value) =>
+    value ? moment(value).format('YYYY-MM-DD HH:mm') : null;
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('sdpProvisioningJob.menu')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>
+          {i18n('sdpProvisioningJob.title')}
+        </PageTitle>
+
+        <Tabs
+          value={view}
+          onChange={(event, value) => {
+            setView(value);
+            setPage(0);
+          }}
+          indicatorColor="primary"
+          textColor="primary"
+        >
+          {VIEWS.map((value) => (
+            <Tab
+              key={value}
+              value={value}
+              label={i18n(
+                `sdpProvisioningJob.views.${value}`,
+              )}
+            />
+          ))}
+        </Tabs>
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  {i18n('sdpProvisioningJob.fields.runAt')}
+                </TableCell>
+                <TableCell>
+                  {i18n('sdpProvisioningJob.fields.action')}
+                </TableCell>
+                <TableCell>
+                  {i18n(
+                    'sdpProvisioningJob.fields.visitor',
+                  )}
+                </TableCell>
+                <TableCell>
+                  {i18n(
+                    'sdpProvisioningJob.fields.visitWindow',
+                  )}
+                </TableCell>
+                {view === 'failed' && (
+                  <>
+                    <TableCell>
+                      {i18n(
+                        'sdpProvisioningJob.fields.lastError',
+                      )}
+                    </TableCell>
+                    <TableCell />
+                  </>
+                )}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <Spinner />
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading && !rows.length && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <div
+                      style={{
+                        display: 'flex',
+                        justifyContent: 'center',
+                      }}
+                    >
+                      {i18n('table.noData')}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading &&
+                rows.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      {formatDate(row.runAt)}
+                    </TableCell>
+                    <TableCell>
+                      {i18n(
+                        `sdpProvisioningJob.enumerators.action.${row.action}`,
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {row.visitor
+                        ? row.visitor.name
+                        : null}
+                    </TableCell>
+                    <TableCell>
+                      {row.visitor
+                        ? `${formatDate(
+                            row.visitor.startTime,
+                          )} - ${formatDate(
+                            row.visitor.endTime,
+                          )}`
+                        : null}
+                    </TableCell>
+                    {view === 'failed' && (
+                      <>
+                        <TableCell>
+                          {row.lastError}
+                        </TableCell>
+                        <TableCell align="right">
+                          <Button
+                            size="small"
+                            disabled={retryingId === row.id}
+                            startIcon={<ReplayIcon />}
+                            onClick={() => doRetry(row.id)}
+                          >
+                            {i18n(
+                              'sdpProvisioningJob.retry.label',
+                            )}
+                          </Button>
+                        </TableCell>
+                      </>
+                    )}
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <TablePagination
+          component="div"
+          count={count}
+          page={page}
+          rowsPerPage={PAGE_SIZE}
+          rowsPerPageOptions={[PAGE_SIZE]}
+          onChangePage={(event, value) => setPage(value)}
+        />
+      </ContentWrapper>
+    </>
+  );
+}
+
+export default SdpProvisioningJobPage;
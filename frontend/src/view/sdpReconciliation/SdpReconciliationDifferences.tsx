@@ -0,0 +1,103 @@
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@material-ui/core';
+import React from 'react';
+import { i18n } from 'src/i18n';
+
+function SdpReconciliationDifferences(props) {
+  const { record } = props;
+
+  const differences = record.differences || [];
+
+  const renderDetails = (difference) => {
+    if (difference.type === 'invalid') {
+      return difference.error;
+    }
+
+    if (difference.type !== 'mismatched') {
+      return null;
+    }
+
+    return difference.fields.map((field) => (
+      <div key={field.field}>
+        <strong>{field.field}</strong>:{' '}
+        {String(field.database)} ≠{' '}
+        {String(field.controller)}
+      </div>
+    ));
+  };
+
+  return (
+    <Box mt={4}>
+      <Typography variant="h6" gutterBottom>
+        {i18n('sdpReconciliation.differences.title')}
+      </Typography>
+
+      {record.error && (
+        <Typography color="error">
+          {record.error}
+        </Typography>
+      )}
+
+      {!record.error && !differences.length && (
+        <Typography>
+          {i18n('sdpReconciliation.differences.none')}
+        </Typography>
+      )}
+
+      {Boolean(differences.length) && (
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  {i18n(
+                    'sdpReconciliation.differences.type',
+                  )}
+                </TableCell>
+                <TableCell>
+                  {i18n(
+                    'sdpReconciliation.differences.visitor',
+                  )}
+                </TableCell>
+                <TableCell>
+                  {i18n(
+                    'sdpReconciliation.differences.details',
+                  )}
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {differences.map((difference) => (
+                <TableRow
+                  key={`${difference.type}-${difference.orId}`}
+                >
+                  <TableCell>
+                    {i18n(
+                      `sdpReconciliation.differences.types.${difference.type}`,
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {difference.name || difference.orId}
+                  </TableCell>
+                  <TableCell>
+                    {renderDetails(difference)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Box>
+  );
+}
+
+export default SdpReconciliationDifferences;
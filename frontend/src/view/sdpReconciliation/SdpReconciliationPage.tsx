@@ -0,0 +1,199 @@
+import {
+  Box,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@material-ui/core';
+import BuildIcon from '@material-ui/icons/Build';
+import SearchIcon from '@material-ui/icons/Search';
+import moment from 'moment';
+import React, { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { i18n } from 'src/i18n';
+import actions from 'src/modules/sdpReconciliation/sdpReconciliationActions';
+import selectors from 'src/modules/sdpReconciliation/sdpReconciliationSelectors';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import Spinner from 'src/view/shared/Spinner';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+import SdpReconciliationDifferences from 'src/view/sdpReconciliation/SdpReconciliationDifferences';
+
+function SdpReconciliationPage(props) {
+  const dispatch = useDispatch();
+
+  const rows = useSelector(selectors.selectRows);
+  const loading = useSelector(selectors.selectLoading);
+  const record = useSelector(selectors.selectRecord);
+  const findLoading = useSelector(
+    selectors.selectFindLoading,
+  );
+  const runLoading = useSelector(
+    selectors.selectRunLoading,
+  );
+
+  useEffect(() => {
+    dispatch(actions.doFetch());
+  }, [dispatch]);
+
+  const formatDate = (value) =>
+    value ? moment(value).format('YYYY-MM-DD HH:mm') : null;
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('sdpReconciliation.menu')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>
+          {i18n('sdpReconciliation.title')}
+        </PageTitle>
+
+        <Box display="flex" mb={2}>
+          <Box mr={1}>
+            <Button
+              variant="contained"
+              color="primary"
+              type="button"
+              disabled={runLoading}
+              onClick={() => dispatch(actions.doRun(false))}
+              startIcon={<SearchIcon />}
+              size="small"
+            >
+              {i18n('sdpReconciliation.run.report')}
+            </Button>
+          </Box>
+
+          <Button
+            variant="contained"
+            type="button"
+            disabled={runLoading}
+            onClick={() => dispatch(actions.doRun(true))}
+            startIcon={<BuildIcon />}
+            size="small"
+          >
+            {i18n('sdpReconciliation.run.fix')}
+          </Button>
+        </Box>
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  {i18n(
+                    'sdpReconciliation.fields.startedAt',
+                  )}
+                </TableCell>
+                <TableCell>
+                  {i18n('sdpReconciliation.fields.status')}
+                </TableCell>
+                <TableCell>
+                  {i18n('sdpReconciliation.fields.fix')}
+                </TableCell>
+                <TableCell align="right">
+                  {i18n(
+                    'sdpReconciliation.fields.missingCount',
+                  )}
+                </TableCell>
+                <TableCell align="right">
+                  {i18n(
+                    'sdpReconciliation.fields.orphanedCount',
+                  )}
+                </TableCell>
+                <TableCell align="right">
+                  {i18n(
+                    'sdpReconciliation.fields.mismatchedCount',
+                  )}
+                </TableCell>
+                <TableCell align="right">
+                  {i18n(
+                    'sdpReconciliation.fields.invalidCount',
+                  )}
+                </TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <Spinner />
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading && !rows.length && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <div
+                      style={{
+                        display: 'flex',
+                        justifyContent: 'center',
+                      }}
+                    >
+                      {i18n('table.noData')}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading &&
+                rows.map((row) => (
+                  <TableRow
+                    key={row.id}
+                    hover
+                    selected={Boolean(
+                      record && record.id === row.id,
+                    )}
+                    style={{ cursor: 'pointer' }}
+                    onClick={() =>
+                      dispatch(actions.doFind(row.id))
+                    }
+                  >
+                    <TableCell>
+                      {formatDate(row.startedAt)}
+                    </TableCell>
+                    <TableCell>
+                      {i18n(
+                        `sdpReconciliation.status.${row.status}`,
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {row.fix
+                        ? i18n('common.yes')
+                        : i18n('common.no')}
+                    </TableCell>
+                    <TableCell align="right">
+                      {row.missingCount}
+                    </TableCell>
+                    <TableCell align="right">
+                      {row.orphanedCount}
+                    </TableCell>
+                    <TableCell align="right">
+                      {row.mismatchedCount}
+                    </TableCell>
+                    <TableCell align="right">
+                      {row.invalidCount}
+                    </TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        {findLoading && <Spinner />}
+
+        {!findLoading && record && (
+          <SdpReconciliationDifferences record={record} />
+        )}
+      </ContentWrapper>
+    </>
+  );
+}
+
+export default SdpReconciliationPage;
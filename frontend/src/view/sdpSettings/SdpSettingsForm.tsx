@@ -0,0 +1,141 @@
+import { Button } from '@material-ui/core';
+import SaveIcon from '@material-ui/icons/Save';
+import UndoIcon from '@material-ui/icons/Undo';
+import { yupResolver } from '@hookform/resolvers';
+import React, { useState } from 'react';
+import { useForm, FormProvider } from 'react-hook-form';
+import { i18n } from 'src/i18n';
+import yupFormSchemas from 'src/modules/shared/yup/yupFormSchemas';
+import FormWrapper, {
+  FormButtons,
+} from 'src/view/shared/styles/FormWrapper';
+import InputFormItem from 'src/view/shared/form/items/InputFormItem';
+import SwitchFormItem from 'src/view/shared/form/items/SwitchFormItem';
+import * as yup from 'yup';
+
+const schema = yup.object().shape({
+  enabled: yupFormSchemas.boolean(
+    i18n('sdpSettings.fields.enabled'),
+  ),
+  url: yupFormSchemas
+    .string(i18n('sdpSettings.fields.url'), {
+      max: 255,
+    })
+    .matches(/^(wss?:\/\/.+)?$/, {
+      message: i18n('sdpSettings.errors.invalidUrl'),
+    }),
+  username: yupFormSchemas.string(
+    i18n('sdpSettings.fields.username'),
+    {
+      max: 255,
+    },
+  ),
+  password: yupFormSchemas.string(
+    i18n('sdpSettings.fields.password'),
+  ),
+  areaCode: yupFormSchemas.string(
+    i18n('sdpSettings.fields.areaCode'),
+    {
+      max: 255,
+    },
+  ),
+});
+
+function SdpSettingsForm(props) {
+  const [initialValues] = useState(() => {
+    const record = props.settings || {};
+
+    return {
+      enabled: Boolean(record.enabled),
+      url: record.url,
+      username: record.username,
+      password: '',
+      areaCode: record.areaCode,
+    };
+  });
+
+  const form = useForm({
+    resolver: yupResolver(schema),
+    mode: 'all',
+    defaultValues: initialValues as any,
+  });
+
+  const onSubmit = (values) => {
+    props.onSubmit(values);
+  };
+
+  const onReset = () => {
+    Object.keys(initialValues).forEach((key) => {
+      form.setValue(key, initialValues[key]);
+    });
+  };
+
+  return (
+    <FormWrapper>
+      <FormProvider {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <SwitchFormItem
+            name="enabled"
+            label={i18n('sdpSettings.fields.enabled')}
+          />
+
+          <InputFormItem
+            name="url"
+            label={i18n('sdpSettings.fields.url')}
+            placeholder="ws://controller:8686/swap"
+            autoFocus
+          />
+
+          <InputFormItem
+            name="username"
+            label={i18n('sdpSettings.fields.username')}
+          />
+
+          <InputFormItem
+            name="password"
+            label={i18n('sdpSettings.fields.password')}
+            type="password"
+            autoComplete="new-password"
+            hint={
+              props.settings && props.settings.hasPassword
+                ? i18n('sdpSettings.hints.passwordKept')
+                : undefined
+            }
+          />
+
+          <InputFormItem
+            name="areaCode"
+            label={i18n('sdpSettings.fields.areaCode')}
+            hint={i18n('sdpSettings.hints.areaCode')}
+          />
+
+          <FormButtons>
+            <Button
+              variant="contained"
+              color="primary"
+              disabled={props.saveLoading}
+              type="button"
+              onClick={form.handleSubmit(onSubmit)}
+              startIcon={<SaveIcon />}
+              size="small"
+            >
+              {i18n('common.save')}
+            </Button>
+
+            <Button
+              disabled={props.saveLoading}
+              onClick={onReset}
+              type="button"
+              startIcon={<UndoIcon />}
+              size="small"
+            >
+              {i18n('common.reset')}
+            </Button>
+          </FormButtons>
+        </form>
+      </FormProvider>
+    </FormWrapper>
+  );
+}
+
+export default SdpSettingsForm;
@@ -0,0 +1,57 @@
+import React, { useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { i18n } from 'src/i18n';
+import actions from 'src/modules/sdpSettings/sdpSettingsActions';
+import selectors from 'src/modules/sdpSettings/sdpSettingsSelectors';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import Spinner from 'src/view/shared/Spinner';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+import SdpSettingsForm from 'src/view/sdpSettings/SdpSettingsForm';
+
+function SdpSettingsPage(props) {
+  const dispatch = useDispatch();
+
+  const initLoading = useSelector(
+    selectors.selectInitLoading,
+  );
+  const saveLoading = useSelector(
+    selectors.selectSaveLoading,
+  );
+  const settings = useSelector(selectors.selectSettings);
+
+  useEffect(() => {
+    dispatch(actions.doInit());
+  }, [dispatch]);
+
+  const doSubmit = (values) => {
+    dispatch(actions.doSave(values));
+  };
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('sdpSettings.menu')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>{i18n('sdpSettings.title')}</PageTitle>
+
+        {initLoading && <Spinner />}
+
+        {!initLoading && settings && (
+          <SdpSettingsForm
+            settings={settings}
+            saveLoading={saveLoading}
+            onSubmit={doSubmit}
+          />
+        )}
+      </ContentWrapper>
+    </>
+  );
+}
+
+export default SdpSettingsPage;
@@ -0,0 +1,180 @@
+import {
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+} from '@material-ui/core';
+import LockOpenIcon from '@material-ui/icons/LockOpen';
+import moment from 'moment';
+import React, {
+  useCallback,
+  useEffect,
+  useState,
+} from 'react';
+import { i18n } from 'src/i18n';
+import Errors from 'src/modules/shared/error/errors';
+import SigninLockoutService from 'src/modules/signinLockout/signinLockoutService';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import Spinner from 'src/view/shared/Spinner';
+import Message from 'src/view/shared/message';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+
+const PAGE_SIZE = 20;
+
+/**
+ * Accounts of the tenant locked out after too
+ * many failed sign-ins, which admins can unlock.
+ */
+function SigninLockoutPage() {
+  const [rows, setRows] = useState<Array<any>>([]);
+  const [count, setCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [unlockingId, setUnlockingId] = useState(null);
+
+  const doFetch = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const result = await SigninLockoutService.list(
+        PAGE_SIZE,
+        page * PAGE_SIZE,
+      );
+
+      setRows(result.rows);
+      setCount(result.count);
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  }, [page]);
+
+  useEffect(() => {
+    doFetch();
+  }, [doFetch]);
+
+  const doUnlock = async (id) => {
+    setUnlockingId(id);
+
+    try {
+      await SigninLockoutService.unlock(id);
+
+      Message.success(i18n('signinLockout.unlock.success'));
+
+      doFetch();
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setUnlockingId(null);
+  };
+
+  const formatDate = (value) =>
+    value ? moment(value).format('YYYY-MM-DD HH:mm') : null;
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('signinLockout.menu')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>{i18n('signinLockout.title')}</PageTitle>
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  {i18n('signinLockout.fields.user')}
+                </TableCell>
+                <TableCell>
+                  {i18n('signinLockout.fields.failures')}
+                </TableCell>
+                <TableCell>
+                  {i18n(
+                    'signinLockout.fields.lastFailureAt',
+                  )}
+                </TableCell>
+                <TableCell>
+                  {i18n('signinLockout.fields.lockedUntil')}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <Spinner />
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading && !rows.length && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <div
+                      style={{
+                        display: 'flex',
+                        justifyContent: 'center',
+                      }}
+                    >
+                      {i18n('table.noData')}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading &&
+                rows.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      {row.user.fullName
+                        ? `${row.user.fullName} <${row.user.email}>`
+                        : row.user.email}
+                    </TableCell>
+                    <TableCell>{row.failures}</TableCell>
+                    <TableCell>
+                      {formatDate(row.lastFailureAt)}
+                    </TableCell>
+                    <TableCell>
+                      {formatDate(row.lockedUntil)}
+                    </TableCell>
+                    <TableCell align="right">
+                      <Button
+                        size="small"
+                        disabled={unlockingId === row.id}
+                        startIcon={<LockOpenIcon />}
+                        onClick={() => doUnlock(row.id)}
+                      >
+                        {i18n('signinLockout.unlock.label')}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <TablePagination
+          component="div"
+          count={count}
+          page={page}
+          rowsPerPage={PAGE_SIZE}
+          rowsPerPageOptions={[PAGE_SIZE]}
+          onChangePage={(event, value) => setPage(value)}
+        />
+      </ContentWrapper>
+    </>
+  );
+}
+
+export default SigninLockoutPage;
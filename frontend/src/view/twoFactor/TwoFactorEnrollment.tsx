@@ -0,0 +1,42 @@
+import { Box, Typography } from '@material-ui/core';
+import React from 'react';
+import { i18n } from 'src/i18n';
+
+/**
+ * QR code of a new secret, with the secret itself
+ * for apps that can't scan it.
+ */
+function TwoFactorEnrollment(props) {
+  const { enrollment } = props;
+
+  return (
+    <Box mb={2} textAlign="center">
+      <Typography variant="body2" gutterBottom>
+        {i18n('twoFactor.enrollment.scan')}
+      </Typography>
+
+      <img
+        src={enrollment.qrCode}
+        width="200px"
+        height="200px"
+        alt={i18n('twoFactor.enrollment.qrCode')}
+      />
+
+      <Typography variant="body2" gutterBottom>
+        {i18n('twoFactor.enrollment.manual')}
+      </Typography>
+
+      <Typography
+        variant="body2"
+        style={{
+          fontFamily: 'monospace',
+          wordBreak: 'break-all',
+        }}
+      >
+        {enrollment.secret}
+      </Typography>
+    </Box>
+  );
+}
+
+export default TwoFactorEnrollment;
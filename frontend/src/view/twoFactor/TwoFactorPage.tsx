@@ -0,0 +1,240 @@
+import {
+  Box,
+  Button,
+  TextField,
+  Typography,
+} from '@material-ui/core';
+import React, {
+  useCallback,
+  useEffect,
+  useState,
+} from 'react';
+import { i18n } from 'src/i18n';
+import Errors from 'src/modules/shared/error/errors';
+import TwoFactorService from 'src/modules/twoFactor/twoFactorService';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import Spinner from 'src/view/shared/Spinner';
+import Message from 'src/view/shared/message';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+import TwoFactorEnrollment from 'src/view/twoFactor/TwoFactorEnrollment';
+import TwoFactorRecoveryCodes from 'src/view/twoFactor/TwoFactorRecoveryCodes';
+
+/**
+ * Enrollment and management of the second
+ * factor of the current user.
+ */
+function TwoFactorPage() {
+  const [status, setStatus] = useState<any>(null);
+  const [enrollment, setEnrollment] = useState<any>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<Array<
+    string
+  > | null>(null);
+  const [code, setCode] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const doFetch = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      setStatus(await TwoFactorService.status());
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    doFetch();
+  }, [doFetch]);
+
+  const doAction = async (action, successMessage?) => {
+    setLoading(true);
+
+    try {
+      const result = await action();
+
+      setCode('');
+
+      if (result && result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+      }
+
+      if (successMessage) {
+        Message.success(successMessage);
+      }
+
+      return result;
+    } catch (error) {
+      Errors.handle(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const doEnroll = async () => {
+    setRecoveryCodes(null);
+
+    const result = await doAction(() =>
+      TwoFactorService.enroll(),
+    );
+
+    if (result) {
+      setEnrollment(result);
+    }
+  };
+
+  const doEnable = async () => {
+    const result = await doAction(
+      () => TwoFactorService.enable(code),
+      i18n('twoFactor.enable.success'),
+    );
+
+    if (result) {
+      setEnrollment(null);
+      doFetch();
+    }
+  };
+
+  const doDisable = async () => {
+    const result = await doAction(
+      () => TwoFactorService.disable(code),
+      i18n('twoFactor.disable.success'),
+    );
+
+    if (result) {
+      setRecoveryCodes(null);
+      doFetch();
+    }
+  };
+
+  const doRegenerate = async () => {
+    const result = await doAction(() =>
+      TwoFactorService.regenerateRecoveryCodes(code),
+    );
+
+    if (result) {
+      doFetch();
+    }
+  };
+
+  const codeField = (
+    <TextField
+      value={code}
+      onChange={(event) => setCode(event.target.value)}
+      label={i18n('twoFactor.code')}
+      autoComplete="one-time-code"
+      variant="outlined"
+      size="small"
+    />
+  );
+
+  const renderContent = () => {
+    if (enrollment) {
+      return (
+        <>
+          <TwoFactorEnrollment enrollment={enrollment} />
+
+          <Box display="flex" alignItems="center">
+            {codeField}
+
+            <Box ml={1}>
+              <Button
+                variant="contained"
+                color="primary"
+                disabled={loading || !code}
+                onClick={doEnable}
+              >
+                {i18n('twoFactor.enable.label')}
+              </Button>
+            </Box>
+          </Box>
+        </>
+      );
+    }
+
+    if (!status.enabled) {
+      return (
+        <>
+          <Typography variant="body2" gutterBottom>
+            {status.required
+              ? i18n('twoFactor.status.required')
+              : i18n('twoFactor.status.disabled')}
+          </Typography>
+
+          <Button
+            variant="contained"
+            color="primary"
+            disabled={loading}
+            onClick={doEnroll}
+          >
+            {i18n('twoFactor.enroll')}
+          </Button>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <Typography variant="body2" gutterBottom>
+          {i18n(
+            'twoFactor.status.enabled',
+            status.recoveryCodesLeft,
+          )}
+        </Typography>
+
+        <Box display="flex" alignItems="center">
+          {codeField}
+
+          <Box ml={1}>
+            <Button
+              disabled={loading || !code}
+              onClick={doRegenerate}
+            >
+              {i18n('twoFactor.recoveryCodes.regenerate')}
+            </Button>
+          </Box>
+
+          {!status.required && (
+            <Box ml={1}>
+              <Button
+                disabled={loading || !code}
+                onClick={doDisable}
+              >
+                {i18n('twoFactor.disable.label')}
+              </Button>
+            </Box>
+          )}
+        </Box>
+      </>
+    );
+  };
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('twoFactor.menu')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>{i18n('twoFactor.title')}</PageTitle>
+
+        {recoveryCodes && (
+          <TwoFactorRecoveryCodes
+            recoveryCodes={recoveryCodes}
+          />
+        )}
+
+        {!status && loading && <Spinner />}
+
+        {status && renderContent()}
+      </ContentWrapper>
+    </>
+  );
+}
+
+export default TwoFactorPage;
@@ -0,0 +1,28 @@
+import { Box, Typography } from '@material-ui/core';
+import React from 'react';
+import { i18n } from 'src/i18n';
+
+/**
+ * Recovery codes, shown once when they are generated.
+ */
+function TwoFactorRecoveryCodes(props) {
+  return (
+    <Box mb={2}>
+      <Typography variant="body2" gutterBottom>
+        {i18n('twoFactor.recoveryCodes.hint')}
+      </Typography>
+
+      <Box
+        display="grid"
+        gridTemplateColumns="1fr 1fr"
+        style={{ fontFamily: 'monospace' }}
+      >
+        {props.recoveryCodes.map((code) => (
+          <div key={code}>{code}</div>
+        ))}
+      </Box>
+    </Box>
+  );
+}
+
+export default TwoFactorRecoveryCodes;
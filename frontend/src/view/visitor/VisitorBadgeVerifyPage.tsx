@@ -0,0 +1,143 @@
+import {
+  Box,
+  Button,
+  Chip,
+  TextField,
+} from '@material-ui/core';
+import CropFreeIcon from '@material-ui/icons/CropFree';
+import moment from 'moment';
+import React, { useState } from 'react';
+import { i18n } from 'src/i18n';
+import VisitorBadgeService from 'src/modules/visitor/visitorBadgeService';
+import Errors from 'src/modules/shared/error/errors';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+
+/**
+ * Reception page that checks a scanned badge. QR scanners
+ * type the code followed by Enter, so it submits on Enter.
+ */
+function VisitorBadgeVerifyPage() {
+  const [token, setToken] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<any>(null);
+
+  const doVerify = async (event) => {
+    event.preventDefault();
+
+    if (!token) {
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      setResult(await VisitorBadgeService.verify(token));
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setToken('');
+    setLoading(false);
+  };
+
+  const formatDate = (value) =>
+    moment(value).format('YYYY-MM-DD HH:mm');
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('entities.visitor.menu'), '/visitor'],
+          [i18n('entities.visitor.badge.verify.title')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>
+          {i18n('entities.visitor.badge.verify.title')}
+        </PageTitle>
+
+        <form onSubmit={doVerify}>
+          <Box display="flex" alignItems="center">
+            <TextField
+              value={token}
+              onChange={(event) =>
+                setToken(event.target.value)
+              }
+              label={i18n(
+                'entities.visitor.badge.verify.token',
+              )}
+              variant="outlined"
+              size="small"
+              autoFocus
+              fullWidth
+            />
+
+            <Box ml={1}>
+              <Button
+                variant="contained"
+                color="primary"
+                type="submit"
+                disabled={loading}
+                startIcon={<CropFreeIcon />}
+              >
+                {i18n(
+                  'entities.visitor.badge.verify.button',
+                )}
+              </Button>
+            </Box>
+          </Box>
+        </form>
+
+        {result && (
+          <Box mt={3}>
+            <Chip
+              style={{
+                backgroundColor: result.valid
+                  ? '#4caf50'
+                  : '#f44336',
+                color: '#fff',
+              }}
+              label={
+                result.valid
+                  ? i18n(
+                      'entities.visitor.badge.verify.valid',
+                    )
+                  : i18n(
+                      `entities.visitor.badge.verify.reasons.${result.reason}`,
+                    )
+              }
+            />
+
+            {result.visitor && (
+              <Box mt={2}>
+                <h2>{result.visitor.name}</h2>
+                {result.visitor.company && (
+                  <div>{result.visitor.company}</div>
+                )}
+                <div>
+                  {i18n('entities.visitor.fields.host')}:{' '}
+                  {result.visitor.hostName}
+                </div>
+                <div>
+                  {formatDate(result.visitor.startTime)} -{' '}
+                  {formatDate(result.visitor.endTime)}
+                </div>
+                <div>
+                  {i18n(
+                    `entities.visitor.visitStatus.${result.visitor.visitStatus}`,
+                  )}
+                </div>
+              </Box>
+            )}
+          </Box>
+        )}
+      </ContentWrapper>
+    </>
+  );
+}
+
+export default VisitorBadgeVerifyPage;
@@ -0,0 +1,247 @@
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+} from '@material-ui/core';
+import CameraAltIcon from '@material-ui/icons/CameraAlt';
+import CloudUploadIcon from '@material-ui/icons/CloudUpload';
+import React, { useEffect, useRef, useState } from 'react';
+import { i18n } from 'src/i18n';
+import VisitorPhotoService from 'src/modules/visitor/visitorPhotoService';
+import Errors from 'src/modules/shared/error/errors';
+import Message from 'src/view/shared/message';
+
+const MAX_PHOTO_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Photo of the Visitor, uploaded from a file or captured
+ * with the webcam. It's saved right away, and the backend
+ * crops it for the face-recognition terminals.
+ */
+function VisitorPhotoField(props) {
+  const { record, onChange } = props;
+
+  const [loading, setLoading] = useState(false);
+  const [cameraOpen, setCameraOpen] = useState(false);
+
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const doSave = async (photo) => {
+    setLoading(true);
+
+    try {
+      const updated = await VisitorPhotoService.save(
+        record.id,
+        photo,
+      );
+
+      Message.success(
+        i18n('entities.visitor.photo.success'),
+      );
+
+      if (onChange) {
+        onChange(updated);
+      }
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  };
+
+  const onFileChange = (event) => {
+    const file = event.target.files[0];
+    event.target.value = '';
+
+    if (!file) {
+      return;
+    }
+
+    if (!['image/jpeg', 'image/png'].includes(file.type)) {
+      Message.error(
+        i18n('entities.visitor.photo.errors.invalid'),
+      );
+      return;
+    }
+
+    if (file.size > MAX_PHOTO_SIZE) {
+      Message.error(
+        i18n('entities.visitor.photo.errors.tooLarge'),
+      );
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => doSave(reader.result);
+    reader.readAsDataURL(file);
+  };
+
+  const onCapture = (photo) => {
+    setCameraOpen(false);
+    doSave(photo);
+  };
+
+  return (
+    <Box display="flex" alignItems="flex-end">
+      <Box
+        width={120}
+        height={160}
+        bgcolor="#eeeeee"
+        display="flex"
+        alignItems="center"
+        justifyContent="center"
+      >
+        {record.photoUrl ? (
+          <img
+            src={record.photoUrl}
+            width={120}
+            height={160}
+            alt={record.name}
+          />
+        ) : (
+          <CameraAltIcon color="disabled" />
+        )}
+      </Box>
+
+      <Box ml={2}>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="image/jpeg,image/png"
+          style={{ display: 'none' }}
+          onChange={onFileChange}
+        />
+
+        <Button
+          size="small"
+          disabled={loading}
+          startIcon={<CloudUploadIcon />}
+          onClick={() =>
+            fileInput.current && fileInput.current.click()
+          }
+        >
+          {i18n('entities.visitor.photo.upload')}
+        </Button>
+
+        <Box mt={1}>
+          <Button
+            size="small"
+            disabled={loading}
+            startIcon={<CameraAltIcon />}
+            onClick={() => setCameraOpen(true)}
+          >
+            {i18n('entities.visitor.photo.capture')}
+          </Button>
+        </Box>
+      </Box>
+
+      {cameraOpen && (
+        <VisitorPhotoCamera
+          onCapture={onCapture}
+          onClose={() => setCameraOpen(false)}
+        />
+      )}
+    </Box>
+  );
+}
+
+function VisitorPhotoCamera(props) {
+  const { onCapture, onClose } = props;
+
+  const video = useRef<HTMLVideoElement>(null);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'user' } })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream
+            .getTracks()
+            .forEach((track) => track.stop());
+          return;
+        }
+
+        stream = mediaStream;
+
+        if (video.current) {
+          video.current.srcObject = mediaStream;
+          video.current.play();
+          setReady(true);
+        }
+      })
+      .catch(() => {
+        Message.error(
+          i18n('entities.visitor.photo.errors.camera'),
+        );
+        onClose();
+      });
+
+    return () => {
+      cancelled = true;
+
+      if (stream) {
+        stream.getTracks().forEach((track) => track.stop());
+      }
+    };
+    // Opens the camera once, whatever onClose is
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const doCapture = () => {
+    const element = video.current;
+
+    if (!element) {
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = element.videoWidth;
+    canvas.height = element.videoHeight;
+
+    const context = canvas.getContext('2d');
+
+    if (!context) {
+      return;
+    }
+
+    context.drawImage(element, 0, 0);
+    onCapture(canvas.toDataURL('image/jpeg', 0.9));
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogContent>
+        <video
+          ref={video}
+          style={{ width: '100%' }}
+          muted
+          playsInline
+        />
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose}>
+          {i18n('common.cancel')}
+        </Button>
+
+        <Button
+          color="primary"
+          variant="contained"
+          disabled={!ready}
+          startIcon={<CameraAltIcon />}
+          onClick={doCapture}
+        >
+          {i18n('entities.visitor.photo.take')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+export default VisitorPhotoField;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Chip, Tooltip } from '@material-ui/core';
+import { i18n } from 'src/i18n';
+
+const colors: {
+  [status: string]: 'default' | 'primary' | 'secondary';
+} = {
+  synced: 'primary',
+  failed: 'secondary',
+  blocked: 'secondary',
+};
+
+/**
+ * Access controller sync status of a Visitor,
+ * with the last error as tooltip.
+ */
+function VisitorSdpSyncStatus(props) {
+  const { value } = props;
+
+  if (!value) {
+    return null;
+  }
+
+  const chip = (
+    <Chip
+      size="small"
+      label={i18n(
+        `entities.visitor.sdpSync.${value.status}`,
+      )}
+      color={colors[value.status] || 'default'}
+    />
+  );
+
+  if (!value.lastError) {
+    return chip;
+  }
+
+  return <Tooltip title={value.lastError}>{chip}</Tooltip>;
+}
+
+export default VisitorSdpSyncStatus;
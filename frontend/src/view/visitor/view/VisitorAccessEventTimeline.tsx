@@ -0,0 +1,116 @@
+import {
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  Typography,
+} from '@material-ui/core';
+import BlockIcon from '@material-ui/icons/Block';
+import InputIcon from '@material-ui/icons/Input';
+import ExitToAppIcon from '@material-ui/icons/ExitToApp';
+import moment from 'moment';
+import React, { useEffect, useState } from 'react';
+import { i18n } from 'src/i18n';
+import VisitorAccessEventService from 'src/modules/visitor/visitorAccessEventService';
+import Errors from 'src/modules/shared/error/errors';
+import Spinner from 'src/view/shared/Spinner';
+
+/**
+ * Door passes of the Visitor reported
+ * by the access controller, newest first.
+ */
+function VisitorAccessEventTimeline(props) {
+  const { visitorId } = props;
+
+  const [loading, setLoading] = useState(false);
+  const [events, setEvents] = useState<Array<any>>([]);
+
+  useEffect(() => {
+    let active = true;
+
+    const doFetch = async () => {
+      setLoading(true);
+
+      try {
+        const rows = await VisitorAccessEventService.list(
+          visitorId,
+        );
+
+        if (active) {
+          setEvents(rows);
+        }
+      } catch (error) {
+        Errors.handle(error);
+      }
+
+      if (active) {
+        setLoading(false);
+      }
+    };
+
+    doFetch();
+
+    return () => {
+      active = false;
+    };
+  }, [visitorId]);
+
+  const renderIcon = (event) => {
+    if (event.result === 'denied') {
+      return <BlockIcon color="error" />;
+    }
+
+    if (event.direction === 'out') {
+      return <ExitToAppIcon />;
+    }
+
+    return <InputIcon color="primary" />;
+  };
+
+  return (
+    <>
+      <Typography variant="h6">
+        {i18n('entities.visitor.accessEvents.title')}
+      </Typography>
+
+      {loading && <Spinner />}
+
+      {!loading && !events.length && (
+        <Typography color="textSecondary">
+          {i18n('entities.visitor.accessEvents.empty')}
+        </Typography>
+      )}
+
+      {!loading && Boolean(events.length) && (
+        <List dense>
+          {events.map((event) => (
+            <ListItem key={event.id}>
+              <ListItemIcon>
+                {renderIcon(event)}
+              </ListItemIcon>
+              <ListItemText
+                primary={`${
+                  event.doorName || event.doorCode || ''
+                } · ${i18n(
+                  `entities.visitor.accessEvents.direction.${event.direction}`,
+                )} · ${i18n(
+                  `entities.visitor.accessEvents.result.${event.result}`,
+                )}`}
+                secondary={[
+                  moment(event.occurredAt).format(
+                    'YYYY-MM-DD HH:mm:ss',
+                  ),
+                  event.areaCode,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              />
+            </ListItem>
+          ))}
+        </List>
+      )}
+    </>
+  );
+}
+
+export default VisitorAccessEventTimeline;
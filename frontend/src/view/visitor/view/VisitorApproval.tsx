@@ -0,0 +1,125 @@
+import { Box, Button, TextField } from '@material-ui/core';
+import BlockIcon from '@material-ui/icons/Block';
+import CheckIcon from '@material-ui/icons/Check';
+import moment from 'moment';
+import React, { useState } from 'react';
+import { i18n } from 'src/i18n';
+import VisitorApprovalService from 'src/modules/visitor/visitorApprovalService';
+import Errors from 'src/modules/shared/error/errors';
+import Message from 'src/view/shared/message';
+
+/**
+ * Host answer to the visit requested by a
+ * self-registered Visitor, with an optional comment.
+ */
+function VisitorApproval(props) {
+  const { record, onChange } = props;
+
+  const [loading, setLoading] = useState(false);
+  const [comment, setComment] = useState('');
+
+  const visitStatus = record.visitStatus;
+
+  if (!visitStatus) {
+    return null;
+  }
+
+  const doDecide = async (action) => {
+    setLoading(true);
+
+    try {
+      const updated = await VisitorApprovalService[action](
+        record.id,
+        comment,
+      );
+
+      Message.success(
+        i18n(`entities.visitor.approval.${action}Success`),
+      );
+
+      setComment('');
+
+      if (onChange) {
+        onChange(updated);
+      }
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  };
+
+  if (visitStatus.status !== 'pendingApproval') {
+    if (!visitStatus.approvalComment) {
+      return null;
+    }
+
+    return (
+      <Box>
+        <small>
+          {i18n(
+            'entities.visitor.approval.comment',
+            visitStatus.approvalComment,
+          )}
+        </small>
+      </Box>
+    );
+  }
+
+  return (
+    <Box>
+      <small>
+        {i18n(
+          'entities.visitor.approval.expiresAt',
+          moment(visitStatus.approvalExpiresAt).format(
+            'YYYY-MM-DD HH:mm',
+          ),
+        )}
+      </small>
+
+      <Box mt={1}>
+        <TextField
+          label={i18n(
+            'entities.visitor.approval.fields.comment',
+          )}
+          value={comment}
+          onChange={(event) =>
+            setComment(event.target.value)
+          }
+          disabled={loading}
+          multiline
+          fullWidth
+          size="small"
+          variant="outlined"
+        />
+      </Box>
+
+      <Box mt={1} display="flex">
+        <Button
+          variant="contained"
+          color="primary"
+          size="small"
+          disabled={loading}
+          startIcon={<CheckIcon />}
+          onClick={() => doDecide('approve')}
+        >
+          {i18n('entities.visitor.approval.approve')}
+        </Button>
+
+        <Box ml={1}>
+          <Button
+            variant="contained"
+            size="small"
+            disabled={loading}
+            startIcon={<BlockIcon />}
+            onClick={() => doDecide('reject')}
+          >
+            {i18n('entities.visitor.approval.reject')}
+          </Button>
+        </Box>
+      </Box>
+    </Box>
+  );
+}
+
+export default VisitorApproval;
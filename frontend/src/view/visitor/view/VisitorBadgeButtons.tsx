@@ -0,0 +1,74 @@
+import { Box, Button } from '@material-ui/core';
+import ImageIcon from '@material-ui/icons/Image';
+import PrintIcon from '@material-ui/icons/Print';
+import React, { useState } from 'react';
+import { i18n } from 'src/i18n';
+import VisitorBadgeService from 'src/modules/visitor/visitorBadgeService';
+import Errors from 'src/modules/shared/error/errors';
+
+/**
+ * Opens the badge of the Visitor as PDF or PNG.
+ */
+function VisitorBadgeButtons(props) {
+  const { record } = props;
+
+  const [loading, setLoading] = useState(false);
+
+  const visitStatus = record.visitStatus || {
+    status: 'expected',
+  };
+
+  if (
+    ['checkedOut', 'noShow'].includes(visitStatus.status)
+  ) {
+    return null;
+  }
+
+  const doOpen = async (format) => {
+    setLoading(true);
+
+    try {
+      const blob = await VisitorBadgeService.download(
+        record.id,
+        format,
+      );
+
+      const url = window.URL.createObjectURL(blob);
+      window.open(url, '_blank');
+      setTimeout(
+        () => window.URL.revokeObjectURL(url),
+        60000,
+      );
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  };
+
+  return (
+    <Box display="flex">
+      <Button
+        size="small"
+        disabled={loading}
+        startIcon={<PrintIcon />}
+        onClick={() => doOpen('pdf')}
+      >
+        {i18n('entities.visitor.badge.pdf')}
+      </Button>
+
+      <Box ml={1}>
+        <Button
+          size="small"
+          disabled={loading}
+          startIcon={<ImageIcon />}
+          onClick={() => doOpen('png')}
+        >
+          {i18n('entities.visitor.badge.png')}
+        </Button>
+      </Box>
+    </Box>
+  );
+}
+
+export default VisitorBadgeButtons;
@@ -0,0 +1,114 @@
+import { Box, Button, Chip } from '@material-ui/core';
+import BlockIcon from '@material-ui/icons/Block';
+import CheckIcon from '@material-ui/icons/Check';
+import React, { useState } from 'react';
+import { i18n } from 'src/i18n';
+import VisitorScreeningService from 'src/modules/visitor/visitorScreeningService';
+import Errors from 'src/modules/shared/error/errors';
+import Message from 'src/view/shared/message';
+
+const COLORS = {
+  clear: 'default',
+  approved: 'primary',
+  flagged: 'secondary',
+  rejected: 'secondary',
+};
+
+/**
+ * Watchlist screening of the Visitor, with its matches
+ * and the actions of security on flagged Visitors.
+ */
+function VisitorScreening(props) {
+  const { record, onChange } = props;
+
+  const [loading, setLoading] = useState(false);
+
+  const screening = record.screening;
+
+  if (!screening) {
+    return null;
+  }
+
+  const doReview = async (action) => {
+    setLoading(true);
+
+    try {
+      const updated = await VisitorScreeningService[action](
+        record.id,
+      );
+
+      Message.success(
+        i18n(`entities.visitor.screening.${action}Success`),
+      );
+
+      if (onChange) {
+        onChange(updated);
+      }
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  };
+
+  return (
+    <Box>
+      <Box display="flex" alignItems="center">
+        <Chip
+          size="small"
+          color={COLORS[screening.status]}
+          label={i18n(
+            `entities.visitor.screening.status.${screening.status}`,
+          )}
+        />
+
+        {screening.status === 'flagged' && (
+          <>
+            <Box ml={1}>
+              <Button
+                variant="contained"
+                color="primary"
+                size="small"
+                disabled={loading}
+                startIcon={<CheckIcon />}
+                onClick={() => doReview('approve')}
+              >
+                {i18n('entities.visitor.screening.approve')}
+              </Button>
+            </Box>
+
+            <Box ml={1}>
+              <Button
+                variant="contained"
+                size="small"
+                disabled={loading}
+                startIcon={<BlockIcon />}
+                onClick={() => doReview('reject')}
+              >
+                {i18n('entities.visitor.screening.reject')}
+              </Button>
+            </Box>
+          </>
+        )}
+      </Box>
+
+      {screening.matches.map((match) => (
+        <Box key={match.entryId} mt={1}>
+          <small>
+            {i18n(
+              'entities.visitor.screening.match',
+              match.fields
+                .map((field) =>
+                  i18n(`entities.visitor.fields.${field}`),
+                )
+                .join(', '),
+              match.reason,
+            )}
+          </small>
+        </Box>
+      ))}
+    </Box>
+  );
+}
+
+export default VisitorScreening;
@@ -0,0 +1,116 @@
+import { Box, Button, Chip } from '@material-ui/core';
+import ExitToAppIcon from '@material-ui/icons/ExitToApp';
+import HowToRegIcon from '@material-ui/icons/HowToReg';
+import moment from 'moment';
+import React, { useState } from 'react';
+import { i18n } from 'src/i18n';
+import VisitorLifecycleService from 'src/modules/visitor/visitorLifecycleService';
+import Errors from 'src/modules/shared/error/errors';
+import Message from 'src/view/shared/message';
+import VisitorSdpSyncStatus from 'src/view/visitor/list/VisitorSdpSyncStatus';
+
+/**
+ * Visit status of the Visitor, with the
+ * check in and check out actions and the
+ * access controller sync status.
+ */
+function VisitorVisitStatus(props) {
+  const { record, onChange } = props;
+
+  const [loading, setLoading] = useState(false);
+
+  const visitStatus = record.visitStatus || {
+    status: 'expected',
+  };
+
+  const doTransition = async (action) => {
+    setLoading(true);
+
+    try {
+      const updated = await VisitorLifecycleService[action](
+        record.id,
+      );
+
+      Message.success(
+        i18n(
+          `entities.visitor.visitStatus.${action}Success`,
+        ),
+      );
+
+      if (onChange) {
+        onChange(updated);
+      }
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  };
+
+  const timestamp = {
+    pendingApproval: visitStatus.approvalRequestedAt,
+    rejected: visitStatus.rejectedAt,
+    expired: visitStatus.expiredAt,
+    expected: visitStatus.approvedAt,
+    checkedIn: visitStatus.checkedInAt,
+    onSite: visitStatus.onSiteAt,
+    checkedOut: visitStatus.checkedOutAt,
+    noShow: visitStatus.noShowAt,
+  }[visitStatus.status];
+
+  return (
+    <Box display="flex" alignItems="center">
+      <Chip
+        size="small"
+        label={`${i18n(
+          `entities.visitor.visitStatus.${visitStatus.status}`,
+        )}${
+          timestamp
+            ? ` · ${moment(timestamp).format(
+                'YYYY-MM-DD HH:mm',
+              )}`
+            : ''
+        }`}
+      />
+
+      <Box ml={1}>
+        <VisitorSdpSyncStatus value={record.sdpSync} />
+      </Box>
+
+      {visitStatus.status === 'expected' && (
+        <Box ml={1}>
+          <Button
+            variant="contained"
+            color="primary"
+            size="small"
+            disabled={loading}
+            startIcon={<HowToRegIcon />}
+            onClick={() => doTransition('checkIn')}
+          >
+            {i18n('entities.visitor.visitStatus.doCheckIn')}
+          </Button>
+        </Box>
+      )}
+
+      {['checkedIn', 'onSite'].includes(
+        visitStatus.status,
+      ) && (
+        <Box ml={1}>
+          <Button
+            variant="contained"
+            size="small"
+            disabled={loading}
+            startIcon={<ExitToAppIcon />}
+            onClick={() => doTransition('checkOut')}
+          >
+            {i18n(
+              'entities.visitor.visitStatus.doCheckOut',
+            )}
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+}
+
+export default VisitorVisitStatus;
@@ -0,0 +1,264 @@
+import {
+  Box,
+  Button,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+} from '@material-ui/core';
+import CheckIcon from '@material-ui/icons/Check';
+import CloudUploadIcon from '@material-ui/icons/CloudUpload';
+import React, { useRef, useState } from 'react';
+import { i18n } from 'src/i18n';
+import VisitorImportService from 'src/modules/visitorImport/visitorImportService';
+import Errors from 'src/modules/shared/error/errors';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import Spinner from 'src/view/shared/Spinner';
+import Message from 'src/view/shared/message';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+
+/**
+ * Bulk import of Visitors from a CSV or XLSX file.
+ * The file is validated first, and only imported
+ * after the report was reviewed.
+ */
+function VisitorImportPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<any>(null);
+  const [loading, setLoading] = useState(false);
+  const [imported, setImported] = useState(false);
+
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const onFileChange = async (event) => {
+    const selected = event.target.files[0];
+    event.target.value = '';
+
+    if (!selected) {
+      return;
+    }
+
+    setFile(selected);
+    setReport(null);
+    setImported(false);
+    setLoading(true);
+
+    try {
+      setReport(
+        await VisitorImportService.dryRun(selected),
+      );
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  };
+
+  const doImport = async () => {
+    setLoading(true);
+
+    try {
+      const result = await VisitorImportService.import(
+        file,
+      );
+
+      setReport(result);
+      setImported(true);
+
+      Message.success(
+        i18n(
+          'entities.visitor.importer.success',
+          result.importedCount,
+        ),
+      );
+
+      if (!result.provisioningScheduled) {
+        Message.error(
+          i18n(
+            'entities.visitor.importer.provisioningNotScheduled',
+          ),
+        );
+      }
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  };
+
+  const errorLabel = (error) => {
+    const field = error.field
+      ? i18n(`entities.visitor.fields.${error.field}`)
+      : null;
+
+    return i18n(
+      `entities.visitor.importer.errors.${error.code}`,
+      ...[field, ...(error.args || [])].filter(
+        (arg) => arg !== null,
+      ),
+    );
+  };
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('entities.visitor.menu'), '/visitor'],
+          [i18n('entities.visitor.importer.title')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>
+          {i18n('entities.visitor.importer.title')}
+        </PageTitle>
+
+        <p>{i18n('entities.visitor.importer.hint')}</p>
+
+        <Box display="flex" alignItems="center">
+          <input
+            ref={fileInput}
+            type="file"
+            accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            style={{ display: 'none' }}
+            onChange={onFileChange}
+          />
+
+          <Button
+            variant="contained"
+            size="small"
+            disabled={loading}
+            startIcon={<CloudUploadIcon />}
+            onClick={() =>
+              fileInput.current && fileInput.current.click()
+            }
+          >
+            {i18n('entities.visitor.importer.fileLabel')}
+          </Button>
+
+          {report && !imported && (
+            <Box ml={1}>
+              <Button
+                variant="contained"
+                color="primary"
+                size="small"
+                disabled={loading || !report.validCount}
+                startIcon={<CheckIcon />}
+                onClick={doImport}
+              >
+                {i18n(
+                  'entities.visitor.importer.import',
+                  report.validCount,
+                )}
+              </Button>
+            </Box>
+          )}
+        </Box>
+
+        {loading && <Spinner />}
+
+        {report && (
+          <Box mt={2}>
+            <Box display="flex" mb={1}>
+              <Chip
+                size="small"
+                label={i18n(
+                  'entities.visitor.importer.validCount',
+                  report.validCount,
+                )}
+              />
+              <Box ml={1}>
+                <Chip
+                  size="small"
+                  color={
+                    report.invalidCount
+                      ? 'secondary'
+                      : 'default'
+                  }
+                  label={i18n(
+                    'entities.visitor.importer.invalidCount',
+                    report.invalidCount,
+                  )}
+                />
+              </Box>
+              {imported && (
+                <Box ml={1}>
+                  <Chip
+                    size="small"
+                    color="primary"
+                    label={i18n(
+                      'entities.visitor.importer.importedCount',
+                      report.importedCount,
+                    )}
+                  />
+                </Box>
+              )}
+            </Box>
+
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>
+                      {i18n(
+                        'entities.visitor.importer.line',
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {i18n('entities.visitor.fields.name')}
+                    </TableCell>
+                    <TableCell>
+                      {i18n(
+                        'entities.visitor.fields.idNumber',
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {i18n(
+                        'entities.visitor.importer.errorsLabel',
+                      )}
+                    </TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {report.rows.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell>{row.row}</TableCell>
+                      <TableCell>{row.data.name}</TableCell>
+                      <TableCell>
+                        {row.data.idNumber}
+                      </TableCell>
+                      <TableCell>
+                        {row.errors.length ? (
+                          row.errors.map((error, index) => (
+                            <div
+                              key={index}
+                              style={{ color: 'red' }}
+                            >
+                              {errorLabel(error)}
+                            </div>
+                          ))
+                        ) : (
+                          <CheckIcon
+                            fontSize="small"
+                            color="primary"
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        )}
+      </ContentWrapper>
+    </>
+  );
+}
+
+export default VisitorImportPage;
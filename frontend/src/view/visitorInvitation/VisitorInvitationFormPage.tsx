@@ -0,0 +1,155 @@
+import { Button } from '@material-ui/core';
+import SendIcon from '@material-ui/icons/Send';
+import { yupResolver } from '@hookform/resolvers';
+import React, { useState } from 'react';
+import { useForm, FormProvider } from 'react-hook-form';
+import { i18n } from 'src/i18n';
+import VisitorInvitationService from 'src/modules/visitorInvitation/visitorInvitationService';
+import Errors from 'src/modules/shared/error/errors';
+import yupFormSchemas from 'src/modules/shared/yup/yupFormSchemas';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import DatePickerFormItem from 'src/view/shared/form/items/DatePickerFormItem';
+import InputFormItem from 'src/view/shared/form/items/InputFormItem';
+import TextAreaFormItem from 'src/view/shared/form/items/TextAreaFormItem';
+import Message from 'src/view/shared/message';
+import FormWrapper, {
+  FormButtons,
+} from 'src/view/shared/styles/FormWrapper';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+import * as yup from 'yup';
+
+const schema = yup.object().shape({
+  email: yupFormSchemas.email(
+    i18n('entities.visitorInvitation.fields.email'),
+    {
+      required: true,
+    },
+  ),
+  startTime: yupFormSchemas.datetime(
+    i18n('entities.visitorInvitation.fields.startTime'),
+    {
+      required: true,
+    },
+  ),
+  endTime: yupFormSchemas.datetime(
+    i18n('entities.visitorInvitation.fields.endTime'),
+    {
+      required: true,
+    },
+  ),
+  reason: yupFormSchemas.string(
+    i18n('entities.visitorInvitation.fields.reason'),
+  ),
+});
+
+function VisitorInvitationFormPage(props) {
+  const [saveLoading, setSaveLoading] = useState(false);
+
+  const [initialValues] = useState({
+    email: '',
+    startTime: null,
+    endTime: null,
+    reason: '',
+  });
+
+  const form = useForm({
+    resolver: yupResolver(schema),
+    mode: 'all',
+    defaultValues: initialValues as any,
+  });
+
+  const onSubmit = async (values) => {
+    setSaveLoading(true);
+
+    try {
+      await VisitorInvitationService.invite(values);
+
+      Message.success(
+        i18n('entities.visitorInvitation.create.success'),
+      );
+
+      form.reset(initialValues as any);
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setSaveLoading(false);
+  };
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('entities.visitor.menu'), '/visitor'],
+          [i18n('entities.visitorInvitation.create.title')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>
+          {i18n('entities.visitorInvitation.create.title')}
+        </PageTitle>
+
+        <FormWrapper>
+          <FormProvider {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)}>
+              <InputFormItem
+                name="email"
+                label={i18n(
+                  'entities.visitorInvitation.fields.email',
+                )}
+                required={true}
+                autoFocus
+              />
+
+              <DatePickerFormItem
+                name="startTime"
+                label={i18n(
+                  'entities.visitorInvitation.fields.startTime',
+                )}
+                required={true}
+                showTimeInput
+              />
+
+              <DatePickerFormItem
+                name="endTime"
+                label={i18n(
+                  'entities.visitorInvitation.fields.endTime',
+                )}
+                required={true}
+                showTimeInput
+              />
+
+              <TextAreaFormItem
+                name="reason"
+                label={i18n(
+                  'entities.visitorInvitation.fields.reason',
+                )}
+              />
+
+              <FormButtons>
+                <Button
+                  variant="contained"
+                  color="primary"
+                  disabled={saveLoading}
+                  type="button"
+                  onClick={form.handleSubmit(onSubmit)}
+                  startIcon={<SendIcon />}
+                  size="small"
+                >
+                  {i18n(
+                    'entities.visitorInvitation.create.send',
+                  )}
+                </Button>
+              </FormButtons>
+            </form>
+          </FormProvider>
+        </FormWrapper>
+      </ContentWrapper>
+    </>
+  );
+}
+
+export default VisitorInvitationFormPage;
@@ -0,0 +1,317 @@
+import { Button } from '@material-ui/core';
+import { yupResolver } from '@hookform/resolvers';
+import queryString from 'query-string';
+import React, { useEffect, useState } from 'react';
+import { useForm, FormProvider } from 'react-hook-form';
+import { useSelector } from 'react-redux';
+import { useLocation } from 'react-router-dom';
+import { i18n } from 'src/i18n';
+import selectors from 'src/modules/auth/authSelectors';
+import Errors from 'src/modules/shared/error/errors';
+import yupFormSchemas from 'src/modules/shared/yup/yupFormSchemas';
+import VisitorInvitationService from 'src/modules/visitorInvitation/visitorInvitationService';
+import Content from 'src/view/auth/styles/Content';
+import Logo from 'src/view/auth/styles/Logo';
+import Wrapper from 'src/view/auth/styles/Wrapper';
+import InputFormItem from 'src/view/shared/form/items/InputFormItem';
+import SelectFormItem from 'src/view/shared/form/items/SelectFormItem';
+import Spinner from 'src/view/shared/Spinner';
+import moment from 'moment';
+import * as yup from 'yup';
+
+const ID_TYPES = [
+  'idCard',
+  'passport',
+  'driverLicense',
+  'other',
+];
+
+const GENDERS = ['male', 'female'];
+
+const MAX_PHOTO_SIZE = 2 * 1024 * 1024;
+
+const schema = yup.object().shape({
+  name: yupFormSchemas.string(
+    i18n('entities.visitor.fields.name'),
+    {
+      required: true,
+      max: 255,
+    },
+  ),
+  idType: yupFormSchemas.enumerator(
+    i18n('entities.visitor.fields.idType'),
+    {
+      required: true,
+      options: ID_TYPES,
+    },
+  ),
+  idNumber: yupFormSchemas.string(
+    i18n('entities.visitor.fields.idNumber'),
+    {
+      required: true,
+      max: 255,
+    },
+  ),
+  gender: yupFormSchemas.enumerator(
+    i18n('entities.visitor.fields.gender'),
+    {
+      options: GENDERS,
+    },
+  ),
+  company: yupFormSchemas.string(
+    i18n('entities.visitor.fields.company'),
+    {
+      max: 255,
+    },
+  ),
+  phone: yupFormSchemas.string(
+    i18n('entities.visitor.fields.phone'),
+    {
+      max: 20,
+    },
+  ),
+});
+
+function VisitorRegistrationPage() {
+  const location = useLocation();
+  const token = queryString.parse(location.search).token;
+
+  const backgroundImageUrl = useSelector(
+    selectors.selectBackgroundImageUrl,
+  );
+  const logoUrl = useSelector(selectors.selectLogoUrl);
+
+  const [invitation, setInvitation] = useState<any>(null);
+  const [loading, setLoading] = useState(true);
+  const [saveLoading, setSaveLoading] = useState(false);
+  const [registered, setRegistered] = useState(false);
+  const [photo, setPhoto] = useState<string | null>(null);
+  const [photoError, setPhotoError] = useState<
+    string | null
+  >(null);
+
+  useEffect(() => {
+    const doFetch = async () => {
+      try {
+        setInvitation(
+          await VisitorInvitationService.findByToken(token),
+        );
+      } catch (error) {
+        Errors.handle(error);
+      }
+
+      setLoading(false);
+    };
+
+    doFetch();
+  }, [token]);
+
+  const [initialValues] = useState({
+    name: '',
+    idType: 'idCard',
+    idNumber: '',
+    gender: null,
+    company: '',
+    phone: '',
+  });
+
+  const form = useForm({
+    resolver: yupResolver(schema),
+    mode: 'all',
+    defaultValues: initialValues as any,
+  });
+
+  const onPhotoChange = (event) => {
+    const file = event.target.files[0];
+
+    setPhoto(null);
+    setPhotoError(null);
+
+    if (!file) {
+      return;
+    }
+
+    if (!['image/jpeg', 'image/png'].includes(file.type)) {
+      setPhotoError(
+        i18n('visitorRegistration.errors.photoInvalid'),
+      );
+      return;
+    }
+
+    if (file.size > MAX_PHOTO_SIZE) {
+      setPhotoError(
+        i18n('visitorRegistration.errors.photoTooLarge'),
+      );
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => setPhoto(reader.result as string);
+    reader.readAsDataURL(file);
+  };
+
+  const onSubmit = async (values) => {
+    setSaveLoading(true);
+
+    try {
+      await VisitorInvitationService.register(token, {
+        ...values,
+        photo,
+      });
+
+      setRegistered(true);
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setSaveLoading(false);
+  };
+
+  const renderBody = () => {
+    if (loading) {
+      return <Spinner />;
+    }
+
+    if (!invitation) {
+      return (
+        <p>
+          {i18n('visitorRegistration.invalidInvitation')}
+        </p>
+      );
+    }
+
+    if (registered) {
+      return <p>{i18n('visitorRegistration.success')}</p>;
+    }
+
+    return (
+      <>
+        <p>
+          {i18n(
+            'visitorRegistration.message',
+            invitation.hostName,
+            invitation.tenantName,
+            moment(invitation.startTime).format(
+              'YYYY-MM-DD HH:mm',
+            ),
+            moment(invitation.endTime).format(
+              'YYYY-MM-DD HH:mm',
+            ),
+          )}
+        </p>
+
+        <FormProvider {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <InputFormItem
+              name="name"
+              label={i18n('entities.visitor.fields.name')}
+              required={true}
+              autoFocus
+            />
+
+            <SelectFormItem
+              name="idType"
+              label={i18n('entities.visitor.fields.idType')}
+              options={ID_TYPES.map((value) => ({
+                value,
+                label: i18n(
+                  `entities.visitor.enumerators.idType.${value}`,
+                ),
+              }))}
+              required={true}
+            />
+
+            <InputFormItem
+              name="idNumber"
+              label={i18n(
+                'entities.visitor.fields.idNumber',
+              )}
+              required={true}
+            />
+
+            <SelectFormItem
+              name="gender"
+              label={i18n('entities.visitor.fields.gender')}
+              options={GENDERS.map((value) => ({
+                value,
+                label: i18n(
+                  `entities.visitor.enumerators.gender.${value}`,
+                ),
+              }))}
+            />
+
+            <InputFormItem
+              name="company"
+              label={i18n(
+                'entities.visitor.fields.company',
+              )}
+            />
+
+            <InputFormItem
+              name="phone"
+              label={i18n('entities.visitor.fields.phone')}
+              autoComplete="tel"
+            />
+
+            <div style={{ marginBottom: '16px' }}>
+              <label htmlFor="photo">
+                {i18n('entities.visitor.fields.photo')}
+              </label>
+              <input
+                id="photo"
+                type="file"
+                accept="image/jpeg,image/png"
+                onChange={onPhotoChange}
+                style={{ display: 'block' }}
+              />
+              {photoError && (
+                <small style={{ color: 'red' }}>
+                  {photoError}
+                </small>
+              )}
+            </div>
+
+            <Button
+              style={{ marginTop: '8px' }}
+              variant="contained"
+              color="primary"
+              type="submit"
+              fullWidth
+              disabled={saveLoading || Boolean(photoError)}
+            >
+              {i18n('visitorRegistration.submit')}
+            </Button>
+          </form>
+        </FormProvider>
+      </>
+    );
+  };
+
+  return (
+    <Wrapper
+      style={{
+        backgroundImage: `url(${
+          backgroundImageUrl || '/images/signin.jpg'
+        })`,
+      }}
+    >
+      <Content>
+        <Logo>
+          {logoUrl ? (
+            <img
+              src={logoUrl}
+              width="240px"
+              alt={i18n('app.title')}
+            />
+          ) : (
+            <h1>{i18n('app.title')}</h1>
+          )}
+        </Logo>
+
+        {renderBody()}
+      </Content>
+    </Wrapper>
+  );
+}
+
+export default VisitorRegistrationPage;
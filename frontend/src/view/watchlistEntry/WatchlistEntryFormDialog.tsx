@@ -0,0 +1,171 @@
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+} from '@material-ui/core';
+import SaveIcon from '@material-ui/icons/Save';
+import { yupResolver } from '@hookform/resolvers';
+import React, { useState } from 'react';
+import { useForm, FormProvider } from 'react-hook-form';
+import { i18n } from 'src/i18n';
+import yupFormSchemas from 'src/modules/shared/yup/yupFormSchemas';
+import DatePickerFormItem from 'src/view/shared/form/items/DatePickerFormItem';
+import InputFormItem from 'src/view/shared/form/items/InputFormItem';
+import SelectFormItem from 'src/view/shared/form/items/SelectFormItem';
+import TextAreaFormItem from 'src/view/shared/form/items/TextAreaFormItem';
+import * as yup from 'yup';
+
+const ID_TYPES = [
+  'idCard',
+  'passport',
+  'driverLicense',
+  'other',
+];
+
+const schema = yup.object().shape({
+  idType: yupFormSchemas.enumerator(
+    i18n('entities.watchlistEntry.fields.idType'),
+    {
+      options: ID_TYPES,
+    },
+  ),
+  idNumber: yupFormSchemas.string(
+    i18n('entities.watchlistEntry.fields.idNumber'),
+    {
+      max: 255,
+    },
+  ),
+  name: yupFormSchemas.string(
+    i18n('entities.watchlistEntry.fields.name'),
+    {
+      max: 255,
+    },
+  ),
+  phone: yupFormSchemas.string(
+    i18n('entities.watchlistEntry.fields.phone'),
+    {
+      max: 50,
+    },
+  ),
+  reason: yupFormSchemas.string(
+    i18n('entities.watchlistEntry.fields.reason'),
+    {
+      required: true,
+    },
+  ),
+  expiresAt: yupFormSchemas.datetime(
+    i18n('entities.watchlistEntry.fields.expiresAt'),
+  ),
+});
+
+function WatchlistEntryFormDialog(props) {
+  const { record, saveLoading, onSave, onClose } = props;
+
+  const [initialValues] = useState(() => {
+    const values = record || {};
+
+    return {
+      idType: values.idType || null,
+      idNumber: values.idNumber || '',
+      name: values.name || '',
+      phone: values.phone || '',
+      reason: values.reason || '',
+      expiresAt: values.expiresAt
+        ? new Date(values.expiresAt)
+        : null,
+    };
+  });
+
+  const form = useForm({
+    resolver: yupResolver(schema),
+    mode: 'all',
+    defaultValues: initialValues as any,
+  });
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>
+        {record
+          ? i18n('entities.watchlistEntry.edit.title')
+          : i18n('entities.watchlistEntry.new.title')}
+      </DialogTitle>
+
+      <FormProvider {...form}>
+        <form onSubmit={form.handleSubmit(onSave)}>
+          <DialogContent>
+            <SelectFormItem
+              name="idType"
+              label={i18n(
+                'entities.watchlistEntry.fields.idType',
+              )}
+              options={ID_TYPES.map((value) => ({
+                value,
+                label: i18n(
+                  `entities.visitor.enumerators.idType.${value}`,
+                ),
+              }))}
+            />
+
+            <InputFormItem
+              name="idNumber"
+              label={i18n(
+                'entities.watchlistEntry.fields.idNumber',
+              )}
+              autoFocus
+            />
+
+            <InputFormItem
+              name="name"
+              label={i18n(
+                'entities.watchlistEntry.fields.name',
+              )}
+            />
+
+            <InputFormItem
+              name="phone"
+              label={i18n(
+                'entities.watchlistEntry.fields.phone',
+              )}
+            />
+
+            <TextAreaFormItem
+              name="reason"
+              label={i18n(
+                'entities.watchlistEntry.fields.reason',
+              )}
+              required={true}
+            />
+
+            <DatePickerFormItem
+              name="expiresAt"
+              label={i18n(
+                'entities.watchlistEntry.fields.expiresAt',
+              )}
+              showTimeInput
+            />
+          </DialogContent>
+
+          <DialogActions>
+            <Button onClick={onClose}>
+              {i18n('common.cancel')}
+            </Button>
+
+            <Button
+              variant="contained"
+              color="primary"
+              type="submit"
+              disabled={saveLoading}
+              startIcon={<SaveIcon />}
+            >
+              {i18n('common.save')}
+            </Button>
+          </DialogActions>
+        </form>
+      </FormProvider>
+    </Dialog>
+  );
+}
+
+export default WatchlistEntryFormDialog;
@@ -0,0 +1,276 @@
+import {
+  Box,
+  Button,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TablePagination,
+  TableRow,
+  TextField,
+} from '@material-ui/core';
+import AddIcon from '@material-ui/icons/Add';
+import DeleteIcon from '@material-ui/icons/Delete';
+import EditIcon from '@material-ui/icons/Edit';
+import moment from 'moment';
+import React, {
+  useCallback,
+  useEffect,
+  useState,
+} from 'react';
+import { i18n } from 'src/i18n';
+import Errors from 'src/modules/shared/error/errors';
+import WatchlistEntryService from 'src/modules/watchlistEntry/watchlistEntryService';
+import ContentWrapper from 'src/view/layout/styles/ContentWrapper';
+import Breadcrumb from 'src/view/shared/Breadcrumb';
+import ConfirmModal from 'src/view/shared/modals/ConfirmModal';
+import Spinner from 'src/view/shared/Spinner';
+import Message from 'src/view/shared/message';
+import PageTitle from 'src/view/shared/styles/PageTitle';
+import WatchlistEntryFormDialog from 'src/view/watchlistEntry/WatchlistEntryFormDialog';
+
+const PAGE_SIZE = 10;
+
+function WatchlistEntryPage() {
+  const [rows, setRows] = useState<Array<any>>([]);
+  const [count, setCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [saveLoading, setSaveLoading] = useState(false);
+  const [editing, setEditing] = useState<any>(undefined);
+  const [destroyId, setDestroyId] = useState<any>(null);
+
+  const doFetch = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const result = await WatchlistEntryService.list(
+        search,
+        PAGE_SIZE,
+        page * PAGE_SIZE,
+      );
+
+      setRows(result.rows);
+      setCount(result.count);
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setLoading(false);
+  }, [search, page]);
+
+  useEffect(() => {
+    doFetch();
+  }, [doFetch]);
+
+  const doSave = async (values) => {
+    setSaveLoading(true);
+
+    try {
+      if (editing) {
+        await WatchlistEntryService.update(
+          editing.id,
+          values,
+        );
+      } else {
+        await WatchlistEntryService.create(values);
+      }
+
+      Message.success(
+        i18n('entities.watchlistEntry.save.success'),
+      );
+
+      setEditing(undefined);
+      doFetch();
+    } catch (error) {
+      Errors.handle(error);
+    }
+
+    setSaveLoading(false);
+  };
+
+  const doDestroy = async () => {
+    const id = destroyId;
+    setDestroyId(null);
+
+    try {
+      await WatchlistEntryService.destroyAll([id]);
+
+      Message.success(
+        i18n('entities.watchlistEntry.destroy.success'),
+      );
+
+      doFetch();
+    } catch (error) {
+      Errors.handle(error);
+    }
+  };
+
+  const formatDate = (value) =>
+    value ? moment(value).format('YYYY-MM-DD HH:mm') : null;
+
+  return (
+    <>
+      <Breadcrumb
+        items={[
+          [i18n('dashboard.menu'), '/'],
+          [i18n('entities.watchlistEntry.menu')],
+        ]}
+      />
+
+      <ContentWrapper>
+        <PageTitle>
+          {i18n('entities.watchlistEntry.list.title')}
+        </PageTitle>
+
+        <Box display="flex" alignItems="center" mb={2}>
+          <TextField
+            value={search}
+            onChange={(event) => {
+              setSearch(event.target.value);
+              setPage(0);
+            }}
+            label={i18n('entities.watchlistEntry.search')}
+            variant="outlined"
+            size="small"
+          />
+
+          <Box ml={1}>
+            <Button
+              variant="contained"
+              color="primary"
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => setEditing(null)}
+            >
+              {i18n('common.new')}
+            </Button>
+          </Box>
+        </Box>
+
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>
+                  {i18n(
+                    'entities.watchlistEntry.fields.idNumber',
+                  )}
+                </TableCell>
+                <TableCell>
+                  {i18n(
+                    'entities.watchlistEntry.fields.name',
+                  )}
+                </TableCell>
+                <TableCell>
+                  {i18n(
+                    'entities.watchlistEntry.fields.phone',
+                  )}
+                </TableCell>
+                <TableCell>
+                  {i18n(
+                    'entities.watchlistEntry.fields.reason',
+                  )}
+                </TableCell>
+                <TableCell>
+                  {i18n(
+                    'entities.watchlistEntry.fields.expiresAt',
+                  )}
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {loading && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <Spinner />
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading && !rows.length && (
+                <TableRow>
+                  <TableCell colSpan={100}>
+                    <div
+                      style={{
+                        display: 'flex',
+                        justifyContent: 'center',
+                      }}
+                    >
+                      {i18n('table.noData')}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              )}
+              {!loading &&
+                rows.map((row) => (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      {row.idType &&
+                        `${i18n(
+                          `entities.visitor.enumerators.idType.${row.idType}`,
+                        )} `}
+                      {row.idNumber}
+                    </TableCell>
+                    <TableCell>{row.name}</TableCell>
+                    <TableCell>{row.phone}</TableCell>
+                    <TableCell>{row.reason}</TableCell>
+                    <TableCell>
+                      {formatDate(row.expiresAt)}
+                    </TableCell>
+                    <TableCell align="right">
+                      <IconButton
+                        size="small"
+                        onClick={() => setEditing(row)}
+                      >
+                        <EditIcon />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        onClick={() => setDestroyId(row.id)}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    </TableCell>
+                  </TableRow>
+                ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+
+        <TablePagination
+          component="div"
+          count={count}
+          page={page}
+          rowsPerPage={PAGE_SIZE}
+          rowsPerPageOptions={[PAGE_SIZE]}
+          onChangePage={(event, value) => setPage(value)}
+        />
+      </ContentWrapper>
+
+      {editing !== undefined && (
+        <WatchlistEntryFormDialog
+          record={editing}
+          saveLoading={saveLoading}
+          onSave={doSave}
+          onClose={() => setEditing(undefined)}
+        />
+      )}
+
+      {destroyId && (
+        <ConfirmModal
+          title={i18n('common.areYouSure')}
+          onConfirm={doDestroy}
+          onClose={() => setDestroyId(null)}
+          okText={i18n('common.yes')}
+          cancelText={i18n('common.no')}
+        />
+      )}
+    </>
+  );
+}
+
+export default WatchlistEntryPage;